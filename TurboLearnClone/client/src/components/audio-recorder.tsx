@@ -0,0 +1,336 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { Mic, Pause, Play, Square, Upload, Trash2, RotateCcw } from "lucide-react";
+import { formatTimestamp } from "@shared/transcript";
+import {
+  createSession,
+  saveChunk,
+  listSessions,
+  loadRecording,
+  deleteSession,
+  type RecordingSession,
+} from "@/lib/recording-store";
+
+interface AudioRecorderProps {
+  onUpload: (file: File) => Promise<unknown>;
+  isUploading: boolean;
+}
+
+type RecorderState = 'idle' | 'recording' | 'paused' | 'preview';
+
+// Chunks are flushed to IndexedDB this often, which bounds what a crash can lose
+const CHUNK_INTERVAL_MS = 5000;
+// Speech-quality Opus: a 90-minute lecture stays under the transcription size limit
+const AUDIO_BITS_PER_SECOND = 32000;
+
+const PREFERRED_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus"];
+
+function pickMimeType(): string {
+  return PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) || "";
+}
+
+function extensionFor(mimeType: string): string {
+  if (mimeType.includes("mp4")) return "m4a";
+  if (mimeType.includes("ogg")) return "ogg";
+  return "webm";
+}
+
+export default function AudioRecorder({ onUpload, isUploading }: AudioRecorderProps) {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [preview, setPreview] = useState<{ session: RecordingSession; blob: Blob; url: string } | null>(null);
+  const [recoverable, setRecoverable] = useState<RecordingSession[]>([]);
+  const { toast } = useToast();
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const seqRef = useRef(0);
+  // Chunk writes are chained so they land in IndexedDB in order
+  const writesRef = useRef<Promise<void>>(Promise.resolve());
+  const accumulatedMsRef = useRef(0);
+  const resumedAtRef = useRef<number | null>(null);
+
+  const currentElapsed = () =>
+    accumulatedMsRef.current + (resumedAtRef.current !== null ? Date.now() - resumedAtRef.current : 0);
+
+  useEffect(() => {
+    listSessions().then(setRecoverable).catch(() => setRecoverable([]));
+    return () => releaseInputs();
+  }, []);
+
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const interval = setInterval(() => setElapsedMs(currentElapsed()), 250);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  useEffect(() => {
+    if (state !== 'recording' && state !== 'paused') return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [state]);
+
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url);
+    };
+  }, [preview]);
+
+  const releaseInputs = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setLevel(0);
+  };
+
+  const startLevelMeter = (stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Uint8Array(analyser.fftSize);
+    const tick = () => {
+      analyser.getByteTimeDomainData(samples);
+      let sumSquares = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const centered = (samples[i] - 128) / 128;
+        sumSquares += centered * centered;
+      }
+      // RMS of speech rarely passes 0.3, so scale it up to fill the meter
+      setLevel(Math.min(1, Math.sqrt(sumSquares / samples.length) * 3));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, {
+        ...(mimeType && { mimeType }),
+        audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+      });
+
+      const session: RecordingSession = {
+        id: crypto.randomUUID(),
+        mimeType: recorder.mimeType || mimeType || "audio/webm",
+        startedAt: Date.now(),
+        duration: 0,
+      };
+      await createSession(session);
+
+      seqRef.current = 0;
+      writesRef.current = Promise.resolve();
+      accumulatedMsRef.current = 0;
+      resumedAtRef.current = Date.now();
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        const seq = seqRef.current++;
+        const duration = currentElapsed();
+        writesRef.current = writesRef.current
+          .then(() => saveChunk(session.id, seq, event.data, duration))
+          .catch(() => {
+            toast({
+              title: "Backup paused ⚠️",
+              description: "Couldn't save part of the recording to this browser. Keep the tab open until you upload.",
+              variant: "destructive",
+            });
+          });
+      };
+      recorder.onstop = async () => {
+        releaseInputs();
+        await writesRef.current;
+        const finished = { ...session, duration: accumulatedMsRef.current };
+        await showPreview(finished);
+      };
+
+      recorder.start(CHUNK_INTERVAL_MS);
+      startLevelMeter(stream);
+      setElapsedMs(0);
+      setState('recording');
+    } catch (error) {
+      releaseInputs();
+      toast({
+        title: "Microphone unavailable 🎙️",
+        description: (error as Error).name === "NotAllowedError"
+          ? "Allow microphone access in your browser to record."
+          : "Couldn't start recording on this device.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const pauseRecording = () => {
+    recorderRef.current?.pause();
+    accumulatedMsRef.current = currentElapsed();
+    resumedAtRef.current = null;
+    setElapsedMs(accumulatedMsRef.current);
+    setState('paused');
+  };
+
+  const resumeRecording = () => {
+    recorderRef.current?.resume();
+    resumedAtRef.current = Date.now();
+    setState('recording');
+  };
+
+  const stopRecording = () => {
+    accumulatedMsRef.current = currentElapsed();
+    resumedAtRef.current = null;
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+  };
+
+  const showPreview = async (session: RecordingSession) => {
+    const blob = await loadRecording(session);
+    setPreview({ session, blob, url: URL.createObjectURL(blob) });
+    setElapsedMs(session.duration);
+    setRecoverable((sessions) => sessions.filter((candidate) => candidate.id !== session.id));
+    setState('preview');
+  };
+
+  const reset = () => {
+    setPreview(null);
+    setElapsedMs(0);
+    setState('idle');
+  };
+
+  const discard = async (sessionId: string) => {
+    await deleteSession(sessionId);
+    setRecoverable((sessions) => sessions.filter((session) => session.id !== sessionId));
+    if (preview?.session.id === sessionId) reset();
+  };
+
+  const upload = async () => {
+    if (!preview) return;
+    const recordedAt = new Date(preview.session.startedAt);
+    const file = new File(
+      [preview.blob],
+      `Lecture recording ${recordedAt.toLocaleDateString()} ${recordedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.${extensionFor(preview.session.mimeType)}`,
+      { type: preview.session.mimeType },
+    );
+
+    try {
+      await onUpload(file);
+      // Only drop the local backup once the server has the recording
+      await deleteSession(preview.session.id);
+      reset();
+    } catch {
+      // The caller reports the error; the recording stays in IndexedDB for another try
+    }
+  };
+
+  return (
+    <div className="bg-brainzy-light/50 rounded-xl p-4 space-y-4" data-testid="audio-recorder">
+      {state === 'idle' && recoverable.length > 0 && (
+        <div className="space-y-2">
+          {recoverable.map((session) => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between bg-brainzy-yellow/20 rounded-lg p-3 text-sm"
+              data-testid={`recoverable-recording-${session.id}`}
+            >
+              <span className="text-gray-700">
+                Unfinished recording from {new Date(session.startedAt).toLocaleString()} ({formatTimestamp(session.duration / 1000)})
+              </span>
+              <div className="flex space-x-2">
+                <Button size="sm" variant="outline" onClick={() => showPreview(session)} data-testid="button-recover-recording">
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Recover
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => discard(session.id)} data-testid="button-discard-recovered">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-4">
+        <div className="font-mono text-2xl text-gray-800 w-24" data-testid="recorder-duration">
+          {formatTimestamp(elapsedMs / 1000)}
+        </div>
+
+        <div className="flex-1">
+          {state === 'preview' && preview ? (
+            <audio controls src={preview.url} className="w-full" data-testid="recorder-preview" />
+          ) : (
+            <Progress value={level * 100} className="h-2" data-testid="recorder-level" />
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {state === 'idle' && (
+            <Button
+              onClick={startRecording}
+              className="bg-gradient-to-r from-brainzy-purple to-brainzy-lavender hover:shadow-lg"
+              data-testid="button-start-recording"
+            >
+              <Mic className="w-4 h-4 mr-2" />
+              Record
+            </Button>
+          )}
+          {state === 'recording' && (
+            <Button variant="outline" onClick={pauseRecording} data-testid="button-pause-recording">
+              <Pause className="w-4 h-4 mr-2" />
+              Pause
+            </Button>
+          )}
+          {state === 'paused' && (
+            <Button variant="outline" onClick={resumeRecording} data-testid="button-resume-recording">
+              <Play className="w-4 h-4 mr-2" />
+              Resume
+            </Button>
+          )}
+          {(state === 'recording' || state === 'paused') && (
+            <Button
+              onClick={stopRecording}
+              className="bg-red-100 hover:bg-red-200 text-red-600"
+              variant="outline"
+              data-testid="button-stop-recording"
+            >
+              <Square className="w-4 h-4 mr-2" />
+              Stop
+            </Button>
+          )}
+          {state === 'preview' && preview && (
+            <>
+              <Button variant="ghost" onClick={() => discard(preview.session.id)} disabled={isUploading} data-testid="button-discard-recording">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={upload}
+                disabled={isUploading}
+                className="bg-gradient-to-r from-brainzy-purple to-brainzy-lavender hover:shadow-lg"
+                data-testid="button-upload-recording"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {isUploading ? "Uploading..." : "Transcribe"}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {state === 'paused' && (
+        <p className="text-xs text-gray-500">Paused. Resume when the lecture continues.</p>
+      )}
+    </div>
+  );
+}
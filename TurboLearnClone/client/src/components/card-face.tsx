@@ -0,0 +1,34 @@
+import { cardFaces, clozeSegments, type CardFaceSource } from "@shared/flashcards";
+
+interface CardFaceProps {
+  card: CardFaceSource;
+  side: 'question' | 'answer';
+  className?: string;
+}
+
+// One side of a card as studied: reverse cards swap sides and cloze cards highlight the deletion being tested
+export default function CardFace({ card, side, className }: CardFaceProps) {
+  if (card.cardType !== 'cloze') {
+    const faces = cardFaces(card);
+    return <p className={`whitespace-pre-line ${className || ""}`}>{side === 'question' ? faces.front : faces.back}</p>;
+  }
+
+  return (
+    <div className={className}>
+      <p className="whitespace-pre-line" data-testid="text-cloze">
+        {clozeSegments(card.question, card.ordinal, side).map((segment, index) =>
+          segment.tested ? (
+            <span key={index} className="font-semibold text-brainzy-purple bg-brainzy-purple/10 rounded px-1">
+              {segment.text}
+            </span>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          ),
+        )}
+      </p>
+      {side === 'answer' && card.answer && (
+        <p className="text-sm text-gray-500 mt-2 whitespace-pre-line">{card.answer}</p>
+      )}
+    </div>
+  );
+}
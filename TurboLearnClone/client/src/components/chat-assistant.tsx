@@ -6,56 +6,163 @@ import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { MessageCircle, Send, Bot, User, BookOpen, Sparkles } from "lucide-react";
-import type { ChatMessage, Document } from "@shared/schema";
+import { useChatStream } from "@/hooks/use-chat-stream";
+import { MessageCircle, Send, Bot, User, BookOpen, Sparkles, Square, FileText, StickyNote, SlidersHorizontal, Layers } from "lucide-react";
+import DocumentViewer from "./document-viewer";
+import NoteViewer from "./note-viewer";
+import ChatThreadSwitcher from "./chat-thread-switcher";
+import ChatScopePicker, { describeScope } from "./chat-scope-picker";
+import { formatTimestamp } from "@shared/transcript";
+import type { ChatMessage, ChatScope, ChatThread, Citation, Document, Note } from "@shared/schema";
 
 interface ChatAssistantProps {
   selectedDocument?: string | null;
 }
 
+// Swaps the answer's [n] markers for buttons that open the cited passage
+function AnswerText({ text, citations, onOpen }: { text: string; citations: Citation[]; onOpen: (citation: Citation) => void }) {
+  const parts = text.split(/(\[\d+\])/g);
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+      {parts.map((part, index) => {
+        const citation = citations.find((c) => `[${c.n}]` === part);
+        if (!citation) return part;
+        return (
+          <button
+            key={index}
+            onClick={() => onOpen(citation)}
+            title={citation.sourceTitle}
+            className="align-super text-[10px] font-medium text-brainzy-pink hover:underline mx-0.5"
+            data-testid={`citation-marker-${citation.n}`}
+          >
+            [{citation.n}]
+          </button>
+        );
+      })}
+    </p>
+  );
+}
+
+function citationLocation(citation: Citation): string | null {
+  if (citation.startTime != null) return formatTimestamp(citation.startTime);
+  if (citation.page != null) return `p. ${citation.page}`;
+  return null;
+}
+
 export default function ChatAssistant({ selectedDocument }: ChatAssistantProps) {
   const [message, setMessage] = useState("");
-  const [isTyping, setIsTyping] = useState(false);
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  // "document" chats about the selected document; "sources" spans a scope of documents and notes
+  const [mode, setMode] = useState<"document" | "sources">(selectedDocument ? "document" : "sources");
+  const [scopePicker, setScopePicker] = useState<"new" | "edit" | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMode(selectedDocument ? "document" : "sources");
+  }, [selectedDocument]);
+
+  useEffect(() => {
+    setSelectedThreadId(null);
+  }, [selectedDocument, mode]);
+
+  const threadsQueryKey = mode === "document" ? ['/api/documents', selectedDocument, 'threads'] : ['/api/chat-threads'];
+  const { data: threads } = useQuery<ChatThread[]>({
+    queryKey: threadsQueryKey,
+    enabled: mode === "sources" || !!selectedDocument,
+  });
+  // Single-document threads live with their document
+  const visibleThreads = (mode === "sources" ? threads?.filter(thread => !thread.documentId) : threads) || [];
+
+  // Fall back to the most recent thread when none is picked or the picked one is gone
+  const activeThread = visibleThreads.find(thread => thread.id === selectedThreadId) || visibleThreads[0] || null;
+  const activeScope = mode === "sources" ? (activeThread?.scope as ChatScope | null) ?? null : null;
+
   const { data: chatMessages, isLoading } = useQuery<ChatMessage[]>({
-    queryKey: ['/api/chat', selectedDocument],
-    enabled: !!selectedDocument,
+    queryKey: ['/api/chat-threads', activeThread?.id, 'messages'],
+    enabled: !!activeThread,
   });
 
   const { data: documents } = useQuery<Document[]>({
     queryKey: ['/api/documents'],
   });
 
-  const sendMessageMutation = useMutation({
-    mutationFn: async ({ message, documentId }: { message: string; documentId: string }) => {
-      setIsTyping(true);
-      return await apiRequest('POST', '/api/chat', { message, documentId });
+  const { data: notes } = useQuery<Note[]>({
+    queryKey: ['/api/notes'],
+  });
+
+  const showError = (error: any) => {
+    toast({
+      title: "Chat error 😞",
+      description: error.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createThreadMutation = useMutation({
+    mutationFn: async (scope?: ChatScope) => {
+      const response = scope
+        ? await apiRequest('POST', '/api/chat-threads', { scope })
+        : await apiRequest('POST', `/api/documents/${selectedDocument}/threads`, {});
+      return await response.json() as ChatThread;
+    },
+    onSuccess: (thread) => {
+      queryClient.invalidateQueries({ queryKey: threadsQueryKey });
+      setSelectedThreadId(thread.id);
+      setScopePicker(null);
+    },
+    onError: showError,
+  });
+
+  const updateScopeMutation = useMutation({
+    mutationFn: async ({ id, scope }: { id: string; scope: ChatScope }) => {
+      return await apiRequest('PUT', `/api/chat-threads/${id}`, { scope });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/chat', selectedDocument] });
-      setMessage("");
-      setIsTyping(false);
+      queryClient.invalidateQueries({ queryKey: threadsQueryKey });
+      setScopePicker(null);
     },
-    onError: (error: any) => {
-      setIsTyping(false);
-      toast({
-        title: "Chat error 😞",
-        description: error.message || "Failed to send message.",
-        variant: "destructive",
-      });
+    onError: showError,
+  });
+
+  const chatStream = useChatStream({
+    onDone: (saved) => {
+      // Append right away so the streamed answer does not blink out while the list refetches
+      queryClient.setQueryData<ChatMessage[]>(['/api/chat-threads', saved.threadId, 'messages'], (current) => [...(current || []), saved]);
+      queryClient.invalidateQueries({ queryKey: threadsQueryKey });
+      setSelectedThreadId(saved.threadId);
     },
+    onStop: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/chat-threads'] });
+      queryClient.invalidateQueries({ queryKey: threadsQueryKey });
+    },
+    onError: (message) => showError({ message: message || "Failed to send message." }),
   });
 
+  const handleNewThread = () => {
+    if (mode === "sources") setScopePicker("new");
+    else createThreadMutation.mutate(undefined);
+  };
+
+  const handleScopeConfirm = (scope: ChatScope) => {
+    if (scopePicker === "edit" && activeThread) updateScopeMutation.mutate({ id: activeThread.id, scope });
+    else createThreadMutation.mutate(scope);
+  };
+
+  const canSend = mode === "document" ? !!selectedDocument : !!activeThread;
+
   const handleSendMessage = () => {
-    if (!message.trim() || !selectedDocument) return;
-    
-    sendMessageMutation.mutate({
+    if (!message.trim() || !canSend || chatStream.isStreaming) return;
+
+    chatStream.send({
       message: message.trim(),
-      documentId: selectedDocument,
+      documentId: mode === "document" ? selectedDocument! : undefined,
+      threadId: activeThread?.id,
     });
+    setMessage("");
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -67,9 +174,10 @@ export default function ChatAssistant({ selectedDocument }: ChatAssistantProps)
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [chatMessages, isTyping]);
+  }, [chatMessages, chatStream.answer, chatStream.isStreaming]);
 
   const selectedDocumentData = documents?.find(doc => doc.id === selectedDocument);
+  const topic = mode === "document" ? selectedDocumentData?.title : activeScope ? describeScope(activeScope) : undefined;
 
   const suggestedQuestions = [
     "Can you summarize the main points?",
@@ -82,29 +190,70 @@ export default function ChatAssistant({ selectedDocument }: ChatAssistantProps)
   return (
     <Card className="bg-white/70 backdrop-blur-sm shadow-lg border border-white/50 h-[500px] flex flex-col">
       <CardContent className="p-4 flex flex-col h-full">
-        <div className="flex items-center space-x-2 mb-4">
+        <div className="flex items-center space-x-2 mb-3">
           <div className="w-8 h-8 bg-gradient-to-br from-brainzy-pink to-brainzy-purple rounded-full flex items-center justify-center">
             <MessageCircle className="text-white" size={16} />
           </div>
-          <div className="flex-1">
+          <div className="flex-1 min-w-0">
             <h3 className="font-medium text-gray-800">Chat Assistant</h3>
-            {selectedDocumentData && (
+            {topic && (
               <p className="text-xs text-gray-500 line-clamp-1">
-                Discussing: {selectedDocumentData.title}
+                {mode === "document" ? "Discussing" : "Across"}: {topic}
               </p>
             )}
           </div>
+          {mode === "sources" && activeThread && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-gray-500"
+              onClick={() => setScopePicker("edit")}
+              disabled={chatStream.isStreaming}
+              title="Change sources"
+              data-testid="button-edit-scope"
+            >
+              <SlidersHorizontal size={14} />
+            </Button>
+          )}
+        </div>
+
+        <div className="flex bg-gray-100/70 rounded-lg p-0.5 mb-3 text-xs">
+          <button
+            onClick={() => setMode("document")}
+            disabled={!selectedDocument || chatStream.isStreaming}
+            className={`flex-1 rounded-md py-1 transition-colors disabled:opacity-50 ${mode === "document" ? "bg-white shadow-sm text-gray-800" : "text-gray-500"}`}
+            data-testid="button-chat-mode-document"
+          >
+            This document
+          </button>
+          <button
+            onClick={() => setMode("sources")}
+            disabled={chatStream.isStreaming}
+            className={`flex-1 rounded-md py-1 transition-colors ${mode === "sources" ? "bg-white shadow-sm text-gray-800" : "text-gray-500"}`}
+            data-testid="button-chat-mode-sources"
+          >
+            Multiple sources
+          </button>
         </div>
 
-        {!selectedDocument ? (
+        {!canSend && !chatStream.isStreaming ? (
           <div className="flex-1 flex items-center justify-center text-center">
             <div>
               <Bot className="mx-auto mb-3 text-gray-400" size={48} />
               <h4 className="font-medium text-gray-700 mb-2">AI Study Assistant</h4>
               <p className="text-sm text-gray-500 mb-4">
-                Select a document or note to start chatting with your AI study buddy!
+                Pick lectures, notes or a whole subject to ask questions across them all.
               </p>
-              <div className="flex items-center space-x-1 text-xs text-brainzy-mint">
+              <Button
+                size="sm"
+                onClick={() => setScopePicker("new")}
+                className="bg-brainzy-pink hover:bg-brainzy-coral text-white mb-3"
+                data-testid="button-choose-sources"
+              >
+                <Layers size={14} className="mr-1" />
+                Choose sources
+              </Button>
+              <div className="flex items-center justify-center space-x-1 text-xs text-brainzy-mint">
                 <Sparkles size={12} />
                 <span>Powered by AI</span>
               </div>
@@ -112,6 +261,16 @@ export default function ChatAssistant({ selectedDocument }: ChatAssistantProps)
           </div>
         ) : (
           <>
+            <ChatThreadSwitcher
+              threads={visibleThreads}
+              threadsQueryKey={threadsQueryKey}
+              activeThread={activeThread}
+              onSelect={setSelectedThreadId}
+              onNew={handleNewThread}
+              isCreating={createThreadMutation.isPending}
+              disabled={chatStream.isStreaming}
+            />
+
             {/* Messages Area */}
             <ScrollArea className="flex-1 mb-4 pr-2" data-testid="chat-messages">
               <div className="space-y-3">
@@ -123,7 +282,7 @@ export default function ChatAssistant({ selectedDocument }: ChatAssistantProps)
                   <div className="bg-brainzy-light/50 rounded-lg p-3 max-w-[85%]">
                     <p className="text-sm text-gray-700">
                       Hi! I'm here to help you understand your study materials. Ask me anything about "
-                      <span className="font-medium">{selectedDocumentData?.title}</span>"! 📚
+                      <span className="font-medium">{topic}</span>"! 📚
                     </p>
                   </div>
                 </div>
@@ -152,12 +311,38 @@ export default function ChatAssistant({ selectedDocument }: ChatAssistantProps)
                           <Bot size={12} className="text-white" />
                         </div>
                         <div className="bg-brainzy-light/50 rounded-lg p-3 max-w-[85%]">
-                          <p className="text-sm text-gray-700 whitespace-pre-wrap">{msg.response}</p>
+                          <AnswerText
+                            text={msg.response}
+                            citations={(msg.citations as Citation[] | null) || []}
+                            onOpen={setOpenCitation}
+                          />
+                          {((msg.citations as Citation[] | null) || []).length > 0 && (
+                            <div className="mt-2 space-y-1" data-testid={`citations-${msg.id}`}>
+                              {(msg.citations as Citation[]).map((citation) => (
+                                <button
+                                  key={citation.n}
+                                  onClick={() => setOpenCitation(citation)}
+                                  className="block w-full text-left text-xs bg-white/60 hover:bg-white/90 rounded-md p-2 transition-colors"
+                                  data-testid={`citation-${msg.id}-${citation.n}`}
+                                >
+                                  <div className="flex items-center space-x-1 text-gray-500 mb-0.5 min-w-0">
+                                    <span className="font-medium text-brainzy-pink">[{citation.n}]</span>
+                                    {citation.sourceType === 'note'
+                                      ? <StickyNote size={10} className="text-brainzy-coral flex-shrink-0" />
+                                      : <FileText size={10} className="text-brainzy-purple flex-shrink-0" />}
+                                    <span className="font-medium text-gray-700 truncate">{citation.sourceTitle}</span>
+                                    {citationLocation(citation) && <span className="flex-shrink-0">· {citationLocation(citation)}</span>}
+                                  </div>
+                                  <span className="text-gray-600 line-clamp-2">{citation.snippet}</span>
+                                </button>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
                   ))
-                ) : (
+                ) : !chatStream.isStreaming && (
                   <div className="text-center py-4">
                     <BookOpen className="mx-auto mb-2 text-gray-400" size={32} />
                     <p className="text-sm text-gray-500 mb-3">
@@ -178,18 +363,38 @@ export default function ChatAssistant({ selectedDocument }: ChatAssistantProps)
                   </div>
                 )}
 
-                {/* Typing Indicator */}
-                {isTyping && (
-                  <div className="flex items-start space-x-2">
-                    <div className="w-6 h-6 bg-gradient-to-br from-brainzy-yellow to-brainzy-coral rounded-full flex items-center justify-center flex-shrink-0 mt-1">
-                      <Bot size={12} className="text-white" />
+                {/* Streaming Answer */}
+                {chatStream.isStreaming && (
+                  <div>
+                    <div className="flex items-start space-x-2 justify-end mb-2">
+                      <div className="bg-white/50 rounded-lg p-3 max-w-[85%]">
+                        <p className="text-sm text-gray-700">{chatStream.question}</p>
+                      </div>
+                      <div className="w-6 h-6 bg-brainzy-mint rounded-full flex items-center justify-center flex-shrink-0 mt-1">
+                        <User size={12} className="text-white" />
+                      </div>
                     </div>
-                    <div className="bg-brainzy-light/50 rounded-lg p-3">
-                      <div className="flex space-x-1">
-                        <div className="w-2 h-2 bg-brainzy-pink rounded-full animate-bounce"></div>
-                        <div className="w-2 h-2 bg-brainzy-purple rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                        <div className="w-2 h-2 bg-brainzy-mint rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+
+                    <div className="flex items-start space-x-2">
+                      <div className="w-6 h-6 bg-gradient-to-br from-brainzy-yellow to-brainzy-coral rounded-full flex items-center justify-center flex-shrink-0 mt-1">
+                        <Bot size={12} className="text-white" />
                       </div>
+                      {chatStream.answer ? (
+                        <div className="bg-brainzy-light/50 rounded-lg p-3 max-w-[85%]" data-testid="chat-streaming-answer">
+                          <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                            {chatStream.answer}
+                            <span className="inline-block w-1.5 h-3.5 ml-0.5 bg-brainzy-pink animate-pulse align-middle" />
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="bg-brainzy-light/50 rounded-lg p-3">
+                          <div className="flex space-x-1">
+                            <div className="w-2 h-2 bg-brainzy-pink rounded-full animate-bounce"></div>
+                            <div className="w-2 h-2 bg-brainzy-purple rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                            <div className="w-2 h-2 bg-brainzy-mint rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
@@ -206,22 +411,34 @@ export default function ChatAssistant({ selectedDocument }: ChatAssistantProps)
                 onKeyPress={handleKeyPress}
                 placeholder="Ask me anything about this document..."
                 className="flex-1 text-sm"
-                disabled={sendMessageMutation.isPending}
+                disabled={chatStream.isStreaming}
                 data-testid="chat-input"
               />
-              <Button
-                onClick={handleSendMessage}
-                disabled={!message.trim() || sendMessageMutation.isPending}
-                size="sm"
-                className="bg-brainzy-pink hover:bg-brainzy-coral text-white px-3"
-                data-testid="button-send-message"
-              >
-                <Send size={16} />
-              </Button>
+              {chatStream.isStreaming ? (
+                <Button
+                  onClick={chatStream.stop}
+                  size="sm"
+                  variant="outline"
+                  className="px-3 text-brainzy-pink border-brainzy-pink/50"
+                  data-testid="button-stop-generation"
+                >
+                  <Square size={14} className="fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={!message.trim()}
+                  size="sm"
+                  className="bg-brainzy-pink hover:bg-brainzy-coral text-white px-3"
+                  data-testid="button-send-message"
+                >
+                  <Send size={16} />
+                </Button>
+              )}
             </div>
 
             {/* Quick Actions */}
-            {chatMessages?.length === 0 && !isLoading && (
+            {!chatMessages?.length && !isLoading && !chatStream.isStreaming && (
               <div className="mt-2">
                 <p className="text-xs text-gray-500 mb-2">Quick questions:</p>
                 <div className="flex flex-wrap gap-1">
@@ -241,6 +458,26 @@ export default function ChatAssistant({ selectedDocument }: ChatAssistantProps)
           </>
         )}
       </CardContent>
+
+      <DocumentViewer
+        document={openCitation?.sourceType === 'document' ? documents?.find(doc => doc.id === openCitation.sourceId) || null : null}
+        highlight={openCitation}
+        onClose={() => setOpenCitation(null)}
+      />
+      <NoteViewer
+        note={openCitation?.sourceType === 'note' ? notes?.find(note => note.id === openCitation.sourceId) || null : null}
+        highlight={openCitation}
+        onClose={() => setOpenCitation(null)}
+      />
+      <ChatScopePicker
+        open={scopePicker !== null}
+        onOpenChange={(open) => !open && setScopePicker(null)}
+        documents={documents || []}
+        notes={notes || []}
+        initialScope={scopePicker === "edit" ? activeScope : null}
+        onConfirm={handleScopeConfirm}
+        isSaving={createThreadMutation.isPending || updateScopeMutation.isPending}
+      />
     </Card>
   );
 }
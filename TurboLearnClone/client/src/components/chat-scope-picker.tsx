@@ -0,0 +1,146 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileText, StickyNote, BookOpen, Tag } from "lucide-react";
+import type { ChatScope, Document, Note } from "@shared/schema";
+
+interface ChatScopePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documents: Document[];
+  notes: Note[];
+  initialScope?: ChatScope | null;
+  onConfirm: (scope: ChatScope) => void;
+  isSaving?: boolean;
+}
+
+const EMPTY_SCOPE: ChatScope = { documentIds: [], noteIds: [] };
+
+function toggle(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+}
+
+// Short label for what a scope covers, e.g. "Biology, 2 documents, 1 note"
+export function describeScope(scope: ChatScope): string {
+  const parts: string[] = [];
+  if (scope.subject) parts.push(scope.subject);
+  if (scope.tag) parts.push(`#${scope.tag}`);
+  if (scope.documentIds.length) parts.push(`${scope.documentIds.length} document${scope.documentIds.length === 1 ? "" : "s"}`);
+  if (scope.noteIds.length) parts.push(`${scope.noteIds.length} note${scope.noteIds.length === 1 ? "" : "s"}`);
+  return parts.join(", ") || "No sources";
+}
+
+export default function ChatScopePicker({ open, onOpenChange, documents, notes, initialScope, onConfirm, isSaving }: ChatScopePickerProps) {
+  const [scope, setScope] = useState<ChatScope>(initialScope || EMPTY_SCOPE);
+
+  useEffect(() => {
+    if (open) setScope(initialScope || EMPTY_SCOPE);
+  }, [open, initialScope]);
+
+  const subjects = Array.from(new Set(notes.map((note) => note.subject).filter((subject): subject is string => !!subject))).sort();
+  const tags = Array.from(new Set(notes.flatMap((note) => note.tags || []))).sort();
+  const isEmpty = !scope.subject && !scope.tag && scope.documentIds.length === 0 && scope.noteIds.length === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display">Chat across sources</DialogTitle>
+          <DialogDescription>
+            Pick the lectures and notes to ask about, or a whole subject or tag.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[55vh] pr-3">
+          <div className="space-y-4">
+            {(subjects.length > 0 || tags.length > 0) && (
+              <div>
+                <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">Subject or tag</h4>
+                <div className="flex flex-wrap gap-1">
+                  {subjects.map((subject) => (
+                    <button
+                      key={`subject-${subject}`}
+                      onClick={() => setScope({ ...scope, subject: scope.subject === subject ? undefined : subject })}
+                      className={`text-xs rounded-full px-2 py-1 flex items-center space-x-1 transition-colors ${scope.subject === subject ? "bg-brainzy-pink text-white" : "bg-brainzy-pink/10 text-brainzy-pink hover:bg-brainzy-pink/20"}`}
+                      data-testid={`scope-subject-${subject}`}
+                    >
+                      <BookOpen size={10} />
+                      <span>{subject}</span>
+                    </button>
+                  ))}
+                  {tags.map((tag) => (
+                    <button
+                      key={`tag-${tag}`}
+                      onClick={() => setScope({ ...scope, tag: scope.tag === tag ? undefined : tag })}
+                      className={`text-xs rounded-full px-2 py-1 flex items-center space-x-1 transition-colors ${scope.tag === tag ? "bg-brainzy-mint text-white" : "bg-brainzy-mint/10 text-brainzy-mint hover:bg-brainzy-mint/20"}`}
+                      data-testid={`scope-tag-${tag}`}
+                    >
+                      <Tag size={10} />
+                      <span>{tag}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">Documents</h4>
+              {documents.length === 0 ? (
+                <p className="text-xs text-gray-400">No documents uploaded yet.</p>
+              ) : (
+                <div className="space-y-1">
+                  {documents.map((document) => (
+                    <label key={document.id} className="flex items-center space-x-2 text-sm cursor-pointer rounded p-1 hover:bg-gray-50">
+                      <Checkbox
+                        checked={scope.documentIds.includes(document.id)}
+                        onCheckedChange={() => setScope({ ...scope, documentIds: toggle(scope.documentIds, document.id) })}
+                        data-testid={`scope-document-${document.id}`}
+                      />
+                      <FileText size={14} className="text-brainzy-purple flex-shrink-0" />
+                      <span className="line-clamp-1">{document.title}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">Notes</h4>
+              {notes.length === 0 ? (
+                <p className="text-xs text-gray-400">No notes yet.</p>
+              ) : (
+                <div className="space-y-1">
+                  {notes.map((note) => (
+                    <label key={note.id} className="flex items-center space-x-2 text-sm cursor-pointer rounded p-1 hover:bg-gray-50">
+                      <Checkbox
+                        checked={scope.noteIds.includes(note.id)}
+                        onCheckedChange={() => setScope({ ...scope, noteIds: toggle(scope.noteIds, note.id) })}
+                        data-testid={`scope-note-${note.id}`}
+                      />
+                      <StickyNote size={14} className="text-brainzy-coral flex-shrink-0" />
+                      <span className="line-clamp-1">{note.title}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="items-center">
+          <span className="text-xs text-gray-500 mr-auto">{describeScope(scope)}</span>
+          <Button
+            onClick={() => onConfirm(scope)}
+            disabled={isEmpty || isSaving}
+            className="bg-brainzy-pink hover:bg-brainzy-coral text-white"
+            data-testid="button-confirm-scope"
+          >
+            {isSaving ? "Saving..." : "Chat about these"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ChevronDown, Check, Plus, MoreVertical, Pencil, Eraser, Trash2 } from "lucide-react";
+import type { ChatThread } from "@shared/schema";
+
+interface ChatThreadSwitcherProps {
+  threads: ChatThread[];
+  // Refetched after a rename or delete
+  threadsQueryKey: unknown[];
+  activeThread: ChatThread | null;
+  onSelect: (threadId: string | null) => void;
+  onNew: () => void;
+  isCreating?: boolean;
+  disabled?: boolean;
+}
+
+export default function ChatThreadSwitcher({ threads, threadsQueryKey, activeThread, onSelect, onNew, isCreating, disabled }: ChatThreadSwitcherProps) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [confirm, setConfirm] = useState<"clear" | "delete" | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const refreshThreads = () => queryClient.invalidateQueries({ queryKey: threadsQueryKey });
+  const onError = (error: any) => {
+    toast({
+      title: "Chat error 😞",
+      description: error.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      return await apiRequest('PUT', `/api/chat-threads/${id}`, { title });
+    },
+    onSuccess: () => {
+      refreshThreads();
+      setRenaming(null);
+    },
+    onError,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/chat-threads/${id}/clear`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/chat-threads', id, 'messages'] });
+      toast({ title: "Chat cleared 🧹", description: "Starting fresh in this thread." });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/chat-threads/${id}`);
+    },
+    onSuccess: (_, id) => {
+      refreshThreads();
+      onSelect(threads.find((thread) => thread.id !== id)?.id ?? null);
+    },
+    onError,
+  });
+
+  const handleConfirm = () => {
+    if (!activeThread) return;
+    if (confirm === "clear") clearMutation.mutate(activeThread.id);
+    else if (confirm === "delete") deleteMutation.mutate(activeThread.id);
+    setConfirm(null);
+  };
+
+  return (
+    <div className="flex items-center space-x-1 mb-3">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={disabled}>
+          <Button variant="outline" size="sm" className="flex-1 justify-between h-8 text-xs min-w-0" data-testid="button-thread-switcher">
+            <span className="truncate">{activeThread?.title || "New chat"}</span>
+            <ChevronDown size={14} className="flex-shrink-0 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel className="text-xs text-gray-500">Conversations</DropdownMenuLabel>
+          {threads.length === 0 && (
+            <DropdownMenuItem disabled className="text-xs">No conversations yet</DropdownMenuItem>
+          )}
+          {threads.map((thread) => (
+            <DropdownMenuItem
+              key={thread.id}
+              onSelect={() => onSelect(thread.id)}
+              className="text-xs"
+              data-testid={`thread-option-${thread.id}`}
+            >
+              <Check size={12} className={`mr-2 flex-shrink-0 ${thread.id === activeThread?.id ? "opacity-100" : "opacity-0"}`} />
+              <span className="truncate">{thread.title}</span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 px-2"
+        onClick={onNew}
+        disabled={disabled || isCreating}
+        title="New chat"
+        data-testid="button-new-thread"
+      >
+        <Plus size={14} />
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={disabled || !activeThread}>
+          <Button variant="ghost" size="sm" className="h-8 px-2" data-testid="button-thread-actions">
+            <MoreVertical size={14} />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setRenaming(activeThread?.title || "")} data-testid="menu-rename-thread">
+            <Pencil size={12} className="mr-2" /> Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setConfirm("clear")} data-testid="menu-clear-thread">
+            <Eraser size={12} className="mr-2" /> Clear messages
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setConfirm("delete")} className="text-red-600" data-testid="menu-delete-thread">
+            <Trash2 size={12} className="mr-2" /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Rename conversation</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renaming || ""}
+            onChange={(e) => setRenaming(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && activeThread && renaming?.trim()) {
+                renameMutation.mutate({ id: activeThread.id, title: renaming.trim() });
+              }
+            }}
+            maxLength={100}
+            data-testid="input-thread-title"
+          />
+          <DialogFooter>
+            <Button
+              onClick={() => activeThread && renaming?.trim() && renameMutation.mutate({ id: activeThread.id, title: renaming.trim() })}
+              disabled={!renaming?.trim() || renameMutation.isPending}
+              className="bg-brainzy-pink hover:bg-brainzy-coral text-white"
+              data-testid="button-save-thread-title"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirm !== null} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirm === "delete" ? "Delete this conversation?" : "Clear this conversation?"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === "delete"
+                ? `"${activeThread?.title}" and all of its messages will be removed.`
+                : "All messages in this thread will be removed, and the assistant will no longer remember them."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} data-testid="button-confirm-thread-action">
+              {confirm === "delete" ? "Delete" : "Clear"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Clock, ExternalLink } from "lucide-react";
+import { formatTimestamp, getTranscriptSegments } from "@shared/transcript";
+import type { Citation, Document } from "@shared/schema";
+
+export type DocumentHighlight = Pick<Citation, "startOffset" | "endOffset" | "startTime" | "endTime">;
+
+interface DocumentViewerProps {
+  document: Document | null;
+  onClose: () => void;
+  // A cited passage to mark and scroll to
+  highlight?: DocumentHighlight | null;
+}
+
+// Ref callback: brings the highlighted passage into view once it mounts
+function scrollIntoView(element: HTMLElement | null) {
+  element?.scrollIntoView({ block: "center" });
+}
+
+// Deep link into the source video when there is one; other transcripts just show the time
+export function TimestampLink({ seconds, document }: { seconds: number; document: Document }) {
+  const label = formatTimestamp(seconds);
+
+  if (document.type === 'youtube' && document.originalUrl) {
+    const url = new URL(document.originalUrl);
+    url.searchParams.set("t", `${Math.floor(seconds)}s`);
+    return (
+      <a
+        href={url.toString()}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-mono text-xs text-brainzy-pink hover:underline inline-flex items-center"
+        data-testid={`timestamp-${Math.floor(seconds)}`}
+      >
+        {label}
+        <ExternalLink className="w-3 h-3 ml-1" />
+      </a>
+    );
+  }
+
+  return (
+    <span className="font-mono text-xs text-brainzy-purple" data-testid={`timestamp-${Math.floor(seconds)}`}>
+      {label}
+    </span>
+  );
+}
+
+// Plain text with an optional character range marked and scrolled to
+export function HighlightedText({ content, highlight }: { content: string; highlight?: Pick<DocumentHighlight, "startOffset" | "endOffset"> | null }) {
+  if (!highlight) {
+    return <p className="text-sm text-gray-700 whitespace-pre-wrap">{content}</p>;
+  }
+
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+      {content.slice(0, highlight.startOffset)}
+      <mark ref={scrollIntoView} className="bg-brainzy-yellow/40 rounded" data-testid="document-viewer-highlight">
+        {content.slice(highlight.startOffset, highlight.endOffset)}
+      </mark>
+      {content.slice(highlight.endOffset)}
+    </p>
+  );
+}
+
+export default function DocumentViewer({ document, onClose, highlight }: DocumentViewerProps) {
+  const segments = document ? getTranscriptSegments(document.metadata) : null;
+  const hasTimes = highlight?.startTime != null && highlight?.endTime != null;
+  const isHighlighted = (start: number, end: number) =>
+    hasTimes && start < highlight!.endTime! && end > highlight!.startTime!;
+  const firstHighlighted = segments ? segments.findIndex((segment) => isHighlighted(segment.start, segment.end)) : -1;
+  const duration = (document?.metadata as { duration?: unknown } | null)?.duration;
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        {document && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="font-display flex items-center space-x-2">
+                <span className="line-clamp-1">{document.title}</span>
+                <Badge className="bg-brainzy-mint/20 text-brainzy-mint">{document.type.toUpperCase()}</Badge>
+              </DialogTitle>
+              <DialogDescription className="flex items-center space-x-3">
+                {typeof duration === "number" && (
+                  <span className="flex items-center space-x-1">
+                    <Clock className="w-3 h-3" />
+                    <span>{formatTimestamp(duration)}</span>
+                  </span>
+                )}
+                {segments && <span>{segments.length} cues</span>}
+              </DialogDescription>
+            </DialogHeader>
+
+            <ScrollArea className="h-[60vh] pr-3" data-testid="document-viewer-content">
+              {segments ? (
+                <div className="space-y-2">
+                  {segments.map((segment, index) => (
+                    <div
+                      key={index}
+                      ref={index === firstHighlighted ? scrollIntoView : undefined}
+                      className={`flex items-start space-x-3 text-sm ${isHighlighted(segment.start, segment.end) ? "bg-brainzy-yellow/30 rounded" : ""}`}
+                    >
+                      <div className="w-16 flex-shrink-0 pt-0.5">
+                        <TimestampLink seconds={segment.start} document={document} />
+                      </div>
+                      <p className="text-gray-700">{segment.text}</p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <HighlightedText content={document.content} highlight={highlight} />
+              )}
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
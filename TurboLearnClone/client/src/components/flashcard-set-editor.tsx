@@ -0,0 +1,477 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowUp, ArrowDown, Trash2, Plus, ClipboardPaste, Brackets } from "lucide-react";
+import { parseBulkCards, cardOrdinals, cardContentProblem, clozeNumbers } from "@shared/flashcards";
+import type { CardType, Flashcard, FlashcardSet } from "@shared/schema";
+
+const CARD_TYPE_LABELS: Record<CardType, string> = {
+  basic: "Basic",
+  reversible: "Reversible",
+  cloze: "Cloze",
+};
+
+const PLACEHOLDERS: Record<CardType, { question: string; answer: string }> = {
+  basic: { question: "Term or question", answer: "Definition or answer" },
+  reversible: { question: "Front, e.g. a word", answer: "Back, e.g. its translation" },
+  cloze: { question: "The {{c1::mitochondria}} is the powerhouse of the cell", answer: "Extra context (optional)" },
+};
+
+// Wraps the selected text in the next free cloze number
+function insertCloze(textarea: HTMLTextAreaElement, value: string): string {
+  const next = Math.max(0, ...clozeNumbers(value)) + 1;
+  const { selectionStart, selectionEnd } = textarea;
+  const selected = value.slice(selectionStart, selectionEnd) || "...";
+  return `${value.slice(0, selectionStart)}{{c${next}::${selected}}}${value.slice(selectionEnd)}`;
+}
+
+// The cards an entry's siblings were split into, one per row in the editor
+function groupSiblings(cards: Flashcard[]): Flashcard[][] {
+  const groups: Flashcard[][] = [];
+  const byGroupId = new Map<string, Flashcard[]>();
+  for (const card of cards) {
+    const existing = card.groupId ? byGroupId.get(card.groupId) : undefined;
+    if (existing) {
+      existing.push(card);
+      continue;
+    }
+    const group = [card];
+    if (card.groupId) byGroupId.set(card.groupId, group);
+    groups.push(group);
+  }
+  return groups;
+}
+
+interface FlashcardSetEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null to create a new set
+  set: FlashcardSet | null;
+}
+
+// Everything that shows card counts, due cards or mastery
+function useRefreshFlashcards() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/flashcard-sets'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reviews/due'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reviews/forecast'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats/sets'] });
+  };
+}
+
+function useErrorToast() {
+  const { toast } = useToast();
+  return (error: any) => {
+    toast({
+      title: "Couldn't save 😞",
+      description: error.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+}
+
+interface CardRowProps {
+  card: Flashcard;
+  // How many cards the entry makes, counting this one
+  siblingCount: number;
+  index: number;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (direction: -1 | 1) => void;
+}
+
+// Edits save when the field loses focus
+function CardRow({ card, siblingCount, index, isFirst, isLast, onMove }: CardRowProps) {
+  const [question, setQuestion] = useState(card.question);
+  const [answer, setAnswer] = useState(card.answer);
+  const refresh = useRefreshFlashcards();
+  const onError = useErrorToast();
+
+  useEffect(() => {
+    setQuestion(card.question);
+    setAnswer(card.answer);
+  }, [card.question, card.answer]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { question?: string; answer?: string }) => {
+      return await apiRequest('PUT', `/api/flashcards/${card.id}`, updates);
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      setQuestion(card.question);
+      setAnswer(card.answer);
+      onError(error);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('DELETE', `/api/flashcards/${card.id}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const save = () => {
+    const problem = cardContentProblem(card.cardType, question, answer);
+    if (problem || !question.trim()) {
+      setQuestion(card.question);
+      setAnswer(card.answer);
+      if (problem) onError(new Error(problem.message));
+      return;
+    }
+    const updates: { question?: string; answer?: string } = {};
+    if (question.trim() !== card.question) updates.question = question.trim();
+    if (answer.trim() !== card.answer) updates.answer = answer.trim();
+    if (Object.keys(updates).length > 0) updateMutation.mutate(updates);
+  };
+
+  const cardType = card.cardType as CardType;
+
+  return (
+    <div className="flex items-start space-x-2 bg-white/60 rounded-lg p-2 border border-gray-100" data-testid={`editor-card-${card.id}`}>
+      <div className="w-12 pt-2 text-right flex-shrink-0">
+        <span className="text-xs text-gray-400">{index + 1}</span>
+        {cardType !== 'basic' && (
+          <span className="block text-[10px] text-brainzy-purple" data-testid={`text-card-type-${card.id}`}>
+            {CARD_TYPE_LABELS[cardType]}{siblingCount > 1 && ` ×${siblingCount}`}
+          </span>
+        )}
+      </div>
+      <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+        <Textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onBlur={save}
+          rows={2}
+          className="text-sm min-h-0 resize-none"
+          placeholder={PLACEHOLDERS[cardType]?.question}
+          data-testid={`input-card-question-${card.id}`}
+        />
+        <Textarea
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          onBlur={save}
+          rows={2}
+          className="text-sm min-h-0 resize-none"
+          placeholder={PLACEHOLDERS[cardType]?.answer}
+          data-testid={`input-card-answer-${card.id}`}
+        />
+      </div>
+      <div className="flex flex-col flex-shrink-0">
+        <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => onMove(-1)} disabled={isFirst} title="Move up" data-testid={`button-card-up-${card.id}`}>
+          <ArrowUp size={12} />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => onMove(1)} disabled={isLast} title="Move down" data-testid={`button-card-down-${card.id}`}>
+          <ArrowDown size={12} />
+        </Button>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 px-2 text-gray-400 hover:text-red-600 flex-shrink-0"
+        onClick={() => deleteMutation.mutate()}
+        disabled={deleteMutation.isPending}
+        title={siblingCount > 1 ? `Delete all ${siblingCount} cards` : "Delete card"}
+        data-testid={`button-delete-card-${card.id}`}
+      >
+        <Trash2 size={14} />
+      </Button>
+    </div>
+  );
+}
+
+export default function FlashcardSetEditor({ open, onOpenChange, set }: FlashcardSetEditorProps) {
+  const [editingSet, setEditingSet] = useState<FlashcardSet | null>(set);
+  const [title, setTitle] = useState(set?.title || "");
+  const [description, setDescription] = useState(set?.description || "");
+  const [newQuestion, setNewQuestion] = useState("");
+  const [newAnswer, setNewAnswer] = useState("");
+  const [newCardType, setNewCardType] = useState<CardType>('basic');
+  const newQuestionRef = useRef<HTMLTextAreaElement>(null);
+  const [bulkText, setBulkText] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const refresh = useRefreshFlashcards();
+  const onError = useErrorToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setEditingSet(set);
+    setTitle(set?.title || "");
+    setDescription(set?.description || "");
+    setNewQuestion("");
+    setNewAnswer("");
+    setBulkText("");
+  }, [open, set]);
+
+  const cardsQueryKey = ['/api/flashcard-sets', editingSet?.id, 'cards'];
+  const { data: cards } = useQuery<Flashcard[]>({
+    queryKey: cardsQueryKey,
+    enabled: open && !!editingSet?.id,
+  });
+
+  const createSetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/flashcard-sets', { title, description });
+      return await response.json() as FlashcardSet;
+    },
+    onSuccess: (created) => {
+      setEditingSet(created);
+      refresh();
+    },
+    onError,
+  });
+
+  const updateSetMutation = useMutation({
+    mutationFn: async (updates: { title?: string; description?: string }) => {
+      const response = await apiRequest('PUT', `/api/flashcard-sets/${editingSet!.id}`, updates);
+      return await response.json() as FlashcardSet;
+    },
+    onSuccess: (updated) => {
+      setEditingSet(updated);
+      refresh();
+    },
+    onError,
+  });
+
+  const addCardMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/flashcard-sets/${editingSet!.id}/cards`, { cardType: newCardType, question: newQuestion, answer: newAnswer });
+    },
+    onSuccess: () => {
+      setNewQuestion("");
+      setNewAnswer("");
+      refresh();
+    },
+    onError,
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/flashcard-sets/${editingSet!.id}/cards/bulk`, { text: bulkText });
+      return await response.json() as { cards: Flashcard[]; skippedLines: number[] };
+    },
+    onSuccess: ({ cards: added, skippedLines }) => {
+      setBulkText("");
+      refresh();
+      toast({
+        title: `Added ${added.length} card${added.length === 1 ? "" : "s"} 🃏`,
+        description: skippedLines.length > 0
+          ? `Skipped line${skippedLines.length === 1 ? "" : "s"} ${skippedLines.join(", ")}: no tab between term and definition.`
+          : undefined,
+      });
+    },
+    onError,
+  });
+
+  // Moves optimistically; the list snaps back if the server refuses
+  const reorderMutation = useMutation({
+    mutationFn: async (cardIds: string[]) => {
+      return await apiRequest('PUT', `/api/flashcard-sets/${editingSet!.id}/order`, { cardIds });
+    },
+    onMutate: (cardIds) => {
+      const previous = queryClient.getQueryData<Flashcard[]>(cardsQueryKey);
+      if (previous) {
+        const byId = new Map(previous.map((card) => [card.id, card]));
+        queryClient.setQueryData(cardsQueryKey, cardIds.map((id) => byId.get(id)!));
+      }
+      return { previous };
+    },
+    onError: (error, _, context) => {
+      if (context?.previous) queryClient.setQueryData(cardsQueryKey, context.previous);
+      onError(error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: cardsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/reviews/due'] });
+    },
+  });
+
+  const entries = groupSiblings(cards || []);
+
+  // Moves a whole entry, keeping its siblings together
+  const moveEntry = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= entries.length) return;
+    const reordered = [...entries];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    reorderMutation.mutate(reordered.flat().map((card) => card.id));
+  };
+
+  const saveDetails = () => {
+    if (!editingSet || !title.trim()) return;
+    const updates: { title?: string; description?: string } = {};
+    if (title.trim() !== editingSet.title) updates.title = title.trim();
+    if (description.trim() !== (editingSet.description || "")) updates.description = description.trim();
+    if (Object.keys(updates).length > 0) updateSetMutation.mutate(updates);
+  };
+
+  const bulkPreview = parseBulkCards(bulkText);
+  const newCardCount = cardOrdinals(newCardType, newQuestion).length;
+  const canAddCard = !!newQuestion.trim() && !cardContentProblem(newCardType, newQuestion, newAnswer);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">{editingSet ? "Edit flashcard set" : "New flashcard set"}</DialogTitle>
+          <DialogDescription>
+            {editingSet ? "Changes save as you go." : "Name the set, then add your cards."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={saveDetails}
+            placeholder="Set title, e.g. Cell Biology Terms"
+            maxLength={200}
+            data-testid="input-set-title"
+          />
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            onBlur={saveDetails}
+            placeholder="Description (optional)"
+            maxLength={1000}
+            data-testid="input-set-description"
+          />
+          {!editingSet && (
+            <Button
+              onClick={() => createSetMutation.mutate()}
+              disabled={!title.trim() || createSetMutation.isPending}
+              className="bg-gradient-to-r from-brainzy-purple to-brainzy-lavender hover:shadow-lg"
+              data-testid="button-create-set"
+            >
+              {createSetMutation.isPending ? "Creating..." : "Create Set"}
+            </Button>
+          )}
+        </div>
+
+        {editingSet && (
+          <>
+            <ScrollArea className="max-h-[40vh] pr-3">
+              <div className="space-y-2" data-testid="editor-card-list">
+                {cards && cards.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-6">No cards yet. Add one below or paste a list.</p>
+                )}
+                {entries.map((siblings, index) => (
+                  <CardRow
+                    key={siblings[0].id}
+                    card={siblings[0]}
+                    siblingCount={siblings.length}
+                    index={index}
+                    isFirst={index === 0}
+                    isLast={index === entries.length - 1}
+                    onMove={(direction) => moveEntry(index, direction)}
+                  />
+                ))}
+              </div>
+            </ScrollArea>
+
+            <Tabs defaultValue="single">
+              <TabsList>
+                <TabsTrigger value="single" data-testid="tab-add-card">
+                  <Plus size={14} className="mr-1" /> Add card
+                </TabsTrigger>
+                <TabsTrigger value="bulk" data-testid="tab-bulk-paste">
+                  <ClipboardPaste size={14} className="mr-1" /> Paste list
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="single">
+                <div className="flex items-center space-x-2 mb-2">
+                  <Select value={newCardType} onValueChange={(value) => setNewCardType(value as CardType)}>
+                    <SelectTrigger className="w-40 h-8 text-sm" data-testid="select-card-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="basic">Basic</SelectItem>
+                      <SelectItem value="reversible">Reversible (both ways)</SelectItem>
+                      <SelectItem value="cloze">Cloze deletion</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {newCardType === 'cloze' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8"
+                      onClick={() => newQuestionRef.current && setNewQuestion(insertCloze(newQuestionRef.current, newQuestion))}
+                      title="Hide the selected text"
+                      data-testid="button-insert-cloze"
+                    >
+                      <Brackets size={14} className="mr-1" /> Cloze
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <Textarea
+                    ref={newQuestionRef}
+                    value={newQuestion}
+                    onChange={(e) => setNewQuestion(e.target.value)}
+                    rows={2}
+                    className="text-sm resize-none"
+                    placeholder={PLACEHOLDERS[newCardType].question}
+                    data-testid="input-new-question"
+                  />
+                  <Textarea
+                    value={newAnswer}
+                    onChange={(e) => setNewAnswer(e.target.value)}
+                    rows={2}
+                    className="text-sm resize-none"
+                    placeholder={PLACEHOLDERS[newCardType].answer}
+                    data-testid="input-new-answer"
+                  />
+                </div>
+                <Button
+                  onClick={() => addCardMutation.mutate()}
+                  disabled={!canAddCard || addCardMutation.isPending}
+                  className="mt-2 bg-brainzy-purple hover:bg-brainzy-purple/90 text-white"
+                  data-testid="button-add-card"
+                >
+                  {newCardCount > 1 ? `Add ${newCardCount} Cards` : "Add Card"}
+                </Button>
+              </TabsContent>
+
+              <TabsContent value="bulk">
+                <Textarea
+                  value={bulkText}
+                  onChange={(e) => setBulkText(e.target.value)}
+                  rows={5}
+                  className="text-sm font-mono"
+                  placeholder={"One card per line, term and definition separated by a tab:\nmitochondria\tpowerhouse of the cell"}
+                  data-testid="input-bulk-cards"
+                />
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-xs text-gray-500" data-testid="text-bulk-preview">
+                    {bulkPreview.cards.length} card{bulkPreview.cards.length === 1 ? "" : "s"} found
+                    {bulkPreview.skippedLines.length > 0 && `, ${bulkPreview.skippedLines.length} line${bulkPreview.skippedLines.length === 1 ? "" : "s"} without a tab`}
+                  </span>
+                  <Button
+                    onClick={() => bulkMutation.mutate()}
+                    disabled={bulkPreview.cards.length === 0 || bulkMutation.isPending}
+                    className="bg-brainzy-purple hover:bg-brainzy-purple/90 text-white"
+                    data-testid="button-add-bulk"
+                  >
+                    Add {bulkPreview.cards.length || ""} Cards
+                  </Button>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
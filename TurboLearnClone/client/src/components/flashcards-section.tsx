@@ -1,19 +1,59 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
-import { Layers, Plus, BarChart3, Folder, RotateCcw, Check, X, Minus } from "lucide-react";
-import type { FlashcardSet, Flashcard, Document } from "@shared/schema";
+import { useJob } from "@/hooks/use-job";
+import { Layers, Plus, BarChart3, Folder, RotateCcw, Check, X, Minus, Zap, CalendarClock, CalendarCheck, TrendingUp, Pencil, Copy, Trash2, Play, Upload, Download } from "lucide-react";
+import JobProgress from "./job-progress";
+import FlashcardSetEditor from "./flashcard-set-editor";
+import CardFace from "./card-face";
+import TypedAnswer from "./typed-answer";
+import type { FlashcardSet, Flashcard, Document, Job, PublicUser, ReviewGrade, SchedulerAlgorithm, DueFlashcard, DueQueue, ReviewForecastDay, StudyStats, SetMastery } from "@shared/schema";
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; icon: typeof X; className: string }[] = [
+  { grade: 'again', label: "Again", icon: RotateCcw, className: "bg-red-100 hover:bg-red-200 text-red-600 border-red-200" },
+  { grade: 'hard', label: "Hard", icon: X, className: "bg-orange-100 hover:bg-orange-200 text-orange-600 border-orange-200" },
+  { grade: 'good', label: "Good", icon: Minus, className: "bg-yellow-100 hover:bg-yellow-200 text-yellow-600 border-yellow-200" },
+  { grade: 'easy', label: "Easy", icon: Check, className: "bg-green-100 hover:bg-green-200 text-green-600 border-green-200" },
+];
 
 export default function FlashcardsSection() {
   const [currentSet, setCurrentSet] = useState<FlashcardSet | null>(null);
+  // Snapshot of today's queue while reviewing, so refetches do not reshuffle the session
+  const [reviewCards, setReviewCards] = useState<DueFlashcard[] | null>(null);
+  const [editor, setEditor] = useState<{ set: FlashcardSet | null } | null>(null);
+  const [deletingSet, setDeletingSet] = useState<FlashcardSet | null>(null);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
+  // Flip and rate yourself, or type the answer and let the server grade it
+  const [answerMode, setAnswerMode] = useState<'flip' | 'type'>('flip');
+  const [aiGrading, setAiGrading] = useState(false);
   const [studyStats, setStudyStats] = useState({ correct: 0, total: 0 });
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: flashcardSets, isLoading } = useQuery<FlashcardSet[]>({
@@ -29,10 +69,23 @@ export default function FlashcardsSection() {
     queryKey: ['/api/documents'],
   });
 
-  const generateFlashcardsMutation = useMutation({
-    mutationFn: async ({ documentId, count }: { documentId: string; count: number }) => {
-      return await apiRequest('POST', '/api/flashcard-sets/generate', { documentId, count });
-    },
+  const { data: dueQueue } = useQuery<DueQueue>({
+    queryKey: ['/api/reviews/due'],
+  });
+
+  const { data: forecast } = useQuery<ReviewForecastDay[]>({
+    queryKey: ['/api/reviews/forecast'],
+  });
+
+  const { data: stats } = useQuery<StudyStats>({
+    queryKey: ['/api/stats/study'],
+  });
+
+  const { data: setMastery } = useQuery<SetMastery[]>({
+    queryKey: ['/api/stats/sets'],
+  });
+
+  const flashcardsJob = useJob<FlashcardSet>({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/flashcard-sets'] });
       toast({
@@ -40,6 +93,21 @@ export default function FlashcardsSection() {
         description: "Your study cards are ready for review.",
       });
     },
+    onError: (message) => {
+      toast({
+        title: "Generation failed 😞",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateFlashcardsMutation = useMutation({
+    mutationFn: async ({ documentId, count }: { documentId: string; count: number }) => {
+      const response = await apiRequest('POST', '/api/flashcard-sets/generate', { documentId, count });
+      return await response.json() as Job;
+    },
+    onSuccess: (job) => flashcardsJob.track(job),
     onError: (error: any) => {
       toast({
         title: "Generation failed 😞",
@@ -49,38 +117,168 @@ export default function FlashcardsSection() {
     },
   });
 
-  const updateFlashcardMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Flashcard> }) => {
-      return await apiRequest('PUT', `/api/flashcards/${id}`, updates);
+  const isGenerating = generateFlashcardsMutation.isPending || flashcardsJob.isRunning;
+  const generatingDocumentId = flashcardsJob.isRunning
+    ? (flashcardsJob.job?.input as { documentId?: string }).documentId
+    : generateFlashcardsMutation.variables?.documentId;
+
+  // Everything a review changes: the card's schedule, today's queue and the stats
+  const refreshAfterReview = () => {
+    if (currentSet) {
+      queryClient.invalidateQueries({ queryKey: ['/api/flashcard-sets', currentSet.id, 'cards'] });
+    }
+    queryClient.invalidateQueries({ queryKey: ['/api/reviews/due'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reviews/forecast'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats/study'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats/sets'] });
+  };
+
+  // The server schedules the card's next review from the grade
+  const reviewFlashcardMutation = useMutation({
+    mutationFn: async ({ id, grade, responseTimeMs }: { id: string; grade: ReviewGrade; responseTimeMs: number }) => {
+      return await apiRequest('POST', `/api/flashcards/${id}/review`, { grade, responseTimeMs });
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/flashcard-sets', currentSet?.id, 'cards'] });
+    onSuccess: refreshAfterReview,
+    onError: (error: any) => {
+      toast({
+        title: "Review not saved 😞",
+        description: error.message || "Failed to save your answer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const refreshSets = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/flashcard-sets'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reviews/due'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reviews/forecast'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats/sets'] });
+  };
+
+  const duplicateSetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/flashcard-sets/${id}/duplicate`);
+      return await response.json() as FlashcardSet;
+    },
+    onSuccess: (copy) => {
+      refreshSets();
+      toast({ title: "Set duplicated 🃏", description: `"${copy.title}" is ready to edit.` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Duplicate failed 😞",
+        description: error.message || "Failed to duplicate the set.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importSetsMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await apiRequest('POST', '/api/flashcard-sets/import', formData);
+      return await response.json() as FlashcardSet[];
+    },
+    onSuccess: (sets) => {
+      refreshSets();
+      queryClient.invalidateQueries({ queryKey: ['/api/stats/study'] });
+      const cards = sets.reduce((sum, set) => sum + (set.cardCount || 0), 0);
+      toast({
+        title: "Import complete 📥",
+        description: sets.length === 1
+          ? `"${sets[0].title}" was added with ${cards} cards.`
+          : `${sets.length} sets were added with ${cards} cards.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import failed 😞",
+        description: error.message || "Failed to import the file.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importSetsMutation.mutate(file);
+    // Let the same file be picked again after fixing it
+    event.target.value = '';
+  };
+
+  // A plain navigation so the browser saves the attachment; the session cookie comes along
+  const exportSet = (set: FlashcardSet, format: 'apkg' | 'csv') => {
+    window.location.href = `/api/flashcard-sets/${set.id}/export?format=${format}`;
+  };
+
+  const deleteSetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/flashcard-sets/${id}`);
+    },
+    onSuccess: refreshSets,
+    onError: (error: any) => {
+      toast({
+        title: "Delete failed 😞",
+        description: error.message || "Failed to delete the set.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const schedulerMutation = useMutation({
+    mutationFn: async (schedulerAlgorithm: SchedulerAlgorithm) => {
+      const response = await apiRequest('PUT', '/api/auth/me/preferences', { schedulerAlgorithm });
+      return await response.json() as PublicUser;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/auth/me'], updated);
+      toast({
+        title: "Scheduler updated 📅",
+        description: updated.schedulerAlgorithm === 'fsrs'
+          ? "Reviews will now be scheduled with FSRS."
+          : "Reviews will now be scheduled with SM-2.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed 😞",
+        description: error.message || "Failed to change the scheduler.",
+        variant: "destructive",
+      });
     },
   });
 
   const handleCardFlip = () => {
-    setShowAnswer(!showAnswer);
+    // Typed answers reveal the back once graded
+    if (answerMode === 'flip') setShowAnswer(!showAnswer);
+  };
+
+  const studyCards: Flashcard[] | undefined = reviewCards ?? currentCards;
+  const studyTitle = reviewCards ? "Review Today" : currentSet?.title;
+  const currentCard = studyCards?.[currentCardIndex];
+
+  // Response time runs from when a card is shown until it is graded
+  const shownAt = useRef(Date.now());
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [currentCard?.id]);
+
+  const exitStudy = () => {
+    setCurrentSet(null);
+    setReviewCards(null);
   };
 
-  const handleDifficultyRating = (difficulty: 'easy' | 'medium' | 'hard') => {
-    if (!currentCards || !currentCards[currentCardIndex]) return;
-
-    const card = currentCards[currentCardIndex];
-    const isCorrect = difficulty === 'easy';
-    
-    // Update spaced repetition data
-    const now = new Date();
-    const nextReview = new Date(now.getTime() + (difficulty === 'easy' ? 3 : difficulty === 'medium' ? 1 : 0.5) * 24 * 60 * 60 * 1000);
-    
-    updateFlashcardMutation.mutate({
-      id: card.id,
-      updates: {
-        difficulty,
-        lastReviewed: now,
-        nextReview,
-        repetitions: (card.repetitions || 0) + 1,
-      },
-    });
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!studyCards || !studyCards[currentCardIndex]) return;
+
+    const card = studyCards[currentCardIndex];
+    reviewFlashcardMutation.mutate({ id: card.id, grade, responseTimeMs: Date.now() - shownAt.current });
+    nextCard(grade !== 'again');
+  };
+
+  const nextCard = (isCorrect: boolean) => {
+    if (!studyCards) return;
 
     // Update study stats
     setStudyStats(prev => ({
@@ -89,7 +287,7 @@ export default function FlashcardsSection() {
     }));
 
     // Move to next card
-    if (currentCardIndex < (currentCards.length - 1)) {
+    if (currentCardIndex < (studyCards.length - 1)) {
       setCurrentCardIndex(currentCardIndex + 1);
       setShowAnswer(false);
     } else {
@@ -98,40 +296,55 @@ export default function FlashcardsSection() {
         title: "Deck completed! 🎉",
         description: `You got ${studyStats.correct + (isCorrect ? 1 : 0)} out of ${studyStats.total + 1} correct.`,
       });
-      setCurrentSet(null);
+      exitStudy();
       setCurrentCardIndex(0);
       setStudyStats({ correct: 0, total: 0 });
     }
   };
 
   const startStudySession = (set: FlashcardSet) => {
+    setReviewCards(null);
     setCurrentSet(set);
     setCurrentCardIndex(0);
     setShowAnswer(false);
     setStudyStats({ correct: 0, total: 0 });
   };
 
-  const progress = currentCards ? ((currentCardIndex) / currentCards.length) * 100 : 0;
+  const startReviewSession = () => {
+    if (!dueQueue || dueQueue.cards.length === 0) return;
+    setCurrentSet(null);
+    setReviewCards(dueQueue.cards);
+    setCurrentCardIndex(0);
+    setShowAnswer(false);
+    setStudyStats({ correct: 0, total: 0 });
+  };
+
+  const progress = studyCards ? ((currentCardIndex) / studyCards.length) * 100 : 0;
+  const dueReviews = dueQueue?.cards.filter((card) => !card.isNew).length ?? 0;
+  const dueNew = dueQueue?.cards.filter((card) => card.isNew).length ?? 0;
+  const forecastPeak = Math.max(1, ...(forecast || []).map((day) => day.count));
+  const reviewCard = reviewCards ? reviewCards[currentCardIndex] : undefined;
+  const masteryBySet = new Map((setMastery || []).map((entry) => [entry.setId, entry.mastery]));
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       <div className="lg:col-span-2">
-        {currentSet && currentCards ? (
+        {studyCards && (reviewCards || currentSet) ? (
           // Study Mode
           <Card className="bg-white/70 backdrop-blur-sm shadow-lg border border-white/50 mb-6">
             <CardContent className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="font-display font-semibold text-xl text-gray-800 flex items-center space-x-2">
                   <Layers className="text-brainzy-purple" />
-                  <span>{currentSet.title}</span>
+                  <span>{studyTitle}</span>
                 </h2>
                 <div className="flex items-center space-x-3">
                   <div className="bg-brainzy-purple/20 text-brainzy-purple px-3 py-1 rounded-full text-sm font-medium">
-                    Card {currentCardIndex + 1} of {currentCards.length}
+                    Card {currentCardIndex + 1} of {studyCards.length}
                   </div>
                   <Button
                     variant="outline"
-                    onClick={() => setCurrentSet(null)}
+                    onClick={exitStudy}
                     data-testid="button-exit-study"
                   >
                     Exit Study
@@ -141,59 +354,94 @@ export default function FlashcardsSection() {
               
               {/* Flashcard Display */}
               <div className="text-center mb-6">
+                {reviewCard && (
+                  <div className="flex items-center justify-center space-x-2 mb-3 text-xs" data-testid="review-card-source">
+                    <span className="bg-brainzy-mint/20 text-brainzy-mint px-2 py-0.5 rounded-full">{reviewCard.setTitle}</span>
+                    {reviewCard.isNew && (
+                      <span className="bg-brainzy-yellow/30 text-yellow-700 px-2 py-0.5 rounded-full">New</span>
+                    )}
+                  </div>
+                )}
+                {currentCard && currentCard.cardType !== 'basic' && (
+                  <div className="mb-2 text-xs text-gray-500" data-testid="text-card-type">
+                    {currentCard.cardType === 'cloze' ? `Cloze ${currentCard.ordinal}` : currentCard.ordinal === 1 ? 'Reverse' : 'Forward'}
+                  </div>
+                )}
+                <div className="flex items-center justify-center space-x-4 mb-3 text-sm">
+                  <div className="inline-flex rounded-lg border border-gray-200 p-0.5" role="group">
+                    {(['flip', 'type'] as const).map((mode) => (
+                      <Button
+                        key={mode}
+                        size="sm"
+                        variant={answerMode === mode ? "default" : "ghost"}
+                        className={`h-7 ${answerMode === mode ? "bg-brainzy-purple hover:bg-brainzy-purple/90 text-white" : ""}`}
+                        onClick={() => {
+                          setAnswerMode(mode);
+                          setShowAnswer(false);
+                        }}
+                        data-testid={`button-mode-${mode}`}
+                      >
+                        {mode === 'flip' ? 'Flip' : 'Type answer'}
+                      </Button>
+                    ))}
+                  </div>
+                  {answerMode === 'type' && (
+                    <label className="flex items-center space-x-2 text-gray-600" title="Let AI judge longer answers that are worded differently">
+                      <Switch checked={aiGrading} onCheckedChange={setAiGrading} data-testid="switch-ai-grading" />
+                      <span>AI grading</span>
+                    </label>
+                  )}
+                </div>
                 <div 
-                  className="inline-block perspective-1000 cursor-pointer"
+                  className={`inline-block perspective-1000 ${answerMode === 'flip' ? "cursor-pointer" : ""}`}
                   onClick={handleCardFlip}
                   data-testid="flashcard-container"
                 >
                   <div className="flashcard w-80 h-48 bg-gradient-to-br from-brainzy-purple/10 to-brainzy-lavender/20 rounded-2xl border-2 border-brainzy-purple/20 flex items-center justify-center hover:scale-105 transition-transform duration-300">
                     <div className="text-center p-6">
-                      {!showAnswer ? (
+                      {currentCard && (!showAnswer ? (
                         <>
-                          <h3 className="font-display font-semibold text-lg text-gray-800 mb-2">
-                            {currentCards[currentCardIndex]?.question}
-                          </h3>
-                          <p className="text-sm text-gray-600">Click to reveal answer</p>
+                          <CardFace card={currentCard} side="question" className="font-display font-semibold text-lg text-gray-800 mb-2" />
+                          {answerMode === 'flip' && <p className="text-sm text-gray-600">Click to reveal answer</p>}
                         </>
                       ) : (
                         <>
                           <h3 className="font-display font-semibold text-lg text-gray-800 mb-2">Answer:</h3>
-                          <p className="text-gray-700">{currentCards[currentCardIndex]?.answer}</p>
+                          <CardFace card={currentCard} side="answer" className="text-gray-700" />
                         </>
-                      )}
+                      ))}
                     </div>
                   </div>
                 </div>
                 
-                {showAnswer && (
-                  <div className="flex items-center justify-center space-x-4 mt-6">
-                    <Button
-                      onClick={() => handleDifficultyRating('hard')}
-                      className="bg-red-100 hover:bg-red-200 text-red-600 border-red-200"
-                      variant="outline"
-                      data-testid="button-difficulty-hard"
-                    >
-                      <X className="w-4 h-4 mr-2" />
-                      Hard
-                    </Button>
-                    <Button
-                      onClick={() => handleDifficultyRating('medium')}
-                      className="bg-yellow-100 hover:bg-yellow-200 text-yellow-600 border-yellow-200"
-                      variant="outline"
-                      data-testid="button-difficulty-medium"
-                    >
-                      <Minus className="w-4 h-4 mr-2" />
-                      Medium
-                    </Button>
-                    <Button
-                      onClick={() => handleDifficultyRating('easy')}
-                      className="bg-green-100 hover:bg-green-200 text-green-600 border-green-200"
-                      variant="outline"
-                      data-testid="button-difficulty-easy"
-                    >
-                      <Check className="w-4 h-4 mr-2" />
-                      Easy
-                    </Button>
+                {answerMode === 'type' && currentCard && (
+                  <TypedAnswer
+                    key={currentCard.id}
+                    card={currentCard}
+                    aiGrading={aiGrading}
+                    elapsedMs={() => Date.now() - shownAt.current}
+                    onGraded={() => {
+                      setShowAnswer(true);
+                      refreshAfterReview();
+                    }}
+                    onNext={nextCard}
+                  />
+                )}
+
+                {answerMode === 'flip' && showAnswer && (
+                  <div className="flex items-center justify-center space-x-3 mt-6">
+                    {GRADE_BUTTONS.map(({ grade, label, icon: Icon, className }) => (
+                      <Button
+                        key={grade}
+                        onClick={() => handleGrade(grade)}
+                        className={className}
+                        variant="outline"
+                        data-testid={`button-grade-${grade}`}
+                      >
+                        <Icon className="w-4 h-4 mr-2" />
+                        {label}
+                      </Button>
+                    ))}
                   </div>
                 )}
               </div>
@@ -203,7 +451,7 @@ export default function FlashcardsSection() {
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-gray-700">Progress</span>
                   <span className="text-sm text-gray-600">
-                    {currentCardIndex}/{currentCards.length} cards
+                    {currentCardIndex}/{studyCards.length} cards
                   </span>
                 </div>
                 <Progress value={progress} className="h-2" />
@@ -226,15 +474,57 @@ export default function FlashcardsSection() {
                   <Layers className="text-brainzy-purple" />
                   <span>Flashcards</span>
                 </h2>
-                <Button 
-                  className="bg-gradient-to-r from-brainzy-purple to-brainzy-lavender hover:shadow-lg"
-                  data-testid="button-create-flashcard-set"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Create Set
-                </Button>
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" asChild>
+                    <label className="cursor-pointer" data-testid="button-import-flashcards">
+                      <input
+                        type="file"
+                        className="hidden"
+                        accept=".apkg,.csv,.tsv,.txt"
+                        onChange={handleImport}
+                        disabled={importSetsMutation.isPending}
+                        data-testid="input-import-flashcards"
+                      />
+                      <Upload className="w-4 h-4 mr-2" />
+                      {importSetsMutation.isPending ? 'Importing...' : 'Import'}
+                    </label>
+                  </Button>
+                  <Button 
+                    className="bg-gradient-to-r from-brainzy-purple to-brainzy-lavender hover:shadow-lg"
+                    onClick={() => setEditor({ set: null })}
+                    data-testid="button-create-flashcard-set"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create Set
+                  </Button>
+                </div>
               </div>
               
+              {/* Today's reviews across all sets */}
+              {dueQueue && (dueQueue.available.new > 0 || dueQueue.available.review > 0 || dueQueue.studied.new + dueQueue.studied.review > 0) && (
+                <div className="mb-6 p-4 rounded-xl bg-gradient-to-r from-brainzy-mint/20 to-brainzy-purple/10 flex items-center justify-between" data-testid="review-today-panel">
+                  <div>
+                    <h3 className="font-medium text-gray-800 flex items-center space-x-2">
+                      <CalendarCheck className="text-brainzy-mint" size={18} />
+                      <span>Review Today</span>
+                    </h3>
+                    <p className="text-sm text-gray-600 mt-1" data-testid="text-due-counts">
+                      {dueQueue.cards.length > 0
+                        ? `${dueReviews} review${dueReviews === 1 ? "" : "s"} and ${dueNew} new card${dueNew === 1 ? "" : "s"} across your sets`
+                        : "All caught up for today! 🎉"}
+                    </p>
+                  </div>
+                  <Button
+                    onClick={startReviewSession}
+                    disabled={dueQueue.cards.length === 0}
+                    className="bg-brainzy-mint hover:bg-brainzy-mint/90 text-white"
+                    data-testid="button-review-today"
+                  >
+                    Start
+                  </Button>
+                </div>
+              )}
+
               {/* Generate from Documents */}
               {documents && documents.length > 0 && (
                 <div className="mb-6 p-4 bg-brainzy-light/30 rounded-xl">
@@ -246,18 +536,23 @@ export default function FlashcardsSection() {
                         variant="outline"
                         className="justify-start text-left h-auto p-3"
                         onClick={() => generateFlashcardsMutation.mutate({ documentId: doc.id, count: 10 })}
-                        disabled={generateFlashcardsMutation.isPending}
+                        disabled={isGenerating}
                         data-testid={`button-generate-flashcards-${doc.id}`}
                       >
                         <div>
                           <div className="font-medium text-sm">{doc.title}</div>
                           <div className="text-xs text-gray-500 mt-1">
-                            {generateFlashcardsMutation.isPending ? "Generating..." : "Generate 10 flashcards"}
+                            {isGenerating && generatingDocumentId === doc.id ? (flashcardsJob.stage || "Generating...") : "Generate 10 flashcards"}
                           </div>
                         </div>
                       </Button>
                     ))}
                   </div>
+                  {flashcardsJob.isRunning && flashcardsJob.job && (
+                    <div className="mt-3">
+                      <JobProgress job={flashcardsJob.job} onCancel={flashcardsJob.cancel} />
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -283,24 +578,50 @@ export default function FlashcardsSection() {
                     >
                       <div className="flex items-start justify-between mb-3">
                         <div className="w-3 h-3 bg-brainzy-purple rounded-full"></div>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          className="text-gray-400 hover:text-brainzy-purple"
-                          onClick={(e) => e.stopPropagation()}
-                        >
-                          ⋯
-                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-gray-400 hover:text-brainzy-purple"
+                              onClick={(e) => e.stopPropagation()}
+                              data-testid={`button-set-menu-${set.id}`}
+                            >
+                              ⋯
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                            <DropdownMenuItem onSelect={() => startStudySession(set)} data-testid={`menu-study-set-${set.id}`}>
+                              <Play size={12} className="mr-2" /> Study
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => setEditor({ set })} data-testid={`menu-edit-set-${set.id}`}>
+                              <Pencil size={12} className="mr-2" /> Edit cards
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => duplicateSetMutation.mutate(set.id)} data-testid={`menu-duplicate-set-${set.id}`}>
+                              <Copy size={12} className="mr-2" /> Duplicate
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => exportSet(set, 'apkg')} data-testid={`menu-export-anki-${set.id}`}>
+                              <Download size={12} className="mr-2" /> Export to Anki
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => exportSet(set, 'csv')} data-testid={`menu-export-csv-${set.id}`}>
+                              <Download size={12} className="mr-2" /> Export as CSV
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onSelect={() => setDeletingSet(set)} className="text-red-600" data-testid={`menu-delete-set-${set.id}`}>
+                              <Trash2 size={12} className="mr-2" /> Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       </div>
                       
                       <h3 className="font-medium text-gray-800 mb-2 line-clamp-2">{set.title}</h3>
                       <p className="text-sm text-gray-600 mb-3">{set.cardCount} cards</p>
                       
-                      <div className="flex items-center mt-2">
+                      <div className="flex items-center mt-2" title="Mastery">
                         <div className="w-full bg-gray-200 rounded-full h-1 mr-2">
-                          <div className="bg-brainzy-purple h-1 rounded-full" style={{ width: "60%" }}></div>
+                          <div className="bg-brainzy-purple h-1 rounded-full" style={{ width: `${masteryBySet.get(set.id) ?? 0}%` }}></div>
                         </div>
-                        <span className="text-xs text-gray-500">60%</span>
+                        <span className="text-xs text-gray-500" data-testid={`text-mastery-${set.id}`}>{masteryBySet.get(set.id) ?? 0}%</span>
                       </div>
                     </div>
                   ))}
@@ -309,7 +630,7 @@ export default function FlashcardsSection() {
                 <div className="text-center py-12 text-gray-500">
                   <Layers className="mx-auto mb-4 text-gray-400" size={64} />
                   <h3 className="text-lg font-medium mb-2">No flashcard sets yet</h3>
-                  <p className="mb-4">Generate flashcards from your documents to start studying!</p>
+                  <p className="mb-4">Generate flashcards from your documents or create a set of your own to start studying!</p>
                 </div>
               )}
             </CardContent>
@@ -319,7 +640,7 @@ export default function FlashcardsSection() {
       
       {/* Flashcard Sets & Stats Sidebar */}
       <div className="space-y-6">
-        {!currentSet && (
+        {!currentSet && !reviewCards && (
           <Card className="bg-white/70 backdrop-blur-sm shadow-lg border border-white/50">
             <CardContent className="p-4">
               <h3 className="font-medium text-gray-800 mb-4 flex items-center space-x-2">
@@ -337,11 +658,11 @@ export default function FlashcardsSection() {
                   >
                     <h4 className="font-medium text-gray-800 text-sm line-clamp-1">{set.title}</h4>
                     <p className="text-xs text-gray-600 mt-1">{set.cardCount} cards</p>
-                    <div className="flex items-center mt-2">
+                    <div className="flex items-center mt-2" title="Mastery">
                       <div className="w-full bg-gray-200 rounded-full h-1 mr-2">
-                        <div className="bg-brainzy-mint h-1 rounded-full" style={{ width: "60%" }}></div>
+                        <div className="bg-brainzy-mint h-1 rounded-full" style={{ width: `${masteryBySet.get(set.id) ?? 0}%` }}></div>
                       </div>
-                      <span className="text-xs text-gray-500">60%</span>
+                      <span className="text-xs text-gray-500">{masteryBySet.get(set.id) ?? 0}%</span>
                     </div>
                   </div>
                 ))}
@@ -350,6 +671,32 @@ export default function FlashcardsSection() {
           </Card>
         )}
         
+        {/* Upcoming reviews */}
+        {forecast && forecast.length > 0 && (
+          <Card className="bg-white/70 backdrop-blur-sm shadow-lg border border-white/50">
+            <CardContent className="p-4">
+              <h3 className="font-medium text-gray-800 mb-4 flex items-center space-x-2">
+                <TrendingUp className="text-brainzy-purple" />
+                <span>Next 30 Days</span>
+              </h3>
+              <div className="flex items-end h-20 space-x-0.5" data-testid="review-forecast">
+                {forecast.map((day) => (
+                  <div
+                    key={day.date}
+                    className="flex-1 bg-brainzy-purple/60 rounded-t-sm hover:bg-brainzy-purple transition-colors"
+                    style={{ height: `${Math.max(day.count > 0 ? 6 : 2, (day.count / forecastPeak) * 100)}%` }}
+                    title={`${day.date}: ${day.count} due`}
+                  ></div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>Today ({forecast[0].count})</span>
+                <span>{forecast.reduce((sum, day) => sum + day.count, 0)} due in total</span>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Study Stats */}
         <Card className="bg-white/70 backdrop-blur-sm shadow-lg border border-white/50">
           <CardContent className="p-4">
@@ -361,23 +708,77 @@ export default function FlashcardsSection() {
               <div className="flex justify-between">
                 <span className="text-gray-600">Cards Studied Today</span>
                 <span className="font-semibold text-brainzy-purple" data-testid="stat-cards-today">
-                  {studyStats.total}
+                  {stats?.cardsStudiedToday ?? 0}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Current Streak</span>
-                <span className="font-semibold text-brainzy-mint" data-testid="stat-streak">5 days</span>
+                <span className="font-semibold text-brainzy-mint" data-testid="stat-streak" title={stats ? `Longest: ${stats.longestStreak} day${stats.longestStreak === 1 ? "" : "s"}` : undefined}>
+                  {stats?.currentStreak ?? 0} day{stats?.currentStreak === 1 ? "" : "s"}
+                </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-gray-600">Accuracy</span>
-                <span className="font-semibold text-brainzy-coral" data-testid="stat-accuracy">
-                  {studyStats.total > 0 ? Math.round((studyStats.correct / studyStats.total) * 100) : 0}%
+                <span className="text-gray-600">Retention (30 days)</span>
+                <span className="font-semibold text-brainzy-coral" data-testid="stat-retention">
+                  {stats?.retentionRate != null ? `${Math.round(stats.retentionRate * 100)}%` : "–"}
                 </span>
               </div>
             </div>
           </CardContent>
         </Card>
+
+        <Card className="bg-white/70 backdrop-blur-sm shadow-lg border border-white/50">
+          <CardContent className="p-4">
+            <h3 className="font-medium text-gray-800 mb-3 flex items-center space-x-2">
+              <CalendarClock className="text-brainzy-purple" />
+              <span>Scheduling</span>
+            </h3>
+            <Select
+              value={user?.schedulerAlgorithm || 'sm2'}
+              onValueChange={(value) => schedulerMutation.mutate(value as SchedulerAlgorithm)}
+              disabled={schedulerMutation.isPending}
+            >
+              <SelectTrigger className="h-9 text-sm" data-testid="select-scheduler">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sm2">SM-2 (classic)</SelectItem>
+                <SelectItem value="fsrs">FSRS (adaptive)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-2 flex items-start space-x-1">
+              <Zap size={12} className="mt-0.5 flex-shrink-0" />
+              <span>FSRS models how well you remember each card and usually needs fewer reviews for the same recall.</span>
+            </p>
+          </CardContent>
+        </Card>
       </div>
+
+      <FlashcardSetEditor
+        open={editor !== null}
+        onOpenChange={(open) => !open && setEditor(null)}
+        set={editor?.set ?? null}
+      />
+
+      <AlertDialog open={deletingSet !== null} onOpenChange={(open) => !open && setDeletingSet(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this flashcard set?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingSet?.title}" and its {deletingSet?.cardCount ?? 0} cards will be removed. Your study streak and past reviews are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingSet && deleteSetMutation.mutate(deletingSet.id)}
+              data-testid="button-confirm-delete-set"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
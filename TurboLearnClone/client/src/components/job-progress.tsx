@@ -0,0 +1,35 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { X } from "lucide-react";
+import type { Job } from "@shared/schema";
+
+interface JobProgressProps {
+  job: Job;
+  onCancel?: () => void;
+}
+
+export default function JobProgress({ job, onCancel }: JobProgressProps) {
+  return (
+    <div data-testid={`job-progress-${job.id}`}>
+      <div className="flex justify-between items-center text-sm mb-1">
+        <span>{job.stage || "Working..."}</span>
+        <div className="flex items-center space-x-2">
+          <span>{job.progress}%</span>
+          {onCancel && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-gray-500"
+              onClick={onCancel}
+              data-testid={`button-cancel-job-${job.id}`}
+            >
+              <X className="w-3 h-3 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+      <Progress value={job.progress} className="h-2" />
+    </div>
+  );
+}
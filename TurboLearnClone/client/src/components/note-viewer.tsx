@@ -0,0 +1,39 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { HighlightedText, type DocumentHighlight } from "./document-viewer";
+import type { Note } from "@shared/schema";
+
+interface NoteViewerProps {
+  note: Note | null;
+  onClose: () => void;
+  // A cited passage to mark and scroll to
+  highlight?: Pick<DocumentHighlight, "startOffset" | "endOffset"> | null;
+}
+
+export default function NoteViewer({ note, onClose, highlight }: NoteViewerProps) {
+  return (
+    <Dialog open={!!note} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        {note && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="font-display flex items-center space-x-2">
+                <span className="line-clamp-1">{note.title}</span>
+                <Badge className="bg-brainzy-coral/20 text-brainzy-coral">NOTE</Badge>
+              </DialogTitle>
+              <DialogDescription>
+                {note.subject || "General"}
+                {note.tags && note.tags.length > 0 && ` · ${note.tags.map((tag) => `#${tag}`).join(" ")}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <ScrollArea className="h-[60vh] pr-3" data-testid="note-viewer-content">
+              <HighlightedText content={note.content} highlight={highlight} />
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
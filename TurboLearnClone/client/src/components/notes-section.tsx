@@ -7,9 +7,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useJob } from "@/hooks/use-job";
 import { StickyNote, Filter, Plus, MessageCircle, Edit, Save } from "lucide-react";
 import ChatAssistant from "./chat-assistant";
-import type { Note, Document } from "@shared/schema";
+import JobProgress from "./job-progress";
+import type { Note, Document, Job } from "@shared/schema";
 
 export default function NotesSection() {
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
@@ -54,10 +56,7 @@ export default function NotesSection() {
     },
   });
 
-  const generateNoteMutation = useMutation({
-    mutationFn: async (documentId: string) => {
-      return await apiRequest('POST', '/api/notes/generate', { documentId });
-    },
+  const noteJob = useJob<Note>({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
       toast({
@@ -65,6 +64,21 @@ export default function NotesSection() {
         description: "Your smart notes are ready for review.",
       });
     },
+    onError: (message) => {
+      toast({
+        title: "Generation failed 😞",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateNoteMutation = useMutation({
+    mutationFn: async (documentId: string) => {
+      const response = await apiRequest('POST', '/api/notes/generate', { documentId });
+      return await response.json() as Job;
+    },
+    onSuccess: (job) => noteJob.track(job),
     onError: (error: any) => {
       toast({
         title: "Generation failed 😞",
@@ -74,6 +88,11 @@ export default function NotesSection() {
     },
   });
 
+  const isGenerating = generateNoteMutation.isPending || noteJob.isRunning;
+  const generatingDocumentId = noteJob.isRunning
+    ? (noteJob.job?.input as { documentId?: string }).documentId
+    : generateNoteMutation.variables;
+
   const handleEditStart = (note: Note) => {
     setSelectedNote(note);
     setEditTitle(note.title);
@@ -149,18 +168,23 @@ export default function NotesSection() {
                       variant="outline"
                       className="justify-start text-left h-auto p-3"
                       onClick={() => generateNoteMutation.mutate(doc.id)}
-                      disabled={generateNoteMutation.isPending}
+                      disabled={isGenerating}
                       data-testid={`button-generate-note-${doc.id}`}
                     >
                       <div>
                         <div className="font-medium text-sm">{doc.title}</div>
                         <div className="text-xs text-gray-500 mt-1">
-                          {generateNoteMutation.isPending ? "Generating..." : "Click to generate notes"}
+                          {isGenerating && generatingDocumentId === doc.id ? (noteJob.stage || "Generating...") : "Click to generate notes"}
                         </div>
                       </div>
                     </Button>
                   ))}
                 </div>
+                {noteJob.isRunning && noteJob.job && (
+                  <div className="mt-3">
+                    <JobProgress job={noteJob.job} onCancel={noteJob.cancel} />
+                  </div>
+                )}
               </div>
             )}
             
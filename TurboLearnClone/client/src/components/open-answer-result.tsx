@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileText, Scale, AlertTriangle } from "lucide-react";
+import type { OpenResponseQuestion } from "@shared/quiz";
+import type { QuizAttempt, QuizQuestionResult, RubricGrade } from "@shared/schema";
+
+interface OpenAnswerResultProps {
+  question: OpenResponseQuestion;
+  result: QuizQuestionResult;
+  attemptId: string;
+  index: number;
+  onAppealed: (attempt: QuizAttempt) => void;
+}
+
+function GradeBreakdown({ grade, testId }: { grade: RubricGrade; testId: string }) {
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      <ul className="space-y-1">
+        {grade.criteria.map((criterion, index) => (
+          <li key={index} className="flex items-start justify-between space-x-3">
+            <div>
+              <span className="text-gray-800">{criterion.criterion}</span>
+              {criterion.comment && <p className="text-gray-500 text-xs">{criterion.comment}</p>}
+            </div>
+            <span className="shrink-0 font-medium text-gray-700">{criterion.points}/{criterion.maxPoints}</span>
+          </li>
+        ))}
+      </ul>
+      {grade.feedback && <p className="text-gray-600 whitespace-pre-wrap">{grade.feedback}</p>}
+      {grade.citations.length > 0 && (
+        <div className="space-y-1">
+          {grade.citations.map((citation) => (
+            <div key={citation.n} className="text-xs bg-white/70 rounded-md p-2" data-testid={`${testId}-citation-${citation.n}`}>
+              <div className="flex items-center space-x-1 text-gray-500 mb-0.5 min-w-0">
+                <span className="font-medium text-brainzy-pink">[{citation.n}]</span>
+                <FileText size={10} className="text-brainzy-purple flex-shrink-0" />
+                <span className="font-medium text-gray-700 truncate">{citation.sourceTitle}</span>
+                {citation.page != null && <span className="flex-shrink-0">· p. {citation.page}</span>}
+              </div>
+              <span className="text-gray-600 line-clamp-2">{citation.snippet}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A graded short-answer or essay response: rubric points, feedback with its sources, and the appeal
+export default function OpenAnswerResult({ question, result, attemptId, index, onAppealed }: OpenAnswerResultProps) {
+  const [appealOpen, setAppealOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const answered = typeof result.answer === "string" && result.answer.trim() !== "";
+
+  const appealMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/quiz-attempts/${attemptId}/questions/${index}/appeal`, { reason });
+      return await response.json() as QuizAttempt;
+    },
+    onSuccess: (attempt) => {
+      setAppealOpen(false);
+      onAppealed(attempt);
+      const appeal = (attempt.results as QuizQuestionResult[])[index]?.appeal;
+      toast(appeal?.outcome === 'raised' ? {
+        title: "Grade raised 🎉",
+        description: `A second examiner awarded ${appeal.secondOpinion.points} of ${result.maxPoints} points.`,
+      } : {
+        title: "Grade upheld ⚖️",
+        description: "A second examiner reviewed your answer and kept the original grade.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Appeal failed 😞",
+        description: error.message || "Failed to appeal the grade.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 mt-2" data-testid={`open-result-${index}`}>
+      <div className="flex items-center space-x-2">
+        <Badge className="bg-brainzy-purple/10 text-brainzy-purple" data-testid={`open-result-points-${index}`}>
+          {result.points}/{result.maxPoints} points
+        </Badge>
+        {result.appeal && (
+          <Badge className={result.appeal.outcome === 'raised' ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-700"}>
+            {result.appeal.outcome === 'raised' ? "Raised on appeal" : "Upheld on appeal"}
+          </Badge>
+        )}
+      </div>
+
+      <div className="bg-white/70 rounded-md p-2 text-gray-700 whitespace-pre-wrap max-h-40 overflow-y-auto">
+        {answered ? String(result.answer) : "Not answered"}
+      </div>
+
+      {result.ungraded && !result.grade && (
+        <p className="flex items-center text-orange-700">
+          <AlertTriangle className="w-4 h-4 mr-1" /> This answer could not be graded. Appeal to have it graded again.
+        </p>
+      )}
+      {result.grade && <GradeBreakdown grade={result.grade} testId={`open-result-grade-${index}`} />}
+
+      {result.appeal && (
+        <div className="border-l-2 border-brainzy-purple/40 pl-3 space-y-2">
+          <p className="font-medium text-gray-800 flex items-center">
+            <Scale className="w-4 h-4 mr-1 text-brainzy-purple" /> Second opinion: {result.appeal.secondOpinion.points}/{result.maxPoints}
+          </p>
+          <GradeBreakdown grade={result.appeal.secondOpinion} testId={`open-result-appeal-${index}`} />
+        </div>
+      )}
+
+      <details className="text-gray-600">
+        <summary className="cursor-pointer text-gray-700">Model answer</summary>
+        <p className="mt-1 whitespace-pre-wrap">{question.modelAnswer}</p>
+      </details>
+
+      {answered && !result.appeal && (
+        <Button variant="outline" size="sm" onClick={() => setAppealOpen(true)} data-testid={`button-appeal-${index}`}>
+          <Scale className="w-4 h-4 mr-1" /> Appeal grade
+        </Button>
+      )}
+
+      <Dialog open={appealOpen} onOpenChange={setAppealOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-display">Appeal this grade</DialogTitle>
+            <DialogDescription>
+              A second examiner grades your answer again against the rubric. Your grade can only go up, and each answer can be appealed once.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why should this answer earn more points? (optional)"
+            rows={4}
+            maxLength={2000}
+            data-testid="input-appeal-reason"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAppealOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => appealMutation.mutate()}
+              disabled={appealMutation.isPending}
+              className="bg-brainzy-purple hover:bg-brainzy-purple/90 text-white"
+              data-testid="button-submit-appeal"
+            >
+              {appealMutation.isPending ? "Reviewing..." : "Submit appeal"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
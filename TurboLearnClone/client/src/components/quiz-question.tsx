@@ -0,0 +1,273 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowUp, ArrowDown, Check } from "lucide-react";
+import { maxPoints, type QuizAnswer, type QuizQuestion, type QuizQuestionOf } from "@shared/quiz";
+
+interface QuizQuestionInputProps {
+  question: QuizQuestion;
+  answer: QuizAnswer | undefined;
+  onAnswer: (answer: QuizAnswer | undefined) => void;
+  // Keeps shuffled matching and ordering questions in the same order on every render of one attempt
+  seed: string;
+}
+
+// 32-bit FNV-1a of the seed, then a small LCG: a stable shuffle without storing it anywhere
+function shuffledIndexes(length: number, seed: string): number[] {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193) >>> 0;
+  }
+  const indexes = Array.from({ length }, (_, index) => index);
+  for (let i = length - 1; i > 0; i--) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    const j = state % (i + 1);
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+  // Never hand out the answer: an unshuffled list is rotated by one
+  if (length > 1 && indexes.every((value, index) => value === index)) indexes.push(indexes.shift()!);
+  return indexes;
+}
+
+function optionClass(selected: boolean): string {
+  return `w-full text-left p-4 rounded-lg border transition-all duration-200 ${
+    selected
+      ? 'bg-brainzy-mint/20 border-brainzy-mint/50 shadow-sm'
+      : 'bg-white/60 hover:bg-brainzy-mint/10 border-white/50 hover:border-brainzy-mint/30'
+  }`;
+}
+
+function ChoiceMark({ selected, square }: { selected: boolean; square?: boolean }) {
+  return (
+    <div className={`w-6 h-6 border-2 ${square ? 'rounded' : 'rounded-full'} flex items-center justify-center ${
+      selected ? 'border-brainzy-mint bg-brainzy-mint' : 'border-gray-300'
+    }`}>
+      {selected && (square ? <Check className="w-4 h-4 text-white" /> : <div className="w-2 h-2 bg-white rounded-full"></div>)}
+    </div>
+  );
+}
+
+function OptionList({ options, isSelected, onSelect, square }: {
+  options: string[];
+  isSelected: (index: number) => boolean;
+  onSelect: (index: number) => void;
+  square?: boolean;
+}) {
+  return (
+    <div className="space-y-3">
+      {options.map((option, index) => (
+        <button
+          key={index}
+          onClick={() => onSelect(index)}
+          className={optionClass(isSelected(index))}
+          data-testid={`quiz-option-${index}`}
+        >
+          <div className="flex items-center space-x-3">
+            <ChoiceMark selected={isSelected(index)} square={square} />
+            <span>{String.fromCharCode(65 + index)}) {option}</span>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function MatchingInput({ question, answer, onAnswer, seed }: QuizQuestionInputProps & { question: QuizQuestionOf<'matching'> }) {
+  const chosen = Array.isArray(answer) ? answer : [];
+  const order = shuffledIndexes(question.pairs.length, seed);
+  return (
+    <div className="space-y-3">
+      {question.pairs.map((pair, index) => (
+        <div key={index} className="flex items-center space-x-3">
+          <span className="flex-1 text-gray-800">{pair.left}</span>
+          <Select
+            value={typeof chosen[index] === "number" ? String(chosen[index]) : undefined}
+            onValueChange={(value) => {
+              const next = [...chosen];
+              next[index] = Number(value);
+              onAnswer(next);
+            }}
+          >
+            <SelectTrigger className="flex-1 bg-white/60" data-testid={`select-match-${index}`}>
+              <SelectValue placeholder="Choose a match" />
+            </SelectTrigger>
+            <SelectContent>
+              {order.map((pairIndex) => (
+                <SelectItem key={pairIndex} value={String(pairIndex)}>
+                  {question.pairs[pairIndex].right}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function OrderingInput({ question, answer, onAnswer, seed }: QuizQuestionInputProps & { question: QuizQuestionOf<'ordering'> }) {
+  // The shuffled order stands as the answer until it is changed, so there is always one to submit
+  useEffect(() => {
+    if (!Array.isArray(answer)) onAnswer(shuffledIndexes(question.items.length, seed));
+  }, [answer, question, seed]);
+
+  const order = Array.isArray(answer) ? answer : shuffledIndexes(question.items.length, seed);
+  const move = (from: number, to: number) => {
+    const next = [...order];
+    [next[from], next[to]] = [next[to], next[from]];
+    onAnswer(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {order.map((itemIndex, position) => (
+        <div
+          key={itemIndex}
+          className="flex items-center space-x-3 p-3 rounded-lg border bg-white/60 border-white/50"
+          data-testid={`quiz-order-item-${position}`}
+        >
+          <span className="w-6 text-sm font-semibold text-brainzy-mint">{position + 1}.</span>
+          <span className="flex-1">{question.items[itemIndex]}</span>
+          <Button variant="ghost" size="sm" onClick={() => move(position, position - 1)} disabled={position === 0} data-testid={`button-order-up-${position}`}>
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => move(position, position + 1)} disabled={position === order.length - 1} data-testid={`button-order-down-${position}`}>
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// The answer controls for one question, by type
+export default function QuizQuestionInput(props: QuizQuestionInputProps) {
+  const { question, answer, onAnswer } = props;
+
+  switch (question.type) {
+    case 'multiple-choice':
+      return <OptionList options={question.options} isSelected={(index) => answer === index} onSelect={onAnswer} />;
+    case 'true-false':
+      return (
+        <OptionList
+          options={["True", "False"]}
+          isSelected={(index) => answer === (index === 0)}
+          onSelect={(index) => onAnswer(index === 0)}
+        />
+      );
+    case 'multi-select': {
+      const chosen = Array.isArray(answer) ? answer : [];
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Select all that apply.</p>
+          <OptionList
+            options={question.options}
+            square
+            isSelected={(index) => chosen.includes(index)}
+            onSelect={(index) => onAnswer(chosen.includes(index) ? chosen.filter((other) => other !== index) : [...chosen, index])}
+          />
+        </div>
+      );
+    }
+    case 'fill-blank':
+      return (
+        <Input
+          value={typeof answer === "string" ? answer : ""}
+          onChange={(e) => onAnswer(e.target.value)}
+          placeholder="Fill in the blank"
+          className="bg-white/60"
+          data-testid="input-fill-blank"
+        />
+      );
+    case 'numeric':
+      return (
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            step="any"
+            defaultValue={typeof answer === "number" ? answer : ""}
+            onChange={(e) => onAnswer(e.target.value.trim() === "" || isNaN(e.target.valueAsNumber) ? undefined : e.target.valueAsNumber)}
+            placeholder="Your answer"
+            className="bg-white/60 max-w-xs"
+            data-testid="input-numeric"
+          />
+          {question.unit && <span className="text-gray-600">{question.unit}</span>}
+        </div>
+      );
+    case 'matching':
+      return <MatchingInput {...props} question={question} />;
+    case 'ordering':
+      return <OrderingInput {...props} question={question} />;
+    case 'short-answer':
+    case 'essay': {
+      const written = typeof answer === "string" ? answer : "";
+      const words = written.trim() ? written.trim().split(/\s+/).length : 0;
+      return (
+        <div className="space-y-1">
+          <Textarea
+            value={written}
+            onChange={(e) => onAnswer(e.target.value)}
+            placeholder={question.type === 'essay' ? "Write your essay" : "Write your answer in a few sentences"}
+            rows={question.type === 'essay' ? 12 : 4}
+            className="bg-white/60"
+            data-testid="input-open-response"
+          />
+          <p className="text-xs text-gray-500 text-right">
+            {words} {words === 1 ? "word" : "words"} • graded against a {maxPoints(question)}-point rubric
+          </p>
+        </div>
+      );
+    }
+  }
+}
+
+// An answer as words, for the results screen
+export function describeAnswer(question: QuizQuestion, answer: QuizAnswer | null): string {
+  if (answer === null) return "Not answered";
+  switch (question.type) {
+    case 'multiple-choice':
+      return typeof answer === "number" ? question.options[answer] ?? "Not answered" : "Not answered";
+    case 'true-false':
+      return answer === true ? "True" : answer === false ? "False" : "Not answered";
+    case 'multi-select':
+      return Array.isArray(answer) ? answer.map((index) => question.options[index]).filter(Boolean).join(", ") : "Not answered";
+    case 'fill-blank':
+      return String(answer);
+    case 'numeric':
+      return `${answer}${question.unit ? ` ${question.unit}` : ""}`;
+    case 'matching':
+      return Array.isArray(answer)
+        ? question.pairs.map((pair, index) => `${pair.left} → ${question.pairs[answer[index]]?.right ?? "?"}`).join("; ")
+        : "Not answered";
+    case 'ordering':
+      return Array.isArray(answer) ? answer.map((index) => question.items[index]).join(" → ") : "Not answered";
+    case 'short-answer':
+    case 'essay':
+      return typeof answer === "string" && answer.trim() ? answer : "Not answered";
+  }
+}
+
+export function describeCorrectAnswer(question: QuizQuestion): string {
+  switch (question.type) {
+    case 'multiple-choice':
+      return question.options[question.correctAnswer];
+    case 'true-false':
+      return question.correctAnswer ? "True" : "False";
+    case 'multi-select':
+      return question.correctAnswers.map((index) => question.options[index]).join(", ");
+    case 'fill-blank':
+      return question.acceptedAnswers.join(" / ");
+    case 'numeric':
+      return `${question.correctAnswer}${question.unit ? ` ${question.unit}` : ""}${question.tolerance > 0 ? ` (± ${question.tolerance})` : ""}`;
+    case 'matching':
+      return question.pairs.map((pair) => `${pair.left} → ${pair.right}`).join("; ");
+    case 'ordering':
+      return question.items.join(" → ");
+    case 'short-answer':
+    case 'essay':
+      return question.modelAnswer;
+  }
+}
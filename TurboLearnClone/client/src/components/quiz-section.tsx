@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,23 +6,36 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { HelpCircle, TrendingUp, Clock, Play, CheckCircle, XCircle } from "lucide-react";
-import type { Quiz, QuizAttempt, Document } from "@shared/schema";
+import { useJob } from "@/hooks/use-job";
+import { HelpCircle, TrendingUp, TrendingDown, Minus, Clock, Play, CheckCircle, XCircle, Loader2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import JobProgress from "./job-progress";
+import QuizQuestionInput, { describeAnswer, describeCorrectAnswer } from "./quiz-question";
+import OpenAnswerResult from "./open-answer-result";
+import { quizQuestions, quizQuestionTypes, quizQuestionTypeLabels, isAnswered, isOpenResponse, type QuizAnswer, type QuizQuestionType } from "@shared/quiz";
+import type { Quiz, QuizAttempt, QuizAttemptHistory, QuizQuestionResult, Document, Job, StartedQuizAttempt } from "@shared/schema";
 
-interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctAnswer: number;
-  explanation: string;
-}
+// Seconds left at which the countdown warns, most urgent last
+const TIME_WARNINGS = [
+  { seconds: 5 * 60, title: "5 minutes left ⏳" },
+  { seconds: 60, title: "1 minute left ⏰" },
+];
 
 export default function QuizSection() {
   const [currentQuiz, setCurrentQuiz] = useState<Quiz | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswers, setSelectedAnswers] = useState<number[]>([]);
+  const [selectedAnswers, setSelectedAnswers] = useState<(QuizAnswer | undefined)[]>([]);
+  // One question type for every question, or a mix of them all
+  const [questionMix, setQuestionMix] = useState<QuizQuestionType | 'mixed'>('mixed');
   const [showResult, setShowResult] = useState(false);
   const [timeLeft, setTimeLeft] = useState<number | null>(null);
-  const [quizStartTime, setQuizStartTime] = useState<Date | null>(null);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  // The submitted attempt as graded, updated again by any appeal
+  const [gradedAttempt, setGradedAttempt] = useState<QuizAttempt | null>(null);
+  // How far the server's clock is ahead of this one, in milliseconds
+  const [clockOffset, setClockOffset] = useState(0);
+  const warnedAt = useRef(new Set<number>());
+  const submitted = useRef(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -38,10 +51,13 @@ export default function QuizSection() {
     queryKey: ['/api/quiz-attempts'],
   });
 
-  const generateQuizMutation = useMutation({
-    mutationFn: async ({ documentId, questionCount }: { documentId: string; questionCount: number }) => {
-      return await apiRequest('POST', '/api/quizzes/generate', { documentId, questionCount });
-    },
+  // The quiz's attempts so far, for the trend on the results screen
+  const { data: attemptHistory } = useQuery<QuizAttemptHistory>({
+    queryKey: ['/api/quizzes', currentQuiz?.id, 'attempts'],
+    enabled: showResult && !!currentQuiz,
+  });
+
+  const quizJob = useJob<Quiz>({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/quizzes'] });
       toast({
@@ -49,6 +65,21 @@ export default function QuizSection() {
         description: "Your personalized quiz is ready to take.",
       });
     },
+    onError: (message) => {
+      toast({
+        title: "Generation failed 😞",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateQuizMutation = useMutation({
+    mutationFn: async ({ documentId, questionCount, questionTypes }: { documentId: string; questionCount: number; questionTypes: QuizQuestionType[] }) => {
+      const response = await apiRequest('POST', '/api/quizzes/generate', { documentId, questionCount, questionTypes });
+      return await response.json() as Job;
+    },
+    onSuccess: (job) => quizJob.track(job),
     onError: (error: any) => {
       toast({
         title: "Generation failed 😞",
@@ -58,47 +89,122 @@ export default function QuizSection() {
     },
   });
 
+  const isGenerating = generateQuizMutation.isPending || quizJob.isRunning;
+  const generatingDocumentId = quizJob.isRunning
+    ? (quizJob.job?.input as { documentId?: string }).documentId
+    : generateQuizMutation.variables?.documentId;
+
+  const startQuizMutation = useMutation({
+    mutationFn: async (quiz: Quiz) => {
+      const response = await apiRequest('POST', '/api/quiz-attempts', { quizId: quiz.id });
+      return await response.json() as StartedQuizAttempt;
+    },
+    onSuccess: ({ attempt: started, serverTime }, quiz) => {
+      setCurrentQuiz(quiz);
+      setCurrentQuestionIndex(0);
+      setSelectedAnswers([]);
+      setShowResult(false);
+      setTimeLeft(null);
+      setAttempt(started);
+      setClockOffset(new Date(serverTime).getTime() - Date.now());
+      warnedAt.current = new Set();
+      submitted.current = false;
+      submitQuizMutation.reset();
+      setGradedAttempt(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't start quiz 😞",
+        description: error.message || "Failed to start the quiz.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const submitQuizMutation = useMutation({
-    mutationFn: async (attemptData: {
-      quizId: string;
-      answers: number[];
-      score: number;
-      totalQuestions: number;
-      timeSpent: number;
+    mutationFn: async ({ attemptId, answers }: {
+      attemptId: string;
+      answers: (QuizAnswer | null)[];
+      timedOut: boolean;
     }) => {
-      return await apiRequest('POST', '/api/quiz-attempts', attemptData);
+      const response = await apiRequest('POST', `/api/quiz-attempts/${attemptId}/submit`, { answers });
+      return await response.json() as QuizAttempt;
     },
-    onSuccess: () => {
+    onSuccess: (graded, { timedOut }) => {
+      setGradedAttempt(graded);
       queryClient.invalidateQueries({ queryKey: ['/api/quiz-attempts'] });
-      toast({
+      queryClient.invalidateQueries({ queryKey: ['/api/quizzes', graded.quizId, 'attempts'] });
+      toast(timedOut ? {
+        title: "Time's up! ⏰",
+        description: "Your answers were submitted automatically.",
+      } : {
         title: "Quiz completed! 🎉",
         description: "Your results have been saved.",
       });
     },
+    onError: (error: any) => {
+      // The answers are still here, so they can be sent again
+      submitted.current = false;
+      toast({
+        title: "Results not saved 😞",
+        description: error.message || "Failed to save your quiz attempt.",
+        variant: "destructive",
+      });
+    },
   });
 
   const startQuiz = (quiz: Quiz) => {
-    setCurrentQuiz(quiz);
-    setCurrentQuestionIndex(0);
-    setSelectedAnswers([]);
-    setShowResult(false);
-    setQuizStartTime(new Date());
-    
-    if (quiz.timeLimit) {
-      setTimeLeft(quiz.timeLimit * 60); // Convert minutes to seconds
-    }
+    startQuizMutation.mutate(quiz);
   };
 
-  const selectAnswer = (answerIndex: number) => {
+  // Recomputed from the server's deadline on every tick rather than counted down, so time
+  // spent in another tab (where timers are throttled) or asleep is still taken off
+  useEffect(() => {
+    if (!attempt?.deadline || showResult) return;
+    const deadline = new Date(attempt.deadline).getTime();
+    const tick = () => {
+      setTimeLeft(Math.max(0, Math.ceil((deadline - (Date.now() + clockOffset)) / 1000)));
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [attempt, clockOffset, showResult]);
+
+  useEffect(() => {
+    if (timeLeft === null || showResult || !currentQuiz) return;
+    if (timeLeft === 0) {
+      finishQuiz(true);
+      return;
+    }
+
+    // Only the most urgent warning passed shows, e.g. on coming back to the tab with 30 seconds left;
+    // warnings at or above the whole time limit would fire the moment the quiz starts
+    const limit = (currentQuiz.timeLimit || 0) * 60;
+    const due = TIME_WARNINGS.filter((warning) =>
+      warning.seconds < limit && timeLeft <= warning.seconds && !warnedAt.current.has(warning.seconds)
+    );
+    if (due.length === 0) return;
+    due.forEach((warning) => warnedAt.current.add(warning.seconds));
+    toast({
+      title: due[due.length - 1].title,
+      description: "Your answers are submitted automatically when time runs out.",
+    });
+  }, [timeLeft]);
+
+  const selectAnswer = (answer: QuizAnswer | undefined) => {
     const newAnswers = [...selectedAnswers];
-    newAnswers[currentQuestionIndex] = answerIndex;
+    newAnswers[currentQuestionIndex] = answer;
     setSelectedAnswers(newAnswers);
   };
 
   const nextQuestion = () => {
     if (!currentQuiz) return;
     
-    const questions = currentQuiz.questions as QuizQuestion[];
+    const questions = quizQuestions(currentQuiz.questions);
     
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
@@ -113,27 +219,19 @@ export default function QuizSection() {
     }
   };
 
-  const finishQuiz = () => {
-    if (!currentQuiz || !quizStartTime) return;
-    
-    const questions = currentQuiz.questions as QuizQuestion[];
-    let correctCount = 0;
-    
-    selectedAnswers.forEach((answer, index) => {
-      if (answer === questions[index]?.correctAnswer) {
-        correctCount++;
-      }
-    });
-    
-    const timeSpent = Math.floor((new Date().getTime() - quizStartTime.getTime()) / 1000);
-    const score = Math.round((correctCount / questions.length) * 100);
+  const finishQuiz = (timedOut = false) => {
+    if (!currentQuiz || !attempt || submitted.current) return;
+    submitted.current = true;
     
+    const questions = quizQuestions(currentQuiz.questions);
+    // The server grades the answers; unanswered questions are sent as null so answers line up with questions
     submitQuizMutation.mutate({
-      quizId: currentQuiz.id,
-      answers: selectedAnswers,
-      score,
-      totalQuestions: questions.length,
-      timeSpent,
+      attemptId: attempt.id,
+      answers: questions.map((question, index) => {
+        const answer = selectedAnswers[index];
+        return answer !== undefined && isAnswered(question, answer) ? answer : null;
+      }),
+      timedOut,
     });
     
     setShowResult(true);
@@ -145,7 +243,8 @@ export default function QuizSection() {
     setSelectedAnswers([]);
     setShowResult(false);
     setTimeLeft(null);
-    setQuizStartTime(null);
+    setAttempt(null);
+    setGradedAttempt(null);
   };
 
   const formatTime = (seconds: number) => {
@@ -161,12 +260,10 @@ export default function QuizSection() {
   };
 
   if (currentQuiz && !showResult) {
-    const questions = currentQuiz.questions as QuizQuestion[];
+    const questions = quizQuestions(currentQuiz.questions);
     const currentQuestion = questions[currentQuestionIndex];
     const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
-    const correctAnswers = selectedAnswers.filter((answer, index) => 
-      answer === questions[index]?.correctAnswer
-    ).length;
+    const answeredCount = questions.filter((question, index) => isAnswered(question, selectedAnswers[index])).length;
 
     return (
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -183,7 +280,7 @@ export default function QuizSection() {
                     Question {currentQuestionIndex + 1} of {questions.length}
                   </Badge>
                   {timeLeft !== null && (
-                    <div className="text-sm text-gray-600 flex items-center space-x-1">
+                    <div className={`text-sm flex items-center space-x-1 ${timeLeft <= 60 ? 'text-red-600 font-semibold' : 'text-gray-600'}`}>
                       <Clock className="w-4 h-4" />
                       <span data-testid="quiz-timer">{formatTime(timeLeft)}</span>
                     </div>
@@ -201,37 +298,20 @@ export default function QuizSection() {
               {/* Quiz Question */}
               <div className="mb-8">
                 <div className="bg-gradient-to-r from-brainzy-mint/10 to-brainzy-yellow/10 rounded-xl p-6 mb-6">
+                  <p className="text-xs uppercase tracking-wide text-gray-500 mb-1" data-testid="text-question-type">
+                    {quizQuestionTypeLabels[currentQuestion.type]}
+                  </p>
                   <h3 className="font-display font-medium text-lg text-gray-800 mb-4">
                     {currentQuestion.question}
                   </h3>
                   
-                  <div className="space-y-3">
-                    {currentQuestion.options.map((option, index) => (
-                      <button
-                        key={index}
-                        onClick={() => selectAnswer(index)}
-                        className={`w-full text-left p-4 rounded-lg border transition-all duration-200 ${
-                          selectedAnswers[currentQuestionIndex] === index
-                            ? 'bg-brainzy-mint/20 border-brainzy-mint/50 shadow-sm'
-                            : 'bg-white/60 hover:bg-brainzy-mint/10 border-white/50 hover:border-brainzy-mint/30'
-                        }`}
-                        data-testid={`quiz-option-${index}`}
-                      >
-                        <div className="flex items-center space-x-3">
-                          <div className={`w-6 h-6 border-2 rounded-full flex items-center justify-center ${
-                            selectedAnswers[currentQuestionIndex] === index
-                              ? 'border-brainzy-mint bg-brainzy-mint'
-                              : 'border-gray-300'
-                          }`}>
-                            {selectedAnswers[currentQuestionIndex] === index && (
-                              <div className="w-2 h-2 bg-white rounded-full"></div>
-                            )}
-                          </div>
-                          <span>{String.fromCharCode(65 + index)}) {option}</span>
-                        </div>
-                      </button>
-                    ))}
-                  </div>
+                  <QuizQuestionInput
+                    key={currentQuestionIndex}
+                    question={currentQuestion}
+                    answer={selectedAnswers[currentQuestionIndex]}
+                    onAnswer={selectAnswer}
+                    seed={`${attempt?.id}:${currentQuestionIndex}`}
+                  />
                 </div>
                 
                 <div className="flex justify-between">
@@ -245,7 +325,7 @@ export default function QuizSection() {
                   </Button>
                   <Button
                     onClick={nextQuestion}
-                    disabled={selectedAnswers[currentQuestionIndex] === undefined}
+                    disabled={!isAnswered(currentQuestion, selectedAnswers[currentQuestionIndex])}
                     className="bg-gradient-to-r from-brainzy-mint to-brainzy-yellow hover:shadow-lg"
                     data-testid="button-next-question"
                   >
@@ -271,7 +351,7 @@ export default function QuizSection() {
                   <div className="flex justify-between text-sm mb-1">
                     <span className="text-gray-600">Answered</span>
                     <span className="font-semibold text-brainzy-mint">
-                      {selectedAnswers.filter(a => a !== undefined).length}/{questions.length}
+                      {answeredCount}/{questions.length}
                     </span>
                   </div>
                   <Progress value={progress} className="h-2" />
@@ -284,7 +364,7 @@ export default function QuizSection() {
                       className={`w-8 h-2 rounded-full ${
                         index === currentQuestionIndex
                           ? 'bg-brainzy-yellow'
-                          : selectedAnswers[index] !== undefined
+                          : isAnswered(questions[index], selectedAnswers[index])
                           ? 'bg-brainzy-mint'
                           : 'bg-gray-200'
                       }`}
@@ -292,14 +372,7 @@ export default function QuizSection() {
                     />
                   ))}
                 </div>
-                
-                {selectedAnswers.filter(a => a !== undefined).length > 0 && (
-                  <div className="text-center">
-                    <span className="text-sm text-gray-600">
-                      Current answers: {correctAnswers} correct
-                    </span>
-                  </div>
-                )}
+
               </div>
             </CardContent>
           </Card>
@@ -308,12 +381,48 @@ export default function QuizSection() {
     );
   }
 
-  if (showResult && currentQuiz) {
-    const questions = currentQuiz.questions as QuizQuestion[];
-    const correctCount = selectedAnswers.filter((answer, index) => 
-      answer === questions[index]?.correctAnswer
-    ).length;
-    const score = Math.round((correctCount / questions.length) * 100);
+  if (showResult && currentQuiz && !gradedAttempt) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <Card className="bg-white/70 backdrop-blur-sm shadow-lg border border-white/50">
+          <CardContent className="p-8 text-center">
+            {submitQuizMutation.isError ? (
+              <>
+                <XCircle className="w-10 h-10 text-red-500 mx-auto mb-4" />
+                <p className="text-gray-600 mb-6" data-testid="text-submit-error">
+                  {(submitQuizMutation.error as Error)?.message || "Your answers couldn't be saved."}
+                </p>
+                <div className="flex justify-center space-x-3">
+                  <Button variant="outline" onClick={exitQuiz} data-testid="button-back-to-quizzes">
+                    Back to Quizzes
+                  </Button>
+                  <Button
+                    onClick={() => finishQuiz(submitQuizMutation.variables?.timedOut)}
+                    className="bg-gradient-to-r from-brainzy-mint to-brainzy-yellow"
+                    data-testid="button-retry-submit"
+                  >
+                    Try Again
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="flex items-center justify-center space-x-2 text-gray-600">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span>Scoring your answers...</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (showResult && currentQuiz && gradedAttempt) {
+    const questions = quizQuestions(currentQuiz.questions);
+    const graded = gradedAttempt;
+    const results = (graded.results || []) as QuizQuestionResult[];
+    const { score, correctCount } = graded;
+    const trend = attemptHistory?.trend;
 
     return (
       <div className="max-w-2xl mx-auto">
@@ -361,6 +470,63 @@ export default function QuizSection() {
                   <div className="text-sm text-gray-600">Total</div>
                 </div>
               </div>
+              {trend && trend.change !== null && (
+                <div className="flex items-center justify-center space-x-2 text-sm text-gray-600 mt-4" data-testid="result-trend">
+                  {trend.direction === 'improving' ? (
+                    <TrendingUp className="w-4 h-4 text-green-500" />
+                  ) : trend.direction === 'declining' ? (
+                    <TrendingDown className="w-4 h-4 text-red-500" />
+                  ) : (
+                    <Minus className="w-4 h-4 text-gray-400" />
+                  )}
+                  <span>
+                    {trend.change > 0 ? `Up ${trend.change} points` : trend.change < 0 ? `Down ${-trend.change} points` : 'Same score'} on your last attempt
+                    {' '}• Best {trend.bestScore}% over {trend.attemptCount} attempts
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2 mb-6 text-left">
+              {questions.map((question, index) => {
+                const result = results[index];
+                return (
+                  <div key={index} className="bg-white/60 rounded-lg p-3 border border-white/50" data-testid={`result-question-${index}`}>
+                    <div className="flex items-start space-x-2">
+                      {result?.correct ? (
+                        <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 shrink-0" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-red-500 mt-0.5 shrink-0" />
+                      )}
+                      <div className="text-sm flex-1">
+                        <p className="font-medium text-gray-800">{question.question}</p>
+                        {isOpenResponse(question) && result && (
+                          <OpenAnswerResult
+                            question={question}
+                            result={result}
+                            attemptId={graded.id}
+                            index={index}
+                            onAppealed={(appealed) => {
+                              setGradedAttempt(appealed);
+                              queryClient.invalidateQueries({ queryKey: ['/api/quiz-attempts'] });
+                              queryClient.invalidateQueries({ queryKey: ['/api/quizzes', appealed.quizId, 'attempts'] });
+                            }}
+                          />
+                        )}
+                        {!isOpenResponse(question) && !result?.correct && (
+                          <p className="text-gray-600 mt-1">
+                            You answered: {describeAnswer(question, result?.answer ?? null)}.{' '}
+                            Correct: <span className="font-medium text-gray-800">{describeCorrectAnswer(question)}</span>
+                          </p>
+                        )}
+                        {!isOpenResponse(question) && !result?.correct && question.explanation && (
+                          <p className="text-gray-500 mt-1">{question.explanation}</p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
             </div>
             
             <div className="flex space-x-3">
@@ -374,6 +540,7 @@ export default function QuizSection() {
               </Button>
               <Button
                 onClick={() => startQuiz(currentQuiz)}
+                disabled={startQuizMutation.isPending}
                 className="flex-1 bg-gradient-to-r from-brainzy-mint to-brainzy-yellow"
                 data-testid="button-retake-quiz"
               >
@@ -401,26 +568,48 @@ export default function QuizSection() {
             {/* Generate from Documents */}
             {documents && documents.length > 0 && (
               <div className="mb-6 p-4 bg-brainzy-light/30 rounded-xl">
-                <h3 className="font-medium text-gray-800 mb-3">Generate Quiz from Documents</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-medium text-gray-800">Generate Quiz from Documents</h3>
+                  <Select value={questionMix} onValueChange={(value) => setQuestionMix(value as QuizQuestionType | 'mixed')}>
+                    <SelectTrigger className="w-48 h-8 text-sm" data-testid="select-question-types">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mixed">Mixed question types</SelectItem>
+                      {quizQuestionTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{quizQuestionTypeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   {documents.slice(0, 4).map((doc) => (
                     <Button
                       key={doc.id}
                       variant="outline"
                       className="justify-start text-left h-auto p-3"
-                      onClick={() => generateQuizMutation.mutate({ documentId: doc.id, questionCount: 10 })}
-                      disabled={generateQuizMutation.isPending}
+                      onClick={() => generateQuizMutation.mutate({
+                        documentId: doc.id,
+                        questionCount: 10,
+                        questionTypes: questionMix === 'mixed' ? [...quizQuestionTypes] : [questionMix],
+                      })}
+                      disabled={isGenerating}
                       data-testid={`button-generate-quiz-${doc.id}`}
                     >
                       <div>
                         <div className="font-medium text-sm">{doc.title}</div>
                         <div className="text-xs text-gray-500 mt-1">
-                          {generateQuizMutation.isPending ? "Generating..." : "Generate 10 questions"}
+                          {isGenerating && generatingDocumentId === doc.id ? (quizJob.stage || "Generating...") : "Generate 10 questions"}
                         </div>
                       </div>
                     </Button>
                   ))}
                 </div>
+                {quizJob.isRunning && quizJob.job && (
+                  <div className="mt-3">
+                    <JobProgress job={quizJob.job} onCancel={quizJob.cancel} />
+                  </div>
+                )}
               </div>
             )}
             
@@ -436,7 +625,7 @@ export default function QuizSection() {
             ) : quizzes && quizzes.length > 0 ? (
               <div className="space-y-4">
                 {quizzes.map((quiz) => {
-                  const questions = quiz.questions as QuizQuestion[];
+                  const questions = quizQuestions(quiz.questions);
                   const bestScore = getQuizScore(quiz.id);
                   
                   return (
@@ -457,13 +646,14 @@ export default function QuizSection() {
                           </div>
                           <p className="text-sm text-gray-600 mb-2">{quiz.description}</p>
                           <div className="flex items-center space-x-4 text-xs text-gray-500">
-                            <span>{questions.length} questions</span>
+                            <span>{questions.length > 0 ? `${questions.length} questions` : "Questions could not be read"}</span>
                             {quiz.timeLimit && <span>{quiz.timeLimit} min</span>}
                             <span>Medium difficulty</span>
                           </div>
                         </div>
                         <Button
                           onClick={() => startQuiz(quiz)}
+                          disabled={startQuizMutation.isPending || questions.length === 0}
                           className="ml-4 bg-gradient-to-r from-brainzy-mint to-brainzy-yellow hover:shadow-lg"
                           data-testid={`button-start-quiz-${quiz.id}`}
                         >
@@ -552,7 +742,7 @@ export default function QuizSection() {
                         </Badge>
                       </div>
                       <div className="text-xs text-gray-500">
-                        {attempt.score}/{attempt.totalQuestions} correct • {' '}
+                        {attempt.correctCount}/{attempt.totalQuestions} correct • {' '}
                         {attempt.completedAt ? new Date(attempt.completedAt).toLocaleDateString() : 'Unknown date'}
                       </div>
                     </div>
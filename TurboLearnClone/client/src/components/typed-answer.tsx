@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Check, X, Minus, ArrowRight, Sparkles } from "lucide-react";
+import type { Flashcard, TypedAnswerResult } from "@shared/schema";
+
+interface TypedAnswerProps {
+  card: Flashcard;
+  aiGrading: boolean;
+  // Milliseconds since the card was shown
+  elapsedMs: () => number;
+  // The server has graded and rescheduled the card
+  onGraded: (result: TypedAnswerResult) => void;
+  onNext: (correct: boolean) => void;
+}
+
+const VERDICTS: Record<TypedAnswerResult["verdict"], { label: string; icon: typeof Check; className: string }> = {
+  correct: { label: "Correct", icon: Check, className: "bg-green-100 text-green-700 border-green-200" },
+  close: { label: "Almost", icon: Minus, className: "bg-orange-100 text-orange-700 border-orange-200" },
+  incorrect: { label: "Not quite", icon: X, className: "bg-red-100 text-red-700 border-red-200" },
+};
+
+// What was typed, merged with what was expected: missed text underlined in green, extra text struck through
+function AnswerDiff({ result }: { result: TypedAnswerResult }) {
+  return (
+    <p className="text-base whitespace-pre-wrap" data-testid="text-answer-diff">
+      {result.diff.map((part, index) => (
+        <span
+          key={index}
+          className={
+            part.kind === "missing"
+              ? "bg-green-100 text-green-800 underline decoration-green-500"
+              : part.kind === "extra"
+                ? "bg-red-100 text-red-700 line-through"
+                : "text-gray-800"
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+// Type the answer instead of flipping; the server grades it and reviews the card with that grade
+export default function TypedAnswer({ card, aiGrading, elapsedMs, onGraded, onNext }: TypedAnswerProps) {
+  const [answer, setAnswer] = useState("");
+  const [result, setResult] = useState<TypedAnswerResult | null>(null);
+  const { toast } = useToast();
+
+  const answerMutation = useMutation({
+    mutationFn: async (typed: string) => {
+      const response = await apiRequest('POST', `/api/flashcards/${card.id}/answer`, {
+        answer: typed,
+        responseTimeMs: elapsedMs(),
+        aiGrading,
+      });
+      return await response.json() as { card: Flashcard; result: TypedAnswerResult };
+    },
+    onSuccess: ({ result: graded }) => {
+      setResult(graded);
+      onGraded(graded);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Grading failed 😞",
+        description: error.message || "Failed to check your answer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!result) {
+    return (
+      <form
+        className="flex items-center space-x-2 max-w-md mx-auto mt-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (answer.trim()) answerMutation.mutate(answer);
+        }}
+      >
+        <Input
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          placeholder="Type your answer"
+          autoFocus
+          disabled={answerMutation.isPending}
+          data-testid="input-typed-answer"
+        />
+        <Button
+          type="submit"
+          disabled={!answer.trim() || answerMutation.isPending}
+          className="bg-brainzy-purple hover:bg-brainzy-purple/90 text-white"
+          data-testid="button-check-answer"
+        >
+          {answerMutation.isPending ? "Checking..." : "Check"}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => answerMutation.mutate("")}
+          disabled={answerMutation.isPending}
+          data-testid="button-dont-know"
+        >
+          Don't know
+        </Button>
+      </form>
+    );
+  }
+
+  const verdict = VERDICTS[result.verdict];
+  const VerdictIcon = verdict.icon;
+  return (
+    <div className="max-w-md mx-auto mt-6 space-y-3 text-left" data-testid="typed-answer-result">
+      <div className="flex items-center justify-between">
+        <span className={`inline-flex items-center px-3 py-1 rounded-full border text-sm font-medium ${verdict.className}`} data-testid="text-answer-verdict">
+          <VerdictIcon className="w-4 h-4 mr-1" />
+          {verdict.label}
+        </span>
+        {result.method === "ai" && (
+          <span className="text-xs text-gray-500 flex items-center">
+            <Sparkles className="w-3 h-3 mr-1" /> Graded by AI
+          </span>
+        )}
+      </div>
+      {result.verdict !== "correct" && answer.trim() && <AnswerDiff result={result} />}
+      {result.verdict !== "correct" && (
+        <p className="text-sm text-gray-600">
+          Expected: <span className="font-medium text-gray-800">{result.expected}</span>
+        </p>
+      )}
+      {result.feedback && <p className="text-sm text-gray-600" data-testid="text-answer-feedback">{result.feedback}</p>}
+      <Button
+        onClick={() => onNext(result.verdict !== "incorrect")}
+        autoFocus
+        className="bg-brainzy-purple hover:bg-brainzy-purple/90 text-white"
+        data-testid="button-next-card"
+      >
+        Next <ArrowRight className="w-4 h-4 ml-2" />
+      </Button>
+    </div>
+  );
+}
@@ -3,15 +3,19 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { FileText, Mic, Youtube, Upload, History, Bot, BarChart3 } from "lucide-react";
-import type { Document } from "@shared/schema";
+import { useJob } from "@/hooks/use-job";
+import { FileText, Mic, Youtube, Upload, History, Bot, BarChart3, Loader2 } from "lucide-react";
+import DocumentViewer from "./document-viewer";
+import AudioRecorder from "./audio-recorder";
+import JobProgress from "./job-progress";
+import type { Document, Job } from "@shared/schema";
 
 export default function UploadSection() {
   const [youtubeUrl, setYoutubeUrl] = useState("");
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [viewedDocument, setViewedDocument] = useState<Document | null>(null);
+  const [showRecorder, setShowRecorder] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -27,17 +31,66 @@ export default function UploadSection() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
-      setUploadProgress(0);
       toast({
         title: "Upload successful! 🎉",
         description: "Your document has been processed and is ready for study materials.",
       });
     },
-    onError: () => {
-      setUploadProgress(0);
+    onError: (error: any) => {
+      toast({
+        title: "Upload failed 😞",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transcriptionJob = useJob<Document>({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      toast({
+        title: "Audio transcribed! 🎙️",
+        description: "Your recording is now a timestamped transcript.",
+      });
+    },
+    onError: (message) => {
+      toast({
+        title: "Transcription failed 😞",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadAudioMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('audio', file);
+      const response = await apiRequest('POST', '/api/documents/audio', formData);
+      return await response.json() as Job;
+    },
+    onSuccess: (job) => transcriptionJob.track(job),
+    onError: (error: any) => {
       toast({
         title: "Upload failed 😞",
-        description: "Something went wrong. Please try again.",
+        description: error.message || "Failed to upload audio.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const youtubeTranscriptionJob = useJob<Document>({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      toast({
+        title: "YouTube video transcribed! 🎬",
+        description: "The video had no captions, so its audio was transcribed instead.",
+      });
+    },
+    onError: (message) => {
+      toast({
+        title: "Transcription failed 😞",
+        description: message,
         variant: "destructive",
       });
     },
@@ -47,9 +100,14 @@ export default function UploadSection() {
     mutationFn: async (url: string) => {
       return await apiRequest('POST', '/api/documents/youtube', { url });
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    onSuccess: async (response) => {
       setYoutubeUrl("");
+      // 202: no captions, so the audio is being transcribed in the background
+      if (response.status === 202) {
+        youtubeTranscriptionJob.track(await response.json() as Job);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
       toast({
         title: "YouTube video processed! 🎬",
         description: "Transcript extracted and ready for notes generation.",
@@ -67,15 +125,22 @@ export default function UploadSection() {
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-
-    // Simulate upload progress
-    setUploadProgress(10);
-    setTimeout(() => setUploadProgress(50), 500);
-    setTimeout(() => setUploadProgress(80), 1000);
     
     uploadDocumentMutation.mutate(file);
   };
 
+  // Resolves once the server has accepted the file; transcription continues as a background job
+  const transcribeAudio = (file: File) => uploadAudioMutation.mutateAsync(file);
+
+  const handleAudioUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    // Failures are already reported by the mutation's onError toast
+    transcribeAudio(file).catch(() => {});
+  };
+
   const handleYoutubeSubmit = () => {
     if (!youtubeUrl.trim()) {
       toast({
@@ -105,31 +170,46 @@ export default function UploadSection() {
                 <input
                   type="file"
                   className="hidden"
-                  accept=".pdf,.docx,.txt"
+                  accept=".pdf,.docx,.txt,.srt,.vtt,.sbv"
                   onChange={handleFileUpload}
                   data-testid="input-file-upload"
                 />
                 <div className="text-center">
                   <FileText className="text-3xl text-brainzy-pink mb-3 mx-auto" size={32} />
                   <h3 className="font-medium text-gray-800 mb-2">Documents</h3>
-                  <p className="text-sm text-gray-600">PDF, DOCX, TXT files</p>
+                  <p className="text-sm text-gray-600">PDF, DOCX, TXT, subtitles</p>
                 </div>
               </label>
               
               {/* Audio Upload */}
-              <label className="card-hover bg-gradient-to-br from-brainzy-purple/10 to-brainzy-lavender/10 rounded-xl p-6 border-2 border-dashed border-brainzy-purple/30 cursor-pointer">
-                <input
-                  type="file"
-                  className="hidden"
-                  accept="audio/*"
-                  data-testid="input-audio-upload"
-                />
+              <div className="card-hover bg-gradient-to-br from-brainzy-purple/10 to-brainzy-lavender/10 rounded-xl p-6 border-2 border-dashed border-brainzy-purple/30">
                 <div className="text-center">
                   <Mic className="text-3xl text-brainzy-purple mb-3 mx-auto" size={32} />
                   <h3 className="font-medium text-gray-800 mb-2">Audio</h3>
-                  <p className="text-sm text-gray-600">Record or upload MP3</p>
+                  <div className="flex justify-center space-x-3 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setShowRecorder(!showRecorder)}
+                      className="text-brainzy-purple hover:underline"
+                      data-testid="button-toggle-recorder"
+                    >
+                      Record
+                    </button>
+                    <span className="text-gray-400">or</span>
+                    <label className="text-brainzy-purple hover:underline cursor-pointer">
+                      <input
+                        type="file"
+                        className="hidden"
+                        accept="audio/*,.mp3,.wav,.m4a,.ogg,.webm,.flac"
+                        onChange={handleAudioUpload}
+                        disabled={uploadAudioMutation.isPending || transcriptionJob.isRunning}
+                        data-testid="input-audio-upload"
+                      />
+                      upload
+                    </label>
+                  </div>
                 </div>
-              </label>
+              </div>
               
               {/* YouTube */}
               <div className="card-hover bg-gradient-to-br from-brainzy-mint/10 to-brainzy-yellow/10 rounded-xl p-6 border-2 border-dashed border-brainzy-mint/30">
@@ -141,6 +221,13 @@ export default function UploadSection() {
               </div>
             </div>
             
+            {/* Lecture Recorder */}
+            {showRecorder && (
+              <div className="mb-4">
+                <AudioRecorder onUpload={transcribeAudio} isUploading={uploadAudioMutation.isPending} />
+              </div>
+            )}
+
             {/* YouTube URL Input */}
             <div className="bg-brainzy-light/50 rounded-xl p-4">
               <div className="flex space-x-3">
@@ -154,7 +241,7 @@ export default function UploadSection() {
                 />
                 <Button
                   onClick={handleYoutubeSubmit}
-                  disabled={processYoutubeMutation.isPending}
+                  disabled={processYoutubeMutation.isPending || youtubeTranscriptionJob.isRunning}
                   className="bg-gradient-to-r from-brainzy-pink to-brainzy-coral hover:shadow-lg"
                   data-testid="button-process-youtube"
                 >
@@ -165,13 +252,26 @@ export default function UploadSection() {
             </div>
 
             {/* Upload Progress */}
-            {uploadProgress > 0 && uploadProgress < 100 && (
+            {uploadDocumentMutation.isPending && (
+              <div className="mt-4 flex items-center space-x-2 text-sm text-gray-600" data-testid="upload-pending">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Uploading and reading your document...</span>
+              </div>
+            )}
+            {uploadAudioMutation.isPending && (
+              <div className="mt-4 flex items-center space-x-2 text-sm text-gray-600" data-testid="audio-upload-pending">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Uploading audio...</span>
+              </div>
+            )}
+            {transcriptionJob.isRunning && transcriptionJob.job && (
               <div className="mt-4">
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Uploading...</span>
-                  <span>{uploadProgress}%</span>
-                </div>
-                <Progress value={uploadProgress} className="h-2" />
+                <JobProgress job={transcriptionJob.job} onCancel={transcriptionJob.cancel} />
+              </div>
+            )}
+            {youtubeTranscriptionJob.isRunning && youtubeTranscriptionJob.job && (
+              <div className="mt-4">
+                <JobProgress job={youtubeTranscriptionJob.job} onCancel={youtubeTranscriptionJob.cancel} />
               </div>
             )}
           </CardContent>
@@ -205,6 +305,7 @@ export default function UploadSection() {
                   <div
                     key={doc.id}
                     className="flex items-center space-x-3 p-3 bg-white/50 rounded-lg hover:bg-white/70 transition-colors cursor-pointer"
+                    onClick={() => setViewedDocument(doc)}
                     data-testid={`document-item-${doc.id}`}
                   >
                     <div className="w-10 h-10 bg-brainzy-pink/20 rounded-lg flex items-center justify-center">
@@ -233,6 +334,8 @@ export default function UploadSection() {
             )}
           </CardContent>
         </Card>
+
+        <DocumentViewer document={viewedDocument} onClose={() => setViewedDocument(null)} />
       </div>
       
       {/* Quick Actions Sidebar */}
@@ -0,0 +1,121 @@
+import { createContext, ReactNode, useContext, useEffect } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser, LoginUser, RegisterUser } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterUser>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<PublicUser | null, Error>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginUser) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return await res.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed 😞",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: RegisterUser) => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials);
+      return await res.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], user);
+      toast({
+        title: "Welcome to Brainzy! 🎉",
+        description: "Your account is ready. Upload something to get started.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sign up failed 😞",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Study days start at local midnight, so the server needs to know where the user is
+  useEffect(() => {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!user || !timezone || user.timezone === timezone) return;
+    apiRequest("PUT", "/api/auth/me/preferences", { timezone })
+      .then((res) => res.json())
+      .then((updated: PublicUser) => queryClient.setQueryData(["/api/auth/me"], updated))
+      .catch(() => {
+        // Not worth interrupting anyone over; days keep their previous boundaries
+      });
+  }, [user]);
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Drop every cached query so the next account never sees this one's data
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout failed 😞",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,106 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import type { ChatMessage } from "@shared/schema";
+
+interface UseChatStreamOptions {
+  onDone?: (message: ChatMessage) => void;
+  onError?: (message: string) => void;
+  // Called after `stop`; the partial answer has been saved if any text had arrived
+  onStop?: () => void;
+}
+
+// Splits a Server-Sent Events buffer into complete events, returning the unfinished tail
+function parseEvents(buffer: string): { events: { event: string; data: string }[]; rest: string } {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() || "";
+  const events = blocks.map((block) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+    return { event, data: data.join("\n") };
+  });
+  return { events, rest };
+}
+
+/**
+ * Sends a chat question to `/api/chat/stream` and exposes the answer as it
+ * is written. EventSource cannot POST, so the stream is read with fetch;
+ * `stop` aborts the request, which the server turns into an upstream abort.
+ */
+export function useChatStream({ onDone, onError, onStop }: UseChatStreamOptions = {}) {
+  const [question, setQuestion] = useState<string | null>(null);
+  const [answer, setAnswer] = useState("");
+  const controllerRef = useRef<AbortController | null>(null);
+  // Callbacks usually close over component state; always call the latest ones
+  const callbacksRef = useRef({ onDone, onError, onStop });
+  callbacksRef.current = { onDone, onError, onStop };
+
+  const reset = useCallback(() => {
+    controllerRef.current = null;
+    setQuestion(null);
+    setAnswer("");
+  }, []);
+
+  const send = useCallback(async (body: { message: string; documentId?: string; threadId?: string }) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setQuestion(body.message);
+    setAnswer("");
+
+    try {
+      const res = await fetch("/api/chat/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        credentials: "include",
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = parseEvents(buffer);
+        buffer = rest;
+
+        for (const { event, data } of events) {
+          const payload = JSON.parse(data);
+          if (event === "token") setAnswer((current) => current + payload.text);
+          else if (event === "done") callbacksRef.current.onDone?.(payload as ChatMessage);
+          else if (event === "error") callbacksRef.current.onError?.(payload.message);
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        callbacksRef.current.onStop?.();
+      } else {
+        callbacksRef.current.onError?.((error as Error).message || "Failed to send message.");
+      }
+    } finally {
+      if (controllerRef.current === controller) reset();
+    }
+  }, [reset]);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    send,
+    stop,
+    question,
+    answer,
+    isStreaming: question !== null,
+  };
+}
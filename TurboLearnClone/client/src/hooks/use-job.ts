@@ -0,0 +1,75 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Job } from "@shared/schema";
+
+interface UseJobOptions<TResult> {
+  onSuccess?: (result: TResult, job: Job) => void;
+  onError?: (message: string, job: Job) => void;
+  onCancel?: (job: Job) => void;
+}
+
+const FINISHED_STATUSES = ["succeeded", "failed", "cancelled"];
+
+/**
+ * Follows a background job over Server-Sent Events. Call `track` with the job
+ * a generate/upload endpoint returned (202); `job` then holds the live stage
+ * and progress until it succeeds, fails or is cancelled.
+ */
+export function useJob<TResult = unknown>({ onSuccess, onError, onCancel }: UseJobOptions<TResult> = {}) {
+  const [job, setJob] = useState<Job | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+  // Callbacks usually close over component state; always call the latest ones
+  const callbacksRef = useRef({ onSuccess, onError, onCancel });
+  callbacksRef.current = { onSuccess, onError, onCancel };
+
+  const stop = useCallback(() => {
+    sourceRef.current?.close();
+    sourceRef.current = null;
+  }, []);
+
+  const track = useCallback((started: Job) => {
+    stop();
+    setJob(started);
+
+    const source = new EventSource(`/api/jobs/${started.id}/events`, { withCredentials: true });
+    sourceRef.current = source;
+
+    source.onmessage = (event) => {
+      const update: Job = JSON.parse(event.data);
+      setJob(update);
+      if (!FINISHED_STATUSES.includes(update.status)) return;
+
+      stop();
+      const { onSuccess, onError, onCancel } = callbacksRef.current;
+      if (update.status === "succeeded") onSuccess?.(update.result as TResult, update);
+      else if (update.status === "failed") onError?.(update.error || "Something went wrong. Please try again.", update);
+      else onCancel?.(update);
+    };
+
+    // EventSource reconnects on its own after network blips; it only gives up when the server refuses the stream
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return;
+      stop();
+      setJob(null);
+      callbacksRef.current.onError?.("Lost track of this job. Please refresh to see if it finished.", started);
+    };
+  }, [stop]);
+
+  const cancel = useCallback(async () => {
+    if (!job) return;
+    await apiRequest('POST', `/api/jobs/${job.id}/cancel`);
+  }, [job]);
+
+  useEffect(() => stop, [stop]);
+
+  const isRunning = !!job && !FINISHED_STATUSES.includes(job.status);
+
+  return {
+    job,
+    track,
+    cancel,
+    isRunning,
+    progress: job?.progress ?? 0,
+    stage: job?.stage ?? null,
+  };
+}
@@ -0,0 +1,26 @@
+import { Redirect, Route } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: () => React.JSX.Element;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen gradient-bg flex items-center justify-center">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-brainzy-pink"></div>
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
@@ -0,0 +1,99 @@
+// Persists MediaRecorder chunks to IndexedDB as they arrive, so a crashed or
+// closed tab can still recover everything recorded up to the last chunk.
+
+const DB_NAME = "brainzy-recordings";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const CHUNKS = "chunks";
+
+export interface RecordingSession {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  // Recorded time in ms, excluding pauses, as of the last saved chunk
+  duration: number;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  seq: number;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS, { keyPath: "id" });
+        const chunks = db.createObjectStore(CHUNKS, { keyPath: ["sessionId", "seq"] });
+        chunks.createIndex("sessionId", "sessionId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function createSession(session: RecordingSession): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  tx.objectStore(SESSIONS).put(session);
+  await done(tx);
+}
+
+export async function saveChunk(sessionId: string, seq: number, blob: Blob, duration: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, CHUNKS], "readwrite");
+  tx.objectStore(CHUNKS).put({ sessionId, seq, blob } satisfies StoredChunk);
+
+  const sessions = tx.objectStore(SESSIONS);
+  const session: RecordingSession | undefined = await promisify(sessions.get(sessionId));
+  if (session) sessions.put({ ...session, duration });
+  await done(tx);
+}
+
+export async function listSessions(): Promise<RecordingSession[]> {
+  const db = await openDb();
+  const sessions: RecordingSession[] = await promisify(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Reassembles the chunks in recording order; MediaRecorder chunks concatenate into a playable file
+export async function loadRecording(session: RecordingSession): Promise<Blob> {
+  const db = await openDb();
+  const index = db.transaction(CHUNKS).objectStore(CHUNKS).index("sessionId");
+  const chunks: StoredChunk[] = await promisify(index.getAll(session.id));
+  chunks.sort((a, b) => a.seq - b.seq);
+  return new Blob(chunks.map((chunk) => chunk.blob), { type: session.mimeType });
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, CHUNKS], "readwrite");
+  tx.objectStore(SESSIONS).delete(sessionId);
+  tx.objectStore(CHUNKS).delete(IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]));
+  await done(tx);
+}
@@ -1,13 +1,16 @@
 import { useState } from "react";
-import { Brain, Crown } from "lucide-react";
+import { Brain, Crown, LogOut } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import UploadSection from "@/components/upload-section";
 import NotesSection from "@/components/notes-section";
 import FlashcardsSection from "@/components/flashcards-section";
 import QuizSection from "@/components/quiz-section";
 import MusicSection from "@/components/music-section";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Home() {
+  const { user, logoutMutation } = useAuth();
+
   return (
     <div className="min-h-screen gradient-bg">
       {/* Header */}
@@ -30,7 +33,23 @@ export default function Home() {
                 <Crown className="w-4 h-4" />
                 <span className="font-medium">Free Forever</span>
               </button>
-              <div className="w-8 h-8 bg-gradient-to-br from-brainzy-coral to-brainzy-lavender rounded-full"></div>
+              <div className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-gradient-to-br from-brainzy-coral to-brainzy-lavender rounded-full flex items-center justify-center text-white text-sm font-semibold">
+                  {user?.username.charAt(0).toUpperCase()}
+                </div>
+                <span className="hidden sm:inline text-sm font-medium text-gray-700" data-testid="text-username">
+                  {user?.username}
+                </span>
+              </div>
+              <button
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                className="text-gray-400 hover:text-brainzy-pink transition-colors"
+                title="Log out"
+                data-testid="button-logout"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
             </div>
           </div>
         </div>
@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { startTestServer, type TestClient, type TestServer } from "./test-server";
+import type { ChatThread } from "@shared/schema";
+
+describe("chat scopes", () => {
+  let app: TestServer;
+  let client: TestClient;
+  let thread: ChatThread;
+
+  beforeAll(async () => {
+    app = await startTestServer();
+    const signedUp = await app.signUp("dorothy");
+    client = signedUp.client;
+    await storage.createNote({ userId: signedUp.user.id, title: "Ions", content: "An ion is an atom with a net charge.", subject: "Chemistry" });
+    thread = (await client.post<ChatThread>("/api/chat-threads", { scope: { subject: "Chemistry" } })).body;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const malformed = { documentIds: "doc-1", subject: 42 };
+
+  it.each([
+    ["chat", "POST", () => "/api/chat"],
+    ["streamed chat", "POST", () => "/api/chat/stream"],
+    ["new thread", "POST", () => "/api/chat-threads"],
+    ["thread update", "PUT", () => `/api/chat-threads/${thread.id}`],
+  ])("answers 400 for a malformed scope on the %s route", async (_name, method, path) => {
+    const response = await client.request(method, path(), { message: "What is an ion?", scope: malformed });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toMatch(/^Invalid chat scope: .*documentIds/);
+  });
+
+  it.each([
+    ["chat", "/api/chat"],
+    ["streamed chat", "/api/chat/stream"],
+  ])("answers 400 for a blank message on the %s route without starting a thread", async (_name, path) => {
+    const before = await client.get<ChatThread[]>("/api/chat-threads");
+
+    for (const body of [{ scope: { subject: "Chemistry" } }, { message: "   ", scope: { subject: "Chemistry" } }, { message: 42, threadId: thread.id }]) {
+      const response = await client.post(path, body);
+      expect(response.status).toBe(400);
+      expect(response.body.message).toMatch(/message/i);
+    }
+
+    const after = await client.get<ChatThread[]>("/api/chat-threads");
+    expect(after.body.map((found) => found.id)).toEqual(before.body.map((found) => found.id));
+    expect(await storage.getChatMessagesByThread(thread.id)).toEqual([]);
+  });
+
+  it("keeps the thread's scope when an update is refused", async () => {
+    const threads = await client.get<ChatThread[]>("/api/chat-threads");
+
+    expect(threads.body.find((found) => found.id === thread.id)?.scope).toMatchObject({ subject: "Chemistry" });
+  });
+});
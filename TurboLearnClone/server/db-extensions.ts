@@ -0,0 +1,11 @@
+// Run by `npm run db:push` before drizzle-kit, so a fresh database has pgvector before any table uses it
+import { createPool, ensureExtensions } from "./db";
+
+(async () => {
+  const pool = createPool();
+  try {
+    await ensureExtensions(pool);
+  } finally {
+    await pool.end();
+  }
+})();
@@ -0,0 +1,30 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = ReturnType<typeof createDb>;
+
+// Postgres extensions the schema's column types need; drizzle-kit does not create them
+export const REQUIRED_EXTENSIONS = ["vector"];
+
+export function createPool(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+
+  return new Pool({ connectionString });
+}
+
+export function createDb(pool: Pool = createPool()) {
+  return drizzle({ client: pool, schema });
+}
+
+// Safe to run on every deploy: extensions that already exist are left alone
+export async function ensureExtensions(pool: { query(sql: string): Promise<unknown> }) {
+  for (const extension of REQUIRED_EXTENSIONS) {
+    await pool.query(`CREATE EXTENSION IF NOT EXISTS ${extension}`);
+  }
+}
@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { llm } from "./services/llm";
+import { startTestServer, type TestClient, type TestServer } from "./test-server";
+import type { ChatMessage, Document, Flashcard, FlashcardSet, Job, Note, Quiz, QuizAttempt, StartedQuizAttempt } from "@shared/schema";
+
+const LECTURE = `Photosynthesis takes place in the chloroplasts of plant cells.
+Chlorophyll absorbs red and blue light and reflects green light.
+The light reactions split water and release oxygen as a by-product.
+The Calvin cycle uses carbon dioxide to build glucose molecules.
+Plants store the glucose they make as starch for later use.
+Stomata on the leaves open to let carbon dioxide into the plant.`;
+
+/**
+ * From upload through generated material to chat, over the real routes and job
+ * queue, with the mock model and nothing but the local server on the network.
+ */
+describe("study flow offline", () => {
+  let app: TestServer;
+  let client: TestClient;
+  let document: Document;
+
+  // Polls until the job stops running and returns it finished
+  async function settle(job: Job): Promise<Job> {
+    for (;;) {
+      const { body } = await client.get<Job>(`/api/jobs/${job.id}`);
+      if (["succeeded", "failed", "cancelled"].includes(body.status)) return body;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  beforeAll(async () => {
+    app = await startTestServer();
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal("fetch", (input: string | URL | Request, init?: RequestInit) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (!url.startsWith(app.baseUrl)) throw new Error(`Tried to reach ${url} during an offline test`);
+      return realFetch(input, init);
+    });
+    client = (await app.signUp("rosalind")).client;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await app.close();
+  });
+
+  it("runs on the mock provider", () => {
+    expect(llm.name).toBe("mock");
+  });
+
+  it("uploads a document", async () => {
+    const response = await client.upload<Document>("/api/documents/upload", "file", "photosynthesis.txt", LECTURE);
+
+    expect(response.status).toBe(200);
+    document = response.body;
+    expect(document).toMatchObject({ type: "txt", title: "photosynthesis.txt" });
+  });
+
+  it("generates notes", async () => {
+    const queued = await client.post<Job>("/api/notes/generate", { documentId: document.id });
+    expect(queued.status).toBe(202);
+
+    const job = await settle(queued.body);
+    expect(job.status).toBe("succeeded");
+    const note = job.result as Note;
+    expect(note.documentId).toBe(document.id);
+    expect(note.content).toContain("Chlorophyll absorbs red and blue light");
+  });
+
+  it("generates flashcards", async () => {
+    const queued = await client.post<Job>("/api/flashcard-sets/generate", { documentId: document.id, count: 4 });
+
+    const job = await settle(queued.body);
+    expect(job.status).toBe("succeeded");
+    const set = job.result as FlashcardSet;
+    const cards = await client.get<Flashcard[]>(`/api/flashcard-sets/${set.id}/cards`);
+    expect(cards.body).toHaveLength(4);
+    expect(cards.body.some((card) => card.cardType === "cloze")).toBe(true);
+  });
+
+  it("generates a quiz and grades an attempt at it", async () => {
+    const queued = await client.post<Job>("/api/quizzes/generate", { documentId: document.id, questionCount: 4, questionTypes: ["multiple-choice"] });
+    const job = await settle(queued.body);
+    expect(job.status).toBe("succeeded");
+    const quiz = job.result as Quiz & { questions: { correctAnswer: number }[] };
+    expect(quiz.questions).toHaveLength(4);
+
+    const started = await client.post<StartedQuizAttempt>("/api/quiz-attempts", { quizId: quiz.id });
+    // Every answer right but the last
+    const answers = quiz.questions.map((question, index) => index < 3 ? question.correctAnswer : (question.correctAnswer + 1) % 4);
+    const submitted = await client.post<QuizAttempt>(`/api/quiz-attempts/${started.body.attempt.id}/submit`, { answers });
+
+    expect(submitted.status).toBe(200);
+    expect(submitted.body).toMatchObject({ score: 75, totalQuestions: 4 });
+  });
+
+  it("answers a question from the document with a citation", async () => {
+    const response = await client.post<ChatMessage>("/api/chat", { documentId: document.id, message: "What does chlorophyll absorb?" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.response).toContain("Chlorophyll absorbs red and blue light");
+    expect(response.body.citations).not.toEqual([]);
+  });
+});
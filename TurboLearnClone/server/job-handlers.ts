@@ -0,0 +1,222 @@
+import { storage } from "./storage";
+import { JobInputError, type JobQueue } from "./jobs";
+import { insertDocumentSchema, insertNoteSchema, insertFlashcardSetSchema, newFlashcardSchema, insertQuizSchema } from "@shared/schema";
+import type { Document } from "@shared/schema";
+import type { QuizQuestionType } from "@shared/quiz";
+import { generateNotesFromContent, generateFlashcardsFromContent, generateQuizFromContent } from "./services/ai";
+import { transcribeLongAudio, UnsupportedAudioError } from "./services/audio";
+import { transcribeYouTubeVideo, youTubeDocument, YouTubeAudioError } from "./services/youtube";
+import { indexDocument, indexNote } from "./services/retrieval";
+import { createCards } from "./services/card-siblings";
+import { getTranscriptSegments, segmentsToTimestampedText } from "@shared/transcript";
+
+// Time-based documents are sent to the model with their [mm:ss] cue times
+function getSourceText(document: Document): string {
+  const segments = getTranscriptSegments(document.metadata);
+  return segments ? segmentsToTimestampedText(segments) : document.content;
+}
+
+// The document may have been deleted between queueing and running
+async function loadDocument(documentId: unknown): Promise<Document> {
+  const document = typeof documentId === "string" ? await storage.getDocument(documentId) : undefined;
+  if (!document) {
+    throw new JobInputError("Document not found");
+  }
+  return document;
+}
+
+// The row an earlier attempt of the job created and saved under `key`, if it still exists
+async function savedRow<T>(saved: Record<string, unknown>, key: string, load: (id: string) => Promise<T | undefined>): Promise<T | undefined> {
+  const id = saved[key];
+  return typeof id === "string" ? await load(id) : undefined;
+}
+
+export function registerJobHandlers(queue: JobQueue) {
+  queue.register("generate-notes", {
+    async run({ job, signal, progress, saved, checkpoint }) {
+      const input = job.input as { documentId: string };
+      // A retry after the note was saved only has to queue its indexing again
+      let note = await savedRow(saved, "noteId", (id) => storage.getNote(id));
+      if (!note) {
+        const document = await loadDocument(input.documentId);
+
+        await progress("Writing notes", 20);
+        const generatedNote = await generateNotesFromContent(getSourceText(document), document.title, signal);
+
+        await progress("Saving notes", 90);
+        note = await storage.createNote(insertNoteSchema.parse({
+          userId: job.userId,
+          documentId: document.id,
+          title: generatedNote.title,
+          content: generatedNote.content,
+          subject: generatedNote.subject,
+          tags: generatedNote.tags,
+          wordCount: generatedNote.wordCount
+        }));
+        await checkpoint("noteId", note.id);
+      }
+      await queue.enqueue("index-note", job.userId, { noteId: note.id });
+      return note;
+    },
+  });
+
+  queue.register("generate-flashcards", {
+    async run({ job, signal, progress, saved, checkpoint }) {
+      const input = job.input as { documentId: string; count: number };
+      const document = await loadDocument(input.documentId);
+
+      await progress("Writing flashcards", 20);
+      const generatedCards = await generateFlashcardsFromContent(getSourceText(document), input.count, signal);
+      // A cloze card the model forgot to mark up has nothing to hide, so it is dropped
+      const entries = generatedCards.flatMap((cardData) => {
+        const entry = newFlashcardSchema.safeParse({
+          cardType: cardData.type === "cloze" ? "cloze" : "basic",
+          question: cardData.question,
+          answer: cardData.answer || "",
+        });
+        return entry.success ? [{ entry: entry.data, difficulty: cardData.difficulty }] : [];
+      });
+
+      await progress("Saving flashcards", 85);
+      // A retry refills the set an earlier attempt created rather than making a second one
+      let set = await savedRow(saved, "setId", (id) => storage.getFlashcardSet(id));
+      if (set) {
+        for (const card of await storage.getFlashcardsBySet(set.id)) {
+          await storage.deleteFlashcard(card.id);
+        }
+      } else {
+        set = await storage.createFlashcardSet(insertFlashcardSetSchema.parse({
+          userId: job.userId,
+          documentId: document.id,
+          title: `${document.title} - Flashcards`,
+          description: `Generated flashcards from ${document.title}`
+        }));
+        await checkpoint("setId", set.id);
+      }
+
+      for (const { entry, difficulty } of entries) {
+        await createCards(set.id, entry, { difficulty });
+      }
+
+      // Re-read for the card count the cards just added brought it to
+      return await storage.getFlashcardSet(set.id) ?? set;
+    },
+  });
+
+  queue.register("generate-quiz", {
+    async run({ job, signal, progress }) {
+      // Jobs queued before question types existed have none and get the full mix
+      const input = job.input as { documentId: string; questionCount: number; questionTypes?: QuizQuestionType[] };
+      const document = await loadDocument(input.documentId);
+
+      await progress("Writing questions", 20);
+      const generatedQuiz = await generateQuizFromContent(getSourceText(document), input.questionCount, input.questionTypes, signal);
+      if (generatedQuiz.questions.length === 0) {
+        throw new Error("The generated quiz had no usable questions.");
+      }
+
+      await progress("Saving quiz", 90);
+      return await storage.createQuiz(insertQuizSchema.parse({
+        userId: job.userId,
+        documentId: document.id,
+        title: generatedQuiz.title,
+        description: generatedQuiz.description,
+        questions: generatedQuiz.questions,
+        timeLimit: 30 // 30 minutes default
+      }));
+    },
+  });
+
+  queue.register("transcribe-audio", {
+    async run({ job, signal, attachment, progress, saved, checkpoint }) {
+      const input = job.input as { originalName: string; size: number };
+      // A retry after the transcript was saved only has to queue its indexing again
+      let document = await savedRow(saved, "documentId", (id) => storage.getDocument(id));
+      if (!document) {
+        if (!attachment) {
+          throw new JobInputError("The uploaded audio is no longer available. Please upload it again.");
+        }
+
+        await progress("Preparing audio", 5);
+        const { content, duration, segments, chunkCount } = await transcribeLongAudio(attachment, input.originalName, {
+          signal,
+          onProgress: (completed, total) => {
+            if (completed < total) {
+              // Fire and forget: a failed progress write should not abort the transcription
+              progress(`Transcribing part ${completed + 1} of ${total}`, 10 + (completed / total) * 80).catch(() => {});
+            }
+          },
+        });
+
+        await progress("Saving transcript", 95);
+        document = await storage.createDocument(insertDocumentSchema.parse({
+          userId: job.userId,
+          title: input.originalName || "Audio Recording",
+          type: 'audio',
+          content,
+          metadata: {
+            size: input.size,
+            originalName: input.originalName,
+            duration,
+            chunkCount,
+            segments,
+          }
+        }));
+        await checkpoint("documentId", document.id);
+      }
+      await queue.enqueue("index-document", job.userId, { documentId: document.id });
+      return document;
+    },
+    isRetryable: (error) => !(error instanceof UnsupportedAudioError || error instanceof JobInputError),
+  });
+
+  queue.register("transcribe-youtube", {
+    async run({ job, signal, progress, saved, checkpoint }) {
+      const input = job.input as { url: string; videoId: string; title: string };
+      let document = await savedRow(saved, "documentId", (id) => storage.getDocument(id));
+      if (!document) {
+        await progress("Downloading audio", 5);
+        const transcript = await transcribeYouTubeVideo(input.videoId, {
+          signal,
+          onProgress: (completed, total) => {
+            if (completed < total) {
+              progress(`Transcribing part ${completed + 1} of ${total}`, 10 + (completed / total) * 80).catch(() => {});
+            }
+          },
+        });
+
+        await progress("Saving transcript", 95);
+        document = await storage.createDocument(insertDocumentSchema.parse(youTubeDocument(job.userId, input.url, transcript)));
+        await checkpoint("documentId", document.id);
+      }
+      await queue.enqueue("index-document", job.userId, { documentId: document.id });
+      return document;
+    },
+    isRetryable: (error) => !(error instanceof YouTubeAudioError || error instanceof UnsupportedAudioError || error instanceof JobInputError),
+  });
+
+  queue.register("index-document", {
+    async run({ job, signal, progress }) {
+      const input = job.input as { documentId: string };
+      const document = await loadDocument(input.documentId);
+
+      await progress("Embedding passages", 10);
+      const chunks = await indexDocument(document, signal);
+      return { documentId: document.id, chunkCount: chunks.length };
+    },
+  });
+
+  queue.register("index-note", {
+    async run({ job, signal, progress }) {
+      const input = job.input as { noteId: string };
+      const note = typeof input.noteId === "string" ? await storage.getNote(input.noteId) : undefined;
+      if (!note) {
+        throw new JobInputError("Note not found");
+      }
+
+      await progress("Embedding passages", 10);
+      const chunks = await indexNote(note, signal);
+      return { noteId: note.id, chunkCount: chunks.length };
+    },
+  });
+}
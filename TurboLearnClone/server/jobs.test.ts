@@ -0,0 +1,273 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { JobQueue, isFinished, JobInputError } from "./jobs";
+import { registerJobHandlers } from "./job-handlers";
+import { storage } from "./storage";
+import { startTestServer, type TestClient, type TestServer } from "./test-server";
+import type { Job } from "@shared/schema";
+
+// Resolves with the job once an update reports it finished
+function finished(queue: JobQueue, id: string): Promise<Job> {
+  return new Promise((resolve) => {
+    queue.on("update", (job: Job) => {
+      if (job.id === id && isFinished(job)) resolve(job);
+    });
+  });
+}
+
+function attachmentCount(queue: JobQueue): number {
+  return (queue as unknown as { attachments: Map<string, Buffer> }).attachments.size;
+}
+
+describe("JobQueue attachments", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("drops the attachment when the job succeeds", async () => {
+    const queue = new JobQueue(1, 0);
+    queue.register("transcribe-audio", { run: async ({ attachment }) => attachment?.length });
+
+    const job = await queue.enqueue("transcribe-audio", "user", {}, { attachment: Buffer.alloc(4) });
+    expect(await finished(queue, job.id)).toMatchObject({ status: "succeeded", result: 4 });
+    expect(attachmentCount(queue)).toBe(0);
+  });
+
+  it("keeps the attachment between attempts and drops it after the last", async () => {
+    const queue = new JobQueue(1, 0);
+    const sizes: (number | undefined)[] = [];
+    queue.register("transcribe-audio", {
+      run: async ({ attachment }) => {
+        sizes.push(attachment?.length);
+        throw new Error("Whisper is down");
+      },
+    });
+
+    const job = await queue.enqueue("transcribe-audio", "user", {}, { attachment: Buffer.alloc(4), maxAttempts: 2 });
+    expect(await finished(queue, job.id)).toMatchObject({ status: "failed", error: "Whisper is down" });
+    expect(sizes).toEqual([4, 4]);
+    expect(attachmentCount(queue)).toBe(0);
+  });
+
+  it("drops the attachment when the job disappears mid-run", async () => {
+    const queue = new JobQueue(1, 0);
+    let done!: () => void;
+    const ran = new Promise<void>((resolve) => { done = resolve; });
+    queue.register("transcribe-audio", {
+      run: async ({ progress }) => {
+        vi.spyOn(storage, "updateJob").mockResolvedValue(undefined);
+        try {
+          await progress("Transcribing", 50);
+        } finally {
+          done();
+        }
+      },
+    });
+
+    await queue.enqueue("transcribe-audio", "user", {}, { attachment: Buffer.alloc(4) });
+    await ran;
+    await vi.waitFor(() => expect(attachmentCount(queue)).toBe(0));
+  });
+});
+
+// Holds a handler until release() is called
+function gate() {
+  let release!: () => void;
+  const opened = new Promise<void>((resolve) => { release = resolve; });
+  return { opened, release };
+}
+
+describe("JobQueue", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs no more jobs at once than its concurrency allows", async () => {
+    const queue = new JobQueue(2, 0);
+    const { opened, release } = gate();
+    let running = 0;
+    let mostAtOnce = 0;
+    queue.register("index-note", {
+      run: async () => {
+        mostAtOnce = Math.max(mostAtOnce, ++running);
+        await opened;
+        running--;
+      },
+    });
+
+    const jobs = await Promise.all([1, 2, 3, 4].map(() => queue.enqueue("index-note", "user", {})));
+    await vi.waitFor(() => expect(running).toBe(2));
+    release();
+
+    const results = await Promise.all(jobs.map((job) => finished(queue, job.id)));
+    expect(results.map((job) => job.status)).toEqual(["succeeded", "succeeded", "succeeded", "succeeded"]);
+    expect(mostAtOnce).toBe(2);
+  });
+
+  it("retries a failed attempt after a delay that doubles each time", async () => {
+    const queue = new JobQueue(1, 30);
+    const startedAt: number[] = [];
+    queue.register("index-note", {
+      run: async () => {
+        startedAt.push(Date.now());
+        if (startedAt.length < 3) throw new Error("Embeddings unavailable");
+        return "indexed";
+      },
+    });
+    const stages: (string | null)[] = [];
+    queue.on("update", (job: Job) => stages.push(job.stage));
+
+    const job = await queue.enqueue("index-note", "user", {});
+
+    expect(await finished(queue, job.id)).toMatchObject({ status: "succeeded", attempts: 3, result: "indexed" });
+    // Timers may fire a millisecond early
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(29);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(59);
+    expect(stages).toContain("Retrying (attempt 2 of 3)");
+    expect(stages).toContain("Retrying (attempt 3 of 3)");
+  });
+
+  it("does not retry input errors", async () => {
+    const queue = new JobQueue(1, 0);
+    const run = vi.fn(async () => { throw new JobInputError("Document not found"); });
+    queue.register("index-note", { run });
+
+    const job = await queue.enqueue("index-note", "user", {});
+
+    expect(await finished(queue, job.id)).toMatchObject({ status: "failed", error: "Document not found", attempts: 1 });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels a running job through its signal and a waiting one before it starts", async () => {
+    const queue = new JobQueue(1, 0);
+    const signals: AbortSignal[] = [];
+    queue.register("index-note", {
+      run: ({ signal }) => {
+        signals.push(signal);
+        return new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason)));
+      },
+    });
+
+    const running = await queue.enqueue("index-note", "user", {});
+    const waiting = await queue.enqueue("index-note", "user", {});
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+
+    expect(await queue.cancel(waiting.id)).toMatchObject({ status: "cancelled" });
+    const cancelled = finished(queue, running.id);
+    await queue.cancel(running.id);
+
+    expect(await cancelled).toMatchObject({ status: "cancelled", stage: "Cancelled" });
+    expect(signals[0].aborted).toBe(true);
+    // The waiting job never ran
+    expect(signals).toHaveLength(1);
+  });
+
+  it("picks up jobs a previous process left unfinished", async () => {
+    const queue = new JobQueue(1, 0);
+    queue.register("index-note", { run: async ({ job }) => `resumed after ${job.attempts - 1} attempts` });
+    queue.register("index-document", { run: async () => "should not run" });
+    queue.register("transcribe-audio", { run: async () => "should not run" });
+    const queued = await storage.createJob({ userId: "restarted", type: "index-note", input: {}, status: "queued" });
+    const interrupted = await storage.createJob({ userId: "restarted", type: "index-note", input: {}, status: "running", attempts: 1 });
+    const exhausted = await storage.createJob({ userId: "restarted", type: "index-document", input: {}, status: "running", attempts: 3, maxAttempts: 3 });
+    const upload = await storage.createJob({ userId: "restarted", type: "transcribe-audio", input: {}, status: "queued" });
+
+    const resumed = [finished(queue, queued.id), finished(queue, interrupted.id)];
+    await queue.recover();
+
+    expect(await Promise.all(resumed)).toMatchObject([
+      { status: "succeeded", result: "resumed after 0 attempts" },
+      { status: "succeeded", result: "resumed after 1 attempts" },
+    ]);
+    expect(await storage.getJob(exhausted.id)).toMatchObject({ status: "failed", error: "The server restarted while this job was running." });
+    expect(await storage.getJob(upload.id)).toMatchObject({ status: "failed", error: expect.stringContaining("upload it again") });
+  });
+});
+
+describe("job handler retries", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function createDocument(userId: string) {
+    return await storage.createDocument({ userId, title: "Enzymes", type: "txt", content: "Enzymes lower activation energy.\nEach enzyme binds a specific substrate.\nTemperature changes how fast enzymes work." });
+  }
+
+  it("reuses the note an earlier attempt saved", async () => {
+    const queue = new JobQueue(1, 0);
+    registerJobHandlers(queue);
+    const document = await createDocument("note-taker");
+    const enqueue = queue.enqueue.bind(queue);
+    vi.spyOn(queue, "enqueue")
+      .mockImplementationOnce(enqueue)
+      .mockRejectedValueOnce(new Error("connection reset"))
+      .mockImplementation(enqueue);
+
+    const job = await queue.enqueue("generate-notes", "note-taker", { documentId: document.id });
+
+    expect(await finished(queue, job.id)).toMatchObject({ status: "succeeded", attempts: 2 });
+    expect(await storage.getNotesByDocument(document.id)).toHaveLength(1);
+  });
+
+  it("refills the set an earlier attempt created instead of making another", async () => {
+    const queue = new JobQueue(1, 0);
+    registerJobHandlers(queue);
+    const document = await createDocument("card-maker");
+    const createFlashcard = storage.createFlashcard.bind(storage);
+    vi.spyOn(storage, "createFlashcard")
+      .mockImplementationOnce(createFlashcard)
+      .mockRejectedValueOnce(new Error("connection reset"))
+      .mockImplementation(createFlashcard);
+
+    const job = await queue.enqueue("generate-flashcards", "card-maker", { documentId: document.id, count: 3 });
+
+    expect(await finished(queue, job.id)).toMatchObject({ status: "succeeded", attempts: 2 });
+    const sets = await storage.getFlashcardSetsByUser("card-maker");
+    expect(sets).toHaveLength(1);
+    expect(sets[0].cardCount).toBe((await storage.getFlashcardsBySet(sets[0].id)).length);
+  });
+});
+
+describe("job routes", () => {
+  let app: TestServer;
+  let client: TestClient;
+  let userId: string;
+
+  beforeAll(async () => {
+    app = await startTestServer();
+    const signedUp = await app.signUp("grace");
+    client = signedUp.client;
+    userId = signedUp.user.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("ends the event stream with the last known state when storage fails", async () => {
+    const job = await storage.createJob({ userId, type: "generate-notes", input: {}, status: "running" });
+    vi.spyOn(storage, "getJob").mockResolvedValueOnce(job).mockRejectedValueOnce(new Error("connection reset"));
+
+    const response = await client.get(`/api/jobs/${job.id}/events`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toBe(`data: ${JSON.stringify(job)}\n\n`);
+  });
+
+  it("validates and clamps the number of flashcards to generate", async () => {
+    const document = await storage.createDocument({ userId, title: "Enzymes", type: "txt", content: "Enzymes lower activation energy." });
+
+    expect((await client.post("/api/flashcard-sets/generate", { documentId: document.id, count: "lots" })).status).toBe(400);
+    expect((await client.post("/api/flashcard-sets/generate", { documentId: document.id, count: 2.5 })).status).toBe(400);
+
+    const clamped = await client.post<Job>("/api/flashcard-sets/generate", { documentId: document.id, count: 100000 });
+    expect(clamped.status).toBe(202);
+    expect(clamped.body.input).toEqual({ documentId: document.id, count: 50 });
+
+    const defaulted = await client.post<Job>("/api/flashcard-sets/generate", { documentId: document.id });
+    expect(defaulted.body.input).toEqual({ documentId: document.id, count: 10 });
+  });
+});
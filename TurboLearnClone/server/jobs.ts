@@ -0,0 +1,226 @@
+import { EventEmitter } from "events";
+import { storage } from "./storage";
+import { log } from "./vite";
+import type { Job, JobType, JobStatus } from "@shared/schema";
+
+export interface JobContext {
+  job: Job;
+  signal: AbortSignal;
+  // In-process payload that is too large for the jobs table (e.g. an uploaded recording)
+  attachment?: Buffer;
+  progress(stage: string, percent: number): Promise<void>;
+  // What earlier attempts saved with checkpoint(), e.g. the ID of a row they created
+  saved: Record<string, unknown>;
+  checkpoint(key: string, value: unknown): Promise<void>;
+}
+
+export interface JobHandler {
+  run(context: JobContext): Promise<unknown>;
+  // Defaults to retrying everything except JobInputError
+  isRetryable?(error: Error): boolean;
+}
+
+export interface EnqueueOptions {
+  attachment?: Buffer;
+  maxAttempts?: number;
+}
+
+const FINISHED_STATUSES: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export function isFinished(job: Job): boolean {
+  return FINISHED_STATUSES.includes(job.status as JobStatus);
+}
+
+// Thrown by handlers for input a retry cannot fix, such as a document deleted after the job was queued
+export class JobInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobInputError";
+  }
+}
+
+// Thrown when a job is cancelled or no longer exists, so nothing is retried or reported as a failure
+class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Runs jobs in the background with a global concurrency limit. Every change
+ * is written to storage and emitted as an "update" event carrying the job,
+ * which the SSE route forwards to the browser. Failed attempts are retried
+ * with exponential backoff; running jobs are cancelled through an AbortSignal.
+ */
+export class JobQueue extends EventEmitter {
+  private handlers = new Map<string, JobHandler>();
+  private pending: string[] = [];
+  private running = new Map<string, AbortController>();
+  private attachments = new Map<string, Buffer>();
+  private retryTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private concurrency: number, private retryDelayMs = 2000) {
+    super();
+    // One listener per open SSE connection
+    this.setMaxListeners(0);
+  }
+
+  register(type: JobType, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(type: JobType, userId: string, input: Record<string, unknown>, { attachment, maxAttempts = 3 }: EnqueueOptions = {}): Promise<Job> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`No handler registered for job type "${type}"`);
+    }
+
+    const job = await storage.createJob({ userId, type, input, maxAttempts, status: "queued", stage: "Waiting to start" });
+    if (attachment) this.attachments.set(job.id, attachment);
+
+    this.pending.push(job.id);
+    this.emit("update", job);
+    this.pump();
+    return job;
+  }
+
+  async cancel(id: string): Promise<Job | undefined> {
+    const job = await storage.getJob(id);
+    if (!job || isFinished(job)) return job;
+
+    const controller = this.running.get(id);
+    if (controller) {
+      // The run loop sees the abort and records the cancellation itself
+      controller.abort(new JobCancelledError());
+      return job;
+    }
+
+    this.pending = this.pending.filter((pendingId) => pendingId !== id);
+    clearTimeout(this.retryTimers.get(id));
+    this.retryTimers.delete(id);
+    return await this.finish(id, { status: "cancelled", stage: "Cancelled" });
+  }
+
+  /**
+   * Picks up work left behind by a previous process. Jobs that were mid-run
+   * count as a failed attempt; jobs whose attachment only lived in memory
+   * cannot be resumed and are failed outright.
+   */
+  async recover() {
+    const unfinished = await storage.getUnfinishedJobs();
+    for (const job of unfinished) {
+      if (job.type === "transcribe-audio" && !this.attachments.has(job.id)) {
+        await this.finish(job.id, {
+          status: "failed",
+          error: "The server restarted before this upload was processed. Please upload it again.",
+        });
+      } else if (job.status === "running" && job.attempts >= job.maxAttempts) {
+        await this.finish(job.id, { status: "failed", error: "The server restarted while this job was running." });
+      } else {
+        await this.update(job.id, { status: "queued", stage: "Waiting to start" });
+        this.pending.push(job.id);
+      }
+    }
+    this.pump();
+  }
+
+  private pump() {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(id, controller);
+      this.execute(id, controller.signal)
+        .catch((error) => log(`job ${id} crashed: ${(error as Error).message}`, "jobs"))
+        .finally(() => {
+          this.running.delete(id);
+          this.pump();
+        });
+    }
+  }
+
+  private async execute(id: string, signal: AbortSignal) {
+    try {
+      await this.attempt(id, signal);
+    } finally {
+      // However the attempt ended, the attachment is only needed if another one is scheduled
+      if (!this.retryTimers.has(id)) this.attachments.delete(id);
+    }
+  }
+
+  private async attempt(id: string, signal: AbortSignal) {
+    const queued = await storage.getJob(id);
+    // Cancelled (or deleted) while it was waiting
+    if (!queued || queued.status !== "queued") return;
+
+    const handler = this.handlers.get(queued.type);
+    if (!handler) {
+      await this.finish(id, { status: "failed", error: `No handler registered for job type "${queued.type}"` });
+      return;
+    }
+
+    const job = await this.update(id, {
+      status: "running",
+      attempts: queued.attempts + 1,
+      startedAt: queued.startedAt || new Date(),
+      stage: "Starting",
+      progress: 0,
+    });
+
+    let saved = (job.checkpoint as Record<string, unknown> | null) ?? {};
+    try {
+      const result = await handler.run({
+        job,
+        signal,
+        attachment: this.attachments.get(id),
+        progress: async (stage, percent) => {
+          signal.throwIfAborted();
+          await this.update(id, { stage, progress: Math.max(0, Math.min(99, Math.round(percent))) });
+        },
+        saved,
+        checkpoint: async (key, value) => {
+          saved = { ...saved, [key]: value };
+          await this.update(id, { checkpoint: saved });
+        },
+      });
+      signal.throwIfAborted();
+      await this.finish(id, { status: "succeeded", result: result ?? null, stage: "Done", progress: 100 });
+    } catch (error) {
+      if (signal.aborted) {
+        await this.finish(id, { status: "cancelled", stage: "Cancelled" });
+        return;
+      }
+      if (error instanceof JobCancelledError) return;
+
+      const err = error as Error;
+      const retryable = handler.isRetryable ? handler.isRetryable(err) : !(err instanceof JobInputError);
+      if (retryable && job.attempts < job.maxAttempts) {
+        const delay = this.retryDelayMs * 2 ** (job.attempts - 1);
+        await this.update(id, { status: "queued", stage: `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`, error: err.message });
+        this.retryTimers.set(id, setTimeout(() => {
+          this.retryTimers.delete(id);
+          this.pending.push(id);
+          this.pump();
+        }, delay));
+        return;
+      }
+
+      await this.finish(id, { status: "failed", error: err.message });
+    }
+  }
+
+  private async update(id: string, updates: Partial<Job>): Promise<Job> {
+    const job = await storage.updateJob(id, updates);
+    if (!job) throw new JobCancelledError();
+    this.emit("update", job);
+    return job;
+  }
+
+  private async finish(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    this.attachments.delete(id);
+    const job = await storage.updateJob(id, { ...updates, finishedAt: new Date() });
+    if (job) this.emit("update", job);
+    return job;
+  }
+}
+
+export const jobQueue = new JobQueue(Number(process.env.JOB_CONCURRENCY) || 2);
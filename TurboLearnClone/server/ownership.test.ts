@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { startTestServer, type TestClient, type TestServer } from "./test-server";
+import type { Document, Flashcard, FlashcardSet, Job, Note, Quiz, QuizAttempt, ChatThread } from "@shared/schema";
+
+// Everything here belongs to Ada; Bob is signed in too and tries to reach it by ID
+describe("resource ownership", () => {
+  let app: TestServer;
+  let ada: TestClient;
+  let bob: TestClient;
+  let document: Document;
+  let note: Note;
+  let set: FlashcardSet;
+  let card: Flashcard;
+  let quiz: Quiz;
+  let attempt: QuizAttempt;
+  let job: Job;
+  let thread: ChatThread;
+
+  beforeAll(async () => {
+    app = await startTestServer();
+    const signedUpAda = await app.signUp("ada");
+    ada = signedUpAda.client;
+    bob = (await app.signUp("bob")).client;
+
+    const userId = signedUpAda.user.id;
+    document = await storage.createDocument({ userId, title: "Biology", type: "txt", content: "Cells are the basic unit of life." });
+    note = await storage.createNote({ userId, documentId: document.id, title: "Cells", content: "Cells" });
+    set = await storage.createFlashcardSet({ userId, documentId: document.id, title: "Cells" });
+    card = await storage.createFlashcard({ setId: set.id, question: "What is a cell?", answer: "The basic unit of life" });
+    quiz = await storage.createQuiz({ userId, documentId: document.id, title: "Cells", questions: [] });
+    attempt = await storage.createQuizAttempt({ userId, quizId: quiz.id, answers: [], score: 0, totalQuestions: 0 });
+    job = await storage.createJob({ userId, type: "generate-notes", input: { documentId: document.id }, status: "running" });
+    thread = await storage.createChatThread({ userId, documentId: document.id, title: "Cells" });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  // Paths and bodies are built lazily: the IDs only exist once beforeAll has run
+  const routes: [string, string, () => string, (() => unknown)?][] = [
+    ["flashcard set cards", "GET", () => `/api/flashcard-sets/${set.id}/cards`],
+    ["flashcard set rename", "PUT", () => `/api/flashcard-sets/${set.id}`, () => ({ title: "Mine now" })],
+    ["flashcard set delete", "DELETE", () => `/api/flashcard-sets/${set.id}`],
+    ["flashcard set export", "GET", () => `/api/flashcard-sets/${set.id}/export`],
+    ["flashcard edit", "PUT", () => `/api/flashcards/${card.id}`, () => ({ question: "Mine now" })],
+    ["flashcard delete", "DELETE", () => `/api/flashcards/${card.id}`],
+    ["flashcard review", "POST", () => `/api/flashcards/${card.id}/review`, () => ({ grade: "good" })],
+    ["document chat history", "GET", () => `/api/chat/${document.id}`],
+    ["document threads", "GET", () => `/api/documents/${document.id}/threads`],
+    ["notes from a document", "POST", () => "/api/notes/generate", () => ({ documentId: document.id })],
+    ["note edit", "PUT", () => `/api/notes/${note.id}`, () => ({ content: "Mine now" })],
+    ["job", "GET", () => `/api/jobs/${job.id}`],
+    ["job events", "GET", () => `/api/jobs/${job.id}/events`],
+    ["job cancel", "POST", () => `/api/jobs/${job.id}/cancel`],
+    ["quiz history", "GET", () => `/api/quizzes/${quiz.id}/attempts`],
+    ["quiz start", "POST", () => "/api/quiz-attempts", () => ({ quizId: quiz.id })],
+    ["quiz attempt submit", "POST", () => `/api/quiz-attempts/${attempt.id}/submit`, () => ({ answers: [] })],
+    ["quiz attempt appeal", "POST", () => `/api/quiz-attempts/${attempt.id}/questions/0/appeal`, () => ({ reason: "" })],
+    ["chat thread messages", "GET", () => `/api/chat-threads/${thread.id}/messages`],
+  ];
+
+  it.each(routes)("refuses another user the %s route", async (_name, method, path, body) => {
+    const response = await bob.request(method, path(), body?.());
+
+    expect(response.status).toBe(403);
+  });
+
+  it("leaves the owner's resources untouched", async () => {
+    expect(await storage.getFlashcardSet(set.id)).toMatchObject({ title: "Cells" });
+    expect(await storage.getFlashcard(card.id)).toMatchObject({ question: "What is a cell?", repetitions: 0 });
+    expect(await storage.getNote(note.id)).toMatchObject({ content: "Cells" });
+    expect(await storage.getJob(job.id)).toMatchObject({ status: "running" });
+    expect(await storage.getQuizAttempt(attempt.id)).toMatchObject({ completedAt: null });
+  });
+
+  it("lets the owner through the same routes", async () => {
+    expect((await ada.get(`/api/flashcard-sets/${set.id}/cards`)).status).toBe(200);
+    expect((await ada.get(`/api/jobs/${job.id}`)).status).toBe(200);
+    expect((await ada.get(`/api/quizzes/${quiz.id}/attempts`)).status).toBe(200);
+    expect((await ada.get(`/api/chat/${document.id}`)).status).toBe(200);
+  });
+
+  it.each([
+    ["flashcard set", "GET", "/api/flashcard-sets/missing/cards", undefined],
+    ["flashcard", "POST", "/api/flashcards/missing/review", { grade: "good" }],
+    ["document", "GET", "/api/chat/missing", undefined],
+    ["job", "GET", "/api/jobs/missing", undefined],
+    ["quiz attempt", "POST", "/api/quiz-attempts/missing/submit", { answers: [] }],
+  ])("answers 404 for a %s that does not exist", async (_name, method, path, body) => {
+    const response = await bob.request(method, path, body);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("leaves other users' resources out of lists", async () => {
+    expect((await bob.get("/api/documents")).body).toEqual([]);
+    expect((await bob.get("/api/flashcard-sets")).body).toEqual([]);
+    expect((await bob.get("/api/quiz-attempts")).body).toEqual([]);
+    expect((await bob.get("/api/jobs")).body).toEqual([]);
+    expect((await ada.get("/api/documents")).body).toHaveLength(1);
+  });
+
+  it("requires signing in", async () => {
+    const response = await fetch(`${app.baseUrl}/api/flashcard-sets/${set.id}/cards`);
+
+    expect(response.status).toBe(401);
+  });
+});
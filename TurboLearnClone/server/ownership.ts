@@ -0,0 +1,115 @@
+import type { Request, RequestHandler } from "express";
+import { storage } from "./storage";
+import type { Document, Note, FlashcardSet, Flashcard, Quiz, QuizAttempt, Job, ChatThread } from "@shared/schema";
+
+export interface OwnedResources {
+  document: Document;
+  note: Note;
+  flashcardSet: FlashcardSet;
+  flashcard: Flashcard;
+  quiz: Quiz;
+  quizAttempt: QuizAttempt;
+  job: Job;
+  chatThread: ChatThread;
+}
+
+export type OwnedKind = keyof OwnedResources;
+
+interface Resolved<T> {
+  resource: T;
+  ownerId: string;
+}
+
+type Resolver<K extends OwnedKind> = (id: string) => Promise<Resolved<OwnedResources[K]> | undefined>;
+
+const labels: Record<OwnedKind, string> = {
+  document: "Document",
+  note: "Note",
+  flashcardSet: "Flashcard set",
+  flashcard: "Flashcard",
+  quiz: "Quiz",
+  quizAttempt: "Quiz attempt",
+  job: "Job",
+  chatThread: "Chat thread",
+};
+
+function owned<T extends { userId: string }>(resource: T | undefined): Resolved<T> | undefined {
+  return resource && { resource, ownerId: resource.userId };
+}
+
+const resolvers: { [K in OwnedKind]: Resolver<K> } = {
+  document: async (id) => owned(await storage.getDocument(id)),
+  note: async (id) => owned(await storage.getNote(id)),
+  flashcardSet: async (id) => owned(await storage.getFlashcardSet(id)),
+  quiz: async (id) => owned(await storage.getQuiz(id)),
+  quizAttempt: async (id) => owned(await storage.getQuizAttempt(id)),
+  job: async (id) => owned(await storage.getJob(id)),
+  chatThread: async (id) => owned(await storage.getChatThread(id)),
+  // Cards carry no userId of their own; they belong to whoever owns their set
+  flashcard: async (id) => {
+    const card = await storage.getFlashcard(id);
+    if (!card) return undefined;
+    const set = await storage.getFlashcardSet(card.setId);
+    return set && { resource: card, ownerId: set.userId };
+  },
+};
+
+export type OwnershipResult<K extends OwnedKind> =
+  | { status: "ok"; resource: OwnedResources[K] }
+  | { status: "not_found" }
+  | { status: "forbidden" };
+
+/**
+ * Looks up a resource and checks it belongs to `userId`. A resource that does
+ * not exist (or whose parent set is gone) is "not_found"; one owned by another
+ * user is "forbidden".
+ */
+export async function checkOwnership<K extends OwnedKind>(
+  kind: K,
+  id: string,
+  userId: string,
+): Promise<OwnershipResult<K>> {
+  const resolved = await resolvers[kind](id);
+  if (!resolved) return { status: "not_found" };
+  if (resolved.ownerId !== userId) return { status: "forbidden" };
+  return { status: "ok", resource: resolved.resource };
+}
+
+export const fromParam = (name: string) => (req: Request) => req.params[name];
+export const fromBody = (name: string) => (req: Request) =>
+  typeof req.body?.[name] === "string" ? req.body[name] : undefined;
+
+/**
+ * Route guard that only lets the owner through. Responds 400 when the ID is
+ * missing, 404 when the resource does not exist and 403 when it belongs to
+ * someone else; otherwise the loaded record is left on `res.locals[kind]`.
+ * With `optional`, a request that carries no ID at all is let through.
+ */
+export function requireOwnership<K extends OwnedKind>(
+  kind: K,
+  getId: (req: Request) => string | undefined,
+  { optional = false }: { optional?: boolean } = {},
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const id = getId(req);
+      if (!id) {
+        if (optional) return next();
+        return res.status(400).json({ message: `${labels[kind]} ID is required` });
+      }
+
+      const result = await checkOwnership(kind, id, req.user!.id);
+      if (result.status === "not_found") {
+        return res.status(404).json({ message: `${labels[kind]} not found` });
+      }
+      if (result.status === "forbidden") {
+        return res.status(403).json({ message: `You do not have access to this ${labels[kind].toLowerCase()}` });
+      }
+
+      res.locals[kind] = result.resource;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: `Failed to load ${labels[kind].toLowerCase()}` });
+    }
+  };
+}
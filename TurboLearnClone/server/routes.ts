@@ -1,24 +1,59 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertDocumentSchema, insertNoteSchema, insertFlashcardSetSchema, insertFlashcardSchema, insertQuizSchema, insertQuizAttemptSchema, insertChatMessageSchema } from "@shared/schema";
-import { generateNotesFromContent, generateFlashcardsFromContent, generateQuizFromContent, transcribeAudio, chatWithDocument } from "./services/openai";
-import { getYouTubeTranscript, getYouTubeVideoInfo } from "./services/youtube";
+import { insertDocumentSchema, insertNoteSchema, generateQuizSchema, submitQuizAttemptSchema, quizAppealSchema, insertChatThreadSchema, chatMessageSchema, updateFlashcardSchema, reviewFlashcardSchema, typedAnswerSchema, createFlashcardSetSchema, updateFlashcardSetSchema, generateFlashcardsSchema, newFlashcardSchema, bulkFlashcardsSchema, reorderFlashcardsSchema } from "@shared/schema";
+import { parseBulkCards, cardContentProblem } from "@shared/flashcards";
+import { chatWithDocument, streamChatWithDocument } from "./services/ai";
+import { retrievePassages, retrievalDepth, buildCitations, type RetrievedPassage } from "./services/retrieval";
+import { listThreads, createThread, resolveChatTarget, resolveSources, loadHistory, retrievalQuery, saveTurn, parseChatScope, ChatScopeError } from "./services/conversation";
+import { buildDueQueue, buildForecast, recordReview } from "./services/reviews";
+import { buildStudyStats, buildSetMastery } from "./services/stats";
+import { createCards, updateCards, deleteCards } from "./services/card-siblings";
+import { gradeTypedAnswer } from "./services/answer-grading";
+import { importDecks, exportSet, deckExportFormats, type DeckExportFormat } from "./services/decks";
+import { DeckImportError } from "./services/portable-deck";
+import { startAttempt, submitAttempt, appealAnswer, listAttempts, buildAttemptHistory, QuizAttemptClosedError, QuizAppealError, UnreadableQuizError } from "./services/quiz-attempts";
+import { extractDocument, UnsupportedDocumentError } from "./services/extraction";
+import { detectAudioFormat } from "./services/audio";
+import { getYouTubeTranscript, youTubeDocument } from "./services/youtube";
+import { randomUUID } from "crypto";
 import { getSpotifyAccessToken, searchSpotifyTracks, getStudyPlaylists } from "./services/spotify";
+import { setupAuth, requireAuth } from "./auth";
+import { requireOwnership, fromParam, fromBody } from "./ownership";
+import { jobQueue, isFinished } from "./jobs";
+import { registerJobHandlers } from "./job-handlers";
+import type { Document, Note, FlashcardSet, Flashcard, Job, ChatThread, ChatScope, StartedQuizAttempt } from "@shared/schema";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 import multer from "multer";
 
 interface MulterRequest extends Request {
   file?: Express.Multer.File;
 }
 
-const upload = multer({ storage: multer.memoryStorage() });
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
+});
+
+// Lecture recordings run long; they are split before transcription
+const audioUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 300 * 1024 * 1024 }, // 300MB
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Auth routes (/api/auth/*) are public; everything registered after this is not
+  setupAuth(app);
+  app.use("/api", requireAuth);
+
+  registerJobHandlers(jobQueue);
+  await jobQueue.recover();
+
   // Document routes
   app.get("/api/documents", async (req, res) => {
     try {
-      // For demo purposes, using a default user ID
-      const userId = "demo-user";
+      const userId = req.user!.id;
       const documents = await storage.getDocumentsByUser(userId);
       res.json(documents);
     } catch (error) {
@@ -32,20 +67,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const userId = "demo-user";
-      const content = req.file.buffer.toString('utf-8');
+      const userId = req.user!.id;
+      // The type comes from the file's magic bytes, not the client-supplied MIME type
+      const extracted = await extractDocument(req.file.buffer);
       
       const documentData = insertDocumentSchema.parse({
         userId,
         title: req.file.originalname,
-        type: req.file.mimetype.includes('pdf') ? 'pdf' : 'txt',
-        content,
-        metadata: { size: req.file.size, originalName: req.file.originalname }
+        type: extracted.type,
+        content: extracted.content,
+        metadata: {
+          size: req.file.size,
+          originalName: req.file.originalname,
+          mimeType: extracted.mimeType,
+          ...(extracted.pages && { pageCount: extracted.pages.length, pages: extracted.pages }),
+          ...(extracted.sections && { sections: extracted.sections }),
+          ...(extracted.segments && {
+            subtitleFormat: extracted.subtitleFormat,
+            duration: extracted.segments[extracted.segments.length - 1].end,
+            segments: extracted.segments,
+          }),
+        }
       });
 
       const document = await storage.createDocument(documentData);
+      // Embedding runs in the background; chat falls back to indexing on demand if it has not finished
+      await jobQueue.enqueue("index-document", userId, { documentId: document.id });
       res.json(document);
     } catch (error) {
+      if (error instanceof UnsupportedDocumentError) {
+        return res.status(415).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to upload document" });
     }
   });
@@ -57,45 +109,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "YouTube URL is required" });
       }
 
-      const userId = "demo-user";
-      const transcript = await getYouTubeTranscript(url);
-      const videoInfo = await getYouTubeVideoInfo(url);
+      const userId = req.user!.id;
+      const lookup = await getYouTubeTranscript(url);
 
-      const documentData = insertDocumentSchema.parse({
-        userId,
-        title: videoInfo.title,
-        type: 'youtube',
-        originalUrl: url,
-        content: transcript,
-        metadata: { duration: videoInfo.duration, description: videoInfo.description }
-      });
+      // Without captions the audio has to be downloaded and transcribed, which is left to a job
+      if (lookup.status === 'needs-transcription') {
+        const job = await jobQueue.enqueue("transcribe-youtube", userId, { url, videoId: lookup.video.videoId, title: lookup.video.title });
+        return res.status(202).json(job);
+      }
 
-      const document = await storage.createDocument(documentData);
+      const document = await storage.createDocument(insertDocumentSchema.parse(youTubeDocument(userId, url, lookup.transcript)));
+      await jobQueue.enqueue("index-document", userId, { documentId: document.id });
       res.json(document);
     } catch (error) {
       res.status(500).json({ message: "Failed to process YouTube video: " + (error as Error).message });
     }
   });
 
-  app.post("/api/documents/audio", upload.single("audio"), async (req: MulterRequest, res) => {
+  app.post("/api/documents/audio", audioUpload.single("audio"), async (req: MulterRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No audio file uploaded" });
       }
+      // Reject unreadable files now rather than after they wait in the queue
+      if (!detectAudioFormat(req.file.buffer)) {
+        return res.status(415).json({ message: "Unsupported audio format. Please upload MP3, WAV, M4A, OGG, WebM or FLAC." });
+      }
 
-      const userId = "demo-user";
-      const transcript = await transcribeAudio(req.file.buffer);
-
-      const documentData = insertDocumentSchema.parse({
-        userId,
-        title: req.file.originalname || "Audio Recording",
-        type: 'audio',
-        content: transcript,
-        metadata: { size: req.file.size, duration: "unknown" }
-      });
-
-      const document = await storage.createDocument(documentData);
-      res.json(document);
+      const job = await jobQueue.enqueue("transcribe-audio", req.user!.id, {
+        originalName: req.file.originalname,
+        size: req.file.size,
+      }, { attachment: req.file.buffer });
+      res.status(202).json(job);
     } catch (error) {
       res.status(500).json({ message: "Failed to process audio: " + (error as Error).message });
     }
@@ -104,7 +149,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Notes routes
   app.get("/api/notes", async (req, res) => {
     try {
-      const userId = "demo-user";
+      const userId = req.user!.id;
       const notes = await storage.getNotesByUser(userId);
       res.json(notes);
     } catch (error) {
@@ -112,56 +157,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/notes/generate", async (req, res) => {
+  app.post("/api/notes/generate", requireOwnership("document", fromBody("documentId")), async (req, res) => {
     try {
-      const { documentId } = req.body;
-      const document = await storage.getDocument(documentId);
-      
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
-      }
-
-      const generatedNote = await generateNotesFromContent(document.content, document.title);
-      
-      const noteData = insertNoteSchema.parse({
-        userId: document.userId,
-        documentId: document.id,
-        title: generatedNote.title,
-        content: generatedNote.content,
-        subject: generatedNote.subject,
-        tags: generatedNote.tags,
-        wordCount: generatedNote.wordCount
-      });
-
-      const note = await storage.createNote(noteData);
-      res.json(note);
+      const document: Document = res.locals.document;
+      const job = await jobQueue.enqueue("generate-notes", req.user!.id, { documentId: document.id });
+      res.status(202).json(job);
     } catch (error) {
       res.status(500).json({ message: "Failed to generate notes: " + (error as Error).message });
     }
   });
 
-  app.post("/api/notes", async (req, res) => {
+  app.post("/api/notes", requireOwnership("document", fromBody("documentId"), { optional: true }), async (req, res) => {
     try {
       const noteData = insertNoteSchema.parse({
         ...req.body,
-        userId: "demo-user"
+        userId: req.user!.id
       });
       const note = await storage.createNote(noteData);
+      await jobQueue.enqueue("index-note", req.user!.id, { noteId: note.id });
       res.json(note);
     } catch (error) {
       res.status(500).json({ message: "Failed to create note" });
     }
   });
 
-  app.put("/api/notes/:id", async (req, res) => {
+  app.put("/api/notes/:id", requireOwnership("note", fromParam("id")), async (req, res) => {
     try {
-      const { id } = req.params;
-      const updates = req.body;
-      const note = await storage.updateNote(id, updates);
+      const existing: Note = res.locals.note;
+      // Ownership and document links are not editable through this route
+      const updates = insertNoteSchema.omit({ userId: true, documentId: true }).partial().parse(req.body);
+      const note = await storage.updateNote(existing.id, updates);
       
       if (!note) {
         return res.status(404).json({ message: "Note not found" });
       }
+      // Keep chat retrieval in step with the edited text
+      if (updates.content !== undefined && updates.content !== existing.content) {
+        await jobQueue.enqueue("index-note", req.user!.id, { noteId: note.id });
+      }
       
       res.json(note);
     } catch (error) {
@@ -172,7 +205,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Flashcard routes
   app.get("/api/flashcard-sets", async (req, res) => {
     try {
-      const userId = "demo-user";
+      const userId = req.user!.id;
       const sets = await storage.getFlashcardSetsByUser(userId);
       res.json(sets);
     } catch (error) {
@@ -180,59 +213,204 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/flashcard-sets/generate", async (req, res) => {
+  app.post("/api/flashcard-sets", async (req, res) => {
     try {
-      const { documentId, count = 10 } = req.body;
-      const document = await storage.getDocument(documentId);
-      
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      const { title, description } = createFlashcardSetSchema.parse(req.body);
+      const set = await storage.createFlashcardSet({ userId: req.user!.id, title, description: description || null });
+      res.json(set);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
+      res.status(500).json({ message: "Failed to create flashcard set: " + (error as Error).message });
+    }
+  });
 
-      const generatedCards = await generateFlashcardsFromContent(document.content, count);
-      
-      const setData = insertFlashcardSetSchema.parse({
-        userId: document.userId,
-        documentId: document.id,
-        title: `${document.title} - Flashcards`,
-        description: `Generated flashcards from ${document.title}`,
-        cardCount: generatedCards.length
-      });
+  app.put("/api/flashcard-sets/:id", requireOwnership("flashcardSet", fromParam("id")), async (req, res) => {
+    try {
+      const existing: FlashcardSet = res.locals.flashcardSet;
+      const updates = updateFlashcardSetSchema.parse(req.body);
+      const set = await storage.updateFlashcardSet(existing.id, updates);
 
-      const set = await storage.createFlashcardSet(setData);
+      if (!set) {
+        return res.status(404).json({ message: "Flashcard set not found" });
+      }
 
-      // Create individual flashcards
-      for (const cardData of generatedCards) {
-        const flashcardData = insertFlashcardSchema.parse({
-          setId: set.id,
-          question: cardData.question,
-          answer: cardData.answer,
-          difficulty: cardData.difficulty
+      res.json(set);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to update flashcard set: " + (error as Error).message });
+    }
+  });
+
+  app.delete("/api/flashcard-sets/:id", requireOwnership("flashcardSet", fromParam("id")), async (req, res) => {
+    try {
+      await storage.deleteFlashcardSet(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete flashcard set: " + (error as Error).message });
+    }
+  });
+
+  // A fresh copy to study or edit separately: same cards, none of the review history
+  app.post("/api/flashcard-sets/:id/duplicate", requireOwnership("flashcardSet", fromParam("id")), async (req, res) => {
+    try {
+      const original: FlashcardSet = res.locals.flashcardSet;
+      const copy = await storage.createFlashcardSet({
+        userId: req.user!.id,
+        documentId: original.documentId,
+        title: `${original.title} (copy)`,
+        description: original.description,
+      });
+      // Siblings in the copy get a group of their own
+      const groupIds = new Map<string, string>();
+      for (const card of await storage.getFlashcardsBySet(original.id)) {
+        if (card.groupId && !groupIds.has(card.groupId)) groupIds.set(card.groupId, randomUUID());
+        await storage.createFlashcard({
+          setId: copy.id,
+          question: card.question,
+          answer: card.answer,
+          difficulty: card.difficulty,
+          cardType: card.cardType,
+          groupId: card.groupId ? groupIds.get(card.groupId)! : null,
+          ordinal: card.ordinal,
         });
-        await storage.createFlashcard(flashcardData);
+      }
+      res.json(await storage.getFlashcardSet(copy.id) ?? copy);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to duplicate flashcard set: " + (error as Error).message });
+    }
+  });
+
+  // Anki packages (.apkg) or CSV/TSV files; an Anki file with several decks becomes several sets
+  app.post("/api/flashcard-sets/import", upload.single("file"), async (req: MulterRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
       }
 
-      res.json(set);
+      const sets = await importDecks(req.user!.id, req.file.buffer, req.file.originalname);
+      res.json(sets);
+    } catch (error) {
+      if (error instanceof DeckImportError) {
+        return res.status(415).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import flashcards: " + (error as Error).message });
+    }
+  });
+
+  app.get("/api/flashcard-sets/:id/export", requireOwnership("flashcardSet", fromParam("id")), async (req, res) => {
+    try {
+      const format = String(req.query.format || "apkg") as DeckExportFormat;
+      if (!deckExportFormats.includes(format)) {
+        return res.status(400).json({ message: `Export format must be one of: ${deckExportFormats.join(", ")}` });
+      }
+
+      const { body, contentType, filename } = await exportSet(res.locals.flashcardSet, format);
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(body);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export flashcard set: " + (error as Error).message });
+    }
+  });
+
+  app.post("/api/flashcard-sets/generate", requireOwnership("document", fromBody("documentId")), async (req, res) => {
+    try {
+      const { count } = generateFlashcardsSchema.parse(req.body);
+      const document: Document = res.locals.document;
+      const job = await jobQueue.enqueue("generate-flashcards", req.user!.id, { documentId: document.id, count });
+      res.status(202).json(job);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       res.status(500).json({ message: "Failed to generate flashcards: " + (error as Error).message });
     }
   });
 
-  app.get("/api/flashcard-sets/:id/cards", async (req, res) => {
+  app.get("/api/flashcard-sets/:id/cards", requireOwnership("flashcardSet", fromParam("id")), async (req, res) => {
     try {
-      const { id } = req.params;
-      const cards = await storage.getFlashcardsBySet(id);
+      const set: FlashcardSet = res.locals.flashcardSet;
+      const cards = await storage.getFlashcardsBySet(set.id);
       res.json(cards);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch flashcards" });
     }
   });
 
-  app.put("/api/flashcards/:id", async (req, res) => {
+  // Responds with every card the entry made: two for a reversible card, one per cloze number
+  app.post("/api/flashcard-sets/:id/cards", requireOwnership("flashcardSet", fromParam("id")), async (req, res) => {
+    try {
+      const set: FlashcardSet = res.locals.flashcardSet;
+      const cards = await createCards(set.id, newFlashcardSchema.parse(req.body));
+      res.json(cards);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to add flashcard: " + (error as Error).message });
+    }
+  });
+
+  // Pasted "term<TAB>definition" lines; lines that do not split are reported back, not added
+  app.post("/api/flashcard-sets/:id/cards/bulk", requireOwnership("flashcardSet", fromParam("id")), async (req, res) => {
+    try {
+      const set: FlashcardSet = res.locals.flashcardSet;
+      const { text } = bulkFlashcardsSchema.parse(req.body);
+      const { cards: parsed, skippedLines } = parseBulkCards(text);
+      if (parsed.length === 0) {
+        return res.status(400).json({ message: "No cards found: put each term and its definition on one line, separated by a tab" });
+      }
+
+      const cards = [];
+      for (const { question, answer } of newFlashcardSchema.array().parse(parsed)) {
+        cards.push(await storage.createFlashcard({ setId: set.id, question, answer }));
+      }
+      res.json({ cards, skippedLines });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to add flashcards: " + (error as Error).message });
+    }
+  });
+
+  app.put("/api/flashcard-sets/:id/order", requireOwnership("flashcardSet", fromParam("id")), async (req, res) => {
     try {
-      const { id } = req.params;
-      const updates = req.body;
-      const card = await storage.updateFlashcard(id, updates);
+      const set: FlashcardSet = res.locals.flashcardSet;
+      const { cardIds } = reorderFlashcardsSchema.parse(req.body);
+      const current = await storage.getFlashcardsBySet(set.id);
+      const currentIds = new Set(current.map((card) => card.id));
+      if (cardIds.length !== current.length || new Set(cardIds).size !== cardIds.length || !cardIds.every((id) => currentIds.has(id))) {
+        return res.status(400).json({ message: "cardIds must list every card in the set exactly once" });
+      }
+
+      const cards = await storage.reorderFlashcards(set.id, cardIds);
+      res.json(cards);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to reorder flashcards: " + (error as Error).message });
+    }
+  });
+
+  app.put("/api/flashcards/:id", requireOwnership("flashcard", fromParam("id")), async (req, res) => {
+    try {
+      const existing: Flashcard = res.locals.flashcard;
+      // Only the card's content is editable: it cannot be moved into another set
+      // (possibly someone else's), and its schedule only changes through reviews
+      const updates = updateFlashcardSchema.parse(req.body);
+      const problem = cardContentProblem(existing.cardType, updates.question ?? existing.question, updates.answer ?? existing.answer);
+      if (problem) {
+        return res.status(400).json({ message: problem.message });
+      }
+
+      // Siblings of a reversible or cloze card change with it
+      const card = await updateCards(existing, updates);
       
       if (!card) {
         return res.status(404).json({ message: "Flashcard not found" });
@@ -240,14 +418,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(card);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       res.status(500).json({ message: "Failed to update flashcard" });
     }
   });
 
+  app.delete("/api/flashcards/:id", requireOwnership("flashcard", fromParam("id")), async (req, res) => {
+    try {
+      // Takes the card's siblings with it
+      await deleteCards(res.locals.flashcard);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete flashcard: " + (error as Error).message });
+    }
+  });
+
+  app.post("/api/flashcards/:id/review", requireOwnership("flashcard", fromParam("id")), async (req, res) => {
+    try {
+      const existing: Flashcard = res.locals.flashcard;
+      const { grade, responseTimeMs } = reviewFlashcardSchema.parse(req.body);
+      const card = await recordReview(req.user!, existing, grade, responseTimeMs);
+
+      if (!card) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
+
+      res.json(card);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to review flashcard: " + (error as Error).message });
+    }
+  });
+
+  // Grades a typed answer and reviews the card with the resulting grade
+  app.post("/api/flashcards/:id/answer", requireOwnership("flashcard", fromParam("id")), async (req, res) => {
+    try {
+      const existing: Flashcard = res.locals.flashcard;
+      const { answer, responseTimeMs, aiGrading } = typedAnswerSchema.parse(req.body);
+      const result = await gradeTypedAnswer(existing, answer, aiGrading);
+      const card = await recordReview(req.user!, existing, result.grade, responseTimeMs);
+
+      if (!card) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
+
+      res.json({ card, result });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to grade answer: " + (error as Error).message });
+    }
+  });
+
+  // Today's study queue across every set
+  app.get("/api/reviews/due", async (req, res) => {
+    try {
+      const queue = await buildDueQueue(req.user!);
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch due cards: " + (error as Error).message });
+    }
+  });
+
+  app.get("/api/reviews/forecast", async (req, res) => {
+    try {
+      const forecast = await buildForecast(req.user!);
+      res.json(forecast);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch review forecast: " + (error as Error).message });
+    }
+  });
+
+  app.get("/api/stats/study", async (req, res) => {
+    try {
+      const stats = await buildStudyStats(req.user!);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch study stats: " + (error as Error).message });
+    }
+  });
+
+  app.get("/api/stats/sets", async (req, res) => {
+    try {
+      const mastery = await buildSetMastery(req.user!);
+      res.json(mastery);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch set mastery: " + (error as Error).message });
+    }
+  });
+
   // Quiz routes
   app.get("/api/quizzes", async (req, res) => {
     try {
-      const userId = "demo-user";
+      const userId = req.user!.id;
       const quizzes = await storage.getQuizzesByUser(userId);
       res.json(quizzes);
     } catch (error) {
@@ -255,80 +523,379 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/quizzes/generate", async (req, res) => {
+  app.post("/api/quizzes/generate", requireOwnership("document", fromBody("documentId")), async (req, res) => {
     try {
-      const { documentId, questionCount = 10 } = req.body;
-      const document = await storage.getDocument(documentId);
-      
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      const { questionCount, questionTypes } = generateQuizSchema.parse(req.body);
+      const document: Document = res.locals.document;
+      const job = await jobQueue.enqueue("generate-quiz", req.user!.id, { documentId: document.id, questionCount, questionTypes });
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
+      res.status(500).json({ message: "Failed to generate quiz: " + (error as Error).message });
+    }
+  });
 
-      const generatedQuiz = await generateQuizFromContent(document.content, questionCount);
-      
-      const quizData = insertQuizSchema.parse({
-        userId: document.userId,
-        documentId: document.id,
-        title: generatedQuiz.title,
-        description: generatedQuiz.description,
-        questions: generatedQuiz.questions,
-        timeLimit: 30 // 30 minutes default
-      });
+  app.get("/api/quizzes/:id/attempts", requireOwnership("quiz", fromParam("id")), async (req, res) => {
+    try {
+      const history = await buildAttemptHistory(res.locals.quiz);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quiz attempts: " + (error as Error).message });
+    }
+  });
 
-      const quiz = await storage.createQuiz(quizData);
-      res.json(quiz);
+  app.get("/api/quiz-attempts", async (req, res) => {
+    try {
+      const attempts = await listAttempts(req.user!.id);
+      res.json(attempts);
     } catch (error) {
-      res.status(500).json({ message: "Failed to generate quiz: " + (error as Error).message });
+      res.status(500).json({ message: "Failed to fetch quiz attempts: " + (error as Error).message });
     }
   });
 
-  app.post("/api/quiz-attempts", async (req, res) => {
+  // Starts the countdown; the server's clock is returned so the client can allow for its own being off
+  app.post("/api/quiz-attempts", requireOwnership("quiz", fromBody("quizId")), async (req, res) => {
     try {
-      const attemptData = insertQuizAttemptSchema.parse({
-        ...req.body,
-        userId: "demo-user"
-      });
-      const attempt = await storage.createQuizAttempt(attemptData);
+      const attempt = await startAttempt(req.user!.id, res.locals.quiz);
+      const started: StartedQuizAttempt = { attempt, serverTime: new Date().toISOString() };
+      res.json(started);
+    } catch (error) {
+      if (error instanceof UnreadableQuizError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to start quiz attempt: " + (error as Error).message });
+    }
+  });
+
+  app.post("/api/quiz-attempts/:id/submit", requireOwnership("quizAttempt", fromParam("id")), async (req, res) => {
+    try {
+      const submission = submitQuizAttemptSchema.parse(req.body);
+      const quiz = await storage.getQuiz(res.locals.quizAttempt.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      const attempt = await submitAttempt(res.locals.quizAttempt, quiz, submission);
       res.json(attempt);
     } catch (error) {
-      res.status(500).json({ message: "Failed to save quiz attempt" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof QuizAttemptClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof UnreadableQuizError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save quiz attempt: " + (error as Error).message });
+    }
+  });
+
+  // A second-opinion grading of a short-answer or essay answer
+  app.post("/api/quiz-attempts/:id/questions/:index/appeal", requireOwnership("quizAttempt", fromParam("id")), async (req, res) => {
+    try {
+      const { reason } = quizAppealSchema.parse(req.body);
+      const quiz = await storage.getQuiz(res.locals.quizAttempt.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      const attempt = await appealAnswer(res.locals.quizAttempt, quiz, parseInt(req.params.index, 10), reason);
+      res.json(attempt);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof QuizAppealError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to appeal grade: " + (error as Error).message });
+    }
+  });
+
+  // Job routes
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const jobs = await storage.getJobsByUser(req.user!.id);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.get("/api/jobs/:id", requireOwnership("job", fromParam("id")), async (req, res) => {
+    res.json(res.locals.job);
+  });
+
+  // Server-Sent Events: the current state first, then every update until the job finishes
+  app.get("/api/jobs/:id/events", requireOwnership("job", fromParam("id")), async (req, res) => {
+    const job: Job = res.locals.job;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const send = (update: Job) => res.write(`data: ${JSON.stringify(update)}\n\n`);
+    const onUpdate = (update: Job) => {
+      if (update.id !== job.id) return;
+      send(update);
+      if (isFinished(update)) close();
+    };
+    // Comment lines keep proxies from timing out an idle stream
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+    const close = () => {
+      clearInterval(heartbeat);
+      jobQueue.off("update", onUpdate);
+      res.end();
+    };
+
+    jobQueue.on("update", onUpdate);
+    req.on("close", close);
+
+    // Re-read after subscribing so an update between the ownership check and now is not lost.
+    // The stream is already open, so a failed read sends what the ownership check loaded and ends it.
+    try {
+      const current = await storage.getJob(job.id);
+      send(current || job);
+      if (!current || isFinished(current)) close();
+    } catch {
+      send(job);
+      close();
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", requireOwnership("job", fromParam("id")), async (req, res) => {
+    try {
+      const existing: Job = res.locals.job;
+      if (isFinished(existing)) {
+        return res.status(409).json({ message: `Job already ${existing.status}` });
+      }
+
+      const job = await jobQueue.cancel(existing.id);
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel job: " + (error as Error).message });
     }
   });
 
   // Chat routes
-  app.post("/api/chat", async (req, res) => {
+  // Chat threads: each document can hold several separate conversations, and threads
+  // with a scope span several documents and notes
+  app.get("/api/chat-threads", async (req, res) => {
     try {
-      const { message, documentId } = req.body;
-      
-      if (!documentId) {
-        return res.status(400).json({ message: "Document ID is required" });
+      const threads = await storage.getChatThreadsByUser(req.user!.id);
+      res.json(threads);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chat threads" });
+    }
+  });
+
+  app.post("/api/chat-threads", async (req, res) => {
+    try {
+      const scope = parseChatScope(req.body.scope ?? {});
+      await resolveSources(req.user!.id, scope);
+      const title = typeof req.body.title === "string" && req.body.title.trim() ? req.body.title.trim() : undefined;
+      const thread = await createThread(req.user!.id, { scope }, title);
+      res.json(thread);
+    } catch (error) {
+      if (error instanceof ChatScopeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create chat thread: " + (error as Error).message });
+    }
+  });
+
+  app.get("/api/documents/:documentId/threads", requireOwnership("document", fromParam("documentId")), async (req, res) => {
+    try {
+      const threads = await listThreads(req.user!.id, res.locals.document);
+      res.json(threads);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chat threads" });
+    }
+  });
+
+  app.post("/api/documents/:documentId/threads", requireOwnership("document", fromParam("documentId")), async (req, res) => {
+    try {
+      const { title } = insertChatThreadSchema.pick({ title: true }).partial().parse(req.body);
+      const thread = await createThread(req.user!.id, { document: res.locals.document }, title?.trim() || undefined);
+      res.json(thread);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create chat thread: " + (error as Error).message });
+    }
+  });
+
+  app.put("/api/chat-threads/:id", requireOwnership("chatThread", fromParam("id")), async (req, res) => {
+    try {
+      const existing: ChatThread = res.locals.chatThread;
+      const updates: Partial<ChatThread> = {};
+      if (req.body.title !== undefined) {
+        const title = String(req.body.title).trim();
+        if (!title) {
+          return res.status(400).json({ message: "Thread title is required" });
+        }
+        updates.title = title;
+      }
+      // Single-document threads stay tied to their document
+      if (req.body.scope !== undefined) {
+        if (existing.documentId) {
+          return res.status(400).json({ message: "This thread is about a single document; start a new thread to chat across sources" });
+        }
+        updates.scope = parseChatScope(req.body.scope);
+        await resolveSources(req.user!.id, updates.scope as ChatScope);
       }
 
-      const document = await storage.getDocument(documentId);
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      const thread = await storage.updateChatThread(existing.id, updates);
+      res.json(thread);
+    } catch (error) {
+      if (error instanceof ChatScopeError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      res.status(500).json({ message: "Failed to update chat thread: " + (error as Error).message });
+    }
+  });
 
-      const response = await chatWithDocument(message, document.content);
-      
-      const chatData = insertChatMessageSchema.parse({
-        userId: "demo-user",
-        documentId,
+  app.delete("/api/chat-threads/:id", requireOwnership("chatThread", fromParam("id")), async (req, res) => {
+    try {
+      await storage.deleteChatThread(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete chat thread: " + (error as Error).message });
+    }
+  });
+
+  // Empties the thread but keeps it, so the model starts over without the earlier turns
+  app.post("/api/chat-threads/:id/clear", requireOwnership("chatThread", fromParam("id")), async (req, res) => {
+    try {
+      await storage.deleteChatMessagesByThread(req.params.id);
+      const thread = await storage.updateChatThread(req.params.id, {});
+      res.json(thread);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to clear chat thread: " + (error as Error).message });
+    }
+  });
+
+  app.get("/api/chat-threads/:id/messages", requireOwnership("chatThread", fromParam("id")), async (req, res) => {
+    try {
+      const messages = await storage.getChatMessagesByThread(req.params.id);
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chat messages" });
+    }
+  });
+
+  // A chat message names a document, a thread, or a scope (documentIds, noteIds, subject, tag)
+  // to start a new thread over; see resolveChatTarget
+  const chatTarget = [
+    requireOwnership("document", fromBody("documentId"), { optional: true }),
+    requireOwnership("chatThread", fromBody("threadId"), { optional: true }),
+  ];
+  const resolveTarget = (req: Request, res: Response) => resolveChatTarget(req.user!.id, {
+    document: res.locals.document,
+    thread: res.locals.chatThread,
+    scope: req.body.scope ? parseChatScope(req.body.scope) : undefined,
+  });
+
+  app.post("/api/chat", ...chatTarget, async (req, res) => {
+    try {
+      const { message } = chatMessageSchema.parse(req.body);
+      const { thread, sources } = await resolveTarget(req, res);
+
+      const history = await loadHistory(thread);
+      const passages = await retrievePassages(retrievalQuery(message, history), sources, retrievalDepth(sources));
+      const response = await chatWithDocument(message, passages, history);
+
+      const chatMessage = await saveTurn(thread, {
+        userId: req.user!.id,
         message,
-        response
+        response,
+        citations: buildCitations(response, passages)
       });
-
-      const chatMessage = await storage.createChatMessage(chatData);
       res.json(chatMessage);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof ChatScopeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to process chat message: " + (error as Error).message });
     }
   });
 
-  app.get("/api/chat/:documentId", async (req, res) => {
+  // Same as POST /api/chat, but the answer arrives as Server-Sent Events: `token` events while the
+  // model writes, then `done` with the saved message (or `error`). Closing the request stops generation.
+  app.post("/api/chat/stream", ...chatTarget, async (req, res) => {
+    let message: string;
+    let target: Awaited<ReturnType<typeof resolveTarget>>;
+    try {
+      ({ message } = chatMessageSchema.parse(req.body));
+      target = await resolveTarget(req, res);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof ChatScopeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Failed to process chat message: " + (error as Error).message });
+    }
+    const { thread, sources } = target;
+    const controller = new AbortController();
+
+    // The request's own close event fires once its body is read; the response's fires when the client goes away
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let response = "";
+    let passages: RetrievedPassage[] = [];
+    try {
+      const history = await loadHistory(thread);
+      passages = await retrievePassages(retrievalQuery(message, history), sources, retrievalDepth(sources));
+      for await (const token of streamChatWithDocument(message, passages, history, controller.signal)) {
+        response += token;
+        send("token", { text: token });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        send("error", { message: "Failed to process chat message: " + (error as Error).message });
+        return res.end();
+      }
+    }
+
+    try {
+      // A stopped answer is kept as far as it got, since the student has already read it
+      if (!response) return res.end();
+      const chatMessage = await saveTurn(thread, {
+        userId: req.user!.id,
+        message,
+        response,
+        citations: buildCitations(response, passages)
+      });
+      send("done", chatMessage);
+    } catch (error) {
+      send("error", { message: "Failed to save chat message: " + (error as Error).message });
+    }
+    res.end();
+  });
+
+  app.get("/api/chat/:documentId", requireOwnership("document", fromParam("documentId")), async (req, res) => {
     try {
-      const { documentId } = req.params;
-      const messages = await storage.getChatMessagesByDocument(documentId);
+      const document: Document = res.locals.document;
+      const messages = await storage.getChatMessagesByDocument(document.id);
       res.json(messages);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch chat messages" });
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateFlashcardsFromContent, generateNotesFromContent, generateQuizFromContent, judgeTypedAnswer } from "./ai";
+import { llm } from "./llm";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function reply(value: unknown) {
+  vi.spyOn(llm, "json").mockResolvedValue(value);
+}
+
+describe("generation replies", () => {
+  it("fills in note fields the model left out or mistyped", async () => {
+    reply({ title: 42, content: "## Enzymes", wordCount: "120", tags: "biology" });
+
+    expect(await generateNotesFromContent("Enzymes...", "Enzymes lecture")).toEqual({
+      title: "Enzymes lecture",
+      content: "## Enzymes",
+      subject: "General",
+      wordCount: 120,
+      tags: [],
+    });
+  });
+
+  it("drops flashcards without a question and defaults their difficulty", async () => {
+    reply({
+      flashcards: [
+        { type: "basic", question: "What do enzymes lower?", answer: "Activation energy", difficulty: "easy" },
+        { question: "  ", answer: "Blank" },
+        "not a card",
+        { type: "cloze", question: "{{c1::Enzymes}} are proteins", difficulty: "impossible" },
+      ],
+    });
+
+    expect(await generateFlashcardsFromContent("Enzymes...", 3)).toEqual([
+      { type: "basic", question: "What do enzymes lower?", answer: "Activation energy", difficulty: "easy" },
+      { type: "cloze", question: "{{c1::Enzymes}} are proteins", answer: "", difficulty: "medium" },
+    ]);
+  });
+
+  it("reads a flashcard reply without a list as no cards", async () => {
+    reply({ flashcards: "none" });
+
+    expect(await generateFlashcardsFromContent("Enzymes...", 3)).toEqual([]);
+  });
+
+  it("keeps a quiz's valid questions and defaults its title", async () => {
+    reply({
+      title: null,
+      questions: [
+        { type: "true-false", question: "Enzymes are used up.", correctAnswer: false, explanation: "" },
+        { type: "true-false", question: "No answer" },
+      ],
+    });
+
+    const quiz = await generateQuizFromContent("Enzymes...", 2, ["true-false"]);
+
+    expect(quiz.title).toBe("Generated Quiz");
+    expect(quiz.questions.map((question) => question.question)).toEqual(["Enzymes are used up."]);
+  });
+
+  it("fails when the reply is not an object", async () => {
+    reply(["a list"]);
+
+    await expect(generateNotesFromContent("Enzymes...", "Enzymes")).rejects.toThrow("Failed to generate notes");
+  });
+});
+
+describe("judgeTypedAnswer", () => {
+  it("counts an unknown verdict as incorrect", async () => {
+    reply({ verdict: "mostly", feedback: 7 });
+
+    expect(await judgeTypedAnswer("What do enzymes lower?", "Activation energy", "Energy")).toEqual({ verdict: "incorrect", feedback: "" });
+  });
+});
@@ -0,0 +1,347 @@
+import { z } from "zod";
+import { llm, type LLMMessage, type TranscriptionResult } from "./llm";
+import { generatedQuizQuestions, quizQuestionTypes, type QuizQuestion, type QuizQuestionType, type RubricCriterion } from "@shared/quiz";
+
+export interface GeneratedNote {
+  title: string;
+  content: string;
+  subject: string;
+  wordCount: number;
+  tags: string[];
+}
+
+export interface GeneratedFlashcard {
+  // A cloze card's question is a passage with {{c1::...}} deletions; its answer is optional extra context
+  type?: 'basic' | 'cloze';
+  question: string;
+  answer: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+}
+
+export interface GeneratedQuiz {
+  title: string;
+  description: string;
+  questions: QuizQuestion[];
+}
+
+// The JSON each question type is written in, as described to the model
+const QUESTION_FORMATS: Record<QuizQuestionType, string> = {
+  'multiple-choice': "{ 'type': 'multiple-choice', 'question': string, 'options': string[] (4 options), 'correctAnswer': number (index of the one correct option), 'explanation': string }",
+  'true-false': "{ 'type': 'true-false', 'question': string (a statement to judge), 'correctAnswer': boolean, 'explanation': string }",
+  'multi-select': "{ 'type': 'multi-select', 'question': string, 'options': string[] (4 to 6 options), 'correctAnswers': number[] (indexes of every correct option, at least one), 'explanation': string }",
+  'fill-blank': "{ 'type': 'fill-blank', 'question': string (a sentence with the missing word or phrase replaced by ___), 'acceptedAnswers': string[] (the missing text and any equally correct variants), 'explanation': string }",
+  'numeric': "{ 'type': 'numeric', 'question': string, 'correctAnswer': number, 'tolerance': number (how far off an answer may be and still count, 0 for exact), 'unit': string (optional), 'explanation': string }",
+  'matching': "{ 'type': 'matching', 'question': string (what to match), 'pairs': [{ 'left': string, 'right': string }] (3 to 5 pairs), 'explanation': string }",
+  'ordering': "{ 'type': 'ordering', 'question': string (what to put in order), 'items': string[] (3 to 6 items in the correct order), 'explanation': string }",
+  'short-answer': "{ 'type': 'short-answer', 'question': string (answerable in two or three sentences), 'modelAnswer': string, 'rubric': [{ 'criterion': string (one point a good answer makes, taken from the content), 'points': number }] (2 to 4 criteria, 1 to 3 points each), 'explanation': string }",
+  'essay': "{ 'type': 'essay', 'question': string (asks the student to explain, compare or argue), 'modelAnswer': string (a strong answer of a few paragraphs), 'rubric': [{ 'criterion': string (one thing a strong essay does, grounded in the content), 'points': number }] (3 to 6 criteria, 1 to 5 points each), 'explanation': string }",
+};
+
+// The model's replies to the generation prompts below. As with rubric grading,
+// a missing or mistyped field falls back to a default instead of failing the
+// job, but a reply that is not an object at all is an error.
+const noteReplySchema = z.object({
+  title: z.string().catch(""),
+  content: z.string().catch(""),
+  subject: z.string().catch(""),
+  wordCount: z.coerce.number().finite().catch(0),
+  tags: z.array(z.string()).catch([]),
+});
+
+const flashcardReplySchema = z.object({
+  flashcards: z.array(z.unknown()).catch([]),
+});
+
+// Cards without a question are dropped rather than saved blank
+const generatedFlashcardSchema = z.object({
+  type: z.enum(['basic', 'cloze']).optional().catch(undefined),
+  question: z.string().trim().min(1),
+  answer: z.string().catch(""),
+  difficulty: z.enum(['easy', 'medium', 'hard']).catch('medium'),
+});
+
+// Questions are checked one by one against their type's schema by generatedQuizQuestions
+const quizReplySchema = z.object({
+  title: z.string().catch(""),
+  description: z.string().catch(""),
+  questions: z.unknown(),
+});
+
+export async function generateNotesFromContent(content: string, title: string, signal?: AbortSignal): Promise<GeneratedNote> {
+  try {
+    const result = await llm.json([
+      {
+        role: "system",
+        content: "You are an expert study assistant. Create well-structured, comprehensive notes from the provided content. Format the notes with clear headings, bullet points, and key concepts. Include relevant emojis to make the notes more engaging and memorable. If the content has [mm:ss] timestamps, cite the timestamp where each point is covered in the same [mm:ss] form. Respond with JSON in this format: { 'title': string, 'content': string, 'subject': string, 'wordCount': number, 'tags': string[] }"
+      },
+      {
+        role: "user",
+        content: `Create detailed study notes from this content titled "${title}":\n\n${content}`
+      }
+    ], { signal, task: "notes" });
+
+    const reply = noteReplySchema.parse(result);
+    return {
+      title: reply.title || title,
+      content: reply.content,
+      subject: reply.subject || "General",
+      wordCount: reply.wordCount,
+      tags: reply.tags
+    };
+  } catch (error) {
+    throw new Error("Failed to generate notes: " + (error as Error).message);
+  }
+}
+
+export async function generateFlashcardsFromContent(content: string, count: number = 10, signal?: AbortSignal): Promise<GeneratedFlashcard[]> {
+  try {
+    const result = await llm.json([
+      {
+        role: "system",
+        content: `You are an expert study assistant. Create ${count} flashcards from the provided content. Make questions clear and concise, with comprehensive answers. Vary the difficulty levels appropriately. Where a key term, name or number is best learned by recalling it in context, make a cloze card instead: set 'type' to 'cloze' and write a sentence from the content in 'question' with each term to hide wrapped as {{c1::term}} (use c2, c3 and so on to test several terms in one sentence separately), leaving 'answer' empty or adding brief extra context. Other cards have 'type' 'basic'. If the content has [mm:ss] timestamps, end each answer with the timestamp it comes from in the same [mm:ss] form. Respond with JSON in this format: { 'flashcards': [{ 'type': 'basic' | 'cloze', 'question': string, 'answer': string, 'difficulty': 'easy' | 'medium' | 'hard' }] }`
+      },
+      {
+        role: "user",
+        content: `Create ${count} flashcards from this content:\n\n${content}`
+      }
+    ], { signal, task: "flashcards" });
+
+    return flashcardReplySchema.parse(result).flashcards.flatMap((card) => {
+      const parsed = generatedFlashcardSchema.safeParse(card);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch (error) {
+    throw new Error("Failed to generate flashcards: " + (error as Error).message);
+  }
+}
+
+/**
+ * Writes a quiz using the given question types. With more than one type the
+ * model mixes them, picking whichever suits each fact (numeric questions only
+ * where the content has figures, ordering only for sequences). Questions that
+ * do not fit their type's schema are dropped.
+ */
+export async function generateQuizFromContent(
+  content: string,
+  questionCount: number = 10,
+  questionTypes: readonly QuizQuestionType[] = quizQuestionTypes,
+  signal?: AbortSignal,
+): Promise<GeneratedQuiz> {
+  const types = questionTypes.length > 0 ? questionTypes : quizQuestionTypes;
+  const kind = types.length === 1
+    ? `Every question must be of type '${types[0]}'.`
+    : `Mix these question types, choosing for each question the type that best tests that fact: ${types.map((type) => `'${type}'`).join(", ")}. Use at least two different types, and only write numeric questions for figures in the content and ordering questions for real sequences.`;
+  try {
+    const result = await llm.json([
+      {
+        role: "system",
+        content: `You are an expert quiz creator. Create a ${questionCount}-question quiz from the provided content. ${kind} Every question needs an unambiguous answer and an explanation of it. Write each question in the format for its type:\n${types.map((type) => QUESTION_FORMATS[type]).join("\n")}\nRespond with JSON in this format: { 'title': string, 'description': string, 'questions': [question, ...] }`
+      },
+      {
+        role: "user",
+        content: `Create a ${questionCount}-question quiz from this content:\n\n${content}`
+      }
+    ], { signal, task: "quiz" });
+
+    const reply = quizReplySchema.parse(result);
+    return {
+      title: reply.title || "Generated Quiz",
+      description: reply.description || "Quiz generated from uploaded content",
+      questions: generatedQuizQuestions(reply.questions)
+    };
+  } catch (error) {
+    throw new Error("Failed to generate quiz: " + (error as Error).message);
+  }
+}
+
+export interface AnswerJudgement {
+  verdict: 'correct' | 'partial' | 'incorrect';
+  feedback: string;
+}
+
+// An unreadable verdict counts as incorrect
+const judgementReplySchema = z.object({
+  verdict: z.enum(['correct', 'partial', 'incorrect']).catch('incorrect'),
+  feedback: z.string().catch(""),
+});
+
+export async function judgeTypedAnswer(question: string, expected: string, given: string, signal?: AbortSignal): Promise<AnswerJudgement> {
+  try {
+    const result = await llm.json([
+      {
+        role: "system",
+        content: "You are a fair study tutor grading a flashcard answer the student typed. Judge meaning, not wording: a paraphrase that states the same facts is correct, one that gets the main idea but misses or confuses a key detail is partial, and anything else is incorrect. Ignore spelling and grammar. Give one or two sentences of feedback naming what was missed, if anything. Respond with JSON in this format: { 'verdict': 'correct' | 'partial' | 'incorrect', 'feedback': string }"
+      },
+      {
+        role: "user",
+        content: `Question: ${question}\nExpected answer: ${expected}\nStudent answer: ${given}`
+      }
+    ], { signal, task: "answer-grading" });
+
+    return judgementReplySchema.parse(result);
+  } catch (error) {
+    throw new Error("Failed to grade answer: " + (error as Error).message);
+  }
+}
+
+export interface OpenResponse {
+  question: string;
+  modelAnswer: string;
+  rubric: RubricCriterion[];
+  answer: string;
+}
+
+export interface RubricJudgement {
+  // One per rubric criterion, in order, with points within the criterion's maximum
+  criteria: { points: number; comment: string }[];
+  // May cite the passages as [n]
+  feedback: string;
+}
+
+function rubricPrompt(response: OpenResponse, passages: ChatPassage[]): string {
+  const context = passages.length > 0
+    ? passages.map((passage, index) => `[${index + 1}] ${passage.content}`).join("\n\n")
+    : "No passages were found.";
+  const rubric = response.rubric.map((criterion, index) => `${index + 1}. (${criterion.points} points) ${criterion.criterion}`).join("\n");
+  return `Passages:\n${context}\n\nQuestion: ${response.question}\nModel answer: ${response.modelAnswer}\nRubric:\n${rubric}\n\nStudent answer:\n${response.answer}`;
+}
+
+// The model's reply to RUBRIC_FORMAT. Anything malformed reads as no points or
+// no comment rather than failing the grade; toJudgement fits it to the rubric.
+const rubricReplySchema = z.object({
+  criteria: z.array(z.object({
+    points: z.coerce.number().finite().catch(0),
+    comment: z.string().catch(""),
+  }).catch({ points: 0, comment: "" })).catch([]),
+  feedback: z.string().catch(""),
+});
+
+type RubricReply = z.infer<typeof rubricReplySchema>;
+
+// Keeps the model to the rubric: one entry per criterion, whole points from zero to the criterion's maximum
+function toJudgement(reply: RubricReply, rubric: RubricCriterion[]): RubricJudgement {
+  const criteria = rubric.map((criterion, index) => {
+    const scored = reply.criteria[index];
+    const points = Math.round(scored?.points ?? 0);
+    return { points: Math.min(criterion.points, Math.max(0, points)), comment: scored?.comment ?? "" };
+  });
+  return { criteria, feedback: reply.feedback };
+}
+
+const RUBRIC_FORMAT = "Respond with JSON in this format: { 'criteria': [{ 'points': number, 'comment': string }] (one entry per rubric criterion, in order), 'feedback': string }";
+
+/**
+ * Grades a written answer against its rubric, awarding each criterion's points
+ * for what the answer actually says. The passages from the source material
+ * are the authority; the feedback cites them as [n].
+ */
+export async function gradeOpenResponse(response: OpenResponse, passages: ChatPassage[], signal?: AbortSignal): Promise<RubricJudgement> {
+  try {
+    const result = await llm.json([
+      {
+        role: "system",
+        content: `You are a fair examiner grading a student's written answer against a rubric. For each criterion award whole points from 0 to its maximum for what the answer actually states; the model answer shows one way to earn full marks, not the only way. Judge facts against the numbered passages from the course material, which take precedence over the model answer. Ignore spelling and grammar unless they change the meaning. Write a short comment per criterion and two to four sentences of overall feedback saying what was missing or wrong, citing the passage that shows it as [n]. ${RUBRIC_FORMAT}`
+      },
+      { role: "user", content: rubricPrompt(response, passages) }
+    ], { signal, task: "rubric-grading" });
+    return toJudgement(rubricReplySchema.parse(result), response.rubric);
+  } catch (error) {
+    throw new Error("Failed to grade answer: " + (error as Error).message);
+  }
+}
+
+/**
+ * A second examiner's grading of an appealed answer. The first grade and the
+ * student's reason are shown, but the answer is graded afresh against the
+ * rubric and passages, so the reviewer can agree or disagree.
+ */
+export async function reviewOpenResponseGrade(
+  response: OpenResponse,
+  passages: ChatPassage[],
+  first: RubricJudgement,
+  reason: string,
+  signal?: AbortSignal,
+): Promise<RubricJudgement> {
+  const firstGrade = response.rubric
+    .map((criterion, index) => `${index + 1}. ${first.criteria[index]?.points ?? 0}/${criterion.points}: ${first.criteria[index]?.comment || ""}`)
+    .join("\n");
+  try {
+    const result = await llm.json([
+      {
+        role: "system",
+        content: `You are a second examiner reviewing an appealed grade. Grade the student's answer afresh against the rubric, awarding whole points from 0 to each criterion's maximum, and judge facts against the numbered passages from the course material. Consider the student's reason for the appeal and the first examiner's grade, but do not defer to either: raise points the first examiner missed and keep points that were fairly withheld. In the feedback, say whether and why you differ from the first grade, citing passages as [n]. ${RUBRIC_FORMAT}`
+      },
+      {
+        role: "user",
+        content: `${rubricPrompt(response, passages)}\n\nFirst grade:\n${firstGrade}\nFirst feedback: ${first.feedback}\n\nStudent's reason for appealing: ${reason || "(none given)"}`
+      }
+    ], { signal, task: "rubric-appeal" });
+    return toJudgement(rubricReplySchema.parse(result), response.rubric);
+  } catch (error) {
+    throw new Error("Failed to review grade: " + (error as Error).message);
+  }
+}
+
+export async function transcribeAudio(
+  audioBuffer: Buffer,
+  options: { filename?: string; mimeType?: string; signal?: AbortSignal } = {}
+): Promise<TranscriptionResult> {
+  try {
+    return await llm.transcribe(audioBuffer, options);
+  } catch (error) {
+    throw new Error("Failed to transcribe audio: " + (error as Error).message);
+  }
+}
+
+export interface ChatPassage {
+  content: string;
+  sourceType: 'document' | 'note';
+  sourceTitle: string;
+}
+
+// An earlier exchange in the same thread, oldest first
+export interface ChatTurn {
+  message: string;
+  response: string;
+}
+
+// Passages are numbered from 1 in the order given; the answer cites them as [n].
+// Earlier turns go between the instructions and the question so follow-ups resolve.
+function buildChatMessages(question: string, passages: ChatPassage[], history: ChatTurn[]): LLMMessage[] {
+  const context = passages.length > 0
+    ? passages.map((passage, index) => `[${index + 1}] (${passage.sourceType === 'note' ? "Note" : "Document"}: ${passage.sourceTitle})\n${passage.content}`).join("\n\n")
+    : "No relevant passages were found.";
+
+  return [
+    {
+      role: "system",
+      content: "You are a helpful study assistant. Answer questions using only the numbered passages from the student's material. After each claim, cite the passage it came from as [n], for example [2]. If the passages do not contain the answer, say so. Be accurate, helpful, and engaging. Use emojis where appropriate to make responses more friendly."
+    },
+    ...history.flatMap((turn): LLMMessage[] => [
+      { role: "user", content: turn.message },
+      { role: "assistant", content: turn.response },
+    ]),
+    {
+      role: "user",
+      content: `Passages:\n${context}\n\nQuestion: ${question}`
+    }
+  ];
+}
+
+export async function chatWithDocument(question: string, passages: ChatPassage[], history: ChatTurn[] = []): Promise<string> {
+  try {
+    const response = await llm.chat(buildChatMessages(question, passages, history), { task: "chat" });
+    return response || "I couldn't generate a response.";
+  } catch (error) {
+    throw new Error("Failed to chat with document: " + (error as Error).message);
+  }
+}
+
+export async function* streamChatWithDocument(question: string, passages: ChatPassage[], history: ChatTurn[] = [], signal?: AbortSignal): AsyncIterable<string> {
+  try {
+    yield* llm.chatStream(buildChatMessages(question, passages, history), { task: "chat", signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error("Failed to chat with document: " + (error as Error).message);
+  }
+}
@@ -0,0 +1,454 @@
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js";
+import JSZip from "jszip";
+import { createHash, randomBytes } from "crypto";
+import { clozeNumbers, renderCloze } from "@shared/flashcards";
+import { cardTypes, type CardType } from "@shared/schema";
+import { DeckImportError, easeFromGrade, gradeFromEase, type PortableCard, type PortableDeck, type PortableReview } from "./portable-deck";
+
+/*
+ * Anki packages (.apkg) are zip files holding a SQLite collection. Brainzy
+ * reads and writes the legacy schema (version 11, `collection.anki2` or
+ * `collection.anki21`), which every Anki release since 2.1 imports. Media is
+ * not carried over in either direction. Reversible and cloze entries travel
+ * as notes of the matching Anki note type, so their cards stay siblings.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = "\x1f";
+// Anki due values above this are Unix timestamps (learning cards); below, days since the collection was created
+const TIMESTAMP_DUE_THRESHOLD = 1_000_000_000;
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+}
+
+function query<T>(db: Database, sql: string): T[] {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+  return result.values.map((row: SqlValue[]) =>
+    Object.fromEntries(result.columns.map((column, index) => [column, row[index]])) as T,
+  );
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+// Anki fields are HTML; Brainzy cards are plain text
+function fieldToText(html: string): string {
+  return html
+    .replace(/<(style|script)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function textToField(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n/g, "<br>");
+}
+
+/**
+ * Enough of Anki's template language for the built-in note types and most
+ * shared decks: field substitution, {{#Field}}/{{^Field}} sections, and the
+ * cloze filter. Other filters pass the field through; type-in boxes vanish.
+ */
+function renderTemplate(
+  template: string,
+  fields: Record<string, string>,
+  cardOrd: number,
+  side: "question" | "answer",
+  frontSide = "",
+): string {
+  const sections = template.replace(/\{\{([#^])([^}]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, kind: string, name: string, inner: string) => {
+    const filled = fieldToText(fields[name.trim()] || "") !== "";
+    return (kind === "#") === filled ? inner : "";
+  });
+
+  return sections.replace(/\{\{([^}]+)\}\}/g, (_, tag: string) => {
+    const parts = tag.trim().split(":");
+    const name = parts.pop()!.trim();
+    const filters = parts.map((filter) => filter.trim());
+    if (name === "FrontSide") return frontSide;
+    if (filters.includes("type")) return "";
+    const value = fields[name] ?? "";
+    return filters.includes("cloze") ? renderCloze(value, cardOrd + 1, side) : value;
+  });
+}
+
+interface AnkiModel {
+  type: number; // 0 standard, 1 cloze
+  flds: { name: string; ord: number }[];
+  tmpls: { ord: number; qfmt: string; afmt: string }[];
+}
+
+interface AnkiCardRow {
+  id: number;
+  nid: number;
+  did: number;
+  ord: number;
+  type: number; // 0 new, 1 learning, 2 review, 3 relearning
+  due: number;
+  ivl: number;
+  factor: number;
+  lapses: number;
+  mid: number;
+  flds: string;
+}
+
+interface AnkiRevlogRow {
+  id: number; // Review time in milliseconds
+  cid: number;
+  ease: number;
+  ivl: number; // Days when positive, seconds when negative
+  lastIvl: number;
+  time: number; // Milliseconds spent answering
+}
+
+type CardContent = Pick<PortableCard, "question" | "answer" | "cardType" | "ordinal" | "noteKey">;
+
+function renderCard(model: AnkiModel, row: AnkiCardRow): { question: string; answer: string } | null {
+  const values = row.flds.split(FIELD_SEPARATOR);
+  const fields = Object.fromEntries(model.flds.map((field) => [field.name, values[field.ord] ?? ""]));
+  // Cloze note types have a single template shared by every cloze number
+  const template = model.type === 1 ? model.tmpls[0] : model.tmpls.find((tmpl) => tmpl.ord === row.ord);
+  if (!template) return null;
+
+  const questionHtml = renderTemplate(template.qfmt, fields, row.ord, "question");
+  const answerHtml = renderTemplate(template.afmt, fields, row.ord, "answer", questionHtml);
+  // The back usually repeats the front above <hr id=answer>; only what follows is the answer
+  const split = answerHtml.split(/<hr\s+id=["']?answer["']?\s*\/?>/i);
+  const question = fieldToText(questionHtml);
+  const answer = fieldToText(split.length > 1 ? split.slice(1).join("") : answerHtml);
+  return question && answer ? { question, answer } : null;
+}
+
+// Anki's "Basic (and reversed card)": the first field asked on one card, the second on the other
+function isReversible(model: AnkiModel): boolean {
+  const [front, back] = [...model.flds].sort((a, b) => a.ord - b.ord).map((field) => `{{${field.name}}}`);
+  const questions = [...model.tmpls].sort((a, b) => a.ord - b.ord).map((tmpl) => tmpl.qfmt.trim());
+  return model.type === 0 && questions.length === 2 && questions[0] === front && questions[1] === back;
+}
+
+// Cloze and reversible notes keep their fields as a Brainzy entry; other note types become the faces they show
+function readCard(model: AnkiModel, row: AnkiCardRow): CardContent | null {
+  const values = row.flds.split(FIELD_SEPARATOR);
+  const field = (name: string | undefined) => {
+    const ord = model.flds.find((candidate) => candidate.name === name)?.ord;
+    return ord === undefined ? "" : fieldToText(values[ord] ?? "");
+  };
+  const noteKey = String(row.nid);
+
+  if (model.type === 1) {
+    const clozeField = model.tmpls[0]?.qfmt.match(/\{\{(?:[^}:]+:)*cloze:([^}]+)\}\}/)?.[1].trim();
+    const text = field(clozeField);
+    if (clozeNumbers(text).includes(row.ord + 1)) {
+      const extra = model.flds.find((candidate) => candidate.name !== clozeField)?.name;
+      return { question: text, answer: field(extra), cardType: "cloze", ordinal: row.ord + 1, noteKey };
+    }
+  } else if (isReversible(model)) {
+    const [front, back] = [...model.flds].sort((a, b) => a.ord - b.ord).map((candidate) => field(candidate.name));
+    if (front && back) return { question: front, answer: back, cardType: "reversible", ordinal: row.ord, noteKey };
+  }
+
+  const rendered = renderCard(model, row);
+  return rendered && { ...rendered, cardType: "basic", ordinal: 0, noteKey: null };
+}
+
+function positiveDays(ivl: number): number {
+  return ivl > 0 ? ivl : 0;
+}
+
+function toPortableCard(row: AnkiCardRow, content: CardContent, logs: AnkiRevlogRow[], createdAt: number): PortableCard {
+  const reviews: PortableReview[] = logs.map((log, index) => ({
+    reviewedAt: new Date(log.id),
+    grade: gradeFromEase(log.ease),
+    wasNew: index === 0,
+    responseTimeMs: log.time > 0 ? log.time : null,
+    intervalDays: positiveDays(log.ivl),
+    previousIntervalDays: index === 0 ? null : positiveDays(log.lastIvl),
+  }));
+
+  if (row.type === 0) return { ...content, schedule: null, reviews };
+
+  const intervalDays = Math.max(1, positiveDays(row.ivl));
+  const nextReview = row.due > TIMESTAMP_DUE_THRESHOLD
+    ? new Date(row.due * 1000)
+    : new Date(createdAt * 1000 + row.due * DAY_MS);
+  const lastReviewed = logs.length > 0 ? new Date(logs[logs.length - 1].id) : new Date(nextReview.getTime() - intervalDays * DAY_MS);
+
+  // SM-2 counts correct answers in a row, which Anki does not store; the log gives it, else a graduated card counts as past its first two
+  let streak = 0;
+  for (let i = logs.length - 1; i >= 0 && logs[i].ease > 1; i--) streak++;
+
+  return {
+    ...content,
+    schedule: {
+      firstReviewed: logs.length > 0 ? new Date(logs[0].id) : lastReviewed,
+      lastReviewed,
+      nextReview,
+      repetitions: logs.length > 0 ? streak : row.type === 2 ? 2 : 0,
+      easinessFactor: row.factor > 0 ? Math.round(row.factor / 10) : 250,
+      intervalDays,
+      lapses: row.lapses,
+    },
+    reviews,
+  };
+}
+
+// One deck per Anki deck that has cards, keeping each card's schedule and review log
+export async function readApkg(buffer: Buffer): Promise<PortableDeck[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new DeckImportError("This .apkg file could not be opened. It may be damaged.");
+  }
+
+  // Newer exports also carry a collection.anki2 that only says "please update Anki"
+  const entry = zip.file("collection.anki21") ?? (zip.file("collection.anki21b") ? null : zip.file("collection.anki2"));
+  if (!entry) {
+    throw new DeckImportError(zip.file("collection.anki21b")
+      ? "This deck uses Anki's newest package format. In Anki, export it again with \"Support older Anki versions\" ticked."
+      : "No Anki collection was found in this file.");
+  }
+
+  const SQL = await loadSqlJs();
+  let db: Database;
+  try {
+    db = new SQL.Database(await entry.async("uint8array"));
+  } catch {
+    throw new DeckImportError("The Anki collection in this file could not be read.");
+  }
+
+  try {
+    const [col] = query<{ crt: number; models: string; decks: string }>(db, "SELECT crt, models, decks FROM col");
+    if (!col) throw new DeckImportError("The Anki collection in this file is empty.");
+    let models: Record<string, AnkiModel>;
+    let deckNames: Record<string, { name: string; desc?: string }>;
+    try {
+      models = JSON.parse(col.models);
+      deckNames = JSON.parse(col.decks);
+    } catch {
+      throw new DeckImportError("The Anki collection in this file is damaged: its note types or decks could not be read.");
+    }
+
+    const rows = query<AnkiCardRow>(db, `
+      SELECT cards.id, cards.nid, cards.did, cards.ord, cards.type, cards.due, cards.ivl, cards.factor, cards.lapses, notes.mid, notes.flds
+      FROM cards JOIN notes ON notes.id = cards.nid
+      ORDER BY cards.did, cards.nid, cards.ord
+    `);
+    const logsByCard = new Map<number, AnkiRevlogRow[]>();
+    for (const log of query<AnkiRevlogRow>(db, "SELECT id, cid, ease, ivl, lastIvl, time FROM revlog ORDER BY id")) {
+      if (!logsByCard.has(log.cid)) logsByCard.set(log.cid, []);
+      logsByCard.get(log.cid)!.push(log);
+    }
+
+    const decks = new Map<number, PortableDeck>();
+    for (const row of rows) {
+      const model = models[String(row.mid)];
+      const content = model && readCard(model, row);
+      if (!content) continue;
+
+      if (!decks.has(row.did)) {
+        const info = deckNames[String(row.did)];
+        decks.set(row.did, {
+          title: info?.name.replace(/::/g, " / ") || "Anki deck",
+          description: info?.desc ? fieldToText(info.desc) || null : null,
+          cards: [],
+        });
+      }
+      decks.get(row.did)!.cards.push(toPortableCard(row, content, logsByCard.get(row.id) || [], col.crt));
+    }
+    return Array.from(decks.values());
+  } finally {
+    db.close();
+  }
+}
+
+const MODEL_CSS = ".card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n";
+const CLOZE_CSS = ".cloze {\n font-weight: bold;\n color: blue;\n}\n";
+
+// The note type each kind of entry is written as, laid out like Anki's built-in ones
+const NOTE_TYPES: Record<CardType, { name: string; type: number; fields: string[]; templates: [string, string][] }> = {
+  basic: {
+    name: "Brainzy Basic",
+    type: 0,
+    fields: ["Front", "Back"],
+    templates: [["{{Front}}", "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}"]],
+  },
+  reversible: {
+    name: "Brainzy Basic (and reversed card)",
+    type: 0,
+    fields: ["Front", "Back"],
+    templates: [
+      ["{{Front}}", "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}"],
+      ["{{Back}}", "{{FrontSide}}\n\n<hr id=answer>\n\n{{Front}}"],
+    ],
+  },
+  cloze: {
+    name: "Brainzy Cloze",
+    type: 1,
+    fields: ["Text", "Back Extra"],
+    templates: [["{{cloze:Text}}", "{{cloze:Text}}<br>\n{{Back Extra}}"]],
+  },
+};
+
+function checksum(text: string): number {
+  return parseInt(createHash("sha1").update(text).digest("hex").slice(0, 8), 16);
+}
+
+function collectionConfig(now: number, modelIds: Record<CardType, number>, deckId: number, deck: PortableDeck, noteCount: number) {
+  const seconds = Math.floor(now / 1000);
+  const deckEntry = (id: number, name: string, desc: string) => ({
+    id, name, desc, mod: seconds, usn: -1, collapsed: false, browserCollapsed: false, dyn: 0, conf: 1,
+    newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0], extendNew: 10, extendRev: 50,
+  });
+  return {
+    conf: {
+      nextPos: noteCount + 1, estTimes: true, activeDecks: [deckId], sortType: "noteFld", timeLim: 0,
+      sortBackwards: false, addToCur: true, curDeck: deckId, newBury: true, newSpread: 0, dueCounts: true,
+      curModel: modelIds.basic, collapseTime: 1200,
+    },
+    models: Object.fromEntries(cardTypes.map((cardType) => {
+      const { name, type, fields, templates } = NOTE_TYPES[cardType];
+      const id = modelIds[cardType];
+      return [id, {
+        id, name, type, mod: seconds, usn: -1, sortf: 0, did: deckId, tags: [], vers: [],
+        flds: fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+        tmpls: templates.map(([qfmt, afmt], ord) => ({
+          name: type === 1 ? "Cloze" : `Card ${ord + 1}`, ord, qfmt, afmt, did: null, bqfmt: "", bafmt: "",
+        })),
+        css: type === 1 ? MODEL_CSS + CLOZE_CSS : MODEL_CSS,
+        latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+        latexPost: "\\end{document}",
+        req: templates.map((_, ord) => [ord, "any", [ord]]),
+      }];
+    })),
+    decks: {
+      1: deckEntry(1, "Default", ""),
+      [deckId]: deckEntry(deckId, deck.title, deck.description || ""),
+    },
+    dconf: {
+      1: {
+        id: 1, name: "Default", mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, ivlFct: 1, minSpace: 1, bury: true },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    },
+  };
+}
+
+const SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Anki card numbers count from 0: the reverse card is 1, cloze deletion n is n - 1
+function ankiOrd(card: PortableCard): number {
+  if (card.cardType === "cloze") return Math.max(0, card.ordinal - 1);
+  return card.cardType === "reversible" ? card.ordinal : 0;
+}
+
+// Sibling cards gathered into one note each, in the order their first card appears
+function groupNotes(cards: PortableCard[]): PortableCard[][] {
+  const notes = new Map<string | PortableCard, PortableCard[]>();
+  for (const card of cards) {
+    const key = card.noteKey ?? card;
+    if (!notes.has(key)) notes.set(key, []);
+    notes.get(key)!.push(card);
+  }
+  return Array.from(notes.values());
+}
+
+// A one-deck package with a note per entry of the matching note type, each card's schedule and its review log
+export async function writeApkg(deck: PortableDeck, now = Date.now()): Promise<Buffer> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run(SCHEMA);
+    const modelIds: Record<CardType, number> = { basic: now, reversible: now + 2, cloze: now + 3 };
+    const deckId = now + 1;
+    const notes = groupNotes(deck.cards);
+    const config = collectionConfig(now, modelIds, deckId, deck, notes.length);
+    const seconds = Math.floor(now / 1000);
+
+    // Review due dates count days from the collection's creation, so it starts no later than the earliest one
+    const earliest = Math.min(now, ...deck.cards.map((card) => card.schedule?.nextReview?.getTime() ?? now));
+    const createdAt = Math.floor(earliest / DAY_MS) * DAY_MS;
+
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      Math.floor(createdAt / 1000), now, now,
+      JSON.stringify(config.conf), JSON.stringify(config.models), JSON.stringify(config.decks), JSON.stringify(config.dconf),
+    ]);
+
+    const usedRevlogIds = new Set<number>();
+    let cardCount = 0;
+    notes.forEach((siblings, index) => {
+      const noteId = now + index;
+      const [{ question, answer, cardType }] = siblings;
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, '', ?, ?, ?, 0, '')", [
+        noteId, randomBytes(8).toString("base64").slice(0, 10), modelIds[cardType], seconds,
+        `${textToField(question)}${FIELD_SEPARATOR}${textToField(answer)}`,
+        question, checksum(question),
+      ]);
+
+      for (const card of siblings) {
+        const id = now + cardCount++;
+        const schedule = card.schedule;
+        const factor = (schedule?.easinessFactor ?? 250) * 10;
+        if (!schedule?.lastReviewed || !schedule.nextReview) {
+          db.run("INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')", [id, noteId, deckId, ankiOrd(card), seconds, index + 1]);
+        } else {
+          const due = Math.max(0, Math.floor((schedule.nextReview.getTime() - createdAt) / DAY_MS));
+          db.run("INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 2, 2, ?, ?, ?, ?, ?, 0, 0, 0, 0, '')", [
+            id, noteId, deckId, ankiOrd(card), seconds, due, Math.max(1, schedule.intervalDays || 1), factor, card.reviews.length, schedule.lapses ?? 0,
+          ]);
+        }
+
+        for (const review of card.reviews) {
+          // Revlog IDs are millisecond timestamps and must be unique
+          let revlogId = review.reviewedAt.getTime();
+          while (usedRevlogIds.has(revlogId)) revlogId++;
+          usedRevlogIds.add(revlogId);
+          db.run("INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)", [
+            revlogId, id, easeFromGrade(review.grade), review.intervalDays ?? 0, review.previousIntervalDays ?? 0,
+            factor, review.responseTimeMs ?? 0, review.wasNew ? 0 : 1,
+          ]);
+        }
+      }
+    });
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.export());
+    zip.file("media", "{}");
+    return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  } finally {
+    db.close();
+  }
+}
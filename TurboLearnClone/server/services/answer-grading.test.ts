@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { diffAnswer, editDistance, gradeTypedAnswer, normalizeAnswer } from "./answer-grading";
+import { llm } from "./llm";
+import type { Flashcard } from "@shared/schema";
+
+function card(answer: string, question = "Question?", cardType = "basic"): Flashcard {
+  return { cardType, question, answer, ordinal: 0 } as Flashcard;
+}
+
+async function verdictFor(answer: string, given: string) {
+  return (await gradeTypedAnswer(card(answer), given)).verdict;
+}
+
+describe("normalizeAnswer", () => {
+  it("ignores case, accents, punctuation and spacing", () => {
+    expect(normalizeAnswer("  Crème   Brûlée! ")).toBe("creme brulee");
+    expect(normalizeAnswer("km/h")).toBe("km h");
+  });
+
+  it("keeps letters and digits from any script", () => {
+    expect(normalizeAnswer("東京, 2026")).toBe("東京 2026");
+    expect(normalizeAnswer("Ελλάδα")).toBe("ελλαδα");
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("same", "same")).toBe(0);
+  });
+
+  it("counts two swapped neighbouring letters as one edit", () => {
+    expect(editDistance("recieve", "receive")).toBe(1);
+    expect(editDistance("1954", "1945")).toBe(1);
+  });
+});
+
+describe("diffAnswer", () => {
+  it("compares a single word letter by letter", () => {
+    expect(diffAnswer("mitocondria", "Mitochondria")).toEqual([
+      { text: "Mitoc", kind: "same" },
+      { text: "h", kind: "missing" },
+      { text: "ondria", kind: "same" },
+    ]);
+  });
+
+  it("compares longer answers word by word, ignoring case and punctuation", () => {
+    expect(diffAnswer("the powerhouse of a cell", "The powerhouse of the cell.")).toEqual([
+      { text: "The powerhouse of ", kind: "same" },
+      { text: "the ", kind: "missing" },
+      { text: "a ", kind: "extra" },
+      { text: "cell.", kind: "same" },
+    ]);
+  });
+
+  it("marks the whole answer missing when nothing was typed", () => {
+    expect(diffAnswer("", "Mitochondria")).toEqual([{ text: "Mitochondria", kind: "missing" }]);
+  });
+});
+
+describe("gradeTypedAnswer", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("grades a match after normalizing as correct, noting wrong accents", async () => {
+    expect(await gradeTypedAnswer(card("Crème brûlée"), "creme brulee")).toMatchObject({
+      verdict: "correct",
+      grade: "good",
+      method: "exact",
+      feedback: "Correct, but check the accents.",
+    });
+    expect(await gradeTypedAnswer(card("Mitochondria"), "MITOCHONDRIA!")).toMatchObject({ verdict: "correct", feedback: null });
+  });
+
+  it("forgives typos in proportion to the answer's length", async () => {
+    expect(await gradeTypedAnswer(card("Mitochondria"), "mitocondria")).toMatchObject({ verdict: "close", grade: "hard", method: "fuzzy" });
+    expect(await verdictFor("Photosynthesis", "fotosynthesys")).toBe("close");
+    // No slips in short words, where one letter makes another word
+    expect(await verdictFor("cat", "car")).toBe("incorrect");
+    expect(await verdictFor("Nucleus", "nucleis")).toBe("close");
+    expect(await verdictFor("Nucleus", "nuclaes")).toBe("incorrect");
+  });
+
+  it("forgives no typos in numbers", async () => {
+    expect(await verdictFor("1945", "1954")).toBe("incorrect");
+    expect(await verdictFor("It ended in 1945", "It ended in 1954")).toBe("incorrect");
+    expect(await verdictFor("It ended in 1945", "It endd in 1945")).toBe("close");
+  });
+
+  it("accepts any alternative separated by a spaced slash or a semicolon", async () => {
+    expect(await gradeTypedAnswer(card("colour / color"), "color")).toMatchObject({ verdict: "correct", expected: "color" });
+    expect(await verdictFor("car; automobile", "automobile")).toBe("correct");
+    expect(await verdictFor("car; automobile", "car; automobile")).toBe("correct");
+  });
+
+  it("keeps slashed terms, fractions and dates whole", async () => {
+    expect(await verdictFor("1/2", "1")).toBe("incorrect");
+    expect(await verdictFor("1/2", "2")).toBe("incorrect");
+    expect(await verdictFor("km/h", "h")).toBe("incorrect");
+    expect(await verdictFor("and/or", "or")).toBe("incorrect");
+    expect(await verdictFor("10/19/2026", "2026")).toBe("incorrect");
+    expect(await verdictFor("10 / 19 / 2026", "19")).toBe("incorrect");
+    expect(await verdictFor("km/h", "km/h")).toBe("correct");
+  });
+
+  it("grades a cloze card against its hidden text", async () => {
+    // Cloze cards count from c1
+    const cloze = { ...card("", "{{c1::Ribosomes}} build proteins", "cloze"), ordinal: 1 };
+
+    expect(await gradeTypedAnswer(cloze, "ribosomes")).toMatchObject({ verdict: "correct", expected: "Ribosomes" });
+  });
+
+  it("marks a blank answer incorrect", async () => {
+    expect(await gradeTypedAnswer(card("Mitochondria"), "  ")).toMatchObject({ verdict: "incorrect", grade: "again", method: "none" });
+  });
+
+  it("asks the model about a long answer only when AI grading is on", async () => {
+    const json = vi.spyOn(llm, "json").mockResolvedValue({ verdict: "partial", feedback: "Mention ATP." });
+    const long = card("Mitochondria release energy for the cell");
+
+    expect(await gradeTypedAnswer(long, "They give the cell energy")).toMatchObject({ verdict: "incorrect", method: "none" });
+    expect(json).not.toHaveBeenCalled();
+
+    expect(await gradeTypedAnswer(long, "They give the cell energy", true)).toMatchObject({
+      verdict: "close",
+      grade: "hard",
+      method: "ai",
+      feedback: "Mention ATP.",
+    });
+    // Too short to paraphrase
+    expect(await gradeTypedAnswer(card("Mitochondria"), "powerhouse", true)).toMatchObject({ method: "none" });
+    expect(json).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,148 @@
+import { cardFaces, expectedAnswer } from "@shared/flashcards";
+import { judgeTypedAnswer } from "./ai";
+import type { AnswerDiffPart, Flashcard, ReviewGrade, TypedAnswerResult } from "@shared/schema";
+
+// Answers this many words or longer are worth asking the model about when the wording does not match
+const AI_GRADING_MIN_WORDS = 4;
+
+// Any letter or digit in any script is kept. Built at runtime: the compile target predates the u flag
+const NOT_WORD_CHARACTER = new RegExp("[^\\p{L}\\p{N}\\s]", "gu");
+const NUMBER = new RegExp("\\p{N}+", "gu");
+
+function wordsOnly(text: string): string {
+  return text.toLowerCase().replace(NOT_WORD_CHARACTER, " ").replace(/\s+/g, " ").trim();
+}
+
+// Case, accents and punctuation never count against an answer
+export function normalizeAnswer(text: string): string {
+  return wordsOnly(text.normalize("NFD").replace(/[\u0300-\u036f]/g, ""));
+}
+
+// Levenshtein distance, also counting two swapped neighbouring letters as one edit
+export function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos forgiven: none in very short words, where one letter changes the word, then about one in seven
+// characters. Numbers must match exactly, since "1954" for "1945" is a wrong date rather than a slip.
+function typoAllowance(typed: string, target: string): number {
+  if ((typed.match(NUMBER) || []).join(" ") !== (target.match(NUMBER) || []).join(" ")) return 0;
+  const length = target.length;
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return Math.ceil(length * 0.15);
+}
+
+// "colour / color" or "car; automobile" accepts either. A slash only separates with spaces around it,
+// so "km/h" and "and/or" stay whole, and never inside a part with digits, like "1/2" or "10 / 19 / 2026".
+function alternativesOf(expected: string): string[] {
+  const alternatives = expected
+    .split(/\s*;\s*/)
+    .flatMap((part) => (/\d/.test(part) ? [part] : part.split(/\s+\/\s+/)))
+    .filter((alternative) => normalizeAnswer(alternative) !== "");
+  return alternatives.length > 1 ? [expected, ...alternatives] : [expected];
+}
+
+/**
+ * Where the typed answer differs from the expected one. Single words are
+ * compared letter by letter and anything longer word by word, each token
+ * keeping its trailing space so the parts read back as text. Tokens match
+ * after normalizing, so a casing or accent slip is not marked as missed.
+ */
+export function diffAnswer(given: string, expected: string): AnswerDiffPart[] {
+  const byLetter = !/\s/.test(expected.trim());
+  const tokenize = (text: string) => (byLetter ? Array.from(text.trim()) : text.trim().match(/\S+\s*/g) || []);
+  const a = tokenize(given);
+  const b = tokenize(expected);
+  const key = (token: string) => normalizeAnswer(token) || token.trim();
+
+  // Longest common subsequence table, filled from the end so the walk below runs forwards
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = key(a[i]) === key(b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: AnswerDiffPart[] = [];
+  const push = (text: string, kind: AnswerDiffPart["kind"]) => {
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && key(a[i]) === key(b[j])) {
+      push(b[j], "same");
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      push(b[j++], "missing");
+    } else {
+      push(a[i++], "extra");
+    }
+  }
+  return parts;
+}
+
+const VERDICT_GRADES: Record<TypedAnswerResult["verdict"], ReviewGrade> = {
+  correct: "good",
+  close: "hard",
+  incorrect: "again",
+};
+
+function result(verdict: TypedAnswerResult["verdict"], method: TypedAnswerResult["method"], given: string, expected: string, feedback: string | null): TypedAnswerResult {
+  return { verdict, grade: VERDICT_GRADES[verdict], method, expected, diff: diffAnswer(given, expected), feedback };
+}
+
+/**
+ * Grades a typed answer. A match after normalizing is correct ("good"); one
+ * within the typo allowance is close ("hard"); anything else is incorrect
+ * ("again"), unless `aiGrading` is on and the expected answer is long enough
+ * to be paraphrased, in which case the model decides.
+ */
+export async function gradeTypedAnswer(card: Flashcard, given: string, aiGrading = false): Promise<TypedAnswerResult> {
+  const expected = expectedAnswer(card);
+  const typed = normalizeAnswer(given);
+
+  let best = { alternative: expected, distance: Infinity, allowance: 0 };
+  for (const alternative of alternativesOf(expected)) {
+    const target = normalizeAnswer(alternative);
+    const distance = editDistance(typed, target);
+    if (distance < best.distance) best = { alternative, distance, allowance: typoAllowance(typed, target) };
+  }
+
+  if (typed && best.distance === 0) {
+    const accentsMatch = wordsOnly(given.normalize("NFC")) === wordsOnly(best.alternative.normalize("NFC"));
+    return result("correct", "exact", given, best.alternative, accentsMatch ? null : "Correct, but check the accents.");
+  }
+  if (typed && best.distance <= best.allowance) {
+    return result("close", "fuzzy", given, best.alternative, "Almost: a few letters are off.");
+  }
+
+  if (aiGrading && typed && normalizeAnswer(expected).split(" ").length >= AI_GRADING_MIN_WORDS) {
+    const judgement = await judgeTypedAnswer(cardFaces(card).front, expected, given);
+    const verdict = judgement.verdict === "partial" ? "close" : judgement.verdict;
+    return result(verdict, "ai", given, expected, judgement.feedback || null);
+  }
+
+  return result("incorrect", "none", given, expected, null);
+}
@@ -0,0 +1,151 @@
+import { EventEmitter } from "events";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { transcribeAudio } from "./ai";
+import { detectAudioFormat, MAX_TRANSCRIPTION_BYTES, splitAudio, splitMp3, splitWav, transcribeLongAudio } from "./audio";
+
+vi.mock("./ai", () => ({ transcribeAudio: vi.fn() }));
+
+// A stand-in for ffmpeg that never finishes on its own
+const ffmpeg = vi.hoisted(() => ({ spawn: vi.fn(), kill: vi.fn() }));
+vi.mock("child_process", () => ({ spawn: ffmpeg.spawn }));
+
+// 16-bit mono PCM at 8kHz; an odd-sized LIST chunk before the data checks the padding byte is skipped
+function wav(data: Buffer): Buffer {
+  const fmt = Buffer.alloc(16);
+  fmt.writeUInt16LE(1, 0);
+  fmt.writeUInt16LE(1, 2);
+  fmt.writeUInt32LE(8000, 4);
+  fmt.writeUInt32LE(16000, 8);
+  fmt.writeUInt16LE(2, 12);
+  fmt.writeUInt16LE(16, 14);
+  const chunk = (id: string, body: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, "latin1");
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+  };
+  const chunks = Buffer.concat([chunk("fmt ", fmt), chunk("LIST", Buffer.from("INFOx")), chunk("data", data)]);
+  const riff = Buffer.alloc(12);
+  riff.write("RIFF", 0, "latin1");
+  riff.writeUInt32LE(4 + chunks.length, 4);
+  riff.write("WAVE", 8, "latin1");
+  return Buffer.concat([riff, chunks]);
+}
+
+// The PCM bytes a WAV piece holds, checking its headers agree with its length
+function wavData(piece: Buffer): Buffer {
+  expect(piece.toString("latin1", 0, 4)).toBe("RIFF");
+  expect(piece.readUInt32LE(4)).toBe(piece.length - 8);
+  expect(piece.toString("latin1", 36, 40)).toBe("data");
+  expect(piece.readUInt32LE(40)).toBe(piece.length - 44);
+  return piece.subarray(44);
+}
+
+// MPEG-1 layer III frames at 128kbps and 44.1kHz, padded out to `size` bytes with `fill`
+function mp3Frame(size: number, fill: number): Buffer {
+  return Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0x64]), Buffer.alloc(size - 4, fill)]);
+}
+
+function id3Tag(bodySize: number): Buffer {
+  return Buffer.concat([Buffer.from("ID3"), Buffer.from([4, 0, 0, 0, 0, 0, bodySize]), Buffer.alloc(bodySize)]);
+}
+
+describe("splitWav", () => {
+  it("re-wraps the PCM data in pieces cut on whole sample frames", () => {
+    const data = Buffer.from(Array.from({ length: 100 }, (_, index) => index));
+
+    // 44 header bytes leave room for 31 bytes of data, rounded down to 30
+    const pieces = splitWav(wav(data), 44 + 31);
+
+    expect(pieces.map((piece) => piece.length)).toEqual([74, 74, 74, 54]);
+    expect(pieces.every((piece) => piece.length <= 75)).toBe(true);
+    expect(Buffer.concat(pieces.map(wavData))).toEqual(data);
+    expect(pieces.every((piece) => detectAudioFormat(piece)?.format === "wav")).toBe(true);
+  });
+
+  it("refuses a file with no data section", () => {
+    expect(() => splitWav(wav(Buffer.alloc(0)).subarray(0, 48), 100)).toThrow("missing its format or data section");
+  });
+});
+
+describe("splitMp3", () => {
+  it("skips the ID3 tag and cuts only where a frame starts", () => {
+    const frames = [1, 2, 3, 4, 5].map((fill) => mp3Frame(100, fill));
+
+    const pieces = splitMp3(Buffer.concat([id3Tag(20), ...frames]), 250);
+
+    expect(pieces).toEqual([Buffer.concat(frames.slice(0, 2)), Buffer.concat(frames.slice(2, 4)), frames[4]]);
+  });
+
+  it("cuts at the size limit when no frame starts within it", () => {
+    const frame = mp3Frame(300, 0);
+
+    expect(splitMp3(frame, 200).map((piece) => piece.length)).toEqual([200, 100]);
+  });
+});
+
+describe("splitAudio", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function fakeFfmpeg() {
+    const child = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+      stdin: Object.assign(new EventEmitter(), { end: vi.fn() }),
+      kill: ffmpeg.kill,
+    });
+    ffmpeg.spawn.mockReturnValue(child);
+    return child;
+  }
+
+  it("keeps audio within the limit whole", async () => {
+    const ogg = Buffer.from("OggS and the rest");
+
+    expect(await splitAudio(ogg, detectAudioFormat(ogg)!, 100)).toEqual({ info: detectAudioFormat(ogg), chunks: [ogg] });
+    expect(ffmpeg.spawn).not.toHaveBeenCalled();
+  });
+
+  it("kills ffmpeg when the job is cancelled mid-transcode", async () => {
+    fakeFfmpeg();
+    const ogg = Buffer.concat([Buffer.from("OggS"), Buffer.alloc(200)]);
+    const controller = new AbortController();
+
+    const splitting = splitAudio(ogg, detectAudioFormat(ogg)!, 100, controller.signal);
+    controller.abort(new Error("Job cancelled"));
+
+    await expect(splitting).rejects.toThrow("Job cancelled");
+    expect(ffmpeg.kill).toHaveBeenCalledWith("SIGKILL");
+  });
+
+  it("does not start ffmpeg for a job already cancelled", async () => {
+    const ogg = Buffer.concat([Buffer.from("OggS"), Buffer.alloc(200)]);
+
+    await expect(splitAudio(ogg, detectAudioFormat(ogg)!, 100, AbortSignal.abort(new Error("Job cancelled")))).rejects.toThrow("Job cancelled");
+    expect(ffmpeg.spawn).not.toHaveBeenCalled();
+  });
+});
+
+describe("transcribeLongAudio", () => {
+  it("shifts each piece's timestamps by the length of the pieces before it", async () => {
+    vi.mocked(transcribeAudio)
+      .mockResolvedValueOnce({ text: "Opening. Middle.", duration: 600, segments: [{ start: 0, end: 5, text: "Opening." }, { start: 590, end: 600, text: "Middle." }] })
+      .mockResolvedValueOnce({ text: "Closing remarks.", duration: 120, segments: [] });
+    const progress: number[] = [];
+
+    const result = await transcribeLongAudio(wav(Buffer.alloc(MAX_TRANSCRIPTION_BYTES + 1000)), "lecture.wav", {
+      onProgress: (completed) => progress.push(completed),
+    });
+
+    expect(result.segments).toEqual([
+      { start: 0, end: 5, text: "Opening." },
+      { start: 590, end: 600, text: "Middle." },
+      // A piece without segments becomes one spanning it
+      { start: 600, end: 720, text: "Closing remarks." },
+    ]);
+    expect(result).toMatchObject({ duration: 720, chunkCount: 2 });
+    expect(vi.mocked(transcribeAudio).mock.calls.map(([, options]) => options?.filename)).toEqual(["lecture-1.wav", "lecture-2.wav"]);
+    expect(progress).toEqual([0, 1, 2]);
+  });
+});
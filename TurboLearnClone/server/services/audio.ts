@@ -0,0 +1,234 @@
+import { spawn } from "child_process";
+import { transcribeAudio } from "./ai";
+import { segmentsToText, type TranscriptSegment } from "@shared/transcript";
+
+export type AudioFormat = 'mp3' | 'wav' | 'ogg' | 'webm' | 'm4a' | 'flac';
+
+export interface AudioInfo {
+  format: AudioFormat;
+  mimeType: string;
+  extension: string;
+}
+
+export interface LongTranscription {
+  content: string;
+  duration: number; // seconds
+  segments: TranscriptSegment[];
+  chunkCount: number;
+}
+
+// Thrown for audio we cannot identify or split, so routes can answer 4xx instead of 500
+export class UnsupportedAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedAudioError";
+  }
+}
+
+export interface TranscriptionOptions {
+  signal?: AbortSignal;
+  // Called before each piece is sent, and once more when all are done
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// Whisper rejects uploads over 25MB; stay a little under it
+export const MAX_TRANSCRIPTION_BYTES = 24 * 1024 * 1024;
+
+const AUDIO_INFO: Record<AudioFormat, AudioInfo> = {
+  mp3: { format: 'mp3', mimeType: "audio/mpeg", extension: "mp3" },
+  wav: { format: 'wav', mimeType: "audio/wav", extension: "wav" },
+  ogg: { format: 'ogg', mimeType: "audio/ogg", extension: "ogg" },
+  webm: { format: 'webm', mimeType: "audio/webm", extension: "webm" },
+  m4a: { format: 'm4a', mimeType: "audio/mp4", extension: "m4a" },
+  flac: { format: 'flac', mimeType: "audio/flac", extension: "flac" },
+};
+
+function startsWith(buffer: Buffer, signature: string, offset = 0): boolean {
+  return buffer.toString("latin1", offset, offset + signature.length) === signature;
+}
+
+// Identifies the container from magic bytes; the browser-supplied MIME type is often wrong or generic
+export function detectAudioFormat(buffer: Buffer): AudioInfo | null {
+  if (startsWith(buffer, "ID3") || isMp3FrameHeader(buffer, 0)) return AUDIO_INFO.mp3;
+  if (startsWith(buffer, "RIFF") && startsWith(buffer, "WAVE", 8)) return AUDIO_INFO.wav;
+  if (startsWith(buffer, "OggS")) return AUDIO_INFO.ogg;
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) return AUDIO_INFO.webm;
+  if (startsWith(buffer, "ftyp", 4)) return AUDIO_INFO.m4a;
+  if (startsWith(buffer, "fLaC")) return AUDIO_INFO.flac;
+  return null;
+}
+
+function isMp3FrameHeader(buffer: Buffer, offset: number): boolean {
+  if (offset + 4 > buffer.length) return false;
+  if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return false;
+
+  const version = (buffer[offset + 1] >> 3) & 0x03;
+  const layer = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrate = (buffer[offset + 2] >> 4) & 0x0f;
+  const sampleRate = (buffer[offset + 2] >> 2) & 0x03;
+  return version !== 0x01 && layer !== 0x00 && bitrate !== 0x0f && bitrate !== 0x00 && sampleRate !== 0x03;
+}
+
+// MP3 frames decode independently, so cutting on a frame header yields playable pieces
+export function splitMp3(buffer: Buffer, maxBytes: number): Buffer[] {
+  let start = 0;
+  if (startsWith(buffer, "ID3")) {
+    const size = ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f);
+    const hasFooter = (buffer[5] & 0x10) !== 0;
+    start = 10 + size + (hasFooter ? 10 : 0);
+  }
+
+  const chunks: Buffer[] = [];
+  while (start < buffer.length) {
+    let end = Math.min(start + maxBytes, buffer.length);
+    if (end < buffer.length) {
+      let cut = end;
+      while (cut > start && !isMp3FrameHeader(buffer, cut)) cut--;
+      if (cut > start) end = cut;
+    }
+    chunks.push(buffer.subarray(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+// Re-wraps slices of the PCM data in their own RIFF headers, cut on whole sample frames
+export function splitWav(buffer: Buffer, maxBytes: number): Buffer[] {
+  let offset = 12;
+  let fmt: Buffer | null = null;
+  let data: Buffer | null = null;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("latin1", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = buffer.subarray(offset + 8, Math.min(offset + 8 + size, buffer.length));
+    if (id === "fmt ") fmt = body;
+    if (id === "data") data = body;
+    offset += 8 + size + (size % 2);
+  }
+
+  if (!fmt || !data) {
+    throw new UnsupportedAudioError("This WAV file is missing its format or data section.");
+  }
+
+  const blockAlign = fmt.readUInt16LE(12) || 1;
+  const headerBytes = 12 + 8 + fmt.length + 8;
+  const dataPerChunk = Math.max(blockAlign, Math.floor((maxBytes - headerBytes) / blockAlign) * blockAlign);
+
+  const chunks: Buffer[] = [];
+  for (let start = 0; start < data.length; start += dataPerChunk) {
+    const slice = data.subarray(start, start + dataPerChunk);
+    const header = Buffer.alloc(headerBytes);
+    header.write("RIFF", 0, "latin1");
+    header.writeUInt32LE(headerBytes - 8 + slice.length, 4);
+    header.write("WAVE", 8, "latin1");
+    header.write("fmt ", 12, "latin1");
+    header.writeUInt32LE(fmt.length, 16);
+    fmt.copy(header, 20);
+    header.write("data", 20 + fmt.length, "latin1");
+    header.writeUInt32LE(slice.length, 24 + fmt.length);
+    chunks.push(Buffer.concat([header, slice]));
+  }
+  return chunks;
+}
+
+// Downmixes to 16kHz mono MP3, which keeps a 90-minute lecture around 20MB and makes it splittable.
+// Aborting kills ffmpeg rather than leaving it to finish a transcode nobody wants
+function transcodeToSpeechMp3(buffer: Buffer, signal?: AbortSignal): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const ffmpeg = spawn("ffmpeg", ["-hide_banner", "-loglevel", "error", "-i", "pipe:0", "-vn", "-ac", "1", "-ar", "16000", "-b:a", "32k", "-f", "mp3", "pipe:1"]);
+    const output: Buffer[] = [];
+    let stderr = "";
+    const abort = () => {
+      ffmpeg.kill("SIGKILL");
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+
+    ffmpeg.stdout.on("data", (data: Buffer) => output.push(data));
+    ffmpeg.stderr.on("data", (data: Buffer) => (stderr += data.toString()));
+    ffmpeg.on("error", (error: NodeJS.ErrnoException) => {
+      signal?.removeEventListener("abort", abort);
+      reject(error.code === "ENOENT"
+        ? new UnsupportedAudioError("Recordings this long need to be MP3 or WAV, or the server needs ffmpeg installed.")
+        : error);
+    });
+    ffmpeg.on("close", (code) => {
+      signal?.removeEventListener("abort", abort);
+      if (code === 0) resolve(Buffer.concat(output));
+      else reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+    });
+    // ffmpeg may stop reading early on bad input; that surfaces through "close" instead
+    ffmpeg.stdin.on("error", () => {});
+    ffmpeg.stdin.end(buffer);
+  });
+}
+
+export async function splitAudio(
+  buffer: Buffer,
+  info: AudioInfo,
+  maxBytes = MAX_TRANSCRIPTION_BYTES,
+  signal?: AbortSignal,
+): Promise<{ info: AudioInfo; chunks: Buffer[] }> {
+  if (buffer.length <= maxBytes) return { info, chunks: [buffer] };
+
+  switch (info.format) {
+    case 'mp3':
+      return { info, chunks: splitMp3(buffer, maxBytes) };
+    case 'wav':
+      return { info, chunks: splitWav(buffer, maxBytes) };
+    default: {
+      // Containers like WebM and M4A cannot be cut on raw bytes
+      const mp3 = await transcodeToSpeechMp3(buffer, signal);
+      return { info: AUDIO_INFO.mp3, chunks: splitMp3(mp3, maxBytes) };
+    }
+  }
+}
+
+/**
+ * Transcribes audio of any length: splits it into pieces Whisper accepts,
+ * transcribes them in order and shifts each piece's timestamps by the
+ * running duration so the stitched transcript lines up with the original.
+ */
+export async function transcribeLongAudio(
+  buffer: Buffer,
+  originalName = "audio",
+  { signal, onProgress }: TranscriptionOptions = {},
+): Promise<LongTranscription> {
+  const detected = detectAudioFormat(buffer);
+  if (!detected) {
+    throw new UnsupportedAudioError("Unsupported audio format. Please upload MP3, WAV, M4A, OGG, WebM or FLAC.");
+  }
+
+  const { info, chunks } = await splitAudio(buffer, detected, MAX_TRANSCRIPTION_BYTES, signal);
+  const baseName = originalName.replace(/\.[^.]+$/, "") || "audio";
+
+  const segments: TranscriptSegment[] = [];
+  let offset = 0;
+  for (let index = 0; index < chunks.length; index++) {
+    signal?.throwIfAborted();
+    onProgress?.(index, chunks.length);
+    const result = await transcribeAudio(chunks[index], {
+      filename: `${baseName}-${index + 1}.${info.extension}`,
+      mimeType: info.mimeType,
+      signal,
+    });
+
+    for (const segment of result.segments) {
+      segments.push({ start: segment.start + offset, end: segment.end + offset, text: segment.text });
+    }
+    if (result.segments.length === 0 && result.text.trim()) {
+      segments.push({ start: offset, end: offset + result.duration, text: result.text.trim() });
+    }
+    offset += result.duration;
+  }
+  onProgress?.(chunks.length, chunks.length);
+
+  return {
+    content: segmentsToText(segments),
+    duration: offset,
+    segments,
+    chunkCount: chunks.length,
+  };
+}
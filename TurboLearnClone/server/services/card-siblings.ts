@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { cardOrdinals, clozeNumbers } from "@shared/flashcards";
+import type { Flashcard, InsertFlashcard, NewFlashcard } from "@shared/schema";
+
+/*
+ * Reversible and cloze entries become several sibling cards (see
+ * shared/flashcards.ts). Each sibling is reviewed and scheduled on its own,
+ * but they are written, edited and deleted together so their content always
+ * matches.
+ */
+
+export type CardContentUpdates = Partial<Pick<Flashcard, "question" | "answer" | "difficulty">>;
+
+async function siblingsOf(card: Flashcard): Promise<Flashcard[]> {
+  if (!card.groupId) return [card];
+  return (await storage.getFlashcardsBySet(card.setId)).filter((sibling) => sibling.groupId === card.groupId);
+}
+
+// Every card the entry makes, added to the end of the set together
+export async function createCards(setId: string, entry: NewFlashcard, extra: Partial<InsertFlashcard> = {}): Promise<Flashcard[]> {
+  const groupId = entry.cardType === "basic" ? null : randomUUID();
+  const cards: Flashcard[] = [];
+  for (const ordinal of cardOrdinals(entry.cardType, entry.question)) {
+    cards.push(await storage.createFlashcard({
+      ...extra,
+      setId,
+      question: entry.question,
+      answer: entry.answer,
+      cardType: entry.cardType,
+      groupId,
+      ordinal,
+      position: cards[0]?.position ?? extra.position,
+    }));
+  }
+  return cards;
+}
+
+/**
+ * Applies an edit to the card and its siblings. Editing a cloze passage adds
+ * a card for each new cloze number and removes the cards whose number is
+ * gone; the others keep their schedules. Returns the edited card, or a
+ * remaining sibling if its own cloze number was removed.
+ */
+export async function updateCards(card: Flashcard, updates: CardContentUpdates): Promise<Flashcard | undefined> {
+  const siblings = await siblingsOf(card);
+  for (const sibling of siblings) {
+    await storage.updateFlashcard(sibling.id, updates);
+  }
+
+  if (card.cardType === "cloze" && updates.question !== undefined) {
+    const numbers = clozeNumbers(updates.question);
+    for (const sibling of siblings.filter((sibling) => !numbers.includes(sibling.ordinal))) {
+      await storage.deleteFlashcard(sibling.id);
+    }
+    const existing = new Set(siblings.map((sibling) => sibling.ordinal));
+    for (const ordinal of numbers.filter((number) => !existing.has(number))) {
+      await storage.createFlashcard({
+        setId: card.setId,
+        question: updates.question,
+        answer: updates.answer ?? card.answer,
+        difficulty: updates.difficulty ?? card.difficulty,
+        cardType: card.cardType,
+        groupId: card.groupId,
+        ordinal,
+        position: card.position,
+      });
+    }
+  }
+
+  return await storage.getFlashcard(card.id) ?? (await siblingsOf(card))[0];
+}
+
+export async function deleteCards(card: Flashcard): Promise<void> {
+  for (const sibling of await siblingsOf(card)) {
+    await storage.deleteFlashcard(sibling.id);
+  }
+}
@@ -0,0 +1,59 @@
+export interface TextChunk {
+  content: string;
+  // Character positions into the source text; `content` is exactly text.slice(startOffset, endOffset)
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+// Preferred break points, best first: paragraph, line, sentence, word
+const BREAK_PATTERNS = [/\n\s*\n/g, /\n/g, /[.!?]["')\]]?\s+/g, /\s+/g];
+
+// Last break inside text[from, to) that leaves the chunk at least half full
+function findBreak(text: string, from: number, to: number): number {
+  const minEnd = from + Math.floor((to - from) / 2);
+  const window = text.slice(from, to);
+  for (const pattern of BREAK_PATTERNS) {
+    let best = -1;
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(window)) !== null) {
+      const end = from + match.index + match[0].length;
+      if (end >= minEnd && end < to) best = end;
+    }
+    if (best !== -1) return best;
+  }
+  return to;
+}
+
+/**
+ * Splits text into overlapping chunks of at most `maxChars`, cutting at the
+ * most natural boundary available so passages read cleanly when cited.
+ */
+export function chunkText(text: string, { maxChars = 1500, overlapChars = 200 }: ChunkOptions = {}): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    // Skip leading whitespace so offsets point at real content
+    while (start < text.length && /\s/.test(text[start])) start++;
+    if (start >= text.length) break;
+
+    const limit = start + maxChars;
+    const end = limit >= text.length ? text.length : findBreak(text, start, limit);
+    const content = text.slice(start, end).trimEnd();
+    chunks.push({ content, startOffset: start, endOffset: start + content.length });
+    if (end >= text.length) break;
+
+    // Step back for overlap, but always move forward and start on a word boundary
+    let next = Math.max(end - overlapChars, start + 1);
+    while (next < end && !/\s/.test(text[next - 1])) next++;
+    start = next;
+  }
+
+  return chunks;
+}
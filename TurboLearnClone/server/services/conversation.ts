@@ -0,0 +1,194 @@
+import { storage } from "../storage";
+import { checkOwnership } from "../ownership";
+import { fromZodError } from "zod-validation-error";
+import { chatScopeSchema, insertChatMessageSchema, insertChatThreadSchema } from "@shared/schema";
+import type { ChatMessage, ChatScope, ChatThread, Citation, Document, Note } from "@shared/schema";
+import type { ChatTurn } from "./ai";
+import type { ChatSources } from "./retrieval";
+
+// A chat request that names something missing, foreign or contradictory
+export class ChatScopeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ChatScopeError";
+  }
+}
+
+// A scope from a request body; a malformed one is the client's mistake, not the server's
+export function parseChatScope(value: unknown): ChatScope {
+  const result = chatScopeSchema.safeParse(value);
+  if (!result.success) {
+    throw new ChatScopeError(fromZodError(result.error, { prefix: "Invalid chat scope" }).message);
+  }
+  return result.data;
+}
+
+export const DEFAULT_THREAD_TITLE = "New chat";
+const THREAD_TITLE_LENGTH = 60;
+
+// How much of the thread's past is replayed to the model, in rough tokens
+const HISTORY_TOKEN_BUDGET = parseInt(process.env.CHAT_HISTORY_TOKENS || "2000", 10);
+
+// About four characters per token for English text; close enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * The most recent turns that fit in `budget`, oldest first. A turn is kept
+ * whole or not at all, and once one does not fit nothing older is added, so
+ * the model never sees a gap in the conversation.
+ */
+export function selectHistory(messages: ChatMessage[], budget = HISTORY_TOKEN_BUDGET): ChatTurn[] {
+  const turns: ChatTurn[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(messages[i].message) + estimateTokens(messages[i].response);
+    if (used + cost > budget) break;
+    used += cost;
+    turns.unshift({ message: messages[i].message, response: messages[i].response });
+  }
+  return turns;
+}
+
+// Follow-ups like "explain the second point more" say little on their own, so the previous question joins the search
+export function retrievalQuery(question: string, history: ChatTurn[]): string {
+  const previous = history[history.length - 1];
+  return previous ? `${previous.message}\n${question}` : question;
+}
+
+// A thread is either about one document or covers a scope
+export async function createThread(
+  userId: string,
+  target: { document: Document } | { scope: ChatScope },
+  title = DEFAULT_THREAD_TITLE,
+): Promise<ChatThread> {
+  return await storage.createChatThread(insertChatThreadSchema.parse({
+    userId,
+    ...("document" in target ? { documentId: target.document.id } : { scope: target.scope }),
+    title,
+  }));
+}
+
+export function threadScope(thread: ChatThread): ChatScope {
+  return (thread.scope as ChatScope | null) || { documentIds: thread.documentId ? [thread.documentId] : [], noteIds: [] };
+}
+
+function matchesSubjectOrTag(note: Note, { subject, tag }: ChatScope): boolean {
+  const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  return (!!subject && !!note.subject && same(note.subject, subject)) ||
+    (!!tag && (note.tags || []).some((noteTag) => same(noteTag, tag)));
+}
+
+/**
+ * Loads everything a scope covers. A subject or tag brings in the matching
+ * notes and the documents they were written from. With `strict`, an ID that
+ * is missing or belongs to someone else is an error; a saved thread instead
+ * just skips sources deleted since it was created.
+ */
+export async function resolveSources(userId: string, scope: ChatScope, { strict = true } = {}): Promise<ChatSources> {
+  const documents = new Map<string, Document>();
+  const notes = new Map<string, Note>();
+
+  for (const id of scope.documentIds) {
+    const result = await checkOwnership("document", id, userId);
+    if (result.status === "ok") documents.set(id, result.resource);
+    else if (strict) throw new ChatScopeError("Document not found", 404);
+  }
+  for (const id of scope.noteIds) {
+    const result = await checkOwnership("note", id, userId);
+    if (result.status === "ok") notes.set(id, result.resource);
+    else if (strict) throw new ChatScopeError("Note not found", 404);
+  }
+
+  if (scope.subject || scope.tag) {
+    for (const note of await storage.getNotesByUser(userId)) {
+      if (!matchesSubjectOrTag(note, scope)) continue;
+      notes.set(note.id, note);
+      if (note.documentId && !documents.has(note.documentId)) {
+        const document = await storage.getDocument(note.documentId);
+        if (document && document.userId === userId) documents.set(document.id, document);
+      }
+    }
+  }
+
+  if (strict && documents.size === 0 && notes.size === 0) {
+    throw new ChatScopeError("Nothing to chat about: pick at least one document, note, subject or tag");
+  }
+  return { documents: Array.from(documents.values()), notes: Array.from(notes.values()) };
+}
+
+/**
+ * Threads for a document. Messages sent before threads existed are gathered
+ * into one thread the first time the document's threads are listed.
+ */
+export async function listThreads(userId: string, document: Document): Promise<ChatThread[]> {
+  const threads = await storage.getChatThreadsByDocument(document.id);
+  if (threads.length > 0) return threads;
+
+  const unthreaded = (await storage.getChatMessagesByDocument(document.id)).filter((msg) => !msg.threadId);
+  if (unthreaded.length === 0) return [];
+
+  const thread = await createThread(userId, { document }, titleFrom(unthreaded[0].message));
+  await storage.assignUnthreadedChatMessages(document.id, thread.id);
+  return [thread];
+}
+
+/**
+ * Works out which thread a chat message belongs to and what it may draw on.
+ * An explicit thread wins (and must match the document, if one is named too);
+ * a document alone continues its latest conversation; a scope alone starts a
+ * new thread over that scope.
+ */
+export async function resolveChatTarget(
+  userId: string,
+  { document, thread, scope }: { document?: Document; thread?: ChatThread; scope?: ChatScope },
+): Promise<{ thread: ChatThread; sources: ChatSources }> {
+  if (thread) {
+    if (document && thread.documentId !== document.id) {
+      throw new ChatScopeError("Chat thread belongs to a different document");
+    }
+    return { thread, sources: await resolveSources(userId, threadScope(thread), { strict: false }) };
+  }
+
+  if (document) {
+    const [latest] = await listThreads(userId, document);
+    return {
+      thread: latest || await createThread(userId, { document }),
+      sources: { documents: [document], notes: [] },
+    };
+  }
+
+  if (scope) {
+    const sources = await resolveSources(userId, scope);
+    return { thread: await createThread(userId, { scope }), sources };
+  }
+
+  throw new ChatScopeError("A document, chat thread or scope is required");
+}
+
+export async function loadHistory(thread: ChatThread): Promise<ChatTurn[]> {
+  return selectHistory(await storage.getChatMessagesByThread(thread.id));
+}
+
+function titleFrom(message: string): string {
+  const text = message.replace(/\s+/g, " ").trim();
+  return text.length > THREAD_TITLE_LENGTH ? text.slice(0, THREAD_TITLE_LENGTH).replace(/\s+\S*$/, "") + "…" : text;
+}
+
+// Saves the exchange and bumps the thread; an untitled thread is named after its first question
+export async function saveTurn(
+  thread: ChatThread,
+  { userId, message, response, citations }: { userId: string; message: string; response: string; citations: Citation[] },
+): Promise<ChatMessage> {
+  const chatMessage = await storage.createChatMessage(insertChatMessageSchema.parse({
+    userId,
+    documentId: thread.documentId || null,
+    threadId: thread.id,
+    message,
+    response,
+    citations,
+  }));
+  await storage.updateChatThread(thread.id, thread.title === DEFAULT_THREAD_TITLE ? { title: titleFrom(message) } : {});
+  return chatMessage;
+}
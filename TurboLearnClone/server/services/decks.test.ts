@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import initSqlJs from "sql.js";
+import JSZip from "jszip";
+import { storage } from "../storage";
+import { createCards } from "./card-siblings";
+import { exportSet, importDecks } from "./decks";
+import { DeckImportError } from "./portable-deck";
+import { recordReview } from "./reviews";
+import type { Flashcard, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createUser(username: string): Promise<User> {
+  return await storage.createUser({ username, email: `${username}@example.com`, password: "hash" });
+}
+
+// A set with one card of each type, some of them studied
+async function createStudiedSet(user: User) {
+  const set = await storage.createFlashcardSet({ userId: user.id, title: "Cell biology" });
+  const [basic] = await createCards(set.id, { question: "What powers the cell?", answer: "Mitochondria", cardType: "basic" });
+  const [forward] = await createCards(set.id, { question: "Nucleus", answer: "Holds the DNA", cardType: "reversible" });
+  await createCards(set.id, { question: "{{c1::Ribosomes}} build {{c2::proteins}}", answer: "Found in every cell", cardType: "cloze" });
+
+  const studiedAt = new Date("2026-03-02T09:30:00Z");
+  const reviewed = await recordReview(user, basic, "good", 4000, studiedAt);
+  await recordReview(user, reviewed!, "easy", 2500, new Date(studiedAt.getTime() + 3 * DAY_MS));
+  await recordReview(user, forward, "hard", undefined, new Date(studiedAt.getTime() + DAY_MS));
+  return set;
+}
+
+function contentOf(cards: Flashcard[]) {
+  return cards.map(({ question, answer, cardType, ordinal }) => ({ question, answer, cardType, ordinal }));
+}
+
+function scheduleOf(card: Flashcard) {
+  return { reviewed: card.lastReviewed?.toISOString() ?? null, intervalDays: card.intervalDays, lapses: card.lapses };
+}
+
+describe("deck export and import", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("round-trips an Anki package with reverse and cloze cards as siblings of the matching note types", async () => {
+    const owner = await createUser("theodor");
+    const set = await createStudiedSet(owner);
+    const original = await storage.getFlashcardsBySet(set.id);
+
+    const exported = await exportSet(set, "apkg");
+    const reader = await createUser("matthias");
+    const [imported] = await importDecks(reader.id, exported.body as Buffer, exported.filename);
+    const cards = await storage.getFlashcardsBySet(imported.id);
+
+    expect(imported.title).toBe("Cell biology");
+    expect(contentOf(cards)).toEqual(contentOf(original));
+    const groups = cards.map((card) => card.groupId);
+    expect(groups[0]).toBeNull();
+    expect(groups[1]).toBe(groups[2]);
+    expect(groups[3]).toBe(groups[4]);
+    expect(new Set(groups.slice(1)).size).toBe(2);
+
+    expect(cards.map(scheduleOf)).toEqual(original.map(scheduleOf));
+    // Anki keeps due dates to the day
+    expect(cards.map((card) => card.nextReview?.toISOString().slice(0, 10) ?? null))
+      .toEqual(original.map((card) => card.nextReview?.toISOString().slice(0, 10) ?? null));
+    const logs = await storage.getReviewLogsByUser(reader.id);
+    expect(logs.map((log) => [log.grade, log.wasNew]).sort()).toEqual([["easy", false], ["good", true], ["hard", true]]);
+  });
+
+  it.each(["csv", "tsv"] as const)("round-trips a %s file with each card's faces and schedule", async (format) => {
+    const owner = await createUser(`${format}-owner`);
+    const set = await createStudiedSet(owner);
+    const original = await storage.getFlashcardsBySet(set.id);
+
+    const exported = await exportSet(set, format);
+    const reader = await createUser(`${format}-reader`);
+    const [imported] = await importDecks(reader.id, Buffer.from(exported.body as string), exported.filename);
+    const cards = await storage.getFlashcardsBySet(imported.id);
+
+    expect(cards.map(({ question, answer }) => [question, answer])).toEqual([
+      ["What powers the cell?", "Mitochondria"],
+      ["Nucleus", "Holds the DNA"],
+      ["Holds the DNA", "Nucleus"],
+      ["[...] build proteins", "Ribosomes build proteins\n\nFound in every cell"],
+      ["Ribosomes build [...]", "Ribosomes build proteins\n\nFound in every cell"],
+    ]);
+    expect(cards.every((card) => card.cardType === "basic")).toBe(true);
+    expect(cards.map(scheduleOf)).toEqual(original.map(scheduleOf));
+    expect(cards.map((card) => card.nextReview?.toISOString() ?? null)).toEqual(original.map((card) => card.nextReview?.toISOString() ?? null));
+  });
+
+  it("refuses a file with a card it cannot store before creating anything", async () => {
+    const reader = await createUser("ottilie");
+    const createSet = vi.spyOn(storage, "createFlashcardSet");
+    const csv = `question,answer\nWhat powers the cell?,Mitochondria\n${"Why? ".repeat(500)},Because\n`;
+
+    const importing = importDecks(reader.id, Buffer.from(csv), "cells.csv");
+
+    await expect(importing).rejects.toThrow(DeckImportError);
+    await expect(importing).rejects.toThrow('Card 2 of "cells" has an invalid question');
+    expect(createSet).not.toHaveBeenCalled();
+  });
+
+  it("leaves nothing behind when a write fails partway through a package of several decks", async () => {
+    const owner = await createUser("konrad");
+    const set = await createStudiedSet(owner);
+    // Moves the cloze note's cards into a deck of their own, which is read first
+    const zip = await JSZip.loadAsync((await exportSet(set, "apkg")).body as Buffer);
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await zip.file("collection.anki2")!.async("uint8array"));
+    db.run("UPDATE cards SET did = 1 WHERE nid = (SELECT MAX(id) FROM notes)");
+    zip.file("collection.anki2", db.export());
+    db.close();
+    const twoDecks = await zip.generateAsync({ type: "nodebuffer" });
+    const reader = await createUser("helene");
+    const createFlashcard = storage.createFlashcard.bind(storage);
+    // The second deck's second card
+    vi.spyOn(storage, "createFlashcard")
+      .mockImplementationOnce(createFlashcard)
+      .mockImplementationOnce(createFlashcard)
+      .mockImplementationOnce(createFlashcard)
+      .mockRejectedValueOnce(new Error("connection reset"))
+      .mockImplementation(createFlashcard);
+
+    await expect(importDecks(reader.id, twoDecks, "cells.apkg")).rejects.toThrow("connection reset");
+
+    expect(await storage.getFlashcardSetsByUser(reader.id)).toEqual([]);
+    expect(await storage.getFlashcardsByUser(reader.id)).toEqual([]);
+    expect(await storage.getReviewLogsByUser(reader.id)).toEqual([]);
+  });
+
+  it("rejects a package whose note types cannot be read", async () => {
+    const owner = await createUser("gregor");
+    const set = await createStudiedSet(owner);
+    const zip = await JSZip.loadAsync((await exportSet(set, "apkg")).body as Buffer);
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await zip.file("collection.anki2")!.async("uint8array"));
+    db.run("UPDATE col SET models = '{\"1\": {'");
+    zip.file("collection.anki2", db.export());
+    db.close();
+    const damaged = await zip.generateAsync({ type: "nodebuffer" });
+
+    const importing = importDecks(owner.id, damaged, "damaged.apkg");
+
+    await expect(importing).rejects.toThrow(DeckImportError);
+    await expect(importing).rejects.toThrow("its note types or decks could not be read");
+  });
+});
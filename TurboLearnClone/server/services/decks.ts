@@ -0,0 +1,125 @@
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { readApkg, writeApkg } from "./anki";
+import { readDelimited, writeDelimited } from "./delimited";
+import { DeckImportError, type PortableDeck } from "./portable-deck";
+import { newFlashcardSchema, type CardType, type FlashcardSet, type ReviewGrade } from "@shared/schema";
+
+export const deckExportFormats = ['apkg', 'csv', 'tsv'] as const;
+export type DeckExportFormat = typeof deckExportFormats[number];
+
+const EXPORT_CONTENT_TYPES: Record<DeckExportFormat, string> = {
+  apkg: "application/octet-stream",
+  csv: "text/csv; charset=utf-8",
+  tsv: "text/tab-separated-values; charset=utf-8",
+};
+
+function isZip(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer[0] === 0x50 && buffer[1] === 0x4b;
+}
+
+// Refuses the whole file over one card Brainzy could not store, before anything is written
+function checkCards(deck: PortableDeck) {
+  deck.cards.forEach((card, index) => {
+    const parsed = newFlashcardSchema.safeParse({ question: card.question, answer: card.answer, cardType: card.cardType });
+    if (!parsed.success) {
+      const [issue] = parsed.error.issues;
+      throw new DeckImportError(`Card ${index + 1} of "${deck.title}" has an invalid ${issue.path.join(".")}: ${issue.message}`);
+    }
+  });
+}
+
+/**
+ * Creates one set per deck in an Anki package (.apkg) or CSV/TSV file. Cards
+ * keep their schedule, and Anki review history becomes review log entries so
+ * streaks and retention carry over. The import is all or nothing: if a write
+ * fails, the sets already created are deleted along with their cards and reviews.
+ */
+export async function importDecks(userId: string, buffer: Buffer, filename: string): Promise<FlashcardSet[]> {
+  const isAnki = isZip(buffer) || filename.toLowerCase().endsWith(".apkg");
+  const decks = isAnki ? await readApkg(buffer) : [readDelimited(buffer.toString("utf-8"), filename)];
+  if (decks.length === 0) throw new DeckImportError("No cards were found in this deck.");
+
+  decks.forEach(checkCards);
+
+  const created: FlashcardSet[] = [];
+  try {
+    const sets: FlashcardSet[] = [];
+    for (const deck of decks) {
+      sets.push(await importDeck(userId, deck, created));
+    }
+    return sets;
+  } catch (error) {
+    for (const set of created) {
+      await storage.deleteReviewLogsBySet(set.id);
+      await storage.deleteFlashcardSet(set.id);
+    }
+    throw error;
+  }
+}
+
+// Adds the set to `created` as soon as it exists, so a failure partway through still removes it
+async function importDeck(userId: string, deck: PortableDeck, created: FlashcardSet[]): Promise<FlashcardSet> {
+  const set = await storage.createFlashcardSet({ userId, title: deck.title.slice(0, 200), description: deck.description });
+  created.push(set);
+  // Siblings from one note share a group and sit together in the set
+  const notes = new Map<string, { groupId: string; position: number }>();
+  for (const card of deck.cards) {
+    const note = card.noteKey ? notes.get(card.noteKey) : undefined;
+    const flashcard = await storage.createFlashcard({
+      setId: set.id,
+      question: card.question,
+      answer: card.answer,
+      cardType: card.cardType,
+      ordinal: card.ordinal,
+      groupId: card.noteKey ? note?.groupId ?? randomUUID() : null,
+      position: note?.position,
+      ...card.schedule,
+    });
+    if (card.noteKey && !note) notes.set(card.noteKey, { groupId: flashcard.groupId!, position: flashcard.position });
+    for (const review of card.reviews) {
+      await storage.createReviewLog({ userId, cardId: flashcard.id, setId: set.id, ...review });
+    }
+  }
+  return await storage.getFlashcardSet(set.id) ?? set;
+}
+
+async function toPortableDeck(set: FlashcardSet): Promise<PortableDeck> {
+  const cards = await storage.getFlashcardsBySet(set.id);
+  const cardIds = new Set(cards.map((card) => card.id));
+  const reviewsByCard = new Map<string, PortableDeck["cards"][number]["reviews"]>();
+  for (const log of await storage.getReviewLogsByUser(set.userId)) {
+    if (!cardIds.has(log.cardId)) continue;
+    if (!reviewsByCard.has(log.cardId)) reviewsByCard.set(log.cardId, []);
+    reviewsByCard.get(log.cardId)!.push({
+      reviewedAt: log.reviewedAt!,
+      grade: log.grade as ReviewGrade,
+      wasNew: log.wasNew,
+      responseTimeMs: log.responseTimeMs,
+      intervalDays: log.intervalDays,
+      previousIntervalDays: log.previousIntervalDays,
+    });
+  }
+
+  return {
+    title: set.title,
+    description: set.description,
+    cards: cards.map((card) => ({
+      question: card.question,
+      answer: card.answer,
+      cardType: card.cardType as CardType,
+      ordinal: card.ordinal,
+      noteKey: card.groupId,
+      schedule: card.lastReviewed ? card : null,
+      reviews: (reviewsByCard.get(card.id) || []).sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime()),
+    })),
+  };
+}
+
+export async function exportSet(set: FlashcardSet, format: DeckExportFormat) {
+  const deck = await toPortableDeck(set);
+  const body = format === "apkg" ? await writeApkg(deck) : writeDelimited(deck, format === "tsv" ? "\t" : ",");
+  // Keep the name header-safe; the title is only a convenience for the saved file
+  const name = set.title.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-") || "flashcards";
+  return { body, contentType: EXPORT_CONTENT_TYPES[format], filename: `${name}.${format}` };
+}
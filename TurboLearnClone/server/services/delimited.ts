@@ -0,0 +1,143 @@
+import { cardFaces } from "@shared/flashcards";
+import { DeckImportError, type PortableCard, type PortableDeck } from "./portable-deck";
+
+/*
+ * CSV and TSV decks: one card per row, question then answer. An optional
+ * header row names the columns, which lets exports carry each card's schedule
+ * back in. Quoting follows RFC 4180 for both delimiters, as spreadsheets and
+ * Anki's text importer expect. The files have no note types, so reverse and
+ * cloze cards go out as the plain front and back they show when studied.
+ */
+
+const QUESTION_COLUMNS = ["question", "front", "term", "prompt"];
+const ANSWER_COLUMNS = ["answer", "back", "definition"];
+const SCHEDULE_COLUMNS = ["last_reviewed", "next_review", "interval_days", "easiness_factor", "repetitions", "lapses"] as const;
+
+function parseRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+function detectDelimiter(text: string, filename: string): string {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "tsv") return "\t";
+  if (extension === "csv") return ",";
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  if (firstLine.includes("\t")) return "\t";
+  return firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseCount(value: string | undefined): number | undefined {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number >= 0 ? Math.round(number) : undefined;
+}
+
+export function readDelimited(text: string, filename: string): PortableDeck {
+  // Excel prepends a byte order mark to UTF-8 exports
+  const rows = parseRows(text.replace(/^\uFEFF/, ""), detectDelimiter(text, filename));
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase().replace(/\s+/g, "_")) || [];
+  const questionColumn = header.findIndex((name) => QUESTION_COLUMNS.includes(name));
+  const answerColumn = header.findIndex((name) => ANSWER_COLUMNS.includes(name));
+  const hasHeader = questionColumn !== -1 && answerColumn !== -1;
+  const column = (name: string) => (hasHeader ? header.indexOf(name) : -1);
+
+  const cards: PortableCard[] = [];
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const question = row[hasHeader ? questionColumn : 0]?.trim();
+    const answer = row[hasHeader ? answerColumn : 1]?.trim();
+    if (!question || !answer) continue;
+
+    const [lastReviewed, nextReview, intervalDays, easinessFactor, repetitions, lapses] =
+      SCHEDULE_COLUMNS.map((name) => row[column(name)]?.trim());
+    const reviewedAt = parseDate(lastReviewed);
+    const dueAt = parseDate(nextReview);
+    cards.push({
+      question,
+      answer,
+      cardType: "basic",
+      ordinal: 0,
+      noteKey: null,
+      schedule: reviewedAt && dueAt
+        ? {
+            firstReviewed: reviewedAt,
+            lastReviewed: reviewedAt,
+            nextReview: dueAt,
+            intervalDays: parseCount(intervalDays),
+            easinessFactor: parseCount(easinessFactor),
+            repetitions: parseCount(repetitions),
+            lapses: parseCount(lapses),
+          }
+        : null,
+      reviews: [],
+    });
+  }
+
+  if (cards.length === 0) {
+    throw new DeckImportError("No cards were found. Each row needs a question and an answer, separated by a comma or a tab.");
+  }
+  return { title: filename.replace(/\.[^.]+$/, "") || "Imported cards", description: null, cards };
+}
+
+function quote(value: string, delimiter: string): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function writeDelimited(deck: PortableDeck, delimiter: "," | "\t"): string {
+  const rows = deck.cards.map((card) => {
+    const schedule = card.schedule;
+    const { front, back } = cardFaces(card);
+    return [
+      front,
+      back,
+      schedule?.lastReviewed?.toISOString() ?? "",
+      schedule?.nextReview?.toISOString() ?? "",
+      schedule?.lastReviewed ? String(schedule.intervalDays ?? 0) : "",
+      schedule?.lastReviewed ? String(schedule.easinessFactor ?? 250) : "",
+      schedule?.lastReviewed ? String(schedule.repetitions ?? 0) : "",
+      schedule?.lastReviewed ? String(schedule.lapses ?? 0) : "",
+    ];
+  });
+  return [["question", "answer", ...SCHEDULE_COLUMNS], ...rows]
+    .map((cells) => cells.map((cell) => quote(cell, delimiter)).join(delimiter))
+    .join("\r\n") + "\r\n";
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { detectDocumentType } from "./extraction";
+
+describe("detectDocumentType", () => {
+  it("recognises a PDF by its header", () => {
+    expect(detectDocumentType(Buffer.from("%PDF-1.7\n%âãÏÓ\n1 0 obj"))).toBe("pdf");
+  });
+
+  it("allows a byte order mark and a little whitespace before the header", () => {
+    expect(detectDocumentType(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("\r\n  %PDF-1.4")]))).toBe("pdf");
+  });
+
+  it("reads a text file that mentions %PDF- as text", () => {
+    expect(detectDocumentType(Buffer.from("Notes on file formats: every PDF starts with %PDF- and a version."))).toBe("txt");
+    expect(detectDocumentType(Buffer.from(`${" ".repeat(40)}%PDF-1.4`))).toBe("txt");
+  });
+
+  it("tells DOCX, legacy Word and binary files apart", () => {
+    expect(detectDocumentType(Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from("word/document.xml")]))).toBe("docx");
+    expect(detectDocumentType(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00]))).toBe("ole");
+    expect(detectDocumentType(Buffer.from([0x00, 0xff, 0x10]))).toBe("unknown");
+  });
+});
@@ -0,0 +1,246 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import mammoth from "mammoth";
+import { detectSubtitleFormat, parseSubtitles, type SubtitleFormat } from "./subtitles";
+import { segmentsToText, type TranscriptSegment } from "@shared/transcript";
+
+export type ExtractedDocumentType = 'pdf' | 'docx' | 'txt' | 'transcript';
+
+export interface PageBoundary {
+  page: number;
+  start: number;
+  end: number;
+}
+
+export interface SectionBoundary {
+  title: string;
+  level: number;
+  start: number;
+  end: number;
+}
+
+export interface ExtractedDocument {
+  type: ExtractedDocumentType;
+  mimeType: string;
+  content: string;
+  // Offsets are character positions into `content`
+  pages?: PageBoundary[];
+  sections?: SectionBoundary[];
+  // Only for subtitle files (SRT, VTT, SBV)
+  subtitleFormat?: SubtitleFormat;
+  segments?: TranscriptSegment[];
+}
+
+// Thrown for uploads we recognise but refuse, so routes can answer 4xx instead of 500
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedDocumentError";
+  }
+}
+
+const PDF_MAGIC = Buffer.from("%PDF-");
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+// OLE compound file: legacy .doc, and also what Word writes for password-protected .docx
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+// Leading whitespace tolerated before "%PDF-"; any further in, and it is a text file that mentions it
+const PDF_HEADER_SLACK = 16;
+
+function isAsciiWhitespace(byte: number): boolean {
+  return byte === 0x20 || (byte >= 0x09 && byte <= 0x0d);
+}
+
+// The header opens the file, after at most a byte order mark and a little whitespace
+function hasPdfHeader(buffer: Buffer): boolean {
+  let offset = buffer.subarray(0, UTF8_BOM.length).equals(UTF8_BOM) ? UTF8_BOM.length : 0;
+  const limit = offset + PDF_HEADER_SLACK;
+  while (offset < limit && offset < buffer.length && isAsciiWhitespace(buffer[offset])) offset++;
+  return buffer.subarray(offset, offset + PDF_MAGIC.length).equals(PDF_MAGIC);
+}
+
+export function detectDocumentType(buffer: Buffer): Exclude<ExtractedDocumentType, 'transcript'> | 'ole' | 'unknown' {
+  if (hasPdfHeader(buffer)) return 'pdf';
+  if (buffer.subarray(0, 4).equals(ZIP_MAGIC)) {
+    return buffer.includes(Buffer.from("word/document.xml")) ? 'docx' : 'unknown';
+  }
+  if (buffer.subarray(0, 8).equals(OLE_MAGIC)) return 'ole';
+  return isLikelyText(buffer) ? 'txt' : 'unknown';
+}
+
+function isLikelyText(buffer: Buffer): boolean {
+  if (buffer.includes(0)) return false;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function extractDocument(buffer: Buffer): Promise<ExtractedDocument> {
+  const detected = detectDocumentType(buffer);
+
+  switch (detected) {
+    case 'pdf':
+      return await extractPdf(buffer);
+    case 'docx':
+      return await extractDocx(buffer);
+    case 'txt':
+      return extractText(buffer);
+    case 'ole':
+      throw new UnsupportedDocumentError("Password-protected or legacy .doc files are not supported. Remove the password or save the file as .docx and try again.");
+    default:
+      throw new UnsupportedDocumentError("Unsupported file type. Please upload a PDF, DOCX or plain text file.");
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\f\v\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Joins pieces with blank lines and records where each one landed
+function joinWithOffsets<T>(parts: { text: string; meta: T }[]): { content: string; ranges: (T & { start: number; end: number })[] } {
+  let content = "";
+  const ranges: (T & { start: number; end: number })[] = [];
+
+  for (const part of parts) {
+    if (!part.text) continue;
+    if (content) content += "\n\n";
+    const start = content.length;
+    content += part.text;
+    ranges.push({ ...part.meta, start, end: content.length });
+  }
+
+  return { content, ranges };
+}
+
+async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  let pdf;
+  try {
+    pdf = await getDocument({
+      // pdf.js takes ownership of the array it is given, so hand it a copy
+      data: new Uint8Array(buffer),
+      isEvalSupported: false,
+      disableFontFace: true,
+      verbosity: 0,
+    }).promise;
+  } catch (error) {
+    if ((error as Error).name === "PasswordException") {
+      throw new UnsupportedDocumentError("This PDF is password-protected. Remove the password and upload it again.");
+    }
+    throw new UnsupportedDocumentError("This PDF could not be read. It may be damaged.");
+  }
+
+  try {
+    const pages: { text: string; meta: { page: number } }[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+
+      let text = "";
+      for (const item of textContent.items) {
+        if (!("str" in item)) continue;
+        text += item.str;
+        if (item.hasEOL) text += "\n";
+      }
+      pages.push({ text: normalizeWhitespace(text), meta: { page: pageNumber } });
+      page.cleanup();
+    }
+
+    const { content, ranges } = joinWithOffsets(pages);
+    if (!content) {
+      throw new UnsupportedDocumentError("No text was found in this PDF. Scanned documents need to be run through OCR first.");
+    }
+
+    return { type: 'pdf', mimeType: "application/pdf", content, pages: ranges };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'", nbsp: " " };
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => HTML_ENTITIES[entity]);
+}
+
+async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  let html: string;
+  try {
+    ({ value: html } = await mammoth.convertToHtml({ buffer }));
+  } catch (error) {
+    throw new UnsupportedDocumentError("This DOCX file could not be read. It may be damaged.");
+  }
+
+  // mammoth emits flat, predictable HTML: headings, paragraphs, list items and table cells
+  const blocks = Array.from(html.matchAll(/<(h[1-6]|p|li|td|th)\b[^>]*>([\s\S]*?)<\/\1>/g));
+
+  const sections: { title: string; level: number; blocks: string[] }[] = [{ title: "", level: 0, blocks: [] }];
+  for (const [, tag, inner] of blocks) {
+    const text = normalizeWhitespace(htmlToText(inner));
+    if (!text) continue;
+
+    if (tag.startsWith("h")) {
+      sections.push({ title: text, level: Number(tag[1]), blocks: [text] });
+    } else {
+      sections[sections.length - 1].blocks.push(tag === "li" ? `• ${text}` : text);
+    }
+  }
+
+  const { content, ranges } = joinWithOffsets(
+    sections.map((section) => ({
+      text: section.blocks.join("\n"),
+      meta: { title: section.title, level: section.level },
+    })),
+  );
+  if (!content) {
+    throw new UnsupportedDocumentError("No text was found in this DOCX file.");
+  }
+
+  return {
+    type: 'docx',
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    content,
+    sections: ranges,
+  };
+}
+
+const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  sbv: "text/x-sbv",
+};
+
+function extractText(buffer: Buffer): ExtractedDocument {
+  const raw = buffer.toString("utf-8").replace(/^\uFEFF/, "");
+
+  const subtitleFormat = detectSubtitleFormat(raw);
+  if (subtitleFormat) {
+    const segments = parseSubtitles(raw, subtitleFormat);
+    if (segments.length === 0) {
+      throw new UnsupportedDocumentError("This subtitle file has no cues.");
+    }
+    return {
+      type: 'transcript',
+      mimeType: SUBTITLE_MIME_TYPES[subtitleFormat],
+      content: segmentsToText(segments),
+      subtitleFormat,
+      segments,
+    };
+  }
+
+  const content = normalizeWhitespace(raw);
+  if (!content) {
+    throw new UnsupportedDocumentError("This file is empty.");
+  }
+  return { type: 'txt', mimeType: "text/plain", content };
+}
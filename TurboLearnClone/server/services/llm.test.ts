@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { createLLMProvider, OpenAIProvider } from "./llm";
+import { MockProvider } from "./mock-llm";
+
+describe("createLLMProvider", () => {
+  it("uses OpenAI when an API key is set", () => {
+    expect(createLLMProvider({ OPENAI_API_KEY: "sk-test" })).toBeInstanceOf(OpenAIProvider);
+  });
+
+  it("refuses to start with no provider configured instead of falling back to the mock", () => {
+    expect(() => createLLMProvider({})).toThrow("No LLM provider configured");
+    expect(() => createLLMProvider({ NODE_ENV: "production" })).toThrow("No LLM provider configured");
+  });
+
+  it("gives the mock only when asked for by name, and never in production", () => {
+    expect(createLLMProvider({ LLM_PROVIDER: "mock" })).toBeInstanceOf(MockProvider);
+    expect(createLLMProvider({ LLM_PROVIDER: "mock", NODE_ENV: "development" })).toBeInstanceOf(MockProvider);
+    expect(() => createLLMProvider({ LLM_PROVIDER: "mock", NODE_ENV: "production" })).toThrow("cannot be used in production");
+  });
+
+  it("rejects an unknown or incomplete choice", () => {
+    expect(() => createLLMProvider({ LLM_PROVIDER: "openai" })).toThrow("requires OPENAI_API_KEY");
+    expect(() => createLLMProvider({ LLM_PROVIDER: "gemini" })).toThrow('Unknown LLM_PROVIDER "gemini"');
+  });
+});
@@ -0,0 +1,197 @@
+import OpenAI from "openai";
+import type { TranscriptSegment } from "@shared/transcript";
+import { MockProvider } from "./mock-llm";
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  signal?: AbortSignal;
+  // Names the kind of request ('notes', 'flashcards', 'quiz', 'chat'); the mock provider picks fixtures by it
+  task?: string;
+}
+
+export interface TranscriptionOptions {
+  filename?: string;
+  mimeType?: string;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  duration: number; // seconds
+  segments: TranscriptSegment[];
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Vectors from different models are not comparable, so stored embeddings record which model made them
+  readonly embeddingModel: string;
+  chat(messages: LLMMessage[], options?: CompletionOptions): Promise<string>;
+  // Yields the reply piece by piece as the model produces it; aborting the signal stops generation upstream
+  chatStream(messages: LLMMessage[], options?: CompletionOptions): AsyncIterable<string>;
+  // Asks for a JSON object back and returns it parsed
+  json<T = unknown>(messages: LLMMessage[], options?: CompletionOptions): Promise<T>;
+  transcribe(audio: Buffer, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+  embed(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+}
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  baseURL?: string;
+  chatModel: string;
+  transcriptionModel: string;
+  embeddingModel: string;
+  // Whisper-compatible endpoint, when it differs from the chat endpoint
+  transcriptionBaseURL?: string;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+  protected transcriptionClient: OpenAI | null;
+  readonly embeddingModel: string;
+
+  constructor(protected config: OpenAIProviderConfig) {
+    this.embeddingModel = config.embeddingModel;
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+    this.transcriptionClient = config.transcriptionBaseURL
+      ? new OpenAI({ apiKey: config.apiKey, baseURL: config.transcriptionBaseURL })
+      : this.client;
+  }
+
+  async chat(messages: LLMMessage[], { signal }: CompletionOptions = {}): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.config.chatModel,
+      messages,
+    }, { signal });
+    return response.choices[0].message.content || "";
+  }
+
+  async *chatStream(messages: LLMMessage[], { signal }: CompletionOptions = {}): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.config.chatModel,
+      messages,
+      stream: true,
+    }, { signal });
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  async json<T = unknown>(messages: LLMMessage[], { signal }: CompletionOptions = {}): Promise<T> {
+    const response = await this.client.chat.completions.create({
+      model: this.config.chatModel,
+      messages,
+      response_format: { type: "json_object" },
+    }, { signal });
+    return parseJsonResponse(response.choices[0].message.content || "{}");
+  }
+
+  async transcribe(audio: Buffer, { filename = "audio.mp3", mimeType = "audio/mpeg", signal }: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    if (!this.transcriptionClient) {
+      throw new Error(`The ${this.name} provider has no transcription endpoint configured`);
+    }
+
+    // Whisper infers the codec from the file name, so it has to match the actual format
+    const audioFile = new File([audio], filename, { type: mimeType });
+    const transcription = await this.transcriptionClient.audio.transcriptions.create({
+      file: audioFile,
+      model: this.config.transcriptionModel,
+      response_format: "verbose_json",
+    }, { signal });
+
+    return {
+      text: transcription.text,
+      duration: transcription.duration,
+      segments: (transcription.segments || []).map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+      })),
+    };
+  }
+
+  async embed(texts: string[], { signal }: { signal?: AbortSignal } = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.client.embeddings.create({
+      model: this.config.embeddingModel,
+      input: texts,
+    }, { signal });
+    return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat API: Ollama (`/v1`), llama.cpp's
+ * `llama-server`, vLLM and the like. Transcription only works when a
+ * Whisper-compatible endpoint is configured separately.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name = "local";
+
+  constructor(config: OpenAIProviderConfig) {
+    super(config);
+    if (!config.transcriptionBaseURL) this.transcriptionClient = null;
+  }
+}
+
+// Local models often wrap JSON in a Markdown code fence even in JSON mode
+export function parseJsonResponse<T = unknown>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(body);
+  } catch {
+    const start = body.indexOf("{");
+    const end = body.lastIndexOf("}");
+    if (start !== -1 && end > start) return JSON.parse(body.slice(start, end + 1));
+    throw new Error("The model did not return valid JSON");
+  }
+}
+
+// LLM_PROVIDER picks the backend; without it OpenAI is used when an API key is
+// configured. The mock has to be asked for by name and is refused in production,
+// so a missing key fails at startup instead of quietly serving canned answers.
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const apiKey = env.OPENAI_API_KEY || env.OPENAI_KEY;
+  const provider = env.LLM_PROVIDER || (apiKey ? "openai" : undefined);
+  if (!provider) {
+    throw new Error('No LLM provider configured: set OPENAI_API_KEY, or LLM_PROVIDER to "local", or to "mock" to run offline');
+  }
+
+  switch (provider) {
+    case "openai":
+      if (!apiKey) {
+        throw new Error("LLM_PROVIDER=openai requires OPENAI_API_KEY");
+      }
+      return new OpenAIProvider({
+        apiKey,
+        chatModel: env.OPENAI_MODEL || "gpt-4o",
+        transcriptionModel: env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1",
+        embeddingModel: env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small",
+      });
+    case "local":
+      return new OpenAICompatibleProvider({
+        // Local servers ignore the key, but the client refuses to start without one
+        apiKey: env.LOCAL_LLM_API_KEY || "local",
+        baseURL: env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+        chatModel: env.LOCAL_LLM_MODEL || "llama3.1",
+        transcriptionModel: env.LOCAL_TRANSCRIPTION_MODEL || "whisper-1",
+        embeddingModel: env.LOCAL_EMBEDDING_MODEL || "nomic-embed-text",
+        transcriptionBaseURL: env.LOCAL_TRANSCRIPTION_BASE_URL,
+      });
+    case "mock":
+      if (env.NODE_ENV === "production") {
+        throw new Error("LLM_PROVIDER=mock is for development and tests and cannot be used in production");
+      }
+      return new MockProvider(env.LLM_FIXTURES);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}", expected "openai", "local" or "mock"`);
+  }
+}
+
+export const llm = createLLMProvider();
@@ -0,0 +1,364 @@
+import { readFileSync } from "fs";
+import type { LLMProvider, LLMMessage, CompletionOptions, TranscriptionOptions, TranscriptionResult } from "./llm";
+
+/**
+ * A canned response. `task` narrows it to one kind of request and `match` to
+ * requests whose messages (or, for transcription, file name) contain the
+ * text, case-insensitively. The first fixture that fits wins.
+ */
+export interface LLMFixture {
+  task?: string;
+  match?: string;
+  response: unknown;
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "had", "her", "was", "one", "our", "out",
+  "has", "have", "this", "that", "with", "from", "they", "will", "would", "there", "their", "what", "about", "which",
+  "when", "make", "like", "into", "than", "then", "them", "these", "some", "could", "other", "more", "also", "its",
+  "been", "were", "each", "such", "only", "does", "how", "why", "who", "where", "create", "content", "question",
+]);
+
+function sentencesOf(text: string): string[] {
+  return text
+    .replace(/\[\d+:\d{2}(?::\d{2})?\]/g, " ")
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.replace(/\s+/g, " ").trim())
+    .filter((sentence) => sentence.split(" ").length >= 4);
+}
+
+function wordsOf(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z'-]{2,}/g) || []).filter((word) => !STOP_WORDS.has(word));
+}
+
+// Most frequent words first; ties keep first-seen order so output is stable
+function keywordsOf(text: string, limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const word of wordsOf(text)) counts.set(word, (counts.get(word) || 0) + 1);
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+// 32-bit FNV-1a, enough to spread words over the embedding dimensions
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+const MOCK_STREAM_DELAY_MS = 30;
+
+function countFrom(text: string, pattern: RegExp, fallback: number): number {
+  const match = text.match(pattern);
+  return match ? Number(match[1]) : fallback;
+}
+
+/**
+ * Offline provider for development and tests. Fixtures loaded from
+ * LLM_FIXTURES take precedence; otherwise answers are derived from the
+ * prompt itself (its sentences and most frequent words), so the same input
+ * always produces the same output.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly embeddingModel = `mock-hashed-bow-${MOCK_EMBEDDING_DIMENSIONS}`;
+  private fixtures: LLMFixture[];
+
+  constructor(fixtures: LLMFixture[] | string = []) {
+    this.fixtures = typeof fixtures === "string" ? JSON.parse(readFileSync(fixtures, "utf8")) : fixtures;
+  }
+
+  async chat(messages: LLMMessage[], { signal, task = "chat" }: CompletionOptions = {}): Promise<string> {
+    signal?.throwIfAborted();
+    const fixture = this.findFixture(task, messages.map((message) => message.content).join("\n"));
+    if (fixture) return typeof fixture.response === "string" ? fixture.response : JSON.stringify(fixture.response);
+
+    const prompt = lastUserMessage(messages);
+    const question = prompt.split("\n").filter(Boolean).pop() || prompt;
+    // Follow-ups ("explain that more") lean on the previous question, as a real model would
+    const earlier = messages.filter((message) => message.role === "user").slice(-2, -1).map((message) => message.content);
+    const questionWords = new Set([...wordsOf(question), ...earlier.flatMap(wordsOf)]);
+
+    let best = "";
+    let bestScore = 0;
+    let passage: string | null = null;
+    let bestPassage: string | null = null;
+    for (const line of prompt.split("\n")) {
+      // Retrieved passages arrive as "[n] text"; remember which one a sentence came from
+      const label = line.match(/^\[(\d+)\]/);
+      if (label) passage = label[1];
+      for (const sentence of sentencesOf(line.replace(/^\[\d+\]\s*/, ""))) {
+        if (sentence === question) continue;
+        const score = wordsOf(sentence).filter((word) => questionWords.has(word)).length;
+        if (score > bestScore) {
+          best = sentence;
+          bestScore = score;
+          bestPassage = passage;
+        }
+      }
+    }
+
+    if (!best) return "I couldn't find anything about that in the material.";
+    return `Based on the material: ${best}${bestPassage ? ` [${bestPassage}]` : ""}`;
+  }
+
+  // Word by word with a short pause, so clients can be exercised against a realistic stream
+  async *chatStream(messages: LLMMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    const reply = await this.chat(messages, options);
+    const pieces = reply.match(/\S+\s*/g) || [];
+    for (const piece of pieces) {
+      await new Promise((resolve) => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+      options.signal?.throwIfAborted();
+      yield piece;
+    }
+  }
+
+  async json<T = unknown>(messages: LLMMessage[], { signal, task = "json" }: CompletionOptions = {}): Promise<T> {
+    signal?.throwIfAborted();
+    const all = messages.map((message) => message.content).join("\n");
+    const fixture = this.findFixture(task, all);
+    if (fixture) return fixture.response as T;
+
+    // Generation prompts put their instructions before a blank line and the material after it
+    const prompt = lastUserMessage(messages);
+    const source = prompt.includes("\n\n") ? prompt.slice(prompt.indexOf("\n\n") + 2) : prompt;
+    const sentences = sentencesOf(source);
+    const keywords = keywordsOf(source, 12);
+
+    switch (task) {
+      case "notes": {
+        const points = sentences.slice(0, 8);
+        const content = `## Key points\n\n${points.map((point) => `- ${point}`).join("\n")}`;
+        return {
+          title: (sentences[0] || "Study notes").split(" ").slice(0, 8).join(" "),
+          content,
+          subject: "General",
+          wordCount: content.split(/\s+/).length,
+          tags: keywords.slice(0, 3),
+        } as T;
+      }
+      case "flashcards": {
+        const count = Math.min(countFrom(all, /(\d+)\s+flashcards/i, 5), sentences.length);
+        const difficulties = ["easy", "medium", "hard"] as const;
+        return {
+          flashcards: sentences.slice(0, count).map((sentence, index) => {
+            const keyword = keywordsOf(sentence, 1)[0];
+            const term = keyword && new RegExp(`\\b${keyword}\\b`, "i");
+            // Every third card hides its keyword as a cloze deletion
+            if (index % 3 === 2 && term && term.test(sentence)) {
+              return { type: "cloze", question: sentence.replace(term, (match) => `{{c1::${match}}}`), answer: "", difficulty: difficulties[index % difficulties.length] };
+            }
+            return {
+              type: "basic",
+              question: `What does the material say about ${keyword || "this topic"}?`,
+              answer: sentence,
+              difficulty: difficulties[index % difficulties.length],
+            };
+          }),
+        } as T;
+      }
+      case "quiz": {
+        const count = Math.min(countFrom(all, /(\d+)-question/i, 5), sentences.length);
+        // The types the prompt describes a format for, taken in turn
+        const requested = Array.from(new Set(Array.from(all.matchAll(/'type': '([a-z-]+)'/g), (match) => match[1])));
+        const types = requested.length > 0 ? requested : ["multiple-choice"];
+        const questions = [];
+        for (let index = 0; index < count; index++) {
+          const sentence = sentences[index];
+          const answer = keywordsOf(sentence, 1)[0] || keywords[0] || "none";
+          const term = new RegExp(`\\b${answer}\\b`, "i");
+          const distractors = keywords.filter((word) => word !== answer).slice(index, index + 3);
+          while (distractors.length < 3) distractors.push(`option ${distractors.length + 1}`);
+          const number = sentence.match(/\b\d+(?:\.\d+)?\b/)?.[0];
+          const following = sentences.slice(index, index + 3);
+
+          const type = types[index % types.length];
+          if (type === "true-false") {
+            // Every other statement has its key word swapped out, making it false
+            const isTrue = index % 2 === 0;
+            questions.push({
+              type,
+              question: isTrue ? sentence : sentence.replace(term, distractors[0]),
+              correctAnswer: isTrue,
+              explanation: sentence,
+            });
+          } else if (type === "multi-select") {
+            const second = keywordsOf(sentence, 2)[1];
+            const options = second ? [answer, distractors[0], second, distractors[1]] : [answer, distractors[0], distractors[1]];
+            questions.push({
+              type,
+              question: `Which of these words appear in: "${sentence}"?`,
+              options,
+              correctAnswers: second ? [0, 2] : [0],
+              explanation: sentence,
+            });
+          } else if (type === "fill-blank" && term.test(sentence)) {
+            questions.push({
+              type,
+              question: sentence.replace(term, "___"),
+              acceptedAnswers: [sentence.match(term)![0]],
+              explanation: sentence,
+            });
+          } else if (type === "numeric" && number) {
+            questions.push({
+              type,
+              question: `What number completes: "${sentence.replace(number, "___")}"?`,
+              correctAnswer: Number(number),
+              tolerance: 0,
+              explanation: sentence,
+            });
+          } else if (type === "matching" && following.length >= 2) {
+            questions.push({
+              type,
+              question: "Match each key word to the statement it comes from.",
+              pairs: following.map((line, offset) => ({
+                left: keywordsOf(line, 1)[0] || `statement ${offset + 1}`,
+                right: line,
+              })),
+              explanation: following.join(" "),
+            });
+          } else if (type === "short-answer") {
+            questions.push({
+              type,
+              question: `In a sentence or two, what does the material say about ${answer}?`,
+              modelAnswer: sentence,
+              rubric: [
+                { criterion: `Names ${answer}`, points: 1 },
+                { criterion: `Explains that ${sentence.replace(/[.!?]$/, "")}`, points: 2 },
+              ],
+              explanation: sentence,
+            });
+          } else if (type === "essay" && following.length >= 2) {
+            questions.push({
+              type,
+              question: `Explain how these ideas fit together: ${following.map((line) => keywordsOf(line, 1)[0] || "this").join(", ")}.`,
+              modelAnswer: following.join(" "),
+              rubric: following.map((line) => ({ criterion: `Covers that ${line.replace(/[.!?]$/, "")}`, points: 2 })),
+              explanation: following.join(" "),
+            });
+          } else if (type === "ordering" && following.length >= 2) {
+            questions.push({
+              type,
+              question: "Put these statements in the order the material gives them.",
+              items: following,
+              explanation: following.join(" "),
+            });
+          } else {
+            // Rotate the correct option's position so it is not always first
+            const correctAnswer = index % 4;
+            const options = [...distractors];
+            options.splice(correctAnswer, 0, answer);
+            questions.push({
+              type: "multiple-choice",
+              question: `Fill in the blank: "${sentence.replace(term, "_____")}"`,
+              options,
+              correctAnswer,
+              explanation: sentence,
+            });
+          }
+        }
+        return {
+          title: `Quiz: ${keywords.slice(0, 3).join(", ") || "Practice"}`,
+          description: "Quiz generated from uploaded content",
+          questions,
+        } as T;
+      }
+      case "answer-grading": {
+        // Judged on how many of the expected answer's words the student used
+        const expected = prompt.match(/^Expected answer: (.*)$/m)?.[1] || "";
+        const given = new Set(wordsOf(prompt.match(/^Student answer: (.*)$/m)?.[1] || ""));
+        const wanted = Array.from(new Set(wordsOf(expected)));
+        const missing = wanted.filter((word) => !given.has(word));
+        const covered = wanted.length > 0 ? 1 - missing.length / wanted.length : 0;
+        return {
+          verdict: covered >= 0.7 ? "correct" : covered >= 0.4 ? "partial" : "incorrect",
+          feedback: missing.length > 0 ? `Your answer leaves out: ${missing.slice(0, 5).join(", ")}.` : "Your answer covers everything.",
+        } as T;
+      }
+      case "rubric-grading":
+      case "rubric-appeal": {
+        // Each criterion earns its share of points for the share of its words the answer uses;
+        // the second examiner rounds up where the first rounded to the nearest point
+        const rubric = Array.from(prompt.matchAll(/^\d+\. \((\d+) points\) (.*)$/gm), (match) => ({ points: Number(match[1]), criterion: match[2] }));
+        const answerText = prompt.split("Student answer:\n")[1]?.split("\n\nFirst grade:")[0] || "";
+        const reasonText = prompt.match(/^Student's reason for appealing: (.*)$/m)?.[1] || "";
+        const given = new Set(wordsOf(task === "rubric-appeal" ? `${answerText} ${reasonText}` : answerText));
+        const passages = Array.from(prompt.matchAll(/^\[(\d+)\] (.*)$/gm), (match) => ({ n: match[1], words: new Set(wordsOf(match[2])) }));
+        const round = task === "rubric-appeal" ? Math.ceil : Math.round;
+        const missed: string[] = [];
+        const criteria = rubric.map(({ points, criterion }) => {
+          const wanted = Array.from(new Set(wordsOf(criterion)));
+          const missing = wanted.filter((word) => !given.has(word));
+          missed.push(...missing);
+          const covered = wanted.length > 0 ? 1 - missing.length / wanted.length : 0;
+          return { points: round(points * covered), comment: missing.length > 0 ? `Missing: ${missing.slice(0, 4).join(", ")}.` : "Fully covered." };
+        });
+        // Cite the passage that shares the most of what was missed
+        const source = passages
+          .map((passage) => ({ n: passage.n, overlap: missed.filter((word) => passage.words.has(word)).length }))
+          .sort((a, b) => b.overlap - a.overlap)[0];
+        const citation = source && source.overlap > 0 ? ` [${source.n}]` : "";
+        const prefix = task === "rubric-appeal" ? "On review: " : "";
+        return {
+          criteria,
+          feedback: missed.length > 0
+            ? `${prefix}Your answer leaves out ${Array.from(new Set(missed)).slice(0, 5).join(", ")}${citation}.`
+            : `${prefix}Your answer meets every criterion.`,
+        } as T;
+      }
+      default:
+        return {} as T;
+    }
+  }
+
+  async transcribe(audio: Buffer, { filename = "audio", signal }: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    signal?.throwIfAborted();
+    const fixture = this.findFixture("transcription", filename);
+    if (fixture) return fixture.response as TranscriptionResult;
+
+    // Pretend the audio is 128kbps so longer files produce longer transcripts
+    const duration = Math.max(1, Math.round(audio.length / 16000));
+    const segments = [];
+    for (let start = 0; start < duration; start += 10) {
+      const end = Math.min(start + 10, duration);
+      segments.push({ start, end, text: `Mock transcript of ${filename}, ${start} to ${end} seconds.` });
+    }
+
+    return {
+      text: segments.map((segment) => segment.text).join(" "),
+      duration,
+      segments,
+    };
+  }
+
+  // Hashed bag of words: texts sharing vocabulary land close together, which is all retrieval tests need
+  async embed(texts: string[], { signal }: { signal?: AbortSignal } = {}): Promise<number[][]> {
+    signal?.throwIfAborted();
+    return texts.map((text) => {
+      const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of wordsOf(text)) {
+        const hash = hashWord(word);
+        vector[hash % MOCK_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map((value) => value / norm);
+    });
+  }
+
+  private findFixture(task: string, haystack: string): LLMFixture | undefined {
+    const lower = haystack.toLowerCase();
+    return this.fixtures.find((fixture) =>
+      (!fixture.task || fixture.task === task) &&
+      (!fixture.match || lower.includes(fixture.match.toLowerCase())));
+  }
+}
+
+function lastUserMessage(messages: LLMMessage[]): string {
+  return [...messages].reverse().find((message) => message.role === "user")?.content || "";
+}
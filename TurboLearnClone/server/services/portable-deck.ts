@@ -0,0 +1,53 @@
+import type { CardType, ReviewGrade } from "@shared/schema";
+import type { SchedulingState } from "./scheduler";
+
+// A deck on its way into or out of another app's file format
+
+export interface PortableReview {
+  reviewedAt: Date;
+  grade: ReviewGrade;
+  wasNew: boolean;
+  responseTimeMs: number | null;
+  intervalDays: number | null;
+  previousIntervalDays: number | null;
+}
+
+export interface PortableCard {
+  // Reversible and cloze cards keep their entry's own question and answer, as Brainzy stores them
+  question: string;
+  answer: string;
+  cardType: CardType;
+  ordinal: number;
+  // Shared by the sibling cards one reversible or cloze entry makes
+  noteKey: string | null;
+  // Null for a card that has never been studied
+  schedule: Partial<SchedulingState> | null;
+  // Oldest first
+  reviews: PortableReview[];
+}
+
+export interface PortableDeck {
+  title: string;
+  description: string | null;
+  cards: PortableCard[];
+}
+
+// A deck file that cannot be read, or holds nothing to import
+export class DeckImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeckImportError";
+  }
+}
+
+// Anki records answers as button numbers 1-4, the same four grades Brainzy uses
+const GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export function gradeFromEase(ease: number): ReviewGrade {
+  return GRADES[Math.min(Math.max(ease, 1), 4) - 1];
+}
+
+export function easeFromGrade(grade: string): number {
+  const index = GRADES.indexOf(grade as ReviewGrade);
+  return index === -1 ? 3 : index + 1;
+}
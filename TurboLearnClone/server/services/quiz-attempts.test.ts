@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { appealAnswer, buildAttemptTrend, QuizAppealError, QuizAttemptClosedError, startAttempt, submitAttempt, SUBMISSION_GRACE_MS, UnreadableQuizError } from "./quiz-attempts";
+import { generatedQuizQuestions, quizQuestions } from "@shared/quiz";
+import type { QuizAttempt, QuizQuestionResult } from "@shared/schema";
+
+const QUESTIONS = [
+  { type: "multiple-choice", question: "Where is DNA kept?", options: ["Nucleus", "Ribosome"], correctAnswer: 0, explanation: "" },
+  { type: "true-false", question: "Plant cells have walls.", correctAnswer: true, explanation: "" },
+];
+
+// Its correct answer is not one of its options
+const BROKEN = { type: "multiple-choice", question: "What divides?", options: ["Cells", "Atoms"], correctAnswer: 5, explanation: "" };
+
+async function createQuiz(userId: string, questions: unknown[] = QUESTIONS, timeLimit?: number) {
+  return await storage.createQuiz({ userId, title: "Cells", questions, timeLimit });
+}
+
+describe("quizQuestions", () => {
+  it("reads a stored quiz whole or not at all, so answers keep lining up with questions", () => {
+    expect(quizQuestions(QUESTIONS)).toHaveLength(2);
+    expect(quizQuestions([BROKEN, ...QUESTIONS])).toEqual([]);
+  });
+
+  it("drops only the unusable questions a model wrote", () => {
+    expect(generatedQuizQuestions([BROKEN, ...QUESTIONS]).map((question) => question.question)).toEqual(["Where is DNA kept?", "Plant cells have walls."]);
+  });
+});
+
+describe("startAttempt", () => {
+  it("refuses a quiz with a question it cannot read", async () => {
+    const quiz = await createQuiz("reader", [BROKEN, ...QUESTIONS]);
+
+    await expect(startAttempt("reader", quiz)).rejects.toThrow(UnreadableQuizError);
+  });
+});
+
+describe("submitAttempt", () => {
+  it("grades only one of two submissions racing each other", async () => {
+    const quiz = await createQuiz("racer");
+    const attempt = await startAttempt("racer", quiz);
+
+    // Both requests loaded the attempt before either was saved
+    const outcomes = await Promise.allSettled([
+      submitAttempt(attempt, quiz, { answers: [0, true] }),
+      submitAttempt(attempt, quiz, { answers: [1, false] }),
+    ]);
+
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(["fulfilled", "rejected"]);
+    expect((outcomes[1] as PromiseRejectedResult).reason).toBeInstanceOf(QuizAttemptClosedError);
+    expect(await storage.getQuizAttempt(attempt.id)).toMatchObject({ answers: [0, true], score: 100, correctCount: 2 });
+  });
+
+  it("refuses an attempt that was already submitted", async () => {
+    const quiz = await createQuiz("repeater");
+    const attempt = await startAttempt("repeater", quiz);
+    await submitAttempt(attempt, quiz, { answers: [0, true] });
+
+    await expect(submitAttempt(attempt, quiz, { answers: [1, false] })).rejects.toThrow("already been submitted");
+    expect(await storage.getQuizAttempt(attempt.id)).toMatchObject({ answers: [0, true], score: 100 });
+  });
+
+  describe("deadlines", () => {
+    const startedAt = new Date("2026-04-01T10:00:00Z");
+    // A one-minute time limit
+    const deadline = new Date(startedAt.getTime() + 60 * 1000);
+    const after = (ms: number) => new Date(deadline.getTime() + ms);
+
+    async function startTimed(userId: string) {
+      const quiz = await createQuiz(userId, QUESTIONS, 1);
+      return { quiz, attempt: await startAttempt(userId, quiz, startedAt) };
+    }
+
+    it("counts the time spent up to a submission before the deadline", async () => {
+      const { quiz, attempt } = await startTimed("prompt");
+
+      const submitted = await submitAttempt(attempt, quiz, { answers: [0, true] }, after(-25 * 1000));
+
+      expect(attempt.deadline).toEqual(deadline);
+      expect(submitted).toMatchObject({ score: 100, timeSpent: 35 });
+    });
+
+    it("accepts a submission within the grace window, counting time only up to the deadline", async () => {
+      const { quiz, attempt } = await startTimed("latecomer");
+
+      const submitted = await submitAttempt(attempt, quiz, { answers: [0, false] }, after(SUBMISSION_GRACE_MS));
+
+      expect(submitted).toMatchObject({ score: 50, timeSpent: 60, completedAt: after(SUBMISSION_GRACE_MS) });
+    });
+
+    it("refuses a submission after the grace window and leaves the attempt unsubmitted", async () => {
+      const { quiz, attempt } = await startTimed("straggler");
+
+      await expect(submitAttempt(attempt, quiz, { answers: [0, true] }, after(SUBMISSION_GRACE_MS + 1))).rejects.toThrow(QuizAttemptClosedError);
+      await expect(submitAttempt(attempt, quiz, { answers: [0, true] }, after(SUBMISSION_GRACE_MS + 1))).rejects.toThrow("Time is up");
+      expect(await storage.getQuizAttempt(attempt.id)).toMatchObject({ completedAt: null, answers: [] });
+    });
+
+    it("takes a submission any time later for a quiz without a time limit", async () => {
+      const quiz = await createQuiz("unhurried");
+      const attempt = await startAttempt("unhurried", quiz, startedAt);
+
+      const submitted = await submitAttempt(attempt, quiz, { answers: [0, true] }, new Date(startedAt.getTime() + 3 * 60 * 60 * 1000));
+
+      expect(attempt.deadline).toBeNull();
+      expect(submitted).toMatchObject({ score: 100, timeSpent: 3 * 60 * 60 });
+    });
+  });
+});
+
+describe("appealAnswer", () => {
+  const openQuestion = (question: string) => ({
+    type: "short-answer",
+    question,
+    modelAnswer: "Mitochondria release energy as ATP.",
+    rubric: [{ criterion: "Covers that mitochondria release energy as ATP", points: 2 }],
+    explanation: "",
+  });
+
+  async function submitOpenAnswers(userId: string) {
+    const quiz = await createQuiz(userId, [openQuestion("What do mitochondria do?"), openQuestion("Why do cells need mitochondria?")]);
+    const attempt = await submitAttempt(await startAttempt(userId, quiz), quiz, { answers: ["Mitochondria", "Mitochondria"] });
+    return { quiz, attempt };
+  }
+
+  it("keeps both of two appeals of different questions made at once", async () => {
+    const { quiz, attempt } = await submitOpenAnswers("appellant");
+
+    await Promise.all([
+      appealAnswer(attempt, quiz, 0, "They release energy as ATP"),
+      appealAnswer(attempt, quiz, 1, "They release energy as ATP"),
+    ]);
+
+    const stored = await storage.getQuizAttempt(attempt.id);
+    const results = stored!.results as QuizQuestionResult[];
+    expect(results.map((result) => result.appeal?.outcome)).toEqual(["raised", "raised"]);
+    expect(stored!.score).toBe(Math.round((results[0].points + results[1].points) / 4 * 100));
+    expect(stored!.score).toBeGreaterThan(attempt.score);
+  });
+
+  it("grants only one of two appeals of the same question made at once", async () => {
+    const { quiz, attempt } = await submitOpenAnswers("persistent");
+
+    const outcomes = await Promise.allSettled([
+      appealAnswer(attempt, quiz, 0, "They release energy as ATP"),
+      appealAnswer(attempt, quiz, 0, "They release energy"),
+    ]);
+
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(["fulfilled", "rejected"]);
+    expect((outcomes[1] as PromiseRejectedResult).reason).toBeInstanceOf(QuizAppealError);
+    const results = (await storage.getQuizAttempt(attempt.id))!.results as QuizQuestionResult[];
+    expect(results[0].appeal?.reason).toBe("They release energy as ATP");
+  });
+});
+
+describe("buildAttemptTrend", () => {
+  // A submitted attempt with the given score, and which questions it got right if graded
+  function attempt(score: number, correct: boolean[] | null = null, timeSpent: number | null = null): QuizAttempt {
+    const results = correct?.map((right): QuizQuestionResult => ({ answer: null, correct: right, points: right ? 1 : 0, maxPoints: 1 }));
+    return { score, timeSpent, results: results ?? null } as QuizAttempt;
+  }
+  const trendOf = (scores: number[]) => buildAttemptTrend(scores.map((score) => attempt(score)), 0);
+
+  it("has nothing to report before the first attempt", () => {
+    expect(buildAttemptTrend([], 2)).toEqual({
+      attemptCount: 0,
+      bestScore: null,
+      averageScore: null,
+      latestScore: null,
+      change: null,
+      slope: null,
+      direction: null,
+      averageTimeSpent: null,
+      questionAccuracy: [null, null],
+    });
+  });
+
+  it("needs a second attempt for a change or direction", () => {
+    expect(trendOf([70])).toMatchObject({ attemptCount: 1, bestScore: 70, averageScore: 70, latestScore: 70, change: null, slope: null, direction: null });
+  });
+
+  it("fits the slope of rising and falling scores", () => {
+    expect(trendOf([40, 50, 60, 70])).toMatchObject({ bestScore: 70, averageScore: 55, change: 10, slope: 10, direction: "improving" });
+    expect(trendOf([90, 80, 85, 70])).toMatchObject({ bestScore: 90, averageScore: 81, change: -15, slope: -5.5, direction: "declining" });
+  });
+
+  it("calls small slopes steady and rounds them to a tenth", () => {
+    expect(trendOf([50, 51, 53])).toMatchObject({ slope: 1.5, direction: "steady" });
+    expect(trendOf([60, 62, 64])).toMatchObject({ slope: 2, direction: "improving" });
+    expect(trendOf([64, 62, 60])).toMatchObject({ slope: -2, direction: "declining" });
+    expect(trendOf([80, 80])).toMatchObject({ change: 0, slope: 0, direction: "steady" });
+  });
+
+  it("follows only the five most recent attempts for the direction", () => {
+    expect(trendOf([100, 0, 50, 50, 50, 50, 50])).toMatchObject({ attemptCount: 7, bestScore: 100, averageScore: 50, slope: 0, direction: "steady" });
+  });
+
+  it("averages time spent over the attempts that recorded it", () => {
+    const attempts = [attempt(50, null, 30), attempt(60), attempt(70, null, 45)];
+
+    expect(buildAttemptTrend(attempts, 0).averageTimeSpent).toBe(38);
+  });
+
+  it("works out each question's accuracy from the attempts that graded it", () => {
+    const attempts = [attempt(50, [true, false]), attempt(100, [true, true]), attempt(0), attempt(0, [false])];
+
+    expect(buildAttemptTrend(attempts, 3).questionAccuracy).toEqual([2 / 3, 0.5, null]);
+  });
+});
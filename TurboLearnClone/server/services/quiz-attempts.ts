@@ -0,0 +1,240 @@
+import { storage } from "../storage";
+import { gradeQuizAnswer } from "./quiz-grading";
+import { gradeOpenAnswer, secondOpinion, isCorrectShare } from "./rubric-grading";
+import { quizQuestions, isOpenResponse, type QuizAnswer, type QuizQuestion } from "@shared/quiz";
+import type { Quiz, QuizAttempt, QuizAttemptHistory, QuizAttemptTrend, QuizQuestionResult } from "@shared/schema";
+
+// Submissions this long after the deadline still count, covering the auto-submit's round trip on a slow connection
+export const SUBMISSION_GRACE_MS = parseInt(process.env.QUIZ_SUBMISSION_GRACE_MS || "30000", 10);
+
+// Trends follow the most recent attempts, so early struggles stop weighing on them
+const TREND_WINDOW = 5;
+// Fitted score changes smaller than this many points per attempt count as holding steady
+const STEADY_SLOPE = 2;
+
+// A submission for an attempt that is already finished or out of time
+export class QuizAttemptClosedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuizAttemptClosedError";
+  }
+}
+
+// A stored quiz whose questions can no longer be read, so answers could not be matched to them
+export class UnreadableQuizError extends Error {
+  constructor(message = "This quiz's questions could not be read, so it cannot be taken.") {
+    super(message);
+    this.name = "UnreadableQuizError";
+  }
+}
+
+// An appeal of a question that cannot be appealed
+export class QuizAppealError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "QuizAppealError";
+  }
+}
+
+/**
+ * Starts the clock on a quiz. The deadline is fixed here, on the server, so
+ * the countdown cannot be paused or extended by reloading or leaving the tab.
+ */
+export async function startAttempt(userId: string, quiz: Quiz, now = new Date()): Promise<QuizAttempt> {
+  const questions = quizQuestions(quiz.questions);
+  if (questions.length === 0) throw new UnreadableQuizError();
+  return await storage.createQuizAttempt({
+    userId,
+    quizId: quiz.id,
+    answers: [],
+    score: 0,
+    totalQuestions: questions.length,
+    startedAt: now,
+    deadline: quiz.timeLimit ? new Date(now.getTime() + quiz.timeLimit * 60 * 1000) : null,
+  });
+}
+
+// The score is the share of all available points earned, so an essay weighs as much as its rubric says
+function totals(results: QuizQuestionResult[]) {
+  const earned = results.reduce((sum, result) => sum + result.points, 0);
+  const available = results.reduce((sum, result) => sum + result.maxPoints, 0);
+  return {
+    correctCount: results.filter((result) => result.correct).length,
+    score: available > 0 ? Math.round((earned / available) * 100) : 0,
+  };
+}
+
+/**
+ * Marks each question: against the answer key, worth one point, or for
+ * short-answer and essay questions by the model against the rubric.
+ * Questions left unanswered are wrong.
+ */
+export async function gradeAnswers(quiz: Quiz, questions: QuizQuestion[], answers: (QuizAnswer | null)[]) {
+  const results = await Promise.all(questions.map(async (question, index): Promise<QuizQuestionResult> => {
+    const answer = answers[index] ?? null;
+    if (isOpenResponse(question)) return await gradeOpenAnswer(quiz, question, answer);
+    const correct = gradeQuizAnswer(question, answer);
+    return { answer, correct, points: correct ? 1 : 0, maxPoints: 1 };
+  }));
+  return { results, ...totals(results) };
+}
+
+export interface AttemptSubmission {
+  answers: (QuizAnswer | null)[];
+}
+
+/**
+ * Grades and records the answers, unless the attempt was already submitted or
+ * its deadline and grace window have passed. The attempt is claimed before
+ * grading, so of two submissions racing each other only one is graded and
+ * saved. The score is always worked out here from the quiz, whatever the
+ * client thinks it got.
+ */
+export async function submitAttempt(attempt: QuizAttempt, quiz: Quiz, submission: AttemptSubmission, now = new Date()): Promise<QuizAttempt> {
+  if (attempt.deadline && now.getTime() > attempt.deadline.getTime() + SUBMISSION_GRACE_MS) {
+    throw new QuizAttemptClosedError("Time is up: this quiz attempt can no longer be submitted.");
+  }
+
+  // Time past the deadline is grace for the network, not extra time spent on the quiz
+  const end = attempt.deadline && attempt.deadline < now ? attempt.deadline : now;
+  const startedAt = attempt.startedAt ?? now;
+  const questions = quizQuestions(quiz.questions);
+  if (questions.length === 0) throw new UnreadableQuizError();
+  const claimed = await storage.claimQuizAttempt(attempt.id, {
+    answers: submission.answers.slice(0, questions.length),
+    totalQuestions: questions.length,
+    timeSpent: Math.max(0, Math.round((end.getTime() - startedAt.getTime()) / 1000)),
+    completedAt: now,
+  });
+  if (!claimed) {
+    throw new QuizAttemptClosedError("This quiz attempt has already been submitted.");
+  }
+
+  let graded: Awaited<ReturnType<typeof gradeAnswers>>;
+  try {
+    graded = await gradeAnswers(quiz, questions, submission.answers);
+  } catch (error) {
+    // Reopen the attempt so the same answers can be submitted again
+    await storage.updateQuizAttempt(attempt.id, { completedAt: null });
+    throw error;
+  }
+  const { results, correctCount, score } = graded;
+  const updated = await storage.updateQuizAttempt(attempt.id, { results, score, correctCount });
+  return updated!;
+}
+
+/**
+ * Has a second examiner grade an open response again. One appeal per answer;
+ * the second opinion is kept alongside the first grade and replaces its
+ * points only if it is higher, after which the attempt's score is recounted.
+ * The grade is written against the attempt as stored once the examiner has
+ * answered, so appeals of other questions made meanwhile are kept.
+ */
+export async function appealAnswer(attempt: QuizAttempt, quiz: Quiz, index: number, reason: string, now = new Date()): Promise<QuizAttempt> {
+  if (!attempt.completedAt) {
+    throw new QuizAppealError("Submit the quiz before appealing a grade.", 409);
+  }
+  const question = quizQuestions(quiz.questions)[index];
+  const result = ((attempt.results as QuizQuestionResult[] | null) || [])[index];
+  if (!question || !result) {
+    throw new QuizAppealError("Question not found", 404);
+  }
+  if (!isOpenResponse(question)) {
+    throw new QuizAppealError("Only short-answer and essay questions can be appealed.");
+  }
+  if (result.appeal) {
+    throw new QuizAppealError("This answer has already been appealed.", 409);
+  }
+  if (typeof result.answer !== "string" || !result.answer.trim()) {
+    throw new QuizAppealError("An unanswered question cannot be appealed.");
+  }
+
+  const opinion = await secondOpinion(quiz, question, result, reason);
+  const updated = await storage.changeQuizAttempt(attempt.id, (current) => {
+    const results = (current.results as QuizQuestionResult[] | null) || [];
+    const graded = results[index];
+    // Another appeal of this answer finished first
+    if (!graded || graded.appeal) {
+      throw new QuizAppealError("This answer has already been appealed.", 409);
+    }
+    const raised = opinion.points > graded.points;
+    const appealed: QuizQuestionResult = {
+      ...graded,
+      ...(raised ? { points: opinion.points, correct: isCorrectShare(opinion.points, graded.maxPoints) } : {}),
+      // An answer whose grading failed takes the second opinion as its grade
+      grade: graded.grade ?? opinion,
+      ungraded: false,
+      appeal: { reason, requestedAt: now.toISOString(), secondOpinion: opinion, outcome: raised ? "raised" : "upheld" },
+    };
+    const updatedResults = results.map((existing, position) => (position === index ? appealed : existing));
+    return { results: updatedResults, ...totals(updatedResults) };
+  });
+  return updated!;
+}
+
+// Submitted attempts only, oldest first; ones still in progress or abandoned have no score yet
+function submitted(attempts: QuizAttempt[]): QuizAttempt[] {
+  return attempts
+    .filter((attempt) => attempt.completedAt)
+    .sort((a, b) => a.completedAt!.getTime() - b.completedAt!.getTime());
+}
+
+export async function listAttempts(userId: string): Promise<QuizAttempt[]> {
+  return submitted(await storage.getQuizAttemptsByUser(userId));
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// Least-squares slope of the scores against attempt number
+function scoreSlope(scores: number[]): number | null {
+  if (scores.length < 2) return null;
+  const meanX = (scores.length - 1) / 2;
+  const meanY = average(scores)!;
+  let covariance = 0;
+  let variance = 0;
+  scores.forEach((score, x) => {
+    covariance += (x - meanX) * (score - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return covariance / variance;
+}
+
+/**
+ * Summarizes a quiz's submitted attempts (oldest first): best, average and
+ * latest score, the change since the previous attempt, whether recent scores
+ * are rising or falling, and how often each question has been answered right.
+ */
+export function buildAttemptTrend(attempts: QuizAttempt[], questionCount: number): QuizAttemptTrend {
+  const scores = attempts.map((attempt) => attempt.score);
+  const slope = scoreSlope(scores.slice(-TREND_WINDOW));
+  const times = attempts.flatMap((attempt) => (attempt.timeSpent !== null ? [attempt.timeSpent] : []));
+  const averageScore = average(scores);
+  const averageTime = average(times);
+
+  const questionAccuracy = Array.from({ length: questionCount }, (_, index) => {
+    const graded = attempts.flatMap((attempt) => {
+      const result = (attempt.results as QuizQuestionResult[] | null)?.[index];
+      return result ? [result.correct] : [];
+    });
+    return graded.length > 0 ? graded.filter(Boolean).length / graded.length : null;
+  });
+
+  return {
+    attemptCount: attempts.length,
+    bestScore: scores.length > 0 ? Math.max(...scores) : null,
+    averageScore: averageScore === null ? null : Math.round(averageScore),
+    latestScore: scores.length > 0 ? scores[scores.length - 1] : null,
+    change: scores.length > 1 ? scores[scores.length - 1] - scores[scores.length - 2] : null,
+    slope: slope === null ? null : Math.round(slope * 10) / 10,
+    direction: slope === null ? null : slope >= STEADY_SLOPE ? "improving" : slope <= -STEADY_SLOPE ? "declining" : "steady",
+    averageTimeSpent: averageTime === null ? null : Math.round(averageTime),
+    questionAccuracy,
+  };
+}
+
+export async function buildAttemptHistory(quiz: Quiz): Promise<QuizAttemptHistory> {
+  const attempts = submitted(await storage.getQuizAttemptsByQuiz(quiz.id));
+  return { attempts, trend: buildAttemptTrend(attempts, quizQuestions(quiz.questions).length) };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { gradeQuizAnswer } from "./quiz-grading";
+import type { ClosedQuizQuestion, QuizAnswer } from "@shared/quiz";
+
+function grades(question: ClosedQuizQuestion, answers: (QuizAnswer | null)[]): boolean[] {
+  return answers.map((answer) => gradeQuizAnswer(question, answer));
+}
+
+describe("gradeQuizAnswer", () => {
+  it("grades multiple choice by the chosen option", () => {
+    const question: ClosedQuizQuestion = { type: "multiple-choice", question: "Where is DNA kept?", options: ["Ribosome", "Nucleus", "Membrane"], correctAnswer: 1, explanation: "" };
+
+    expect(grades(question, [1])).toEqual([true]);
+    expect(grades(question, [0, 2])).toEqual([false, false]);
+    expect(grades(question, ["Nucleus", [1], true])).toEqual([false, false, false]);
+    expect(grades(question, [null])).toEqual([false]);
+  });
+
+  it("grades true or false by the boolean given", () => {
+    const question: ClosedQuizQuestion = { type: "true-false", question: "Plant cells have walls.", correctAnswer: true, explanation: "" };
+
+    expect(grades(question, [true])).toEqual([true]);
+    expect(grades(question, [false])).toEqual([false]);
+    expect(grades(question, [1, "true", [1]])).toEqual([false, false, false]);
+    expect(grades(question, [null])).toEqual([false]);
+  });
+
+  it("grades multi-select as a set, in any order and ignoring repeats", () => {
+    const question: ClosedQuizQuestion = { type: "multi-select", question: "Which are organelles?", options: ["Nucleus", "Atom", "Ribosome", "Mitochondrion"], correctAnswers: [0, 2, 3], explanation: "" };
+
+    expect(grades(question, [[0, 2, 3], [3, 0, 2], [2, 2, 0, 3]])).toEqual([true, true, true]);
+    // Missing one, one too many, or only wrong ones
+    expect(grades(question, [[0, 2], [0, 1, 2, 3], [1]])).toEqual([false, false, false]);
+    expect(grades(question, [0, "0, 2, 3", true])).toEqual([false, false, false]);
+    expect(grades(question, [null, []])).toEqual([false, false]);
+  });
+
+  it("grades a filled blank against any accepted answer after normalizing", () => {
+    const question: ClosedQuizQuestion = { type: "fill-blank", question: "___ make ATP.", acceptedAnswers: ["Mitochondria", "the mitochondria"], explanation: "" };
+
+    expect(grades(question, ["mitochondria", "  THE Mitochondria. ", "mitochôndria"])).toEqual([true, true, true]);
+    // Typos are not forgiven in a quiz
+    expect(grades(question, ["mitocondria", "ribosomes"])).toEqual([false, false]);
+    expect(grades(question, [0, true, [0]])).toEqual([false, false, false]);
+    expect(grades(question, [null, "", "  ", "?!"])).toEqual([false, false, false, false]);
+  });
+
+  it("grades a number within the tolerance either side", () => {
+    const question: ClosedQuizQuestion = { type: "numeric", question: "Body temperature in °C?", correctAnswer: 37, tolerance: 0.5, unit: "°C", explanation: "" };
+
+    expect(grades(question, [37, 36.5, 37.5])).toEqual([true, true, true]);
+    expect(grades(question, [36.4, 38])).toEqual([false, false]);
+    expect(grades(question, ["37", true, [37]])).toEqual([false, false, false]);
+    expect(grades(question, [null])).toEqual([false]);
+  });
+
+  it("grades an exact numeric answer despite floating point rounding", () => {
+    const question: ClosedQuizQuestion = { type: "numeric", question: "0.1 + 0.2?", correctAnswer: 0.3, tolerance: 0, explanation: "" };
+
+    expect(grades(question, [0.1 + 0.2, 0.31])).toEqual([true, false]);
+  });
+
+  it("grades matching pair by pair, treating pairs with the same right item alike", () => {
+    const question: ClosedQuizQuestion = {
+      type: "matching",
+      question: "Match each organelle to its cell type",
+      pairs: [
+        { left: "Chloroplast", right: "Plant" },
+        { left: "Cell wall", right: "Plant" },
+        { left: "Centriole", right: "Animal" },
+      ],
+      explanation: "",
+    };
+
+    expect(grades(question, [[0, 1, 2], [1, 0, 2]])).toEqual([true, true]);
+    expect(grades(question, [[2, 1, 0], [0, 0, 0], [0, 1]])).toEqual([false, false, false]);
+    // An index past the pairs
+    expect(grades(question, [[0, 1, 5]])).toEqual([false]);
+    expect(grades(question, ["0,1,2", 0])).toEqual([false, false]);
+    expect(grades(question, [null, []])).toEqual([false, false]);
+  });
+
+  it("grades ordering by the items in the sequence given", () => {
+    const question: ClosedQuizQuestion = { type: "ordering", question: "Put mitosis in order", items: ["Prophase", "Metaphase", "Anaphase", "Telophase"], explanation: "" };
+
+    expect(grades(question, [[0, 1, 2, 3]])).toEqual([true]);
+    expect(grades(question, [[1, 0, 2, 3], [0, 1, 2], [0, 1, 2, 3, 3], [0, 0, 0, 0]])).toEqual([false, false, false, false]);
+    expect(grades(question, ["Prophase, Metaphase, Anaphase, Telophase", 0])).toEqual([false, false]);
+    expect(grades(question, [null, []])).toEqual([false, false]);
+  });
+});
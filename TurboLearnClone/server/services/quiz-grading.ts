@@ -0,0 +1,49 @@
+import { normalizeAnswer } from "./answer-grading";
+import type { ClosedQuizQuestion, QuizAnswer } from "@shared/quiz";
+
+function isIndexList(answer: QuizAnswer): answer is number[] {
+  return Array.isArray(answer);
+}
+
+function sameSequence<T>(a: T[], b: T[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Whether `answer` is right for `question`. An answer of the wrong shape for
+ * the question's type (text for a multiple choice question, say) is wrong,
+ * as is one left blank. Multi-select, matching and ordering questions need
+ * every part right. Open-response questions have no key and are graded
+ * against their rubric instead (see rubric-grading.ts).
+ */
+export function gradeQuizAnswer(question: ClosedQuizQuestion, answer: QuizAnswer | null): boolean {
+  if (answer === null) return false;
+
+  switch (question.type) {
+    case 'multiple-choice':
+      return answer === question.correctAnswer;
+    case 'true-false':
+      return answer === question.correctAnswer;
+    case 'multi-select': {
+      if (!isIndexList(answer)) return false;
+      const chosen = Array.from(new Set(answer)).sort((a, b) => a - b);
+      const correct = Array.from(new Set(question.correctAnswers)).sort((a, b) => a - b);
+      return sameSequence(chosen, correct);
+    }
+    case 'fill-blank': {
+      if (typeof answer !== "string") return false;
+      const given = normalizeAnswer(answer);
+      return given !== "" && question.acceptedAnswers.some((accepted) => normalizeAnswer(accepted) === given);
+    }
+    case 'numeric':
+      // A hair of slack so 0.1 + 0.2 style rounding in the stored answer never fails an exact match
+      return typeof answer === "number" && Math.abs(answer - question.correctAnswer) <= question.tolerance + 1e-9;
+    case 'matching': {
+      // The answer gives, for each left item, the pair whose right item was chosen; pairs sharing a right item are interchangeable
+      const rights = question.pairs.map((pair) => pair.right);
+      return isIndexList(answer) && sameSequence(answer.map((index) => rights[index]), rights);
+    }
+    case 'ordering':
+      return isIndexList(answer) && sameSequence(answer.map((index) => question.items[index]), question.items);
+  }
+}
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { llm } from "./llm";
+import { ensureIndexed, indexDocument, retrievePassages } from "./retrieval";
+
+const realEmbed = llm.embed.bind(llm);
+
+// Holds every embedding request until release() is called
+function holdEmbeddings() {
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => { release = resolve; });
+  const embed = vi.spyOn(llm, "embed").mockImplementation(async (texts, options) => {
+    await gate;
+    return realEmbed(texts, options);
+  });
+  return { embed, release };
+}
+
+async function createDocument(title: string) {
+  return await storage.createDocument({ userId: "reader", title, type: "txt", content: `${title} are made of cells that divide and grow over time.` });
+}
+
+describe("ensureIndexed", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("waits for indexing already under way instead of embedding the document again", async () => {
+    const document = await createDocument("Plants");
+    const { embed, release } = holdEmbeddings();
+
+    const job = indexDocument(document);
+    const chat = ensureIndexed({ documents: [document], notes: [] });
+    release();
+    await Promise.all([job, chat]);
+
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(await storage.getChunks({ documentId: document.id })).toHaveLength(1);
+  });
+
+  it("indexes the document itself when the running job fails", async () => {
+    const document = await createDocument("Fungi");
+    const controller = new AbortController();
+    const { embed, release } = holdEmbeddings();
+
+    const job = indexDocument(document, controller.signal);
+    const chat = ensureIndexed({ documents: [document], notes: [] });
+    controller.abort();
+    release();
+
+    await expect(job).rejects.toThrow("Failed to index document");
+    await chat;
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(await storage.getChunks({ documentId: document.id })).toHaveLength(1);
+  });
+
+  it("leaves a document that is already indexed alone", async () => {
+    const document = await createDocument("Animals");
+    await indexDocument(document);
+    const embed = vi.spyOn(llm, "embed");
+
+    const passages = await retrievePassages("What are animals made of?", { documents: [document], notes: [] });
+
+    // Only the question is embedded
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(passages[0].sourceTitle).toBe("Animals");
+  });
+});
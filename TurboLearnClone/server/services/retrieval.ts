@@ -0,0 +1,223 @@
+import { storage } from "../storage";
+import { llm } from "./llm";
+import { chunkText } from "./chunking";
+import { getTranscriptSegments, segmentsToText } from "@shared/transcript";
+import type { ChatSourceType, Citation, Document, DocumentChunk, InsertDocumentChunk, Note, ScoredDocumentChunk } from "@shared/schema";
+
+// Embedding endpoints cap how many inputs one request may carry
+const EMBEDDING_BATCH_SIZE = 64;
+const SNIPPET_LENGTH = 240;
+
+// Everything a chat may draw on
+export interface ChatSources {
+  documents: Document[];
+  notes: Note[];
+}
+
+export interface RetrievedPassage extends ScoredDocumentChunk {
+  sourceType: ChatSourceType;
+  sourceId: string;
+  sourceTitle: string;
+}
+
+interface OffsetRange {
+  start: number;
+  end: number;
+}
+
+// Where each transcript segment sits in `content`, mirroring how segmentsToText joins them
+function segmentRanges(document: Document): (OffsetRange & { startTime: number; endTime: number })[] | null {
+  const segments = getTranscriptSegments(document.metadata);
+  // Only usable while the content is still the untouched transcript
+  if (!segments || segmentsToText(segments) !== document.content) return null;
+
+  let offset = 0;
+  return segments.map((segment) => {
+    const range = { start: offset, end: offset + segment.text.length, startTime: segment.start, endTime: segment.end };
+    offset = range.end + 1;
+    return range;
+  });
+}
+
+function pageRanges(document: Document): (OffsetRange & { page: number })[] | null {
+  const pages = (document.metadata as { pages?: unknown } | null)?.pages;
+  return Array.isArray(pages) && pages.length > 0 ? pages : null;
+}
+
+function overlapping<T extends OffsetRange>(ranges: T[], start: number, end: number): T[] {
+  return ranges.filter((range) => range.start < end && range.end > start);
+}
+
+async function embedChunks(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(...await llm.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE), { signal }));
+  }
+  return embeddings;
+}
+
+// Indexing under way, by source. Runs for one source queue behind each other, and a
+// chat request waits for the index job instead of embedding the same source beside it.
+const indexing = new Map<string, Promise<DocumentChunk[]>>();
+
+function serialized(key: string, run: () => Promise<DocumentChunk[]>): Promise<DocumentChunk[]> {
+  const work = (indexing.get(key) ?? Promise.resolve()).catch(() => {}).then(run);
+  indexing.set(key, work);
+  const forget = () => {
+    if (indexing.get(key) === work) indexing.delete(key);
+  };
+  work.then(forget, forget);
+  return work;
+}
+
+// Resolves once any indexing under way for the source has finished, however it ended
+async function settled(key: string): Promise<void> {
+  await indexing.get(key)?.catch(() => {});
+}
+
+/**
+ * Splits a document into passages, embeds them and replaces whatever chunks
+ * it had before. Each chunk remembers the page or the stretch of media it
+ * came from so citations can point back at it.
+ */
+export function indexDocument(document: Document, signal?: AbortSignal): Promise<DocumentChunk[]> {
+  return serialized(`document:${document.id}`, () => embedDocument(document, signal));
+}
+
+async function embedDocument(document: Document, signal?: AbortSignal): Promise<DocumentChunk[]> {
+  try {
+    const textChunks = chunkText(document.content);
+    const segments = segmentRanges(document);
+    const pages = pageRanges(document);
+    const embeddings = await embedChunks(textChunks.map((chunk) => chunk.content), signal);
+
+    const chunks: InsertDocumentChunk[] = textChunks.map((chunk, index) => {
+      const chunkPages = pages ? overlapping(pages, chunk.startOffset, chunk.endOffset) : [];
+      const chunkSegments = segments ? overlapping(segments, chunk.startOffset, chunk.endOffset) : [];
+      return {
+        documentId: document.id,
+        chunkIndex: index,
+        content: chunk.content,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+        page: chunkPages.length > 0 ? chunkPages[0].page : null,
+        startTime: chunkSegments.length > 0 ? chunkSegments[0].startTime : null,
+        endTime: chunkSegments.length > 0 ? chunkSegments[chunkSegments.length - 1].endTime : null,
+        embeddingModel: llm.embeddingModel,
+        embedding: embeddings[index],
+      };
+    });
+
+    signal?.throwIfAborted();
+    return await storage.replaceChunks({ documentId: document.id }, chunks);
+  } catch (error) {
+    throw new Error("Failed to index document: " + (error as Error).message);
+  }
+}
+
+// Notes are edited, so they are re-indexed whenever their content changes
+export function indexNote(note: Note, signal?: AbortSignal): Promise<DocumentChunk[]> {
+  return serialized(`note:${note.id}`, () => embedNote(note, signal));
+}
+
+async function embedNote(note: Note, signal?: AbortSignal): Promise<DocumentChunk[]> {
+  try {
+    const textChunks = chunkText(note.content);
+    const embeddings = await embedChunks(textChunks.map((chunk) => chunk.content), signal);
+
+    const chunks: InsertDocumentChunk[] = textChunks.map((chunk, index) => ({
+      noteId: note.id,
+      chunkIndex: index,
+      content: chunk.content,
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+      embeddingModel: llm.embeddingModel,
+      embedding: embeddings[index],
+    }));
+
+    signal?.throwIfAborted();
+    return await storage.replaceChunks({ noteId: note.id }, chunks);
+  } catch (error) {
+    throw new Error("Failed to index note: " + (error as Error).message);
+  }
+}
+
+function isStale(chunks: DocumentChunk[], changedAt?: Date | null): boolean {
+  if (chunks.length === 0 || chunks[0].embeddingModel !== llm.embeddingModel) return true;
+  return !!changedAt && !!chunks[0].createdAt && chunks[0].createdAt < changedAt;
+}
+
+// Sources uploaded before indexing existed, embedded with another model, or edited since, are indexed on first use.
+// An index job already running for a source is waited for, not raced.
+export async function ensureIndexed({ documents, notes }: ChatSources): Promise<void> {
+  for (const document of documents) {
+    await settled(`document:${document.id}`);
+    if (isStale(await storage.getChunks({ documentId: document.id }))) {
+      await indexDocument(document);
+    }
+  }
+  for (const note of notes) {
+    await settled(`note:${note.id}`);
+    if (isStale(await storage.getChunks({ noteId: note.id }), note.updatedAt)) {
+      await indexNote(note);
+    }
+  }
+}
+
+// Spread over many sources, a handful of passages would leave most of them out
+export function retrievalDepth({ documents, notes }: ChatSources): number {
+  return Math.min(12, 6 + documents.length + notes.length - 1);
+}
+
+export async function retrievePassages(question: string, sources: ChatSources, k = 6): Promise<RetrievedPassage[]> {
+  if (sources.documents.length === 0 && sources.notes.length === 0) return [];
+  await ensureIndexed(sources);
+
+  const [embedding] = await llm.embed([question]);
+  const documentTitles = new Map(sources.documents.map((document) => [document.id, document.title]));
+  const noteTitles = new Map(sources.notes.map((note) => [note.id, note.title]));
+  const chunks = await storage.searchChunks({
+    documentIds: Array.from(documentTitles.keys()),
+    noteIds: Array.from(noteTitles.keys()),
+  }, embedding, llm.embeddingModel, k);
+
+  return chunks.map((chunk) => chunk.noteId
+    ? { ...chunk, sourceType: 'note' as const, sourceId: chunk.noteId, sourceTitle: noteTitles.get(chunk.noteId) || "Note" }
+    : { ...chunk, sourceType: 'document' as const, sourceId: chunk.documentId!, sourceTitle: documentTitles.get(chunk.documentId!) || "Document" });
+}
+
+function snippetOf(content: string): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > SNIPPET_LENGTH ? text.slice(0, SNIPPET_LENGTH).replace(/\s+\S*$/, "") + "…" : text;
+}
+
+/**
+ * Turns the passages an answer was given into citations, numbered as they
+ * were in the prompt. When the answer uses [n] markers only those passages
+ * are kept; otherwise every passage is listed as a source.
+ */
+export function buildCitations(answer: string, passages: RetrievedPassage[]): Citation[] {
+  const cited = new Set<number>();
+  const markers = answer.match(/\[(\d+)\]/g) || [];
+  for (const marker of markers) {
+    const n = Number(marker.slice(1, -1));
+    if (n >= 1 && n <= passages.length) cited.add(n);
+  }
+
+  return passages
+    .map((passage, index) => ({ passage, n: index + 1 }))
+    .filter(({ n }) => cited.size === 0 || cited.has(n))
+    .map(({ passage, n }) => ({
+      n,
+      chunkId: passage.id,
+      sourceType: passage.sourceType,
+      sourceId: passage.sourceId,
+      sourceTitle: passage.sourceTitle,
+      startOffset: passage.startOffset,
+      endOffset: passage.endOffset,
+      snippet: snippetOf(passage.content),
+      page: passage.page,
+      startTime: passage.startTime,
+      endTime: passage.endTime,
+    }));
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { buildDueQueue, recordReview } from "./reviews";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("buildDueQueue", () => {
+  // 14:00 in New York, so the study day began at 04:00 UTC
+  const now = new Date("2026-03-10T18:00:00Z");
+
+  async function setUp(username: string) {
+    const created = await storage.createUser({ username, email: `${username}@example.com`, password: "hash" });
+    const user = (await storage.updateUser(created.id, { timezone: "America/New_York", newCardsPerDay: 3, reviewsPerDay: 2 }))!;
+    const set = await storage.createFlashcardSet({ userId: user.id, title: "Verbs" });
+    const card = (question: string) => storage.createFlashcard({ setId: set.id, question, answer: question });
+    return { user, cards: await Promise.all(["avoir", "être", "aller", "faire", "venir"].map(card)) };
+  }
+
+  it("counts what was studied today from the review log", async () => {
+    const { user, cards: [learned, relearned, reviewed] } = await setUp("marie");
+
+    // Yesterday evening in New York: two cards learned, one of them due again today
+    const yesterday = new Date(now.getTime() - 15 * HOUR_MS);
+    const early = await recordReview(user, relearned, "again", undefined, yesterday);
+    await recordReview(user, reviewed, "good", undefined, yesterday);
+
+    const first = await recordReview(user, learned, "good", undefined, now);
+    const again = await recordReview(user, first!, "again", undefined, now);
+    await recordReview(user, early!, "good", undefined, now);
+    // Reset after studying: the card looks new again, but today's review still counts
+    await storage.updateFlashcard(again!.id, { lastReviewed: null, firstReviewed: null, nextReview: null, repetitions: 0 });
+
+    const queue = await buildDueQueue(user, now);
+
+    expect(queue.studied).toEqual({ new: 1, review: 1 });
+    // Three new cards a day, one already learned
+    expect(queue.cards.filter((card) => card.isNew).map((card) => card.question)).toEqual(["avoir", "faire"]);
+  });
+
+  it("ignores reviews from before today in the user's time zone", async () => {
+    const { user, cards } = await setUp("pierre");
+    // 23:30 the previous evening in New York, though already the 10th in UTC
+    await recordReview(user, cards[0], "good", undefined, new Date("2026-03-10T03:30:00Z"));
+
+    const queue = await buildDueQueue(user, now);
+
+    expect(queue.studied).toEqual({ new: 0, review: 0 });
+  });
+});
@@ -0,0 +1,180 @@
+import { storage } from "../storage";
+import { scheduleReview } from "./scheduler";
+import type { DueFlashcard, DueQueue, Flashcard, FlashcardSet, ReviewForecastDay, ReviewGrade, SchedulerAlgorithm, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const FORECAST_DAYS = 30;
+
+// Calendar date and clock time of `date` as seen in `timeZone`
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+// How far `timeZone` is ahead of UTC at `date`, in milliseconds
+function zoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// YYYY-MM-DD of the day `date` falls on in `timeZone`
+export function dayKey(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Midnight at the start of the day `date` falls on in `timeZone`
+export function startOfDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = zonedParts(date, timeZone);
+  const midnightUtc = Date.UTC(year, month - 1, day);
+  // Take the offset in force at that midnight, not now, in case a DST change happened today
+  const guess = midnightUtc - zoneOffset(new Date(midnightUtc), timeZone);
+  return new Date(midnightUtc - zoneOffset(new Date(guess), timeZone));
+}
+
+// Midnight `days` days after the day `date` falls on
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  // Noon never lands in a DST gap, so stepping from it always reaches the intended day
+  return startOfDay(new Date(startOfDay(date, timeZone).getTime() + (days + 0.5) * DAY_MS), timeZone);
+}
+
+// Grades a card: reschedules it with the user's algorithm and logs the review
+export async function recordReview(
+  user: User,
+  card: Flashcard,
+  grade: ReviewGrade,
+  responseTimeMs?: number,
+  now = new Date(),
+): Promise<Flashcard | undefined> {
+  const schedule = scheduleReview(card, grade, user.schedulerAlgorithm as SchedulerAlgorithm, now);
+  const updated = await storage.updateFlashcard(card.id, schedule);
+  if (!updated) return undefined;
+
+  await storage.createReviewLog({
+    userId: user.id,
+    cardId: card.id,
+    setId: card.setId,
+    grade,
+    wasNew: !card.lastReviewed,
+    responseTimeMs: responseTimeMs ?? null,
+    intervalDays: schedule.intervalDays,
+    previousIntervalDays: card.lastReviewed ? card.intervalDays : null,
+    reviewedAt: now,
+  });
+  return updated;
+}
+
+/**
+ * Deals cards out one set at a time, so a session moves between subjects
+ * instead of finishing one set before starting the next. Each set keeps its
+ * own order.
+ */
+function interleaveBySet<T extends Flashcard>(cards: T[]): T[] {
+  const bySet = new Map<string, T[]>();
+  for (const card of cards) {
+    if (!bySet.has(card.setId)) bySet.set(card.setId, []);
+    bySet.get(card.setId)!.push(card);
+  }
+
+  const queues = Array.from(bySet.values());
+  const dealt: T[] = [];
+  while (dealt.length < cards.length) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next) dealt.push(next);
+    }
+  }
+  return dealt;
+}
+
+// Spreads new cards evenly through the reviews rather than bunching them at either end
+function mixIn<T>(reviews: T[], newCards: T[]): T[] {
+  if (newCards.length === 0) return reviews;
+  const mixed: T[] = [];
+  const every = (reviews.length + newCards.length) / newCards.length;
+  let reviewIndex = 0;
+  let newIndex = 0;
+  for (let position = 0; position < reviews.length + newCards.length; position++) {
+    const newDue = newIndex < newCards.length && position >= Math.floor(newIndex * every + every / 2);
+    if (newDue || reviewIndex >= reviews.length) mixed.push(newCards[newIndex++]);
+    else mixed.push(reviews[reviewIndex++]);
+  }
+  return mixed;
+}
+
+/**
+ * Everything the user should study today, across all of their sets. Reviews
+ * are due once their next review falls on or before today in the user's time
+ * zone, most overdue first; new cards are those never reviewed. Both are
+ * capped by what is left of the user's daily limits after what they have
+ * already studied today.
+ */
+export async function buildDueQueue(user: User, now = new Date()): Promise<DueQueue> {
+  const sets = await storage.getFlashcardSetsByUser(user.id);
+  const setTitles = new Map(sets.map((set: FlashcardSet) => [set.id, set.title]));
+  const cards = await storage.getFlashcardsByUser(user.id);
+
+  const today = startOfDay(now, user.timezone);
+  const tomorrow = addZonedDays(now, 1, user.timezone);
+
+  // What was studied today comes from the review log, which cards being reset, rescheduled
+  // or deleted since do not rewrite. A card learned today counts as new however often it was repeated.
+  const learnedToday = new Set<string>();
+  const reviewedToday = new Set<string>();
+  for (const log of await storage.getReviewLogsByUser(user.id, today)) {
+    (log.wasNew ? learnedToday : reviewedToday).add(log.cardId);
+  }
+  const studiedNew = learnedToday.size;
+  const studiedReviews = Array.from(reviewedToday).filter((cardId) => !learnedToday.has(cardId)).length;
+
+  const newCards: DueFlashcard[] = [];
+  const reviews: DueFlashcard[] = [];
+
+  for (const card of cards) {
+    const setTitle = setTitles.get(card.setId) || "Flashcards";
+    if (!card.lastReviewed) {
+      newCards.push({ ...card, setTitle, isNew: true });
+    } else if (card.nextReview && card.nextReview < tomorrow) {
+      reviews.push({ ...card, setTitle, isNew: false });
+    }
+  }
+
+  reviews.sort((a, b) => a.nextReview!.getTime() - b.nextReview!.getTime());
+  const reviewsLeft = Math.max(0, user.reviewsPerDay - studiedReviews);
+  const newLeft = Math.max(0, user.newCardsPerDay - studiedNew);
+
+  return {
+    cards: mixIn(interleaveBySet(reviews.slice(0, reviewsLeft)), interleaveBySet(newCards.slice(0, newLeft))),
+    available: { new: newCards.length, review: reviews.length },
+    studied: { new: studiedNew, review: studiedReviews },
+    limits: { newCardsPerDay: user.newCardsPerDay, reviewsPerDay: user.reviewsPerDay },
+  };
+}
+
+// How many reviews fall due on each of the next `days` days, starting today
+export async function buildForecast(user: User, days = FORECAST_DAYS, now = new Date()): Promise<ReviewForecastDay[]> {
+  const forecast: ReviewForecastDay[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    forecast.push({ date: dayKey(addZonedDays(now, offset, user.timezone), user.timezone), count: 0 });
+  }
+  const index = new Map(forecast.map((day, position) => [day.date, position]));
+  const today = forecast[0]?.date;
+
+  for (const card of await storage.getFlashcardsByUser(user.id)) {
+    if (!card.lastReviewed || !card.nextReview) continue;
+    const date = dayKey(card.nextReview, user.timezone);
+    const position = date < today ? 0 : index.get(date);
+    if (position !== undefined) forecast[position].count++;
+  }
+  return forecast;
+}
@@ -0,0 +1,77 @@
+import { storage } from "../storage";
+import { log } from "../vite";
+import { gradeOpenResponse, reviewOpenResponseGrade, type OpenResponse, type RubricJudgement } from "./ai";
+import { retrievePassages, buildCitations, type RetrievedPassage } from "./retrieval";
+import { maxPoints, type OpenResponseQuestion, type QuizAnswer } from "@shared/quiz";
+import type { Quiz, QuizQuestionResult, RubricGrade } from "@shared/schema";
+
+// Passages from the quiz's document put in front of the grader
+const GRADING_PASSAGES = 4;
+// Share of the rubric's points at which an open response counts as correct
+const CORRECT_SHARE = 0.5;
+
+export function isCorrectShare(points: number, max: number): boolean {
+  return max > 0 && points >= max * CORRECT_SHARE;
+}
+
+// The parts of the quiz's source document that bear on the question, found as chat finds them
+async function sourcePassages(quiz: Quiz, question: OpenResponseQuestion): Promise<RetrievedPassage[]> {
+  if (!quiz.documentId) return [];
+  const document = await storage.getDocument(quiz.documentId);
+  if (!document) return [];
+  return await retrievePassages(`${question.question}\n${question.modelAnswer}`, { documents: [document], notes: [] }, GRADING_PASSAGES);
+}
+
+function openResponse(question: OpenResponseQuestion, answer: string): OpenResponse {
+  return { question: question.question, modelAnswer: question.modelAnswer, rubric: question.rubric, answer };
+}
+
+function toGrade(question: OpenResponseQuestion, judgement: RubricJudgement, passages: RetrievedPassage[]): RubricGrade {
+  const criteria = question.rubric.map((criterion, index) => ({
+    criterion: criterion.criterion,
+    points: judgement.criteria[index].points,
+    maxPoints: criterion.points,
+    comment: judgement.criteria[index].comment,
+  }));
+  // Only passages the grader actually pointed to; one that cites nothing lists no sources
+  const text = [judgement.feedback, ...criteria.map((criterion) => criterion.comment)].join("\n");
+  return {
+    points: criteria.reduce((sum, criterion) => sum + criterion.points, 0),
+    criteria,
+    feedback: judgement.feedback,
+    citations: /\[\d+\]/.test(text) ? buildCitations(text, passages) : [],
+  };
+}
+
+/**
+ * Grades a short-answer or essay response against the question's rubric.
+ * A blank answer scores nothing without asking the model. If grading fails
+ * the answer is recorded as ungraded with no points, so a submission racing
+ * the deadline is never lost; appealing it grades it again.
+ */
+export async function gradeOpenAnswer(quiz: Quiz, question: OpenResponseQuestion, answer: QuizAnswer | null): Promise<QuizQuestionResult> {
+  const max = maxPoints(question);
+  if (typeof answer !== "string" || !answer.trim()) {
+    const criteria = question.rubric.map((criterion) => ({ criterion: criterion.criterion, points: 0, maxPoints: criterion.points, comment: "" }));
+    return { answer, correct: false, points: 0, maxPoints: max, grade: { points: 0, criteria, feedback: "No answer was given.", citations: [] } };
+  }
+
+  try {
+    const passages = await sourcePassages(quiz, question);
+    const grade = toGrade(question, await gradeOpenResponse(openResponse(question, answer), passages), passages);
+    return { answer, correct: isCorrectShare(grade.points, max), points: grade.points, maxPoints: max, grade };
+  } catch (error) {
+    log(`grading quiz ${quiz.id} failed: ${(error as Error).message}`, "quiz");
+    return { answer, correct: false, points: 0, maxPoints: max, ungraded: true };
+  }
+}
+
+// A second examiner's grade for an appealed answer, or a first one if grading had failed
+export async function secondOpinion(quiz: Quiz, question: OpenResponseQuestion, result: QuizQuestionResult, reason: string): Promise<RubricGrade> {
+  const response = openResponse(question, String(result.answer));
+  const passages = await sourcePassages(quiz, question);
+  const judgement = result.grade
+    ? await reviewOpenResponseGrade(response, passages, { criteria: result.grade.criteria, feedback: result.grade.feedback }, reason)
+    : await gradeOpenResponse(response, passages);
+  return toGrade(question, judgement, passages);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { scheduleReview, type SchedulingState } from "./scheduler";
+import type { ReviewGrade } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NEW_CARD: SchedulingState = {
+  firstReviewed: null,
+  lastReviewed: null,
+  nextReview: null,
+  repetitions: 0,
+  easinessFactor: 250,
+  intervalDays: 0,
+  lapses: 0,
+  stability: null,
+  memoryDifficulty: null,
+};
+
+// Grades a card through `reviews`, each given that many days after the one before
+function review(reviews: [ReviewGrade, number][]) {
+  let card = NEW_CARD;
+  let now = new Date("2026-01-05T09:00:00Z");
+  return reviews.map(([grade, days]) => {
+    now = new Date(now.getTime() + days * DAY_MS);
+    card = scheduleReview(card, grade, "fsrs", now);
+    return card;
+  });
+}
+
+describe("FSRS-4.5", () => {
+  // Worked from the FSRS-4.5 formulas with the default weights
+  const reference = [
+    { grade: "good", days: 0, stability: 3.7145, difficulty: 5.1618, intervalDays: 4 },
+    { grade: "good", days: 4, stability: 14.8081, difficulty: 5.1618, intervalDays: 15 },
+    { grade: "hard", days: 10, stability: 20.2401, difficulty: 6.0315, intervalDays: 20 },
+    { grade: "again", days: 20, stability: 3.6273, difficulty: 7.7439, intervalDays: 4 },
+    { grade: "easy", days: 3, stability: 17.3533, difficulty: 6.7942, intervalDays: 17 },
+  ] as const;
+
+  it("matches reference stability, difficulty and intervals", () => {
+    const cards = review(reference.map(({ grade, days }) => [grade, days]));
+
+    cards.forEach((card, index) => {
+      expect(card.stability).toBeCloseTo(reference[index].stability, 3);
+      expect(card.memoryDifficulty).toBeCloseTo(reference[index].difficulty, 3);
+      expect(card.intervalDays).toBe(reference[index].intervalDays);
+    });
+    expect(cards[3]).toMatchObject({ repetitions: 0, lapses: 1 });
+  });
+
+  it("holds a card answered good every time at the initial good difficulty", () => {
+    const cards = review([["good", 0], ["good", 4], ["good", 15], ["good", 50]]);
+
+    for (const card of cards) expect(card.memoryDifficulty).toBeCloseTo(5.1618, 4);
+  });
+});
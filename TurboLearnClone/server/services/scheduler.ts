@@ -0,0 +1,168 @@
+import type { Flashcard, ReviewGrade, SchedulerAlgorithm } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL_DAYS = 36500;
+
+// The card fields a review reads and rewrites
+export type SchedulingState = Pick<
+  Flashcard,
+  "firstReviewed" | "lastReviewed" | "nextReview" | "repetitions" | "easinessFactor" | "intervalDays" | "lapses" | "stability" | "memoryDifficulty"
+>;
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// SM-2 rates recall from 0 to 5; below 3 counts as forgotten
+const SM2_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+const MIN_EASINESS = 130;
+
+/**
+ * The original SuperMemo 2 algorithm. Intervals run 1 day, 6 days, then the
+ * previous interval times the easiness factor; a failed card starts over.
+ * Easiness is kept as an integer x100, as the column stores it.
+ */
+function reviewSm2(card: SchedulingState, grade: ReviewGrade, now: Date): SchedulingState {
+  const quality = SM2_QUALITY[grade];
+  const easiness = card.easinessFactor ?? 250;
+  const repetitions = card.repetitions ?? 0;
+  const lapses = card.lapses ?? 0;
+
+  let intervalDays: number;
+  if (quality < 3) {
+    intervalDays = 1;
+  } else if (repetitions === 0) {
+    intervalDays = 1;
+  } else if (repetitions === 1) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(Math.max(card.intervalDays || 1, 1) * easiness / 100);
+  }
+
+  const penalty = 5 - quality;
+  const nextEasiness = Math.max(MIN_EASINESS, Math.round(easiness + 100 * (0.1 - penalty * (0.08 + penalty * 0.02))));
+  intervalDays = clamp(intervalDays, 1, MAX_INTERVAL_DAYS);
+
+  return {
+    firstReviewed: card.firstReviewed ?? card.lastReviewed ?? now,
+    lastReviewed: now,
+    nextReview: addDays(now, intervalDays),
+    repetitions: quality < 3 ? 0 : repetitions + 1,
+    easinessFactor: nextEasiness,
+    intervalDays,
+    lapses: quality < 3 && repetitions > 0 ? lapses + 1 : lapses,
+    stability: card.stability,
+    memoryDifficulty: card.memoryDifficulty,
+  };
+}
+
+// FSRS-4.5 default parameters, fitted by the FSRS project on a large body of Anki review logs
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+const FSRS_RATING: Record<ReviewGrade, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+const DESIRED_RETENTION = 0.9;
+const DECAY = -0.5;
+// Chosen so recall has fallen to exactly 90% once `stability` days have passed
+const FACTOR = Math.pow(0.9, 1 / DECAY) - 1;
+
+// Chance of recalling a card `elapsedDays` after the last review
+function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
+}
+
+function initialDifficulty(rating: number): number {
+  return clamp(FSRS_WEIGHTS[4] - (rating - 3) * FSRS_WEIGHTS[5], 1, 10);
+}
+
+function nextDifficulty(difficulty: number, rating: number): number {
+  const moved = difficulty - FSRS_WEIGHTS[6] * (rating - 3);
+  // Drift back towards a new card rated "good" so one bad day does not mark a card hard forever
+  return clamp(FSRS_WEIGHTS[7] * initialDifficulty(3) + (1 - FSRS_WEIGHTS[7]) * moved, 1, 10);
+}
+
+function recallStability(difficulty: number, stability: number, recall: number, rating: number): number {
+  const hardPenalty = rating === 2 ? FSRS_WEIGHTS[15] : 1;
+  const easyBonus = rating === 4 ? FSRS_WEIGHTS[16] : 1;
+  return stability * (
+    Math.exp(FSRS_WEIGHTS[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -FSRS_WEIGHTS[9]) *
+    (Math.exp(FSRS_WEIGHTS[10] * (1 - recall)) - 1) *
+    hardPenalty *
+    easyBonus + 1
+  );
+}
+
+function forgetStability(difficulty: number, stability: number, recall: number): number {
+  const next = FSRS_WEIGHTS[11] *
+    Math.pow(difficulty, -FSRS_WEIGHTS[12]) *
+    (Math.pow(stability + 1, FSRS_WEIGHTS[13]) - 1) *
+    Math.exp(FSRS_WEIGHTS[14] * (1 - recall));
+  return Math.min(next, stability);
+}
+
+// Days until recall is expected to fall to the desired retention
+function fsrsInterval(stability: number): number {
+  const days = stability / FACTOR * (Math.pow(DESIRED_RETENTION, 1 / DECAY) - 1);
+  return clamp(Math.round(days), 1, MAX_INTERVAL_DAYS);
+}
+
+/**
+ * Free Spaced Repetition Scheduler (FSRS-4.5). Each card carries a stability
+ * (days until recall drops to 90%) and a difficulty; both are updated from how
+ * long it has actually been since the last review. Cards last scheduled by
+ * SM-2 have no stability yet, so it is seeded from their current interval and
+ * easiness instead of treating them as new.
+ */
+function reviewFsrs(card: SchedulingState, grade: ReviewGrade, now: Date): SchedulingState {
+  const rating = FSRS_RATING[grade];
+  const repetitions = card.repetitions ?? 0;
+  const lapses = card.lapses ?? 0;
+
+  let stability: number;
+  let difficulty: number;
+  if (card.stability == null && repetitions === 0 && !card.lastReviewed) {
+    stability = FSRS_WEIGHTS[rating - 1];
+    difficulty = initialDifficulty(rating);
+  } else {
+    const previousStability = card.stability ?? Math.max(card.intervalDays || 1, 1);
+    const previousDifficulty = card.memoryDifficulty ??
+      clamp(10 - ((card.easinessFactor ?? 250) / 100 - 1.3) * 5, 1, 10);
+    const elapsedDays = card.lastReviewed ? Math.max(0, (now.getTime() - new Date(card.lastReviewed).getTime()) / DAY_MS) : 0;
+    const recall = retrievability(elapsedDays, previousStability);
+
+    difficulty = nextDifficulty(previousDifficulty, rating);
+    stability = rating === 1
+      ? forgetStability(previousDifficulty, previousStability, recall)
+      : recallStability(previousDifficulty, previousStability, recall, rating);
+  }
+
+  const intervalDays = fsrsInterval(stability);
+  return {
+    firstReviewed: card.firstReviewed ?? card.lastReviewed ?? now,
+    lastReviewed: now,
+    nextReview: addDays(now, intervalDays),
+    repetitions: rating === 1 ? 0 : repetitions + 1,
+    easinessFactor: card.easinessFactor,
+    intervalDays,
+    lapses: rating === 1 && repetitions > 0 ? lapses + 1 : lapses,
+    stability,
+    memoryDifficulty: difficulty,
+  };
+}
+
+// The new scheduling fields for a card after it is graded, using the user's chosen algorithm
+export function scheduleReview(
+  card: SchedulingState,
+  grade: ReviewGrade,
+  algorithm: SchedulerAlgorithm,
+  now = new Date(),
+): SchedulingState {
+  return algorithm === "fsrs" ? reviewFsrs(card, grade, now) : reviewSm2(card, grade, now);
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { buildSetMastery, buildStudyStats } from "./stats";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 21:00 in Tokyo on the 10th, still midday on the 10th in UTC
+const now = new Date("2026-03-10T12:00:00Z");
+
+async function setUp(username: string, timezone: string) {
+  const created = await storage.createUser({ username, email: `${username}@example.com`, password: "hash" });
+  const user = (await storage.updateUser(created.id, { timezone }))!;
+  const set = await storage.createFlashcardSet({ userId: user.id, title: "Kanji" });
+  const cards = await Promise.all(["水", "火", "木"].map((question) => storage.createFlashcard({ setId: set.id, question, answer: question })));
+  // Logs a review of the nth card; reviews are of learned cards unless said otherwise
+  const review = (at: string | Date, options: { card?: number; grade?: string; wasNew?: boolean; responseTimeMs?: number } = {}) => storage.createReviewLog({
+    userId: user.id,
+    cardId: cards[options.card ?? 0].id,
+    setId: set.id,
+    grade: options.grade ?? "good",
+    wasNew: options.wasNew ?? false,
+    responseTimeMs: options.responseTimeMs ?? null,
+    reviewedAt: new Date(at),
+  });
+  return { user, set, cards, review };
+}
+
+describe("buildStudyStats", () => {
+  it("counts streak days in the user's time zone", async () => {
+    const { user, review } = await setUp("haruki", "Asia/Tokyo");
+    // 23:59 on the 8th, 09:30 on the 9th and 01:00 on the 10th in Tokyo
+    await review("2026-03-08T14:59:00Z");
+    await review("2026-03-09T00:30:00Z");
+    await review("2026-03-09T16:00:00Z");
+
+    const stats = await buildStudyStats(user, now);
+
+    expect(stats).toMatchObject({ currentStreak: 3, longestStreak: 3, cardsStudiedToday: 1 });
+    // In UTC the same reviews fall on the 8th and 9th only
+    const utc = await buildStudyStats({ ...user, timezone: "UTC" }, now);
+    expect(utc).toMatchObject({ currentStreak: 2, longestStreak: 2, cardsStudiedToday: 0 });
+  });
+
+  it("keeps a streak alive until the day is over and ends it after a missed day", async () => {
+    const { user, review } = await setUp("yuki", "America/Los_Angeles");
+    // The 7th, 8th and 9th in Los Angeles, either side of the switch to daylight saving time; it is now 05:00 on the 10th
+    await review("2026-03-08T07:00:00Z");
+    await review("2026-03-09T02:00:00Z");
+    await review("2026-03-10T06:59:00Z");
+
+    expect(await buildStudyStats(user, now)).toMatchObject({ currentStreak: 3, longestStreak: 3, cardsStudiedToday: 0 });
+    // A day later nothing was studied on the 10th, so the streak is over but still the longest
+    expect(await buildStudyStats(user, new Date(now.getTime() + DAY_MS))).toMatchObject({ currentStreak: 0, longestStreak: 3 });
+  });
+
+  it("finds the longest of several runs", async () => {
+    const { user, review } = await setUp("kenji", "UTC");
+    for (const day of ["2026-02-01", "2026-02-02", "2026-02-03", "2026-02-04", "2026-02-20", "2026-03-09", "2026-03-10"]) {
+      await review(`${day}T10:00:00Z`);
+    }
+
+    expect(await buildStudyStats(user, now)).toMatchObject({ currentStreak: 2, longestStreak: 4 });
+  });
+
+  it("counts each card studied today once", async () => {
+    const { user, review } = await setUp("aiko", "UTC");
+    await review("2026-03-10T08:00:00Z", { card: 0, grade: "again", wasNew: true });
+    await review("2026-03-10T08:05:00Z", { card: 0 });
+    await review("2026-03-10T09:00:00Z", { card: 1 });
+
+    expect((await buildStudyStats(user, now)).cardsStudiedToday).toBe(2);
+  });
+
+  it("measures retention over the last 30 days from reviews of learned cards", async () => {
+    const { user, review } = await setUp("sora", "UTC");
+    await review("2026-03-01T10:00:00Z", { grade: "good", responseTimeMs: 3000 });
+    await review("2026-03-02T10:00:00Z", { grade: "hard", responseTimeMs: 5000 });
+    await review("2026-03-03T10:00:00Z", { grade: "easy" });
+    await review("2026-03-04T10:00:00Z", { grade: "again", responseTimeMs: 7000 });
+    // A first look at a card has nothing to remember yet
+    await review("2026-03-05T10:00:00Z", { card: 1, grade: "again", wasNew: true, responseTimeMs: 1000 });
+    // Outside the window
+    await review("2026-02-01T10:00:00Z", { grade: "again", responseTimeMs: 60000 });
+
+    expect(await buildStudyStats(user, now)).toMatchObject({ retentionRate: 0.75, retentionReviews: 4, averageResponseMs: 4000 });
+  });
+
+  it("reports no retention or response time without reviews to measure", async () => {
+    const { user, review } = await setUp("ren", "UTC");
+    await review("2026-03-10T08:00:00Z", { wasNew: true });
+
+    expect(await buildStudyStats(user, now)).toMatchObject({ retentionRate: null, retentionReviews: 0, averageResponseMs: null, currentStreak: 1 });
+  });
+});
+
+describe("buildSetMastery", () => {
+  it("weighs each card by how close its interval is to maturity", async () => {
+    const { user, set, cards: [, young, mature] } = await setUp("hina", "UTC");
+    await storage.updateFlashcard(young.id, { lastReviewed: now, intervalDays: 7 });
+    await storage.updateFlashcard(mature.id, { lastReviewed: now, intervalDays: 30 });
+    const empty = await storage.createFlashcardSet({ userId: user.id, title: "Empty" });
+
+    const mastery = await buildSetMastery(user);
+
+    // (0 + 7/21 + 1) / 3
+    expect(mastery.find((entry) => entry.setId === set.id)).toEqual({ setId: set.id, mastery: 44, total: 3, new: 1, learning: 1, mature: 1 });
+    expect(mastery.find((entry) => entry.setId === empty.id)).toEqual({ setId: empty.id, mastery: 0, total: 0, new: 0, learning: 0, mature: 0 });
+  });
+
+  it("counts a forgotten card with a reset interval as learning, not new", async () => {
+    const { user, set, cards: [forgotten] } = await setUp("daichi", "UTC");
+    await storage.updateFlashcard(forgotten.id, { lastReviewed: now, intervalDays: 0 });
+
+    expect((await buildSetMastery(user)).find((entry) => entry.setId === set.id)).toMatchObject({ mastery: 0, new: 2, learning: 1, mature: 0 });
+  });
+});
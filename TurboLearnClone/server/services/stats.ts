@@ -0,0 +1,94 @@
+import { storage } from "../storage";
+import { dayKey } from "./reviews";
+import type { Flashcard, SetMastery, StudyStats, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Anki's line between young and mature cards
+const MATURE_INTERVAL_DAYS = 21;
+const RETENTION_WINDOW_DAYS = 30;
+
+// The YYYY-MM-DD before `key`
+function previousDay(key: string): string {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) - DAY_MS).toISOString().slice(0, 10);
+}
+
+function longestRun(days: string[]): number {
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const day of days) {
+    run = previous !== null && previousDay(day) === previous ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+  return longest;
+}
+
+/**
+ * Study totals from the review log. Days are the user's calendar days, so a
+ * review at 11pm local time counts towards that day wherever the server is.
+ * A streak survives until the end of today even if nothing has been reviewed
+ * yet, since there is still time to keep it going.
+ */
+export async function buildStudyStats(user: User, now = new Date()): Promise<StudyStats> {
+  const logs = await storage.getReviewLogsByUser(user.id);
+  const today = dayKey(now, user.timezone);
+  const reviewDays = new Set(logs.map((log) => dayKey(log.reviewedAt!, user.timezone)));
+
+  let currentStreak = 0;
+  let day = reviewDays.has(today) ? today : previousDay(today);
+  while (reviewDays.has(day)) {
+    currentStreak++;
+    day = previousDay(day);
+  }
+
+  const studiedToday = new Set(logs.filter((log) => dayKey(log.reviewedAt!, user.timezone) === today).map((log) => log.cardId));
+
+  const windowStart = new Date(now.getTime() - RETENTION_WINDOW_DAYS * DAY_MS);
+  const recent = logs.filter((log) => log.reviewedAt! >= windowStart);
+  // New cards have nothing to retain yet, so only reviews of learned cards count
+  const recalls = recent.filter((log) => !log.wasNew);
+  const remembered = recalls.filter((log) => log.grade !== "again").length;
+  const timed = recent.filter((log) => log.responseTimeMs !== null);
+
+  return {
+    cardsStudiedToday: studiedToday.size,
+    currentStreak,
+    longestStreak: longestRun(Array.from(reviewDays).sort()),
+    retentionRate: recalls.length > 0 ? remembered / recalls.length : null,
+    retentionReviews: recalls.length,
+    averageResponseMs: timed.length > 0
+      ? Math.round(timed.reduce((sum, log) => sum + log.responseTimeMs!, 0) / timed.length)
+      : null,
+  };
+}
+
+// How far along a card is towards a mature interval, from 0 (new or just forgotten) to 1
+function cardProgress(card: Flashcard): number {
+  if (!card.lastReviewed) return 0;
+  return Math.min((card.intervalDays || 0) / MATURE_INTERVAL_DAYS, 1);
+}
+
+export async function buildSetMastery(user: User): Promise<SetMastery[]> {
+  const sets = await storage.getFlashcardSetsByUser(user.id);
+  const cardsBySet = new Map<string, Flashcard[]>(sets.map((set) => [set.id, []]));
+  for (const card of await storage.getFlashcardsByUser(user.id)) {
+    cardsBySet.get(card.setId)?.push(card);
+  }
+
+  return sets.map((set) => {
+    const cards = cardsBySet.get(set.id) || [];
+    const mature = cards.filter((card) => card.lastReviewed && (card.intervalDays || 0) >= MATURE_INTERVAL_DAYS).length;
+    const fresh = cards.filter((card) => !card.lastReviewed).length;
+    const progress = cards.reduce((sum, card) => sum + cardProgress(card), 0);
+    return {
+      setId: set.id,
+      mastery: cards.length > 0 ? Math.round(100 * progress / cards.length) : 0,
+      total: cards.length,
+      new: fresh,
+      learning: cards.length - fresh - mature,
+      mature,
+    };
+  });
+}
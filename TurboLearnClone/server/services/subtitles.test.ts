@@ -0,0 +1,81 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { detectSubtitleFormat, parseSbv, parseSrt, parseSubtitleTime, parseVtt } from "./subtitles";
+
+function fixture(name: string): string {
+  return readFileSync(path.join(import.meta.dirname, "fixtures/subtitles", name), "utf8");
+}
+
+// Every fixture holds the same three cues
+const LECTURE = [
+  { start: 1, end: 4.25, text: "Welcome to the lecture on cell biology." },
+  { start: 4.5, end: 7.05, text: "Mitochondria make ATP." },
+  { start: 3723.4, end: 3725, text: "Goodbye & thanks." },
+];
+
+describe("parseSubtitleTime", () => {
+  it("reads comma and dot milliseconds, with or without hours", () => {
+    expect(parseSubtitleTime("00:00:04,250")).toBe(4.25);
+    expect(parseSubtitleTime("00:00:04.250")).toBe(4.25);
+    expect(parseSubtitleTime("00:04.250")).toBe(4.25);
+    expect(parseSubtitleTime("1:02:03.400")).toBeCloseTo(3723.4);
+  });
+
+  it("reads short fractions as tenths and hundredths", () => {
+    expect(parseSubtitleTime("00:00:07,05")).toBeCloseTo(7.05);
+    expect(parseSubtitleTime("00:00:07.5")).toBeCloseTo(7.5);
+  });
+});
+
+describe("parseSrt", () => {
+  it("reads numbered, multi-line cues and strips their markup", () => {
+    expect(parseSrt(fixture("lecture.srt"))).toEqual(LECTURE);
+  });
+
+  it("reads CRLF line endings and a byte order mark", () => {
+    expect(parseSrt(`\uFEFF${fixture("lecture.srt").replace(/\n/g, "\r\n")}`)).toEqual(LECTURE);
+  });
+
+  it("puts cues in time order and skips ones without text", () => {
+    const text = "2\n00:00:05,000 --> 00:00:06,000\nSecond\n\n1\n00:00:01,000 --> 00:00:02,000\nFirst\n\n3\n00:00:07,000 --> 00:00:08,000\n<i></i>\n";
+
+    expect(parseSrt(text).map((segment) => segment.text)).toEqual(["First", "Second"]);
+  });
+});
+
+describe("parseVtt", () => {
+  it("skips the header, notes and styles and ignores cue ids and settings", () => {
+    expect(parseVtt(fixture("lecture.vtt"))).toEqual(LECTURE);
+  });
+
+  it("reads CRLF line endings", () => {
+    expect(parseVtt(fixture("lecture.vtt").replace(/\n/g, "\r\n"))).toEqual(LECTURE);
+  });
+});
+
+describe("parseSbv", () => {
+  it("reads comma-separated timings and multi-line cues", () => {
+    expect(parseSbv(fixture("lecture.sbv"))).toEqual(LECTURE);
+    expect(parseSbv(fixture("lecture.sbv").replace(/\n/g, "\r\n"))).toEqual(LECTURE);
+  });
+});
+
+describe("detectSubtitleFormat", () => {
+  it("sniffs each format from its contents", () => {
+    expect(detectSubtitleFormat(fixture("lecture.srt"))).toBe("srt");
+    expect(detectSubtitleFormat(fixture("lecture.vtt"))).toBe("vtt");
+    expect(detectSubtitleFormat(fixture("lecture.sbv"))).toBe("sbv");
+  });
+
+  it("allows a byte order mark, CRLF endings and an SRT file without counters", () => {
+    expect(detectSubtitleFormat(`\uFEFF${fixture("lecture.vtt")}`)).toBe("vtt");
+    expect(detectSubtitleFormat(fixture("lecture.srt").replace(/\n/g, "\r\n"))).toBe("srt");
+    expect(detectSubtitleFormat("\n00:00:01,000 --> 00:00:02,000\nHello\n")).toBe("srt");
+  });
+
+  it("finds nothing in text that is not subtitles", () => {
+    expect(detectSubtitleFormat("Lecture notes\n\nMitochondria make ATP.")).toBeNull();
+    expect(detectSubtitleFormat("")).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import type { TranscriptSegment } from "@shared/transcript";
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'sbv';
+
+// (h:)mm:ss.mmm or (h:)mm:ss,mmm
+const TIME = String.raw`(?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3}`;
+const SRT_VTT_TIMING = new RegExp(String.raw`^\s*(${TIME})\s*-->\s*(${TIME})`);
+const SBV_TIMING = new RegExp(String.raw`^\s*(${TIME}),(${TIME})\s*$`);
+
+export function parseSubtitleTime(value: string): number {
+  const [clock, fraction = "0"] = value.trim().split(/[.,]/);
+  const parts = clock.split(":").map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(fraction.padEnd(3, "0")) / 1000;
+}
+
+// Sniffs the first cue rather than trusting the file extension
+export function detectSubtitleFormat(text: string): SubtitleFormat | null {
+  const body = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").trimStart();
+  if (/^WEBVTT\b/.test(body)) return 'vtt';
+
+  const lines = body.split("\n").slice(0, 3);
+  if (SBV_TIMING.test(lines[0] || "")) return 'sbv';
+  if (SRT_VTT_TIMING.test(lines[0] || "") || (/^\d+\s*$/.test(lines[0] || "") && SRT_VTT_TIMING.test(lines[1] || ""))) {
+    return 'srt';
+  }
+  return null;
+}
+
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(" ")
+    .replace(/<\d{2}:\d{2}[^>]*>/g, "") // VTT karaoke timestamps
+    .replace(/<\/?[a-z][^>]*>/gi, "") // <i>, <b>, <v Speaker>, <c.class>
+    .replace(/\{\\[^}]*\}/g, "") // SSA-style override tags some SRT files carry
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseBlocks(text: string, timing: RegExp, skipBlock: (lines: string[]) => boolean = () => false): TranscriptSegment[] {
+  const blocks = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n").filter((line) => line.trim() !== "");
+    if (lines.length === 0 || skipBlock(lines)) continue;
+
+    // Cue identifiers (SRT counters, VTT ids) sit on the line before the timing
+    const timingIndex = lines.findIndex((line) => timing.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(timing)!;
+    const cueText = cleanCueText(lines.slice(timingIndex + 1));
+    if (!cueText) continue;
+
+    segments.push({ start: parseSubtitleTime(start), end: parseSubtitleTime(end), text: cueText });
+  }
+
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+export function parseSrt(text: string): TranscriptSegment[] {
+  return parseBlocks(text, SRT_VTT_TIMING);
+}
+
+export function parseVtt(text: string): TranscriptSegment[] {
+  return parseBlocks(text, SRT_VTT_TIMING, (lines) => /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0]) && !SRT_VTT_TIMING.test(lines[0]));
+}
+
+export function parseSbv(text: string): TranscriptSegment[] {
+  return parseBlocks(text, SBV_TIMING);
+}
+
+export function parseSubtitles(text: string, format: SubtitleFormat): TranscriptSegment[] {
+  switch (format) {
+    case 'srt':
+      return parseSrt(text);
+    case 'vtt':
+      return parseVtt(text);
+    case 'sbv':
+      return parseSbv(text);
+  }
+}
@@ -0,0 +1,183 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  YouTubeAudioError,
+  YouTubeCaptionFetcher,
+  getYouTubeTranscript,
+  parseTimedTextXml,
+  transcribeYouTubeVideo,
+  type HttpTransport,
+} from "./youtube";
+
+vi.mock("./audio", () => ({
+  transcribeLongAudio: vi.fn(async (audio: Buffer) => ({
+    content: `[transcribed ${audio.length} bytes]`,
+    segments: [{ start: 0, end: 1, text: `[transcribed ${audio.length} bytes]` }],
+  })),
+}));
+
+function fixture(name: string): string {
+  return readFileSync(path.join(import.meta.dirname, "fixtures/youtube", name), "utf8");
+}
+
+// Pages recorded from youtube.com, served by URL; anything else is a 404
+function fixtureTransport(pages: Record<string, string | (() => Response)>) {
+  const requested: string[] = [];
+  const transport: HttpTransport = async (url) => {
+    requested.push(url);
+    const page = pages[url];
+    if (typeof page === "function") return page();
+    return page === undefined ? new Response("Not Found", { status: 404 }) : new Response(page);
+  };
+  return { transport, requested };
+}
+
+// An audio body delivered in 1KB chunks, optionally without a Content-Length
+function audioResponse(bytes: number, { declareLength = true } = {}) {
+  let sent = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent >= bytes) return controller.close();
+      const chunk = new Uint8Array(Math.min(1024, bytes - sent));
+      sent += chunk.length;
+      controller.enqueue(chunk);
+    },
+  });
+  return new Response(body, { headers: declareLength ? { "Content-Length": String(bytes) } : {} });
+}
+
+const WATCH_CAPTIONS = "https://www.youtube.com/watch?v=dQw4w9WgXcQ&hl=en";
+const WATCH_NO_CAPTIONS = "https://www.youtube.com/watch?v=9bZkp7q19f0&hl=en";
+const AUDIO_NO_CAPTIONS = "https://rr2---sn.googlevideo.com/videoplayback?itag=249";
+
+describe("YouTubeCaptionFetcher", () => {
+  it("reads the video details, caption tracks and smallest plain audio format from the watch page", async () => {
+    const { transport } = fixtureTransport({ [WATCH_CAPTIONS]: fixture("watch-captions.html") });
+
+    const video = await new YouTubeCaptionFetcher(transport).getVideo("dQw4w9WgXcQ");
+
+    expect(video).toMatchObject({
+      videoId: "dQw4w9WgXcQ",
+      title: "Photosynthesis in 5 minutes",
+      author: "Biology Bites",
+      duration: 312,
+      description: "How plants turn light into sugar {and why it matters}.",
+      audioUrl: "https://rr1---sn.googlevideo.com/videoplayback?itag=249",
+    });
+    // The track without a baseUrl is dropped
+    expect(video.captionTracks.map(({ languageCode, name, isAutoGenerated }) => ({ languageCode, name, isAutoGenerated }))).toEqual([
+      { languageCode: "en", name: "English (auto-generated)", isAutoGenerated: true },
+      { languageCode: "de", name: "German", isAutoGenerated: false },
+      { languageCode: "en-GB", name: "English (United Kingdom)", isAutoGenerated: false },
+    ]);
+  });
+
+  it("reports why an unplayable video cannot be read", async () => {
+    const { transport } = fixtureTransport({ "https://www.youtube.com/watch?v=kJQP7kiw5Fk&hl=en": fixture("watch-unplayable.html") });
+
+    await expect(new YouTubeCaptionFetcher(transport).getVideo("kJQP7kiw5Fk")).rejects.toThrow("Sign in to confirm your age");
+  });
+
+  it("stops downloading audio that grows past the limit", async () => {
+    const { transport } = fixtureTransport({
+      [WATCH_NO_CAPTIONS]: fixture("watch-no-captions.html"),
+      [AUDIO_NO_CAPTIONS]: () => audioResponse(8 * 1024, { declareLength: false }),
+    });
+    const fetcher = new YouTubeCaptionFetcher(transport);
+    const video = await fetcher.getVideo("9bZkp7q19f0");
+
+    await expect(fetcher.getAudio(video, { maxBytes: 4 * 1024 })).rejects.toThrow(YouTubeAudioError);
+    expect(await fetcher.getAudio(video, { maxBytes: 8 * 1024 })).toHaveLength(8 * 1024);
+  });
+
+  it("refuses audio whose declared length is over the limit without reading it", async () => {
+    const pull = vi.fn((controller: ReadableStreamDefaultController<Uint8Array>) => controller.enqueue(new Uint8Array(1024)));
+    const { transport } = fixtureTransport({
+      [WATCH_NO_CAPTIONS]: fixture("watch-no-captions.html"),
+      [AUDIO_NO_CAPTIONS]: () => new Response(new ReadableStream({ pull }), { headers: { "Content-Length": String(500 * 1024 * 1024) } }),
+    });
+    const fetcher = new YouTubeCaptionFetcher(transport);
+
+    await expect(fetcher.getAudio(await fetcher.getVideo("9bZkp7q19f0"))).rejects.toThrow("too long to transcribe");
+    // The stream fills its one-chunk buffer by itself; nothing more is asked for
+    expect(pull).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("getYouTubeTranscript", () => {
+  it("prefers manual English captions over auto-generated ones", async () => {
+    const { transport, requested } = fixtureTransport({
+      [WATCH_CAPTIONS]: fixture("watch-captions.html"),
+      "https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=en-GB&fmt=json3": fixture("captions-en-GB.json"),
+    });
+
+    const lookup = await getYouTubeTranscript("https://youtu.be/dQw4w9WgXcQ", new YouTubeCaptionFetcher(transport));
+
+    expect(lookup.status).toBe("transcript");
+    if (lookup.status !== "transcript") return;
+    expect(lookup.transcript).toMatchObject({ language: "en-GB", source: "captions" });
+    expect(lookup.transcript.segments).toEqual([
+      { start: 1.2, end: 4.6, text: "Plants make their own food." },
+      { start: 65, end: 69.5, text: "Chlorophyll absorbs red and blue light." },
+    ]);
+    expect(lookup.transcript.video).not.toHaveProperty("audioUrl");
+    expect(requested.some((url) => url.includes("googlevideo"))).toBe(false);
+  });
+
+  it("leaves a video without captions to be transcribed, without downloading its audio", async () => {
+    const { transport, requested } = fixtureTransport({ [WATCH_NO_CAPTIONS]: fixture("watch-no-captions.html") });
+
+    const lookup = await getYouTubeTranscript("https://www.youtube.com/watch?v=9bZkp7q19f0", new YouTubeCaptionFetcher(transport));
+
+    expect(lookup).toEqual({
+      status: "needs-transcription",
+      video: { videoId: "9bZkp7q19f0", title: "Lecture 4: Enzymes", author: "Open Biology", duration: 3020, description: "" },
+    });
+    expect(requested).toEqual([WATCH_NO_CAPTIONS]);
+  });
+
+  it("rejects a URL that is not a YouTube video", async () => {
+    const { transport, requested } = fixtureTransport({});
+
+    await expect(getYouTubeTranscript("https://example.com/watch", new YouTubeCaptionFetcher(transport))).rejects.toThrow("Invalid YouTube URL");
+    expect(requested).toEqual([]);
+  });
+});
+
+describe("transcribeYouTubeVideo", () => {
+  it("downloads the audio and transcribes it", async () => {
+    const { transport } = fixtureTransport({
+      [WATCH_NO_CAPTIONS]: fixture("watch-no-captions.html"),
+      [AUDIO_NO_CAPTIONS]: () => audioResponse(3000),
+    });
+
+    const transcript = await transcribeYouTubeVideo("9bZkp7q19f0", { fetcher: new YouTubeCaptionFetcher(transport) });
+
+    expect(transcript).toMatchObject({ content: "[transcribed 3000 bytes]", language: null, source: "transcription" });
+    expect(transcript.video.title).toBe("Lecture 4: Enzymes");
+  });
+
+  it("fails without retrying when the audio cannot be downloaded", async () => {
+    const { transport } = fixtureTransport({ [WATCH_NO_CAPTIONS]: fixture("watch-no-captions.html") });
+
+    await expect(transcribeYouTubeVideo("9bZkp7q19f0", { fetcher: new YouTubeCaptionFetcher(transport) })).rejects.toThrow(YouTubeAudioError);
+  });
+});
+
+describe("parseTimedTextXml", () => {
+  it("decodes each entity once", () => {
+    expect(parseTimedTextXml(fixture("timedtext.xml"))).toEqual([
+      { start: 0.5, end: 2.6, text: 'The enzyme\'s "active site"' },
+      { start: 2.6, end: 4.5, text: "where 2 < 3 & A→B" },
+      { start: 4.5, end: 6.5, text: "write &lt;ATP&gt; literally" },
+    ]);
+  });
+
+  it("reads srv3 cues timed in milliseconds", () => {
+    expect(parseTimedTextXml(fixture("timedtext-srv3.xml"))).toEqual([
+      { start: 1, end: 3.5, text: "Substrates bind here" },
+      { start: 3.5, end: 5, text: "and leave as products" },
+    ]);
+  });
+});
@@ -1,55 +1,367 @@
-export async function getYouTubeTranscript(videoUrl: string): Promise<string> {
-  try {
-    // Extract video ID from URL
-    const videoId = extractVideoId(videoUrl);
-    if (!videoId) {
-      throw new Error("Invalid YouTube URL");
-    }
+import { transcribeLongAudio, type TranscriptionOptions } from "./audio";
+import { segmentsToText, type TranscriptSegment } from "@shared/transcript";
+import type { InsertDocument } from "@shared/schema";
 
-    // For now, we'll return a placeholder implementation
-    // In a real implementation, you would use youtube-transcript or similar package
-    // or YouTube Data API v3 with captions
-    
-    // Simulated transcript extraction
-    const transcript = await fetchYouTubeTranscript(videoId);
-    return transcript;
-  } catch (error) {
-    throw new Error("Failed to get YouTube transcript: " + (error as Error).message);
+// Anything fetch-shaped. Swap in a fixture-backed transport to run without the network.
+export type HttpTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface YouTubeVideoInfo {
+  videoId: string;
+  title: string;
+  author: string;
+  duration: number; // seconds
+  description: string;
+}
+
+export interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  name: string;
+  // YouTube's auto-generated (speech recognition) tracks are kind "asr"
+  isAutoGenerated: boolean;
+}
+
+export interface YouTubeVideo extends YouTubeVideoInfo {
+  captionTracks: CaptionTrack[];
+  audioUrl: string | null;
+}
+
+export interface YouTubeTranscript {
+  video: YouTubeVideoInfo;
+  content: string;
+  segments: TranscriptSegment[];
+  language: string | null;
+  source: 'captions' | 'auto-captions' | 'transcription';
+}
+
+// Captions are read in the request; a video without them is transcribed by a background job
+export type YouTubeLookup =
+  | { status: 'transcript'; transcript: YouTubeTranscript }
+  | { status: 'needs-transcription'; video: YouTubeVideoInfo };
+
+export interface AudioDownloadOptions {
+  signal?: AbortSignal;
+  maxBytes?: number;
+}
+
+export interface CaptionFetcher {
+  getVideo(videoId: string): Promise<YouTubeVideo>;
+  getCaptions(track: CaptionTrack): Promise<TranscriptSegment[]>;
+  getAudio(video: YouTubeVideo, options?: AudioDownloadOptions): Promise<Buffer | null>;
+}
+
+// Same ceiling as an uploaded recording
+export const MAX_AUDIO_BYTES = 300 * 1024 * 1024;
+
+// The audio track cannot be had (too large, or not downloadable), so retrying will not help
+export class YouTubeAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "YouTubeAudioError";
   }
 }
 
-function extractVideoId(url: string): string | null {
-  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
+// The parts of the watch page's ytInitialPlayerResponse read here. YouTube
+// changes it without notice, so every field may be missing.
+interface PlayerText {
+  simpleText?: string;
+  runs?: { text?: string }[];
+}
+
+interface PlayerCaptionTrack {
+  baseUrl?: string;
+  languageCode?: string;
+  name?: PlayerText;
+  kind?: string;
+}
+
+interface PlayerFormat {
+  mimeType?: string;
+  url?: string;
+  bitrate?: number;
+}
+
+export interface PlayerResponse {
+  playabilityStatus?: { status?: string; reason?: string };
+  videoDetails?: { title?: string; author?: string; lengthSeconds?: string; shortDescription?: string };
+  captions?: { playerCaptionsTracklistRenderer?: { captionTracks?: PlayerCaptionTrack[] } };
+  streamingData?: { adaptiveFormats?: PlayerFormat[] };
+}
+
+interface Json3Captions {
+  events?: { tStartMs?: number; dDurationMs?: number; segs?: { utf8?: string }[] }[];
+}
+
+export function extractVideoId(url: string): string | null {
+  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|shorts\/|watch\?v=|&v=)([^#&?]*).*/;
   const match = url.match(regExp);
   return (match && match[2].length === 11) ? match[2] : null;
 }
 
-async function fetchYouTubeTranscript(videoId: string): Promise<string> {
-  // This is a placeholder implementation
-  // In a real app, you would:
-  // 1. Use YouTube Data API v3 to get captions
-  // 2. Or use a library like youtube-transcript
-  // 3. Or scrape the transcript from YouTube (not recommended)
-  
-  // For demonstration, return a simulated response
-  return `This is a simulated transcript for video ${videoId}. In a real implementation, this would contain the actual YouTube video transcript extracted using the YouTube Data API or a transcript extraction library.`;
+const BROWSER_HEADERS = {
+  "User-Agent": "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36",
+  "Accept-Language": "en-US,en;q=0.9",
+  // Skips the EU cookie consent interstitial, which has no player data
+  "Cookie": "CONSENT=YES+1",
+};
+
+export class YouTubeCaptionFetcher implements CaptionFetcher {
+  constructor(private transport: HttpTransport = fetch) {}
+
+  async getVideo(videoId: string): Promise<YouTubeVideo> {
+    const html = await this.getText(`https://www.youtube.com/watch?v=${videoId}&hl=en`);
+    const player = extractPlayerResponse(html);
+    if (!player) {
+      throw new Error("Could not read video data from YouTube");
+    }
+
+    const status = player.playabilityStatus?.status;
+    if (status && status !== "OK") {
+      throw new Error(player.playabilityStatus?.reason || `Video is not playable (${status})`);
+    }
+
+    const details = player.videoDetails || {};
+    const tracks = player.captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+    // Only formats with a plain URL are usable; ciphered ones need the player JS to decode
+    const audioFormats = (player.streamingData?.adaptiveFormats || [])
+      .filter((format) => format.mimeType?.startsWith("audio/") && format.url)
+      .sort((a, b) => (a.bitrate || 0) - (b.bitrate || 0));
+
+    return {
+      videoId,
+      title: details.title || `YouTube Video ${videoId}`,
+      author: details.author || "",
+      duration: Number(details.lengthSeconds) || 0,
+      description: details.shortDescription || "",
+      captionTracks: tracks.flatMap((track) => track.baseUrl && track.languageCode ? [{
+        baseUrl: track.baseUrl,
+        languageCode: track.languageCode,
+        name: track.name?.simpleText || track.name?.runs?.map((run) => run.text || "").join("") || track.languageCode,
+        isAutoGenerated: track.kind === "asr",
+      }] : []),
+      audioUrl: audioFormats[0]?.url || null,
+    };
+  }
+
+  async getCaptions(track: CaptionTrack): Promise<TranscriptSegment[]> {
+    const url = new URL(track.baseUrl);
+    url.searchParams.set("fmt", "json3");
+    const body = await this.getText(url.toString());
+    return parseCaptions(body);
+  }
+
+  // Streams the audio and gives up as soon as it passes `maxBytes`, whatever Content-Length claimed
+  async getAudio(video: YouTubeVideo, { signal, maxBytes = MAX_AUDIO_BYTES }: AudioDownloadOptions = {}): Promise<Buffer | null> {
+    if (!video.audioUrl) return null;
+    const response = await this.transport(video.audioUrl, { headers: BROWSER_HEADERS, signal });
+    if (!response.ok || !response.body) return null;
+
+    const tooLarge = () => new YouTubeAudioError(`This video's audio is over ${Math.round(maxBytes / (1024 * 1024))}MB, too long to transcribe.`);
+    if (Number(response.headers.get("content-length")) > maxBytes) {
+      await response.body.cancel();
+      throw tooLarge();
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+    for (let read = await reader.read(); !read.done; read = await reader.read()) {
+      size += read.value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(read.value);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private async getText(url: string): Promise<string> {
+    const response = await this.transport(url, { headers: BROWSER_HEADERS });
+    if (!response.ok) {
+      throw new Error(`YouTube responded with ${response.status}`);
+    }
+    return await response.text();
+  }
+}
+
+// Pulls the JSON object assigned to ytInitialPlayerResponse out of the watch page
+export function extractPlayerResponse(html: string): PlayerResponse | null {
+  const marker = html.indexOf("ytInitialPlayerResponse");
+  if (marker === -1) return null;
+  const start = html.indexOf("{", marker);
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      try {
+        const parsed: unknown = JSON.parse(html.slice(start, i + 1));
+        return parsed && typeof parsed === "object" ? parsed as PlayerResponse : null;
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// Picks manual captions over auto-generated ones, and English over other languages
+export function pickCaptionTrack(tracks: CaptionTrack[], preferredLanguage = "en"): CaptionTrack | undefined {
+  const rank = (track: CaptionTrack) =>
+    (track.isAutoGenerated ? 2 : 0) + (track.languageCode.split("-")[0] === preferredLanguage ? 0 : 1);
+  return [...tracks].sort((a, b) => rank(a) - rank(b))[0];
+}
+
+export function parseCaptions(body: string): TranscriptSegment[] {
+  const trimmed = body.trimStart();
+  return trimmed.startsWith("{") ? parseJson3Captions(trimmed) : parseTimedTextXml(trimmed);
+}
+
+export function parseJson3Captions(json: string): TranscriptSegment[] {
+  const data: Json3Captions = JSON.parse(json);
+  const segments: TranscriptSegment[] = [];
+
+  for (const event of data.events || []) {
+    if (!event.segs) continue;
+    const text = cleanCaptionText(event.segs.map((seg) => seg.utf8 || "").join(""));
+    if (!text) continue;
+
+    const start = (event.tStartMs || 0) / 1000;
+    segments.push({ start, end: start + (event.dDurationMs || 0) / 1000, text });
+  }
+
+  return segments;
+}
+
+// Handles both the classic format (<text start dur> in seconds) and srv3 (<p t d> in milliseconds)
+export function parseTimedTextXml(xml: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const cuePattern = /<(text|p)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+
+  for (const [, tag, attributes, inner] of Array.from(xml.matchAll(cuePattern))) {
+    const attrs = parseAttributes(attributes);
+    const text = cleanCaptionText(decodeEntities(inner.replace(/<[^>]+>/g, "")));
+    if (!text) continue;
+
+    const start = tag === "text" ? Number(attrs.start || 0) : Number(attrs.t || 0) / 1000;
+    const duration = tag === "text" ? Number(attrs.dur || 0) : Number(attrs.d || 0) / 1000;
+    segments.push({ start, end: start + duration, text });
+  }
+
+  return segments;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, value] of Array.from(source.matchAll(/([\w-]+)="([^"]*)"/g))) {
+    attrs[name] = value;
+  }
+  return attrs;
+}
+
+const NAMED_ENTITIES: Record<string, string> = { quot: '"', apos: "'", lt: "<", gt: ">", amp: "&" };
+
+// One pass, so what an entity decodes to is never decoded again: "&amp;lt;" is the text "&lt;"
+function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|#x[0-9a-f]+|quot|apos|lt|gt|amp);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanCaptionText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
 }
 
-export async function getYouTubeVideoInfo(videoUrl: string): Promise<{ title: string; duration: string; description: string }> {
+const defaultFetcher = new YouTubeCaptionFetcher();
+
+/**
+ * Looks a video up and reads its captions, preferring manual ones. A video
+ * without usable captions comes back as needing transcription, which is left
+ * to `transcribeYouTubeVideo` in a background job: downloading and
+ * transcribing the audio takes far longer than a request should.
+ */
+export async function getYouTubeTranscript(videoUrl: string, fetcher: CaptionFetcher = defaultFetcher): Promise<YouTubeLookup> {
   try {
     const videoId = extractVideoId(videoUrl);
     if (!videoId) {
       throw new Error("Invalid YouTube URL");
     }
 
-    // In a real implementation, you would use YouTube Data API v3
-    // For now, return placeholder data
-    return {
-      title: `YouTube Video ${videoId}`,
-      duration: "10:30",
-      description: "Video description would be fetched from YouTube API"
-    };
+    const { captionTracks, audioUrl, ...video } = await fetcher.getVideo(videoId);
+
+    const track = pickCaptionTrack(captionTracks);
+    if (track) {
+      const segments = await fetcher.getCaptions(track);
+      if (segments.length > 0) {
+        return {
+          status: 'transcript',
+          transcript: {
+            video,
+            content: segmentsToText(segments),
+            segments,
+            language: track.languageCode,
+            source: track.isAutoGenerated ? 'auto-captions' : 'captions',
+          },
+        };
+      }
+    }
+
+    if (!audioUrl) {
+      throw new Error("This video has no captions and its audio cannot be downloaded");
+    }
+    return { status: 'needs-transcription', video };
   } catch (error) {
-    throw new Error("Failed to get YouTube video info: " + (error as Error).message);
+    throw new Error("Failed to get YouTube transcript: " + (error as Error).message);
   }
 }
+
+// Transcribes a video's audio track with Whisper, for videos without captions
+export async function transcribeYouTubeVideo(
+  videoId: string,
+  { signal, onProgress, fetcher = defaultFetcher, maxBytes }: TranscriptionOptions & { fetcher?: CaptionFetcher; maxBytes?: number } = {},
+): Promise<YouTubeTranscript> {
+  // Looked up again rather than queued: the audio URL YouTube hands out expires within hours
+  const found = await fetcher.getVideo(videoId);
+  const audio = await fetcher.getAudio(found, { signal, maxBytes });
+  if (!audio) {
+    throw new YouTubeAudioError("This video's audio could not be downloaded");
+  }
+
+  const { captionTracks, audioUrl, ...video } = found;
+  const { content, segments } = await transcribeLongAudio(audio, videoId, { signal, onProgress });
+  return { video, content, segments, language: null, source: 'transcription' };
+}
+
+// The document a transcript is saved as
+export function youTubeDocument(userId: string, url: string, { video, content, segments, language, source }: YouTubeTranscript): InsertDocument {
+  return {
+    userId,
+    title: video.title,
+    type: 'youtube',
+    originalUrl: url,
+    content,
+    metadata: {
+      videoId: video.videoId,
+      author: video.author,
+      duration: video.duration,
+      description: video.description,
+      language,
+      transcriptSource: source,
+      segments,
+    },
+  };
+}
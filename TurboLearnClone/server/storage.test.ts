@@ -0,0 +1,368 @@
+import { createRequire } from "module";
+import { randomUUID } from "crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { DataType, newDb } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+import { ensureExtensions } from "./db";
+
+// drizzle-kit's ESM build cannot load under vitest, so its CommonJS one is required directly
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, i) => {
+    dot += value * b[i];
+    normA += value * value;
+    normB += b[i] * b[i];
+  });
+  return normA && normB ? 1 - dot / Math.sqrt(normA * normB) : 1;
+}
+
+function parseVector(value: string): number[] {
+  return value.slice(1, -1).split(",").map(Number);
+}
+
+// A throwaway in-memory Postgres holding the schema as `drizzle-kit push` would create it.
+// pg-mem knows nothing of pgvector, so the extension is stood in for: vectors stay in their
+// text form, and as pg-mem cannot parse the <=> operator it is rewritten into a function call.
+async function createTestDatabase() {
+  const db = newDb();
+  db.public.registerFunction({ name: "gen_random_uuid", returns: DataType.text, implementation: () => randomUUID(), impure: true });
+  db.registerExtension("vector", (extensionSchema) => {
+    const vector = extensionSchema.registerEquivalentType({ name: "vector", equivalentTo: DataType.text, isValid: () => true });
+    extensionSchema.registerFunction({
+      name: "cosine_distance",
+      args: [vector, vector],
+      returns: DataType.float,
+      implementation: (a: string, b: string) => cosineDistance(parseVector(a), parseVector(b)),
+    });
+  });
+
+  // pg-mem's node-postgres adapter rejects two options drizzle passes: custom type parsers,
+  // which it does not need as it returns JS values already, and rows as arrays, done here instead
+  const { Pool, Client } = db.adapters.createPg();
+  for (const adapter of [Pool, Client]) {
+    const query = adapter.prototype.query;
+    adapter.prototype.query = async function (config: unknown, values?: unknown[]) {
+      const { types: _types, rowMode, text, ...options } = typeof config === "object" ? config as Record<string, unknown> : { text: config };
+      const rewritten = String(text)
+        .replace(/("\w+"\."\w+") <=> (\$\d+)/g, "cosine_distance($1, $2)")
+        // pg-mem gets integer minus float wrong, as in the similarity `1 - (distance)`
+        .replace(/\b1 - \(cosine_distance/g, "1.0 - (cosine_distance");
+      const result = await query.call(this, { ...options, text: rewritten }, values);
+      return rowMode === "array" ? { ...result, rows: result.rows.map((row: object) => Object.values(row)) } : result;
+    };
+  }
+  const pool = new Pool();
+  await ensureExtensions(pool);
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await pool.query(statement);
+  }
+  return drizzle({ client: pool, schema });
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DrizzleStorage", async () => new DrizzleStorage(await createTestDatabase(), new session.MemoryStore())],
+];
+
+// The same expectations for every backend, so memory storage stays a faithful stand-in for Postgres
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+  });
+
+  async function createUser(username = "ada") {
+    return await storage.createUser({ username, email: `${username}@example.com`, password: "hash" });
+  }
+
+  async function createSet(userId: string) {
+    return await storage.createFlashcardSet({ userId, title: "Cells" });
+  }
+
+  describe("users", () => {
+    it("fills in defaults and finds users by ID, email and username", async () => {
+      const user = await createUser();
+
+      expect(user).toMatchObject({ schedulerAlgorithm: "sm2", timezone: "UTC", newCardsPerDay: 20, reviewsPerDay: 200, spotifyAccessToken: null });
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByEmail("ada@example.com")).toEqual(user);
+      expect(await storage.getUserByUsername("ada")).toEqual(user);
+      expect(await storage.getUser("missing")).toBeUndefined();
+    });
+
+    it("updates a user", async () => {
+      const user = await createUser();
+
+      expect(await storage.updateUser(user.id, { timezone: "Europe/Paris" })).toMatchObject({ id: user.id, timezone: "Europe/Paris" });
+      expect(await storage.updateUser("missing", { timezone: "Europe/Paris" })).toBeUndefined();
+    });
+  });
+
+  describe("documents and notes", () => {
+    it("lists only the user's documents", async () => {
+      const ada = await createUser("ada");
+      const bob = await createUser("bob");
+      const document = await storage.createDocument({ userId: ada.id, title: "Biology", type: "txt", content: "Cells" });
+      await storage.createDocument({ userId: bob.id, title: "History", type: "txt", content: "Rome" });
+
+      expect(document).toMatchObject({ metadata: null, originalUrl: null });
+      expect(await storage.getDocumentsByUser(ada.id)).toEqual([document]);
+    });
+
+    it("deletes a document along with its chunks", async () => {
+      const user = await createUser();
+      const document = await storage.createDocument({ userId: user.id, title: "Biology", type: "txt", content: "Cells" });
+      await storage.replaceChunks({ documentId: document.id }, [
+        { documentId: document.id, chunkIndex: 0, content: "Cells", startOffset: 0, endOffset: 5, embeddingModel: "test", embedding: [1, 0] },
+      ]);
+
+      expect(await storage.deleteDocument(document.id)).toBe(true);
+      expect(await storage.getDocument(document.id)).toBeUndefined();
+      expect(await storage.getChunks({ documentId: document.id })).toEqual([]);
+      expect(await storage.deleteDocument(document.id)).toBe(false);
+    });
+
+    it("finds notes by user and document and moves updatedAt on update", async () => {
+      const user = await createUser();
+      const document = await storage.createDocument({ userId: user.id, title: "Biology", type: "txt", content: "Cells" });
+      const note = await storage.createNote({ userId: user.id, documentId: document.id, title: "Cells", content: "Notes", tags: ["bio"] });
+      const loose = await storage.createNote({ userId: user.id, title: "Loose", content: "Notes" });
+
+      expect(note).toMatchObject({ subject: null, tags: ["bio"], wordCount: 0 });
+      expect(loose.documentId).toBeNull();
+      expect(await storage.getNotesByDocument(document.id)).toEqual([note]);
+      expect((await storage.getNotesByUser(user.id)).map((n) => n.id).sort()).toEqual([note.id, loose.id].sort());
+
+      const updated = await storage.updateNote(note.id, { content: "More notes" });
+      expect(updated).toMatchObject({ content: "More notes", title: "Cells" });
+      expect(updated!.updatedAt!.getTime()).toBeGreaterThanOrEqual(note.updatedAt!.getTime());
+      expect(await storage.deleteNote(note.id)).toBe(true);
+      expect(await storage.getNote(note.id)).toBeUndefined();
+    });
+  });
+
+  describe("flashcards", () => {
+    it("appends cards in order and keeps the set's card count", async () => {
+      const user = await createUser();
+      const set = await createSet(user.id);
+      const first = await storage.createFlashcard({ setId: set.id, question: "Q1", answer: "A1" });
+      const second = await storage.createFlashcard({ setId: set.id, question: "Q2", answer: "A2" });
+
+      expect(set.cardCount).toBe(0);
+      expect(first).toMatchObject({ position: 0, cardType: "basic", ordinal: 0, repetitions: 0, easinessFactor: 250, stability: null, nextReview: null });
+      expect(second.position).toBe(1);
+      expect((await storage.getFlashcardSet(set.id))!.cardCount).toBe(2);
+
+      expect(await storage.deleteFlashcard(first.id)).toBe(true);
+      expect((await storage.getFlashcardSet(set.id))!.cardCount).toBe(1);
+      expect(await storage.deleteFlashcard(first.id)).toBe(false);
+    });
+
+    it("keeps siblings together, ordered by ordinal", async () => {
+      const user = await createUser();
+      const set = await createSet(user.id);
+      const reverse = await storage.createFlashcard({ setId: set.id, question: "B", answer: "A", cardType: "reversible", groupId: "g", ordinal: 1, position: 0 });
+      const forward = await storage.createFlashcard({ setId: set.id, question: "A", answer: "B", cardType: "reversible", groupId: "g", ordinal: 0, position: 0 });
+
+      expect((await storage.getFlashcardsBySet(set.id)).map((card) => card.id)).toEqual([forward.id, reverse.id]);
+    });
+
+    it("reorders a set's cards, ignoring cards from other sets", async () => {
+      const user = await createUser();
+      const set = await createSet(user.id);
+      const other = await createSet(user.id);
+      const a = await storage.createFlashcard({ setId: set.id, question: "A", answer: "1" });
+      const b = await storage.createFlashcard({ setId: set.id, question: "B", answer: "2" });
+      const c = await storage.createFlashcard({ setId: set.id, question: "C", answer: "3" });
+      const stray = await storage.createFlashcard({ setId: other.id, question: "D", answer: "4" });
+
+      const reordered = await storage.reorderFlashcards(set.id, [c.id, stray.id, a.id, b.id]);
+
+      expect(reordered.map((card) => card.id)).toEqual([c.id, a.id, b.id]);
+      expect((await storage.getFlashcard(stray.id))!.position).toBe(0);
+    });
+
+    it("lists every card in the user's sets", async () => {
+      const ada = await createUser("ada");
+      const bob = await createUser("bob");
+      const card = await storage.createFlashcard({ setId: (await createSet(ada.id)).id, question: "Q", answer: "A" });
+      await storage.createFlashcard({ setId: (await createSet(bob.id)).id, question: "Q", answer: "A" });
+
+      expect((await storage.getFlashcardsByUser(ada.id)).map((c) => c.id)).toEqual([card.id]);
+    });
+
+    it("deletes a set with its cards", async () => {
+      const user = await createUser();
+      const set = await createSet(user.id);
+      const card = await storage.createFlashcard({ setId: set.id, question: "Q", answer: "A" });
+
+      expect(await storage.deleteFlashcardSet(set.id)).toBe(true);
+      expect(await storage.getFlashcardSet(set.id)).toBeUndefined();
+      expect(await storage.getFlashcard(card.id)).toBeUndefined();
+      expect(await storage.deleteFlashcardSet(set.id)).toBe(false);
+    });
+
+    it("updates scheduling fields", async () => {
+      const user = await createUser();
+      const card = await storage.createFlashcard({ setId: (await createSet(user.id)).id, question: "Q", answer: "A" });
+      const nextReview = new Date("2030-01-02T00:00:00Z");
+
+      expect(await storage.updateFlashcard(card.id, { intervalDays: 3, stability: 2.5, nextReview })).toMatchObject({ intervalDays: 3, stability: 2.5, nextReview });
+      expect(await storage.updateFlashcard("missing", { intervalDays: 3 })).toBeUndefined();
+    });
+  });
+
+  describe("review logs", () => {
+    it("returns a user's logs oldest first, optionally since a time", async () => {
+      const user = await createUser();
+      const base = { userId: user.id, cardId: "card", setId: "set", grade: "good" };
+      const later = await storage.createReviewLog({ ...base, reviewedAt: new Date("2030-01-02T00:00:00Z") });
+      const earlier = await storage.createReviewLog({ ...base, reviewedAt: new Date("2030-01-01T00:00:00Z"), wasNew: true });
+
+      expect(earlier).toMatchObject({ wasNew: true, responseTimeMs: null, intervalDays: null });
+      expect((await storage.getReviewLogsByUser(user.id)).map((log) => log.id)).toEqual([earlier.id, later.id]);
+      expect((await storage.getReviewLogsByUser(user.id, new Date("2030-01-02T00:00:00Z"))).map((log) => log.id)).toEqual([later.id]);
+      expect(await storage.getReviewLogsByUser("someone-else")).toEqual([]);
+    });
+
+    it("deletes a set's logs, leaving other sets' alone", async () => {
+      const user = await createUser();
+      const base = { userId: user.id, cardId: "card", grade: "good" };
+      await storage.createReviewLog({ ...base, setId: "imported" });
+      await storage.createReviewLog({ ...base, setId: "imported" });
+      const kept = await storage.createReviewLog({ ...base, setId: "studied" });
+
+      expect(await storage.deleteReviewLogsBySet("imported")).toBe(2);
+      expect((await storage.getReviewLogsByUser(user.id)).map((log) => log.id)).toEqual([kept.id]);
+    });
+  });
+
+  describe("quizzes", () => {
+    it("creates attempts in progress and records their submission", async () => {
+      const user = await createUser();
+      const quiz = await storage.createQuiz({ userId: user.id, title: "Cells", questions: [] });
+      const deadline = new Date("2030-01-01T00:10:00Z");
+      const attempt = await storage.createQuizAttempt({ userId: user.id, quizId: quiz.id, answers: [], score: 0, totalQuestions: 2, deadline });
+
+      expect(quiz).toMatchObject({ documentId: null, timeLimit: null });
+      expect(attempt).toMatchObject({ completedAt: null, results: null, correctCount: 0, timeSpent: null, deadline });
+      expect(attempt.startedAt).toBeInstanceOf(Date);
+
+      const completedAt = new Date("2030-01-01T00:05:00Z");
+      const submitted = await storage.updateQuizAttempt(attempt.id, { answers: [0, 1], score: 50, correctCount: 1, completedAt });
+      expect(submitted).toMatchObject({ answers: [0, 1], score: 50, correctCount: 1, completedAt });
+      expect(await storage.getQuizAttempt(attempt.id)).toEqual(submitted);
+      expect(await storage.getQuizAttemptsByQuiz(quiz.id)).toEqual([submitted]);
+      expect(await storage.getQuizAttemptsByUser(user.id)).toEqual([submitted]);
+    });
+
+    it("claims an attempt only while it is unsubmitted", async () => {
+      const user = await createUser();
+      const quiz = await storage.createQuiz({ userId: user.id, title: "Cells", questions: [] });
+      const attempt = await storage.createQuizAttempt({ userId: user.id, quizId: quiz.id, answers: [], score: 0, totalQuestions: 2 });
+
+      const completedAt = new Date("2030-01-01T00:05:00Z");
+      const claimed = await storage.claimQuizAttempt(attempt.id, { answers: [0, 1], completedAt });
+      expect(claimed).toMatchObject({ answers: [0, 1], completedAt });
+      expect(await storage.claimQuizAttempt(attempt.id, { answers: [1, 1], completedAt: new Date() })).toBeUndefined();
+      expect(await storage.getQuizAttempt(attempt.id)).toEqual(claimed);
+    });
+
+    it("changes an attempt from its stored state, leaving it alone when the change throws", async () => {
+      const user = await createUser();
+      const quiz = await storage.createQuiz({ userId: user.id, title: "Cells", questions: [] });
+      const attempt = await storage.createQuizAttempt({ userId: user.id, quizId: quiz.id, answers: [], score: 0, totalQuestions: 2 });
+      await storage.updateQuizAttempt(attempt.id, { score: 50 });
+
+      const changed = await storage.changeQuizAttempt(attempt.id, (current) => ({ score: current.score + 25 }));
+      expect(changed).toMatchObject({ score: 75 });
+      await expect(storage.changeQuizAttempt(attempt.id, () => { throw new Error("Already appealed"); })).rejects.toThrow("Already appealed");
+      expect(await storage.getQuizAttempt(attempt.id)).toEqual(changed);
+      expect(await storage.changeQuizAttempt("missing", () => ({ score: 0 }))).toBeUndefined();
+    });
+  });
+
+  describe("chat", () => {
+    it("lists threads most recently active first and deletes their messages with them", async () => {
+      const user = await createUser();
+      const older = await storage.createChatThread({ userId: user.id, title: "Older" });
+      const newer = await storage.createChatThread({ userId: user.id, title: "Newer" });
+      await storage.createChatMessage({ userId: user.id, threadId: older.id, message: "Hi", response: "Hello" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await storage.updateChatThread(older.id, { title: "Older, renamed" });
+
+      expect((await storage.getChatThreadsByUser(user.id)).map((thread) => thread.id)).toEqual([older.id, newer.id]);
+      expect(await storage.deleteChatThread(older.id)).toBe(true);
+      expect(await storage.getChatMessagesByThread(older.id)).toEqual([]);
+      expect(await storage.deleteChatThread(older.id)).toBe(false);
+    });
+
+    it("moves a document's unthreaded messages into a thread", async () => {
+      const user = await createUser();
+      const document = await storage.createDocument({ userId: user.id, title: "Biology", type: "txt", content: "Cells" });
+      const thread = await storage.createChatThread({ userId: user.id, documentId: document.id, title: "Biology" });
+      await storage.createChatMessage({ userId: user.id, documentId: document.id, message: "Hi", response: "Hello" });
+      await storage.createChatMessage({ userId: user.id, documentId: document.id, threadId: thread.id, message: "Again", response: "Hello again" });
+
+      expect(await storage.assignUnthreadedChatMessages(document.id, thread.id)).toBe(1);
+      expect(await storage.getChatMessagesByThread(thread.id)).toHaveLength(2);
+      expect(await storage.getChatThreadsByDocument(document.id)).toHaveLength(1);
+    });
+  });
+
+  describe("chunks", () => {
+    const chunk = (source: { documentId: string } | { noteId: string }, chunkIndex: number, embedding: number[], embeddingModel = "test") => ({
+      ...source, chunkIndex, content: `chunk ${chunkIndex}`, startOffset: chunkIndex * 10, endOffset: chunkIndex * 10 + 10, embeddingModel, embedding,
+    });
+
+    it("replaces a source's chunks and returns them in order", async () => {
+      const source = { documentId: "doc" };
+      await storage.replaceChunks(source, [chunk(source, 0, [1, 0])]);
+      const chunks = await storage.replaceChunks(source, [chunk(source, 1, [0, 1]), chunk(source, 0, [1, 0])]);
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0]).toMatchObject({ noteId: null, page: null, startTime: null });
+      expect((await storage.getChunks(source)).map((c) => [c.chunkIndex, c.embedding])).toEqual([[0, [1, 0]], [1, [0, 1]]]);
+      expect(await storage.replaceChunks(source, [])).toEqual([]);
+      expect(await storage.getChunks(source)).toEqual([]);
+    });
+
+    it("searches the given sources by cosine similarity within one embedding model", async () => {
+      await storage.replaceChunks({ documentId: "doc" }, [chunk({ documentId: "doc" }, 0, [1, 0]), chunk({ documentId: "doc" }, 1, [0, 1])]);
+      await storage.replaceChunks({ noteId: "note" }, [chunk({ noteId: "note" }, 0, [0.8, 0.6])]);
+      await storage.replaceChunks({ documentId: "other" }, [chunk({ documentId: "other" }, 0, [1, 0])]);
+      await storage.replaceChunks({ documentId: "old" }, [chunk({ documentId: "old" }, 0, [1, 0], "older-model")]);
+
+      const results = await storage.searchChunks({ documentIds: ["doc", "old"], noteIds: ["note"] }, [1, 0], "test", 2);
+
+      expect(results.map((result) => [result.documentId ?? result.noteId, result.chunkIndex])).toEqual([["doc", 0], ["note", 0]]);
+      expect(results[0].score).toBeCloseTo(1);
+      expect(results[1].score).toBeCloseTo(0.8);
+      expect(await storage.searchChunks({ documentIds: [], noteIds: [] }, [1, 0], "test", 2)).toEqual([]);
+    });
+  });
+
+  describe("jobs", () => {
+    it("fills in defaults and lists the unfinished ones", async () => {
+      const user = await createUser();
+      const queued = await storage.createJob({ userId: user.id, type: "generate-notes", input: { documentId: "doc" } });
+      const finished = await storage.createJob({ userId: user.id, type: "generate-quiz", input: {}, status: "succeeded" });
+
+      expect(queued).toMatchObject({ status: "queued", progress: 0, attempts: 0, maxAttempts: 3, result: null, startedAt: null });
+      expect((await storage.getJobsByUser(user.id)).map((job) => job.id).sort()).toEqual([queued.id, finished.id].sort());
+      expect((await storage.getUnfinishedJobs()).map((job) => job.id)).toEqual([queued.id]);
+
+      await storage.updateJob(queued.id, { status: "failed", error: "Boom" });
+      expect(await storage.getUnfinishedJobs()).toEqual([]);
+      expect(await storage.getJob(queued.id)).toMatchObject({ status: "failed", error: "Boom" });
+    });
+  });
+});
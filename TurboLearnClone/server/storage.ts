@@ -1,10 +1,24 @@
-import { type User, type InsertUser, type Document, type InsertDocument, type Note, type InsertNote, type FlashcardSet, type InsertFlashcardSet, type Flashcard, type InsertFlashcard, type Quiz, type InsertQuiz, type QuizAttempt, type InsertQuizAttempt, type ChatMessage, type InsertChatMessage } from "@shared/schema";
+import { type User, type InsertUser, type Document, type InsertDocument, type Note, type InsertNote, type FlashcardSet, type InsertFlashcardSet, type Flashcard, type InsertFlashcard, type Quiz, type InsertQuiz, type QuizAttempt, type InsertQuizAttempt, type ReviewLog, type InsertReviewLog, type ChatThread, type InsertChatThread, type ChatMessage, type InsertChatMessage, type Job, type InsertJob, type DocumentChunk, type InsertDocumentChunk, type ScoredDocumentChunk } from "@shared/schema";
+import * as schema from "@shared/schema";
+import { users, documents, notes, flashcardSets, flashcards, reviewLogs, quizzes, quizAttempts, chatThreads, chatMessages, jobs, documentChunks } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, cosineDistance, desc, eq, gte, inArray, isNull, or, sql } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { createPool, createDb } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
 
@@ -26,20 +40,94 @@ export interface IStorage {
   getFlashcardSet(id: string): Promise<FlashcardSet | undefined>;
   getFlashcardSetsByUser(userId: string): Promise<FlashcardSet[]>;
   createFlashcardSet(set: InsertFlashcardSet): Promise<FlashcardSet>;
+  updateFlashcardSet(id: string, updates: Partial<FlashcardSet>): Promise<FlashcardSet | undefined>;
+  // Removes the set and its cards; review logs stay as study history
+  deleteFlashcardSet(id: string): Promise<boolean>;
+  getFlashcard(id: string): Promise<Flashcard | undefined>;
+  // In set order
   getFlashcardsBySet(setId: string): Promise<Flashcard[]>;
+  // Every card in every set the user owns
+  getFlashcardsByUser(userId: string): Promise<Flashcard[]>;
+  // Cards without a position go to the end of the set. Adding and deleting cards keeps the set's cardCount current
   createFlashcard(card: InsertFlashcard): Promise<Flashcard>;
   updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<Flashcard | undefined>;
+  deleteFlashcard(id: string): Promise<boolean>;
+  // Renumbers the set's cards in the order given
+  reorderFlashcards(setId: string, cardIds: string[]): Promise<Flashcard[]>;
+
+  // Review log methods
+  createReviewLog(log: InsertReviewLog): Promise<ReviewLog>;
+  // Oldest first; `since` limits it to reviews at or after that time
+  getReviewLogsByUser(userId: string, since?: Date): Promise<ReviewLog[]>;
+  // Reviews stay when their set is deleted, so history keeps counting; this removes them too
+  deleteReviewLogsBySet(setId: string): Promise<number>;
 
   // Quiz methods
   getQuiz(id: string): Promise<Quiz | undefined>;
   getQuizzesByUser(userId: string): Promise<Quiz[]>;
   createQuiz(quiz: InsertQuiz): Promise<Quiz>;
+  getQuizAttempt(id: string): Promise<QuizAttempt | undefined>;
   getQuizAttemptsByUser(userId: string): Promise<QuizAttempt[]>;
+  getQuizAttemptsByQuiz(quizId: string): Promise<QuizAttempt[]>;
   createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt>;
+  updateQuizAttempt(id: string, updates: Partial<QuizAttempt>): Promise<QuizAttempt | undefined>;
+  // Applies the updates only while the attempt is unsubmitted (no completedAt), as one atomic step; undefined if it was already submitted
+  claimQuizAttempt(id: string, updates: Partial<QuizAttempt>): Promise<QuizAttempt | undefined>;
+  // Applies the updates `change` makes from the attempt as currently stored, with the row locked so concurrent changes take turns
+  changeQuizAttempt(id: string, change: (attempt: QuizAttempt) => Partial<QuizAttempt>): Promise<QuizAttempt | undefined>;
 
   // Chat methods
+  getChatThread(id: string): Promise<ChatThread | undefined>;
+  // Most recently active first
+  getChatThreadsByUser(userId: string): Promise<ChatThread[]>;
+  getChatThreadsByDocument(documentId: string): Promise<ChatThread[]>;
+  createChatThread(thread: InsertChatThread): Promise<ChatThread>;
+  updateChatThread(id: string, updates: Partial<ChatThread>): Promise<ChatThread | undefined>;
+  // Also deletes the thread's messages
+  deleteChatThread(id: string): Promise<boolean>;
   getChatMessagesByDocument(documentId: string): Promise<ChatMessage[]>;
+  getChatMessagesByThread(threadId: string): Promise<ChatMessage[]>;
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  deleteChatMessagesByThread(threadId: string): Promise<number>;
+  // Moves a document's messages from before threads existed into `threadId`
+  assignUnthreadedChatMessages(documentId: string, threadId: string): Promise<number>;
+
+  // Chunk methods (passages of documents and notes, for retrieval)
+  getChunks(source: ChunkSource): Promise<DocumentChunk[]>;
+  replaceChunks(source: ChunkSource, chunks: InsertDocumentChunk[]): Promise<DocumentChunk[]>;
+  // Nearest chunks by cosine similarity, among those embedded with `embeddingModel`
+  searchChunks(sources: ChunkSources, embedding: number[], embeddingModel: string, limit: number): Promise<ScoredDocumentChunk[]>;
+
+  // Job methods
+  getJob(id: string): Promise<Job | undefined>;
+  getJobsByUser(userId: string): Promise<Job[]>;
+  getUnfinishedJobs(): Promise<Job[]>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined>;
+}
+
+export type ChunkSource = { documentId: string } | { noteId: string };
+export interface ChunkSources {
+  documentIds: string[];
+  noteIds: string[];
+}
+
+const UNFINISHED_JOB_STATUSES = ["queued", "running"];
+
+function isFromSource(chunk: DocumentChunk, source: ChunkSource): boolean {
+  return "documentId" in source ? chunk.documentId === source.documentId : chunk.noteId === source.noteId;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
 }
 
 export class MemStorage implements IStorage {
@@ -48,9 +136,17 @@ export class MemStorage implements IStorage {
   private notes: Map<string, Note> = new Map();
   private flashcardSets: Map<string, FlashcardSet> = new Map();
   private flashcards: Map<string, Flashcard> = new Map();
+  private reviewLogs: Map<string, ReviewLog> = new Map();
   private quizzes: Map<string, Quiz> = new Map();
   private quizAttempts: Map<string, QuizAttempt> = new Map();
+  private chatThreads: Map<string, ChatThread> = new Map();
   private chatMessages: Map<string, ChatMessage> = new Map();
+  private jobs: Map<string, Job> = new Map();
+  private documentChunks: Map<string, DocumentChunk> = new Map();
+
+  sessionStore: session.Store = new MemoryStore({
+    checkPeriod: 86400000, // prune expired sessions once a day
+  });
 
   // User methods
   async getUser(id: string): Promise<User | undefined> {
@@ -61,6 +157,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.email === email);
   }
 
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
     const user: User = { 
@@ -68,7 +168,11 @@ export class MemStorage implements IStorage {
       id, 
       createdAt: new Date(),
       spotifyAccessToken: null,
-      spotifyRefreshToken: null
+      spotifyRefreshToken: null,
+      schedulerAlgorithm: insertUser.schedulerAlgorithm || "sm2",
+      timezone: insertUser.timezone || "UTC",
+      newCardsPerDay: insertUser.newCardsPerDay ?? 20,
+      reviewsPerDay: insertUser.reviewsPerDay ?? 200
     };
     this.users.set(id, user);
     return user;
@@ -106,6 +210,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteDocument(id: string): Promise<boolean> {
+    await this.replaceChunks({ documentId: id }, []);
     return this.documents.delete(id);
   }
 
@@ -149,6 +254,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteNote(id: string): Promise<boolean> {
+    await this.replaceChunks({ noteId: id }, []);
     return this.notes.delete(id);
   }
 
@@ -169,28 +275,76 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       documentId: insertSet.documentId || null,
       description: insertSet.description || null,
-      cardCount: insertSet.cardCount || 0
+      cardCount: 0
     };
     this.flashcardSets.set(id, set);
     return set;
   }
 
+  async updateFlashcardSet(id: string, updates: Partial<FlashcardSet>): Promise<FlashcardSet | undefined> {
+    const set = this.flashcardSets.get(id);
+    if (!set) return undefined;
+
+    const updatedSet = { ...set, ...updates };
+    this.flashcardSets.set(id, updatedSet);
+    return updatedSet;
+  }
+
+  async deleteFlashcardSet(id: string): Promise<boolean> {
+    for (const card of await this.getFlashcardsBySet(id)) {
+      this.flashcards.delete(card.id);
+    }
+    return this.flashcardSets.delete(id);
+  }
+
+  async getFlashcard(id: string): Promise<Flashcard | undefined> {
+    return this.flashcards.get(id);
+  }
+
   async getFlashcardsBySet(setId: string): Promise<Flashcard[]> {
-    return Array.from(this.flashcards.values()).filter(card => card.setId === setId);
+    return Array.from(this.flashcards.values())
+      .filter(card => card.setId === setId)
+      .sort((a, b) => a.position - b.position || a.ordinal - b.ordinal);
+  }
+
+  async getFlashcardsByUser(userId: string): Promise<Flashcard[]> {
+    const setIds = new Set((await this.getFlashcardSetsByUser(userId)).map(set => set.id));
+    return Array.from(this.flashcards.values())
+      .filter(card => setIds.has(card.setId))
+      .sort((a, b) => a.position - b.position || a.ordinal - b.ordinal);
+  }
+
+  private refreshCardCount(setId: string) {
+    const set = this.flashcardSets.get(setId);
+    if (set) {
+      const cardCount = Array.from(this.flashcards.values()).filter(card => card.setId === setId).length;
+      this.flashcardSets.set(setId, { ...set, cardCount });
+    }
   }
 
   async createFlashcard(insertCard: InsertFlashcard): Promise<Flashcard> {
     const id = randomUUID();
+    const siblings = await this.getFlashcardsBySet(insertCard.setId);
     const card: Flashcard = { 
       ...insertCard, 
       id,
+      position: insertCard.position ?? (siblings.length > 0 ? siblings[siblings.length - 1].position + 1 : 0),
+      cardType: insertCard.cardType || "basic",
+      groupId: insertCard.groupId || null,
+      ordinal: insertCard.ordinal || 0,
       difficulty: insertCard.difficulty || "medium",
+      firstReviewed: insertCard.firstReviewed || null,
       lastReviewed: insertCard.lastReviewed || null,
       nextReview: insertCard.nextReview || null,
       repetitions: insertCard.repetitions || 0,
-      easinessFactor: insertCard.easinessFactor || 250
+      easinessFactor: insertCard.easinessFactor || 250,
+      intervalDays: insertCard.intervalDays || 0,
+      lapses: insertCard.lapses || 0,
+      stability: insertCard.stability ?? null,
+      memoryDifficulty: insertCard.memoryDifficulty ?? null
     };
     this.flashcards.set(id, card);
+    this.refreshCardCount(card.setId);
     return card;
   }
 
@@ -202,6 +356,50 @@ export class MemStorage implements IStorage {
     this.flashcards.set(id, updatedCard);
     return updatedCard;
   }
+  async deleteFlashcard(id: string): Promise<boolean> {
+    const card = this.flashcards.get(id);
+    if (!card) return false;
+    this.flashcards.delete(id);
+    this.refreshCardCount(card.setId);
+    return true;
+  }
+
+  async reorderFlashcards(setId: string, cardIds: string[]): Promise<Flashcard[]> {
+    cardIds.forEach((cardId, position) => {
+      const card = this.flashcards.get(cardId);
+      if (card && card.setId === setId) this.flashcards.set(cardId, { ...card, position });
+    });
+    return this.getFlashcardsBySet(setId);
+  }
+
+
+  // Review log methods
+  async createReviewLog(insertLog: InsertReviewLog): Promise<ReviewLog> {
+    const id = randomUUID();
+    const log: ReviewLog = {
+      ...insertLog,
+      id,
+      wasNew: insertLog.wasNew ?? false,
+      responseTimeMs: insertLog.responseTimeMs ?? null,
+      intervalDays: insertLog.intervalDays ?? null,
+      previousIntervalDays: insertLog.previousIntervalDays ?? null,
+      reviewedAt: insertLog.reviewedAt || new Date()
+    };
+    this.reviewLogs.set(id, log);
+    return log;
+  }
+
+  async getReviewLogsByUser(userId: string, since?: Date): Promise<ReviewLog[]> {
+    return Array.from(this.reviewLogs.values())
+      .filter(log => log.userId === userId && (!since || log.reviewedAt! >= since))
+      .sort((a, b) => a.reviewedAt!.getTime() - b.reviewedAt!.getTime());
+  }
+
+  async deleteReviewLogsBySet(setId: string): Promise<number> {
+    const logs = Array.from(this.reviewLogs.values()).filter(log => log.setId === setId);
+    logs.forEach(log => this.reviewLogs.delete(log.id));
+    return logs.length;
+  }
 
   // Quiz methods
   async getQuiz(id: string): Promise<Quiz | undefined> {
@@ -226,38 +424,602 @@ export class MemStorage implements IStorage {
     return quiz;
   }
 
+  async getQuizAttempt(id: string): Promise<QuizAttempt | undefined> {
+    return this.quizAttempts.get(id);
+  }
+
   async getQuizAttemptsByUser(userId: string): Promise<QuizAttempt[]> {
     return Array.from(this.quizAttempts.values()).filter(attempt => attempt.userId === userId);
   }
 
+  async getQuizAttemptsByQuiz(quizId: string): Promise<QuizAttempt[]> {
+    return Array.from(this.quizAttempts.values()).filter(attempt => attempt.quizId === quizId);
+  }
+
   async createQuizAttempt(insertAttempt: InsertQuizAttempt): Promise<QuizAttempt> {
     const id = randomUUID();
     const attempt: QuizAttempt = { 
       ...insertAttempt, 
       id, 
-      completedAt: new Date(),
-      timeSpent: insertAttempt.timeSpent || null
+      timeSpent: insertAttempt.timeSpent || null,
+      results: insertAttempt.results ?? null,
+      correctCount: insertAttempt.correctCount ?? 0,
+      startedAt: insertAttempt.startedAt || new Date(),
+      deadline: insertAttempt.deadline || null,
+      completedAt: null
     };
     this.quizAttempts.set(id, attempt);
     return attempt;
   }
 
+  async updateQuizAttempt(id: string, updates: Partial<QuizAttempt>): Promise<QuizAttempt | undefined> {
+    const attempt = this.quizAttempts.get(id);
+    if (!attempt) return undefined;
+
+    const updatedAttempt = { ...attempt, ...updates };
+    this.quizAttempts.set(id, updatedAttempt);
+    return updatedAttempt;
+  }
+
+  async claimQuizAttempt(id: string, updates: Partial<QuizAttempt>): Promise<QuizAttempt | undefined> {
+    const attempt = this.quizAttempts.get(id);
+    if (!attempt || attempt.completedAt) return undefined;
+    return this.updateQuizAttempt(id, updates);
+  }
+
+  async changeQuizAttempt(id: string, change: (attempt: QuizAttempt) => Partial<QuizAttempt>): Promise<QuizAttempt | undefined> {
+    const attempt = this.quizAttempts.get(id);
+    if (!attempt) return undefined;
+    return this.updateQuizAttempt(id, change(attempt));
+  }
+
   // Chat methods
+  async getChatThread(id: string): Promise<ChatThread | undefined> {
+    return this.chatThreads.get(id);
+  }
+
+  async getChatThreadsByUser(userId: string): Promise<ChatThread[]> {
+    return Array.from(this.chatThreads.values())
+      .filter(thread => thread.userId === userId)
+      .sort((a, b) => b.updatedAt!.getTime() - a.updatedAt!.getTime());
+  }
+
+  async getChatThreadsByDocument(documentId: string): Promise<ChatThread[]> {
+    return Array.from(this.chatThreads.values())
+      .filter(thread => thread.documentId === documentId)
+      .sort((a, b) => b.updatedAt!.getTime() - a.updatedAt!.getTime());
+  }
+
+  async createChatThread(insertThread: InsertChatThread): Promise<ChatThread> {
+    const id = randomUUID();
+    const now = new Date();
+    const thread: ChatThread = {
+      ...insertThread,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      documentId: insertThread.documentId || null,
+      scope: insertThread.scope || null
+    };
+    this.chatThreads.set(id, thread);
+    return thread;
+  }
+
+  async updateChatThread(id: string, updates: Partial<ChatThread>): Promise<ChatThread | undefined> {
+    const thread = this.chatThreads.get(id);
+    if (!thread) return undefined;
+
+    const updatedThread = { ...thread, ...updates, updatedAt: new Date() };
+    this.chatThreads.set(id, updatedThread);
+    return updatedThread;
+  }
+
+  async deleteChatThread(id: string): Promise<boolean> {
+    await this.deleteChatMessagesByThread(id);
+    return this.chatThreads.delete(id);
+  }
+
   async getChatMessagesByDocument(documentId: string): Promise<ChatMessage[]> {
     return Array.from(this.chatMessages.values()).filter(msg => msg.documentId === documentId);
   }
 
+  async getChatMessagesByThread(threadId: string): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values()).filter(msg => msg.threadId === threadId);
+  }
+
+  async deleteChatMessagesByThread(threadId: string): Promise<number> {
+    const messages = await this.getChatMessagesByThread(threadId);
+    messages.forEach(msg => this.chatMessages.delete(msg.id));
+    return messages.length;
+  }
+
+  async assignUnthreadedChatMessages(documentId: string, threadId: string): Promise<number> {
+    const messages = Array.from(this.chatMessages.values()).filter(msg => msg.documentId === documentId && !msg.threadId);
+    messages.forEach(msg => this.chatMessages.set(msg.id, { ...msg, threadId }));
+    return messages.length;
+  }
+
   async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
     const id = randomUUID();
     const message: ChatMessage = { 
       ...insertMessage, 
       id, 
       createdAt: new Date(),
-      documentId: insertMessage.documentId || null
+      documentId: insertMessage.documentId || null,
+      threadId: insertMessage.threadId || null,
+      citations: insertMessage.citations || null
     };
     this.chatMessages.set(id, message);
     return message;
   }
+
+  // Chunk methods
+  async getChunks(source: ChunkSource): Promise<DocumentChunk[]> {
+    return Array.from(this.documentChunks.values())
+      .filter(chunk => isFromSource(chunk, source))
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async replaceChunks(source: ChunkSource, insertChunks: InsertDocumentChunk[]): Promise<DocumentChunk[]> {
+    for (const chunk of Array.from(this.documentChunks.values())) {
+      if (isFromSource(chunk, source)) this.documentChunks.delete(chunk.id);
+    }
+
+    return insertChunks.map((insertChunk) => {
+      const chunk: DocumentChunk = {
+        ...insertChunk,
+        id: randomUUID(),
+        createdAt: new Date(),
+        documentId: insertChunk.documentId ?? null,
+        noteId: insertChunk.noteId ?? null,
+        page: insertChunk.page ?? null,
+        startTime: insertChunk.startTime ?? null,
+        endTime: insertChunk.endTime ?? null
+      };
+      this.documentChunks.set(chunk.id, chunk);
+      return chunk;
+    });
+  }
+
+  // Brute force: fine for the document counts memory storage is meant for
+  async searchChunks({ documentIds, noteIds }: ChunkSources, embedding: number[], embeddingModel: string, limit: number): Promise<ScoredDocumentChunk[]> {
+    return Array.from(this.documentChunks.values())
+      .filter(chunk => chunk.embeddingModel === embeddingModel &&
+        ((chunk.documentId && documentIds.includes(chunk.documentId)) || (chunk.noteId && noteIds.includes(chunk.noteId))))
+      .map(chunk => ({ ...chunk, score: cosineSimilarity(chunk.embedding, embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Job methods
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobsByUser(userId: string): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.userId === userId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async getUnfinishedJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => UNFINISHED_JOB_STATUSES.includes(job.status));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = randomUUID();
+    const job: Job = {
+      ...insertJob,
+      id,
+      createdAt: new Date(),
+      status: insertJob.status || "queued",
+      result: insertJob.result || null,
+      checkpoint: insertJob.checkpoint || null,
+      error: insertJob.error || null,
+      stage: insertJob.stage || null,
+      progress: insertJob.progress || 0,
+      attempts: insertJob.attempts || 0,
+      maxAttempts: insertJob.maxAttempts || 3,
+      startedAt: insertJob.startedAt || null,
+      finishedAt: insertJob.finishedAt || null
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(
+    private db: PgDatabase<PgQueryResultHKT, typeof schema>,
+    public sessionStore: session.Store,
+  ) {}
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Document methods
+  async getDocument(id: string): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentsByUser(userId: string): Promise<Document[]> {
+    return await this.db.select().from(documents).where(eq(documents.userId, userId)).orderBy(asc(documents.createdAt));
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    const [document] = await this.db.insert(documents).values(insertDocument).returning();
+    return document;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    await this.db.delete(documentChunks).where(eq(documentChunks.documentId, id));
+    const deleted = await this.db.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+
+  // Note methods
+  async getNote(id: string): Promise<Note | undefined> {
+    const [note] = await this.db.select().from(notes).where(eq(notes.id, id));
+    return note;
+  }
+
+  async getNotesByUser(userId: string): Promise<Note[]> {
+    return await this.db.select().from(notes).where(eq(notes.userId, userId)).orderBy(asc(notes.createdAt));
+  }
+
+  async getNotesByDocument(documentId: string): Promise<Note[]> {
+    return await this.db.select().from(notes).where(eq(notes.documentId, documentId)).orderBy(asc(notes.createdAt));
+  }
+
+  async createNote(insertNote: InsertNote): Promise<Note> {
+    const [note] = await this.db.insert(notes).values(insertNote).returning();
+    return note;
+  }
+
+  async updateNote(id: string, updates: Partial<Note>): Promise<Note | undefined> {
+    const [note] = await this.db
+      .update(notes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(notes.id, id))
+      .returning();
+    return note;
+  }
+
+  async deleteNote(id: string): Promise<boolean> {
+    await this.db.delete(documentChunks).where(eq(documentChunks.noteId, id));
+    const deleted = await this.db.delete(notes).where(eq(notes.id, id)).returning({ id: notes.id });
+    return deleted.length > 0;
+  }
+
+  // Flashcard methods
+  async getFlashcardSet(id: string): Promise<FlashcardSet | undefined> {
+    const [set] = await this.db.select().from(flashcardSets).where(eq(flashcardSets.id, id));
+    return set;
+  }
+
+  async getFlashcardSetsByUser(userId: string): Promise<FlashcardSet[]> {
+    return await this.db.select().from(flashcardSets).where(eq(flashcardSets.userId, userId)).orderBy(asc(flashcardSets.createdAt));
+  }
+
+  async createFlashcardSet(insertSet: InsertFlashcardSet): Promise<FlashcardSet> {
+    const [set] = await this.db.insert(flashcardSets).values(insertSet).returning();
+    return set;
+  }
+
+  async updateFlashcardSet(id: string, updates: Partial<FlashcardSet>): Promise<FlashcardSet | undefined> {
+    const [set] = await this.db.update(flashcardSets).set(updates).where(eq(flashcardSets.id, id)).returning();
+    return set;
+  }
+
+  async deleteFlashcardSet(id: string): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(flashcards).where(eq(flashcards.setId, id));
+      const deleted = await tx.delete(flashcardSets).where(eq(flashcardSets.id, id)).returning({ id: flashcardSets.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getFlashcard(id: string): Promise<Flashcard | undefined> {
+    const [card] = await this.db.select().from(flashcards).where(eq(flashcards.id, id));
+    return card;
+  }
+
+  async getFlashcardsBySet(setId: string): Promise<Flashcard[]> {
+    return await this.db.select().from(flashcards).where(eq(flashcards.setId, setId)).orderBy(asc(flashcards.position), asc(flashcards.ordinal));
+  }
+
+  async getFlashcardsByUser(userId: string): Promise<Flashcard[]> {
+    const rows = await this.db
+      .select({ card: flashcards })
+      .from(flashcards)
+      .innerJoin(flashcardSets, eq(flashcards.setId, flashcardSets.id))
+      .where(eq(flashcardSets.userId, userId))
+      .orderBy(asc(flashcards.position), asc(flashcards.ordinal));
+    return rows.map(row => row.card);
+  }
+
+  private async refreshCardCount(setId: string) {
+    await this.db
+      .update(flashcardSets)
+      .set({ cardCount: sql`(select count(*) from ${flashcards} where ${flashcards.setId} = ${setId})` })
+      .where(eq(flashcardSets.id, setId));
+  }
+
+  async createFlashcard(insertCard: InsertFlashcard): Promise<Flashcard> {
+    const [card] = await this.db.insert(flashcards).values({
+      ...insertCard,
+      position: insertCard.position ?? sql`(select coalesce(max(${flashcards.position}) + 1, 0) from ${flashcards} where ${flashcards.setId} = ${insertCard.setId})`,
+    }).returning();
+    await this.refreshCardCount(card.setId);
+    return card;
+  }
+
+  async updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<Flashcard | undefined> {
+    const [card] = await this.db.update(flashcards).set(updates).where(eq(flashcards.id, id)).returning();
+    return card;
+  }
+  async deleteFlashcard(id: string): Promise<boolean> {
+    const [deleted] = await this.db.delete(flashcards).where(eq(flashcards.id, id)).returning({ setId: flashcards.setId });
+    if (!deleted) return false;
+    await this.refreshCardCount(deleted.setId);
+    return true;
+  }
+
+  async reorderFlashcards(setId: string, cardIds: string[]): Promise<Flashcard[]> {
+    await this.db.transaction(async (tx) => {
+      for (let position = 0; position < cardIds.length; position++) {
+        await tx.update(flashcards).set({ position }).where(and(eq(flashcards.id, cardIds[position]), eq(flashcards.setId, setId)));
+      }
+    });
+    return this.getFlashcardsBySet(setId);
+  }
+
+
+  // Review log methods
+  async createReviewLog(insertLog: InsertReviewLog): Promise<ReviewLog> {
+    const [log] = await this.db.insert(reviewLogs).values(insertLog).returning();
+    return log;
+  }
+
+  async getReviewLogsByUser(userId: string, since?: Date): Promise<ReviewLog[]> {
+    return await this.db
+      .select()
+      .from(reviewLogs)
+      .where(since ? and(eq(reviewLogs.userId, userId), gte(reviewLogs.reviewedAt, since)) : eq(reviewLogs.userId, userId))
+      .orderBy(asc(reviewLogs.reviewedAt));
+  }
+
+  async deleteReviewLogsBySet(setId: string): Promise<number> {
+    const deleted = await this.db.delete(reviewLogs).where(eq(reviewLogs.setId, setId)).returning({ id: reviewLogs.id });
+    return deleted.length;
+  }
+
+  // Quiz methods
+  async getQuiz(id: string): Promise<Quiz | undefined> {
+    const [quiz] = await this.db.select().from(quizzes).where(eq(quizzes.id, id));
+    return quiz;
+  }
+
+  async getQuizzesByUser(userId: string): Promise<Quiz[]> {
+    return await this.db.select().from(quizzes).where(eq(quizzes.userId, userId)).orderBy(asc(quizzes.createdAt));
+  }
+
+  async createQuiz(insertQuiz: InsertQuiz): Promise<Quiz> {
+    const [quiz] = await this.db.insert(quizzes).values(insertQuiz).returning();
+    return quiz;
+  }
+
+  async getQuizAttempt(id: string): Promise<QuizAttempt | undefined> {
+    const [attempt] = await this.db.select().from(quizAttempts).where(eq(quizAttempts.id, id));
+    return attempt;
+  }
+
+  async getQuizAttemptsByUser(userId: string): Promise<QuizAttempt[]> {
+    return await this.db.select().from(quizAttempts).where(eq(quizAttempts.userId, userId)).orderBy(asc(quizAttempts.startedAt));
+  }
+
+  async getQuizAttemptsByQuiz(quizId: string): Promise<QuizAttempt[]> {
+    return await this.db.select().from(quizAttempts).where(eq(quizAttempts.quizId, quizId)).orderBy(asc(quizAttempts.startedAt));
+  }
+
+  async createQuizAttempt(insertAttempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    const [attempt] = await this.db.insert(quizAttempts).values(insertAttempt).returning();
+    return attempt;
+  }
+
+  async updateQuizAttempt(id: string, updates: Partial<QuizAttempt>): Promise<QuizAttempt | undefined> {
+    const [attempt] = await this.db.update(quizAttempts).set(updates).where(eq(quizAttempts.id, id)).returning();
+    return attempt;
+  }
+
+  async claimQuizAttempt(id: string, updates: Partial<QuizAttempt>): Promise<QuizAttempt | undefined> {
+    const [attempt] = await this.db.update(quizAttempts).set(updates)
+      .where(and(eq(quizAttempts.id, id), isNull(quizAttempts.completedAt)))
+      .returning();
+    return attempt;
+  }
+
+  async changeQuizAttempt(id: string, change: (attempt: QuizAttempt) => Partial<QuizAttempt>): Promise<QuizAttempt | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [attempt] = await tx.select().from(quizAttempts).where(eq(quizAttempts.id, id)).for("update");
+      if (!attempt) return undefined;
+      const [updated] = await tx.update(quizAttempts).set(change(attempt)).where(eq(quizAttempts.id, id)).returning();
+      return updated;
+    });
+  }
+
+  // Chat methods
+  async getChatThread(id: string): Promise<ChatThread | undefined> {
+    const [thread] = await this.db.select().from(chatThreads).where(eq(chatThreads.id, id));
+    return thread;
+  }
+
+  async getChatThreadsByUser(userId: string): Promise<ChatThread[]> {
+    return await this.db.select().from(chatThreads).where(eq(chatThreads.userId, userId)).orderBy(desc(chatThreads.updatedAt));
+  }
+
+  async getChatThreadsByDocument(documentId: string): Promise<ChatThread[]> {
+    return await this.db.select().from(chatThreads).where(eq(chatThreads.documentId, documentId)).orderBy(desc(chatThreads.updatedAt));
+  }
+
+  async createChatThread(insertThread: InsertChatThread): Promise<ChatThread> {
+    const [thread] = await this.db.insert(chatThreads).values(insertThread).returning();
+    return thread;
+  }
+
+  async updateChatThread(id: string, updates: Partial<ChatThread>): Promise<ChatThread | undefined> {
+    const [thread] = await this.db
+      .update(chatThreads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(chatThreads.id, id))
+      .returning();
+    return thread;
+  }
+
+  async deleteChatThread(id: string): Promise<boolean> {
+    await this.deleteChatMessagesByThread(id);
+    const deleted = await this.db.delete(chatThreads).where(eq(chatThreads.id, id)).returning({ id: chatThreads.id });
+    return deleted.length > 0;
+  }
+
+  async getChatMessagesByDocument(documentId: string): Promise<ChatMessage[]> {
+    return await this.db.select().from(chatMessages).where(eq(chatMessages.documentId, documentId)).orderBy(asc(chatMessages.createdAt));
+  }
+
+  async getChatMessagesByThread(threadId: string): Promise<ChatMessage[]> {
+    return await this.db.select().from(chatMessages).where(eq(chatMessages.threadId, threadId)).orderBy(asc(chatMessages.createdAt));
+  }
+
+  async deleteChatMessagesByThread(threadId: string): Promise<number> {
+    const deleted = await this.db.delete(chatMessages).where(eq(chatMessages.threadId, threadId)).returning({ id: chatMessages.id });
+    return deleted.length;
+  }
+
+  async assignUnthreadedChatMessages(documentId: string, threadId: string): Promise<number> {
+    const updated = await this.db
+      .update(chatMessages)
+      .set({ threadId })
+      .where(and(eq(chatMessages.documentId, documentId), isNull(chatMessages.threadId)))
+      .returning({ id: chatMessages.id });
+    return updated.length;
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const [message] = await this.db.insert(chatMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  // Chunk methods
+  private chunkSourceFilter(source: ChunkSource) {
+    return "documentId" in source ? eq(documentChunks.documentId, source.documentId) : eq(documentChunks.noteId, source.noteId);
+  }
+
+  async getChunks(source: ChunkSource): Promise<DocumentChunk[]> {
+    return await this.db.select().from(documentChunks).where(this.chunkSourceFilter(source)).orderBy(asc(documentChunks.chunkIndex));
+  }
+
+  async replaceChunks(source: ChunkSource, insertChunks: InsertDocumentChunk[]): Promise<DocumentChunk[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(documentChunks).where(this.chunkSourceFilter(source));
+      if (insertChunks.length === 0) return [];
+      return await tx.insert(documentChunks).values(insertChunks).returning();
+    });
+  }
+
+  // pgvector's <=> operator is cosine distance, so similarity is 1 minus it
+  async searchChunks({ documentIds, noteIds }: ChunkSources, embedding: number[], embeddingModel: string, limit: number): Promise<ScoredDocumentChunk[]> {
+    const fromSources = [
+      ...(documentIds.length > 0 ? [inArray(documentChunks.documentId, documentIds)] : []),
+      ...(noteIds.length > 0 ? [inArray(documentChunks.noteId, noteIds)] : []),
+    ];
+    if (fromSources.length === 0) return [];
+
+    const distance = cosineDistance(documentChunks.embedding, embedding);
+    const rows = await this.db
+      .select({ chunk: documentChunks, score: sql<number>`1 - (${distance})` })
+      .from(documentChunks)
+      .where(and(or(...fromSources), eq(documentChunks.embeddingModel, embeddingModel)))
+      .orderBy(distance)
+      .limit(limit);
+    return rows.map(({ chunk, score }) => ({ ...chunk, score: Number(score) }));
+  }
+
+  // Job methods
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobsByUser(userId: string): Promise<Job[]> {
+    return await this.db.select().from(jobs).where(eq(jobs.userId, userId)).orderBy(desc(jobs.createdAt));
+  }
+
+  async getUnfinishedJobs(): Promise<Job[]> {
+    return await this.db.select().from(jobs).where(inArray(jobs.status, UNFINISHED_JOB_STATUSES)).orderBy(asc(jobs.createdAt));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await this.db.update(jobs).set(updates).where(eq(jobs.id, id)).returning();
+    return job;
+  }
+}
+
+// STORAGE_DRIVER picks the backend explicitly; otherwise Postgres is used
+// whenever a DATABASE_URL is configured and memory storage is the fallback.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "postgres": {
+      const pool = createPool();
+      return new DrizzleStorage(
+        createDb(pool),
+        new PostgresSessionStore({ pool, createTableIfMissing: true }),
+      );
+    }
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "postgres" or "memory"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,101 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import type { PublicUser } from "@shared/schema";
+
+export interface TestResponse<T = any> {
+  status: number;
+  body: T;
+}
+
+// One signed-in browser: keeps the session cookie between requests
+export class TestClient {
+  private cookie = "";
+
+  constructor(private baseUrl: string) {}
+
+  async request<T = any>(method: string, path: string, body?: unknown): Promise<TestResponse<T>> {
+    // Form data sets its own multipart Content-Type
+    const isForm = body instanceof FormData;
+    const response = await fetch(this.baseUrl + path, {
+      method,
+      headers: {
+        ...(body !== undefined && !isForm && { "Content-Type": "application/json" }),
+        ...(this.cookie && { Cookie: this.cookie }),
+      },
+      body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+    });
+    const setCookie = response.headers.getSetCookie();
+    if (setCookie.length > 0) this.cookie = setCookie.map((cookie) => cookie.split(";")[0]).join("; ");
+
+    const text = await response.text();
+    const isJson = response.headers.get("content-type")?.includes("application/json");
+    return { status: response.status, body: isJson && text ? JSON.parse(text) : text };
+  }
+
+  get<T = any>(path: string) {
+    return this.request<T>("GET", path);
+  }
+
+  post<T = any>(path: string, body: unknown = {}) {
+    return this.request<T>("POST", path, body);
+  }
+
+  put<T = any>(path: string, body: unknown = {}) {
+    return this.request<T>("PUT", path, body);
+  }
+
+  delete<T = any>(path: string) {
+    return this.request<T>("DELETE", path);
+  }
+
+  // Posts one file as multipart form data, the way the upload forms do
+  upload<T = any>(path: string, field: string, filename: string, content: string | Buffer) {
+    const form = new FormData();
+    form.append(field, new Blob([content]), filename);
+    return this.request<T>("POST", path, form);
+  }
+}
+
+export interface TestServer {
+  server: Server;
+  baseUrl: string;
+  // Registers a new account and returns a client signed in as it
+  signUp(username: string): Promise<{ client: TestClient; user: PublicUser }>;
+  close(): Promise<void>;
+}
+
+/**
+ * The API as server/index.ts serves it, on a free local port and without
+ * Vite or request logging, for route tests. Data goes to whichever storage
+ * backend is configured, memory storage unless DATABASE_URL is set.
+ */
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const server = await registerRoutes(app);
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err.status || err.statusCode || 500).json({ message: err.message || "Internal Server Error" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    server,
+    baseUrl,
+    async signUp(username) {
+      const client = new TestClient(baseUrl);
+      const response = await client.post<PublicUser>("/api/auth/register", { username, email: `${username}@example.com`, password: "correct horse battery" });
+      if (response.status !== 201) throw new Error(`Could not register ${username}: ${JSON.stringify(response.body)}`);
+      return { client, user: response.body };
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close((err) => (err ? reject(err) : resolve()));
+    }),
+  };
+}
@@ -0,0 +1,120 @@
+// Pasted card lists, one "term<TAB>definition" per line, as spreadsheets and
+// Quizlet exports copy them. Shared so the editor can preview what the server will add.
+
+export interface ParsedCard {
+  question: string;
+  answer: string;
+}
+
+export interface BulkParseResult {
+  cards: ParsedCard[];
+  // 1-based numbers of non-blank lines that had no tab or an empty side
+  skippedLines: number[];
+}
+
+export function parseBulkCards(text: string): BulkParseResult {
+  const cards: ParsedCard[] = [];
+  const skippedLines: number[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const tab = line.indexOf("\t");
+    const question = tab === -1 ? "" : line.slice(0, tab).trim();
+    // Only the first tab separates; any later ones belong to the definition
+    const answer = tab === -1 ? "" : line.slice(tab + 1).trim();
+    if (question && answer) cards.push({ question, answer });
+    else skippedLines.push(index + 1);
+  });
+
+  return { cards, skippedLines };
+}
+
+// Card types. A basic card is one question/answer pair. A reversible entry
+// makes two sibling cards, front-to-back and back-to-front. A cloze entry
+// stores a passage like "The {{c1::mitochondria}} is the powerhouse" in
+// `question` (any extra context goes in `answer`) and makes one sibling per
+// cloze number. Siblings share a `groupId` and keep separate schedules.
+
+// What tells siblings apart: 1 for the reverse card, the cloze number for cloze cards, otherwise 0
+export interface CardFaceSource {
+  cardType: string;
+  question: string;
+  answer: string;
+  ordinal: number;
+}
+
+export interface ClozeSegment {
+  text: string;
+  // The deletion this card asks about
+  tested: boolean;
+}
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+// The distinct cloze numbers in `text`, lowest first
+export function clozeNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of Array.from(text.matchAll(CLOZE_PATTERN))) {
+    if (Number(match[1]) > 0) numbers.add(Number(match[1]));
+  }
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+/**
+ * `text` split around cloze `number`. On the question side the tested
+ * deletion shows as "[...]" or "[hint]"; on the answer side it is revealed.
+ * Every other deletion always shows its text.
+ */
+export function clozeSegments(text: string, number: number, side: 'question' | 'answer'): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(CLOZE_PATTERN))) {
+    const tested = Number(match[1]) === number;
+    segments.push({ text: text.slice(last, match.index), tested: false });
+    segments.push({ text: tested && side === 'question' ? `[${match[3] || '...'}]` : match[2], tested });
+    last = match.index! + match[0].length;
+  }
+  segments.push({ text: text.slice(last), tested: false });
+  return segments.filter((segment) => segment.text !== '');
+}
+
+export function renderCloze(text: string, number: number, side: 'question' | 'answer'): string {
+  return clozeSegments(text, number, side).map((segment) => segment.text).join('');
+}
+
+// The ordinals of the cards an entry produces
+export function cardOrdinals(cardType: string, question: string): number[] {
+  if (cardType === 'cloze') return clozeNumbers(question);
+  return cardType === 'reversible' ? [0, 1] : [0];
+}
+
+// Why an entry cannot be saved as `cardType`, or null if it can
+export function cardContentProblem(cardType: string, question: string, answer: string): { field: 'question' | 'answer'; message: string } | null {
+  if (cardType === 'cloze') {
+    return clozeNumbers(question).length === 0
+      ? { field: 'question', message: 'Mark at least one cloze deletion, like {{c1::term}}' }
+      : null;
+  }
+  return answer.trim() ? null : { field: 'answer', message: 'Answer is required' };
+}
+
+// What a typed answer should say: the hidden text for a cloze card, otherwise the back
+export function expectedAnswer(card: CardFaceSource): string {
+  if (card.cardType === 'cloze') {
+    return clozeSegments(card.question, card.ordinal, 'answer')
+      .filter((segment) => segment.tested)
+      .map((segment) => segment.text)
+      .join(', ');
+  }
+  return cardFaces(card).back;
+}
+
+// The text shown before and after a card is flipped
+export function cardFaces(card: CardFaceSource): { front: string; back: string } {
+  if (card.cardType === 'cloze') {
+    const back = renderCloze(card.question, card.ordinal, 'answer');
+    return { front: renderCloze(card.question, card.ordinal, 'question'), back: card.answer ? `${back}\n\n${card.answer}` : back };
+  }
+  if (card.cardType === 'reversible' && card.ordinal === 1) return { front: card.answer, back: card.question };
+  return { front: card.question, back: card.answer };
+}
@@ -0,0 +1,212 @@
+import { z } from "zod";
+
+// Quiz questions. `quizzes.questions` holds an array of these, told apart by
+// `type`. Quizzes saved before there were types hold bare multiple choice
+// questions, which `quizQuestions` reads as type "multiple-choice".
+// Short-answer and essay questions are open responses: the model grades
+// them against a rubric rather than an answer key.
+
+export const quizQuestionTypes = ['multiple-choice', 'true-false', 'multi-select', 'fill-blank', 'numeric', 'matching', 'ordering', 'short-answer', 'essay'] as const;
+export type QuizQuestionType = typeof quizQuestionTypes[number];
+
+export const openResponseTypes = ['short-answer', 'essay'] as const;
+
+export const quizQuestionTypeLabels: Record<QuizQuestionType, string> = {
+  'multiple-choice': "Multiple choice",
+  'true-false': "True or false",
+  'multi-select': "Select all that apply",
+  'fill-blank': "Fill in the blank",
+  'numeric': "Numeric answer",
+  'matching': "Matching",
+  'ordering': "Ordering",
+  'short-answer': "Short answer",
+  'essay': "Essay",
+};
+
+const text = z.string().trim().min(1).max(1000);
+const options = z.array(text).min(2).max(8);
+
+const questionBase = {
+  question: text,
+  explanation: z.string().max(2000).default(""),
+};
+
+export const multipleChoiceQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('multiple-choice'),
+  options,
+  correctAnswer: z.number().int().min(0),
+});
+
+export const trueFalseQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('true-false'),
+  correctAnswer: z.boolean(),
+});
+
+export const multiSelectQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('multi-select'),
+  options,
+  correctAnswers: z.array(z.number().int().min(0)).min(1),
+});
+
+// The question marks the gap with "___"; any of the accepted answers fills it
+export const fillBlankQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('fill-blank'),
+  acceptedAnswers: z.array(text).min(1).max(10),
+});
+
+// Right if within `tolerance` (absolute, in the question's units) of the answer
+export const numericQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('numeric'),
+  correctAnswer: z.number().finite(),
+  tolerance: z.number().min(0).default(0),
+  unit: z.string().max(40).optional(),
+});
+
+// Each left item belongs with the right item of its pair; the rights are shown shuffled
+export const matchingQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('matching'),
+  pairs: z.array(z.object({ left: text, right: text })).min(2).max(8),
+});
+
+// `items` are stored in the correct order and shown shuffled
+export const orderingQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('ordering'),
+  items: z.array(text).min(2).max(8),
+});
+
+// One thing a good answer does, worth `points`
+export const rubricCriterionSchema = z.object({
+  criterion: text,
+  points: z.number().int().min(1).max(10),
+});
+
+export type RubricCriterion = z.infer<typeof rubricCriterionSchema>;
+
+const openResponseBase = {
+  ...questionBase,
+  modelAnswer: z.string().trim().min(1).max(5000),
+  rubric: z.array(rubricCriterionSchema).min(1).max(8),
+};
+
+export const shortAnswerQuestionSchema = z.object({
+  ...openResponseBase,
+  type: z.literal('short-answer'),
+});
+
+export const essayQuestionSchema = z.object({
+  ...openResponseBase,
+  type: z.literal('essay'),
+});
+
+export const quizQuestionSchema = z.discriminatedUnion('type', [
+  multipleChoiceQuestionSchema,
+  trueFalseQuestionSchema,
+  multiSelectQuestionSchema,
+  fillBlankQuestionSchema,
+  numericQuestionSchema,
+  matchingQuestionSchema,
+  orderingQuestionSchema,
+  shortAnswerQuestionSchema,
+  essayQuestionSchema,
+]).superRefine((question, ctx) => {
+  const problem = quizQuestionProblem(question);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+});
+
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type QuizQuestionOf<T extends QuizQuestionType> = Extract<QuizQuestion, { type: T }>;
+export type OpenResponseQuestion = QuizQuestionOf<typeof openResponseTypes[number]>;
+// Questions with an answer key, graded without the model
+export type ClosedQuizQuestion = Exclude<QuizQuestion, OpenResponseQuestion>;
+
+export function isOpenResponse(question: QuizQuestion): question is OpenResponseQuestion {
+  return (openResponseTypes as readonly string[]).includes(question.type);
+}
+
+// What a question is worth: its rubric's points, or one for a question with an answer key
+export function maxPoints(question: QuizQuestion): number {
+  return isOpenResponse(question) ? question.rubric.reduce((sum, criterion) => sum + criterion.points, 0) : 1;
+}
+
+/**
+ * A student's answer, its shape set by the question type: an option index
+ * (multiple choice), true or false, option indexes (multi-select), text
+ * (fill in the blank), a number (numeric), the right item index chosen for
+ * each left item (matching), item indexes in the chosen order (ordering),
+ * or written text (short answer and essay).
+ */
+export const quizAnswerSchema = z.union([
+  z.number().finite(),
+  z.boolean(),
+  z.string().max(20000),
+  z.array(z.number().int().min(0)).max(50),
+]);
+
+export type QuizAnswer = z.infer<typeof quizAnswerSchema>;
+
+function inRange(indexes: number[], length: number): boolean {
+  return indexes.every((index) => index < length);
+}
+
+// What makes a well-formed question still unusable, or null
+function quizQuestionProblem(question: QuizQuestion): string | null {
+  switch (question.type) {
+    case 'multiple-choice':
+      return question.correctAnswer < question.options.length ? null : "The correct answer must be one of the options.";
+    case 'multi-select':
+      return inRange(question.correctAnswers, question.options.length) ? null : "Every correct answer must be one of the options.";
+    case 'fill-blank':
+      return question.question.includes("___") ? null : "Mark the blank in the question with ___.";
+    default:
+      return null;
+  }
+}
+
+// Questions without a type are the original multiple choice format
+function parseQuizQuestion(raw: unknown): QuizQuestion | null {
+  const typed = raw && typeof raw === "object" && !("type" in raw) ? { ...raw, type: 'multiple-choice' } : raw;
+  const parsed = quizQuestionSchema.safeParse(typed);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * The questions of a stored quiz. Answers and results are kept by question
+ * index, so a quiz is read whole or not at all: if any question does not fit
+ * its type's schema the quiz has no questions, and cannot be taken.
+ */
+export function quizQuestions(raw: unknown): QuizQuestion[] {
+  if (!Array.isArray(raw)) return [];
+  const questions = raw.map(parseQuizQuestion);
+  return questions.every((question) => question !== null) ? questions as QuizQuestion[] : [];
+}
+
+// The usable questions a model wrote, before the quiz is saved and their positions count
+export function generatedQuizQuestions(raw: unknown): QuizQuestion[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((question) => parseQuizQuestion(question) ?? []);
+}
+
+// Whether an answer has been given in full: every matching pair made, at least one option picked, text typed
+export function isAnswered(question: QuizQuestion, answer: QuizAnswer | null | undefined): boolean {
+  if (answer === null || answer === undefined) return false;
+  switch (question.type) {
+    case 'multi-select':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'matching':
+      // Checked pair by pair: a half-finished answer can have holes, which every() would skip
+      return Array.isArray(answer) && question.pairs.every((_, index) => typeof answer[index] === "number");
+    case 'fill-blank':
+    case 'short-answer':
+    case 'essay':
+      return typeof answer === "string" && answer.trim() !== "";
+    default:
+      return true;
+  }
+}
@@ -1,7 +1,23 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, jsonb, timestamp, integer, boolean, doublePrecision, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { cardContentProblem } from "./flashcards";
+import { quizAnswerSchema, quizQuestionTypes, type QuizAnswer } from "./quiz";
+
+// pgvector column. Left without a fixed dimension so switching embedding models needs no migration;
+// rows record the model that produced them and are only compared with vectors from the same model.
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return "vector";
+  },
+  toDriver(value) {
+    return `[${value.join(",")}]`;
+  },
+  fromDriver(value) {
+    return value.slice(1, -1).split(",").map(Number);
+  },
+});
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -10,6 +26,10 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   spotifyAccessToken: text("spotify_access_token"),
   spotifyRefreshToken: text("spotify_refresh_token"),
+  schedulerAlgorithm: text("scheduler_algorithm").notNull().default("sm2"), // 'sm2', 'fsrs'
+  timezone: text("timezone").notNull().default("UTC"), // IANA name; decides where a study day starts
+  newCardsPerDay: integer("new_cards_per_day").notNull().default(20),
+  reviewsPerDay: integer("reviews_per_day").notNull().default(200),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -17,7 +37,7 @@ export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   title: text("title").notNull(),
-  type: text("type").notNull(), // 'pdf', 'docx', 'txt', 'audio', 'youtube'
+  type: text("type").notNull(), // 'pdf', 'docx', 'txt', 'transcript', 'audio', 'youtube'
   originalUrl: text("original_url"),
   content: text("content").notNull(),
   metadata: jsonb("metadata"),
@@ -43,7 +63,7 @@ export const flashcardSets = pgTable("flashcard_sets", {
   documentId: varchar("document_id"),
   title: text("title").notNull(),
   description: text("description"),
-  cardCount: integer("card_count").default(0),
+  cardCount: integer("card_count").default(0), // Kept in step by storage as cards are added and removed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -52,11 +72,34 @@ export const flashcards = pgTable("flashcards", {
   setId: varchar("set_id").notNull(),
   question: text("question").notNull(),
   answer: text("answer").notNull(),
+  cardType: text("card_type").notNull().default("basic"), // 'basic', 'reversible', 'cloze'; see shared/flashcards.ts
+  groupId: varchar("group_id"), // Shared by the sibling cards one reversible or cloze entry makes
+  ordinal: integer("ordinal").notNull().default(0), // 1 for a reverse card, the cloze number for a cloze card
+  position: integer("position").notNull().default(0), // Order within the set; siblings are kept together
   difficulty: text("difficulty").default("medium"), // 'easy', 'medium', 'hard'
+  firstReviewed: timestamp("first_reviewed"), // When the card stopped being new
   lastReviewed: timestamp("last_reviewed"),
   nextReview: timestamp("next_review"),
   repetitions: integer("repetitions").default(0),
-  easinessFactor: integer("easiness_factor").default(250), // Spaced repetition
+  easinessFactor: integer("easiness_factor").default(250), // SM-2 easiness factor x100
+  intervalDays: integer("interval_days").default(0), // Gap between lastReviewed and nextReview
+  lapses: integer("lapses").default(0), // Times the card was forgotten after being learned
+  stability: doublePrecision("stability"), // FSRS memory stability in days; null until first FSRS review
+  memoryDifficulty: doublePrecision("memory_difficulty"), // FSRS difficulty, 1 (easy) to 10 (hard)
+});
+
+// One row per graded flashcard; study stats and streaks are computed from these
+export const reviewLogs = pgTable("review_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  cardId: varchar("card_id").notNull(),
+  setId: varchar("set_id").notNull(),
+  grade: text("grade").notNull(), // 'again', 'hard', 'good', 'easy'
+  wasNew: boolean("was_new").notNull().default(false), // First time the card was studied
+  responseTimeMs: integer("response_time_ms"), // From showing the card to grading it
+  intervalDays: integer("interval_days"), // Interval the review scheduled
+  previousIntervalDays: integer("previous_interval_days"),
+  reviewedAt: timestamp("reviewed_at").defaultNow(),
 });
 
 export const quizzes = pgTable("quizzes", {
@@ -75,27 +118,94 @@ export const quizAttempts = pgTable("quiz_attempts", {
   userId: varchar("user_id").notNull(),
   quizId: varchar("quiz_id").notNull(),
   answers: jsonb("answers").notNull(),
-  score: integer("score").notNull(),
+  results: jsonb("results"), // QuizQuestionResult per question, graded by the server on submission
+  score: integer("score").notNull(), // Percentage of the available points earned
+  correctCount: integer("correct_count").notNull().default(0),
   totalQuestions: integer("total_questions").notNull(),
   timeSpent: integer("time_spent"), // seconds
-  completedAt: timestamp("completed_at").defaultNow(),
+  startedAt: timestamp("started_at").defaultNow(), // Issued by the server when the quiz is started
+  deadline: timestamp("deadline"), // startedAt plus the quiz's time limit; null for untimed quizzes
+  completedAt: timestamp("completed_at"), // Null while the attempt is in progress
+});
+
+export const chatThreads = pgTable("chat_threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  // Set for conversations about a single document; otherwise `scope` says what the thread covers
+  documentId: varchar("document_id"),
+  scope: jsonb("scope"), // ChatScope
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   documentId: varchar("document_id"),
+  threadId: varchar("thread_id"), // null for messages sent before threads existed
   message: text("message").notNull(),
   response: text("response").notNull(),
+  citations: jsonb("citations"), // Citation[] for the passages the answer drew on
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Passages of a document or, with `noteId` set instead, of a note
+export const documentChunks = pgTable("document_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id"),
+  noteId: varchar("note_id"),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  // Character positions into the document's or note's content
+  startOffset: integer("start_offset").notNull(),
+  endOffset: integer("end_offset").notNull(),
+  page: integer("page"),
+  // Seconds into the media, for transcripts
+  startTime: doublePrecision("start_time"),
+  endTime: doublePrecision("end_time"),
+  embeddingModel: text("embedding_model").notNull(),
+  embedding: vector("embedding").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  type: text("type").notNull(), // 'generate-notes', 'generate-flashcards', 'generate-quiz', 'transcribe-audio', 'transcribe-youtube', 'index-document', 'index-note'
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'succeeded', 'failed', 'cancelled'
+  input: jsonb("input").notNull(),
+  result: jsonb("result"),
+  checkpoint: jsonb("checkpoint"), // IDs of rows earlier attempts wrote, so a retry reuses them instead of writing them again
+  error: text("error"),
+  stage: text("stage"), // Human-readable step, e.g. "Transcribing part 2 of 5"
+  progress: integer("progress").notNull().default(0), // 0-100
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
 });
 
+export const registerUserSchema = insertUserSchema
+  .pick({ username: true, email: true, password: true })
+  .extend({
+    username: z.string().trim().min(3, "Username must be at least 3 characters").max(32),
+    email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+    password: z.string().min(8, "Password must be at least 8 characters").max(128),
+  });
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   createdAt: true,
@@ -110,12 +220,64 @@ export const insertNoteSchema = createInsertSchema(notes).omit({
 export const insertFlashcardSetSchema = createInsertSchema(flashcardSets).omit({
   id: true,
   createdAt: true,
+  cardCount: true,
 });
 
+export const createFlashcardSetSchema = insertFlashcardSetSchema
+  .pick({ title: true, description: true })
+  .extend({
+    title: z.string().trim().min(1, "Give the set a title").max(200),
+    description: z.string().trim().max(1000).nullish(),
+  });
+
+export const updateFlashcardSetSchema = createFlashcardSetSchema.partial();
+
 export const insertFlashcardSchema = createInsertSchema(flashcards).omit({
   id: true,
 });
 
+export const cardTypes = ['basic', 'reversible', 'cloze'] as const;
+export type CardType = typeof cardTypes[number];
+
+const flashcardContentSchema = z.object({
+  question: z.string().trim().min(1, "Question is required").max(2000),
+  answer: z.string().trim().max(5000),
+});
+
+export const newFlashcardSchema = flashcardContentSchema
+  .extend({
+    cardType: z.enum(cardTypes).default('basic'),
+    answer: flashcardContentSchema.shape.answer.default(""),
+  })
+  .superRefine((card, ctx) => {
+    const problem = cardContentProblem(card.cardType, card.question, card.answer);
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [problem.field], message: problem.message });
+  });
+
+// What a client may change on a card; scheduling fields only move through reviews, and the type is fixed
+export const updateFlashcardSchema = insertFlashcardSchema
+  .pick({ difficulty: true })
+  .merge(flashcardContentSchema)
+  .partial();
+
+// Out-of-range counts are pulled into range rather than refused
+export const generateFlashcardsSchema = z.object({
+  count: z.number().int().default(10).transform((count) => Math.min(Math.max(count, 1), 50)),
+});
+
+export const bulkFlashcardsSchema = z.object({
+  text: z.string().max(200000),
+});
+
+// The set's card IDs in their new order; every card must appear exactly once
+export const reorderFlashcardsSchema = z.object({
+  cardIds: z.array(z.string()),
+});
+
+export const insertReviewLogSchema = createInsertSchema(reviewLogs).omit({
+  id: true,
+});
+
 export const insertQuizSchema = createInsertSchema(quizzes).omit({
   id: true,
   createdAt: true,
@@ -126,14 +288,48 @@ export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).omit({
   completedAt: true,
 });
 
+export const generateQuizSchema = z.object({
+  questionCount: z.number().int().min(1).max(50).default(10),
+  // Several types are mixed; all of them by default
+  questionTypes: z.array(z.enum(quizQuestionTypes)).min(1).default([...quizQuestionTypes]),
+});
+
+export const submitQuizAttemptSchema = z.object({
+  // The answer to each question, shaped by its type; null where time ran out first
+  answers: z.array(quizAnswerSchema.nullable()).max(500),
+});
+
+export const insertChatThreadSchema = createInsertSchema(chatThreads).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertDocumentChunkSchema = createInsertSchema(documentChunks, {
+  // drizzle-zod cannot see through the custom column type
+  embedding: z.array(z.number()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type LoginUser = z.infer<typeof loginSchema>;
+// What the API exposes about an account: never the password hash or Spotify tokens
+export type PublicUser = Omit<User, "password" | "spotifyAccessToken" | "spotifyRefreshToken">;
 
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
@@ -146,6 +342,10 @@ export type InsertFlashcardSet = z.infer<typeof insertFlashcardSetSchema>;
 
 export type Flashcard = typeof flashcards.$inferSelect;
 export type InsertFlashcard = z.infer<typeof insertFlashcardSchema>;
+export type NewFlashcard = z.infer<typeof newFlashcardSchema>;
+
+export type ReviewLog = typeof reviewLogs.$inferSelect;
+export type InsertReviewLog = z.infer<typeof insertReviewLogSchema>;
 
 export type Quiz = typeof quizzes.$inferSelect;
 export type InsertQuiz = z.infer<typeof insertQuizSchema>;
@@ -153,5 +353,213 @@ export type InsertQuiz = z.infer<typeof insertQuizSchema>;
 export type QuizAttempt = typeof quizAttempts.$inferSelect;
 export type InsertQuizAttempt = z.infer<typeof insertQuizAttemptSchema>;
 
+// A newly started attempt, with the server's clock so the client can count down to the deadline in step
+export interface StartedQuizAttempt {
+  attempt: QuizAttempt;
+  serverTime: string;
+}
+
+export type ChatThread = typeof chatThreads.$inferSelect;
+export type InsertChatThread = z.infer<typeof insertChatThreadSchema>;
+
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
+export type ScoredDocumentChunk = DocumentChunk & { score: number };
+
+// What a chat draws on: any mix of documents and notes, plus every note (and its source
+// document) filed under a subject or carrying a tag
+export const chatScopeSchema = z.object({
+  documentIds: z.array(z.string()).default([]),
+  noteIds: z.array(z.string()).default([]),
+  subject: z.string().optional(),
+  tag: z.string().optional(),
+});
+
+export type ChatScope = z.infer<typeof chatScopeSchema>;
+
+// The body of a chat request; the document, thread or scope it targets is read separately
+export const chatMessageSchema = z.object({
+  message: z.string().trim().min(1, "Message is required"),
+});
+export type ChatSourceType = 'document' | 'note';
+
+// A passage an assistant answer cites; `n` is the [n] marker used in the answer text
+export interface Citation {
+  n: number;
+  chunkId: string;
+  sourceType: ChatSourceType;
+  sourceId: string;
+  sourceTitle: string;
+  startOffset: number;
+  endOffset: number;
+  snippet: string;
+  page: number | null;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+export const schedulerAlgorithms = ['sm2', 'fsrs'] as const;
+export type SchedulerAlgorithm = typeof schedulerAlgorithms[number];
+
+// How well a card was recalled, from forgotten to effortless
+export const reviewGrades = ['again', 'hard', 'good', 'easy'] as const;
+export type ReviewGrade = typeof reviewGrades[number];
+
+// Anything over ten minutes is someone who walked away, not thinking time
+const responseTimeSchema = z.number().int().min(0).transform((ms) => Math.min(ms, 10 * 60 * 1000)).optional();
+
+export const reviewFlashcardSchema = z.object({
+  grade: z.enum(reviewGrades),
+  responseTimeMs: responseTimeSchema,
+});
+
+// A typed answer, graded by the server into a review grade
+export const typedAnswerSchema = z.object({
+  answer: z.string().max(5000),
+  responseTimeMs: responseTimeSchema,
+  // Let the model judge longer answers that do not match the card's wording
+  aiGrading: z.boolean().optional(),
+});
+
+export type AnswerVerdict = 'correct' | 'close' | 'incorrect';
+
+// A run of the typed answer compared with the expected one; concatenating the parts reads as a merged answer
+export interface AnswerDiffPart {
+  text: string;
+  kind: 'same' | 'missing' | 'extra';
+}
+
+export interface TypedAnswerResult {
+  verdict: AnswerVerdict;
+  grade: ReviewGrade;
+  // How the verdict was reached: a normalized match, a match within the typo allowance, or the model
+  method: 'exact' | 'fuzzy' | 'ai' | 'none';
+  expected: string;
+  diff: AnswerDiffPart[];
+  feedback: string | null;
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const updatePreferencesSchema = z.object({
+  schedulerAlgorithm: z.enum(schedulerAlgorithms),
+  timezone: z.string().refine(isTimeZone, "Unknown time zone"),
+  newCardsPerDay: z.number().int().min(0).max(9999),
+  reviewsPerDay: z.number().int().min(0).max(9999),
+}).partial();
+
+// A card in today's review queue, with the set it came from
+export type DueFlashcard = Flashcard & { setTitle: string; isNew: boolean };
+
+export interface DueQueue {
+  cards: DueFlashcard[];
+  // Due today before the daily limits were applied
+  available: { new: number; review: number };
+  // Already studied today
+  studied: { new: number; review: number };
+  limits: { newCardsPerDay: number; reviewsPerDay: number };
+}
+
+export interface StudyStats {
+  cardsStudiedToday: number;
+  // Consecutive days with at least one review, ending today (or yesterday, until today's first review)
+  currentStreak: number;
+  longestStreak: number;
+  // Share of reviews of already-learned cards in the last 30 days not graded "again"; null with none
+  retentionRate: number | null;
+  retentionReviews: number;
+  averageResponseMs: number | null;
+}
+
+export interface SetMastery {
+  setId: string;
+  // 0 to 100: how close the set's cards are on average to a mature (21-day) interval
+  mastery: number;
+  total: number;
+  new: number;
+  learning: number;
+  mature: number;
+}
+
+export interface RubricCriterionScore {
+  criterion: string;
+  points: number;
+  maxPoints: number;
+  comment: string;
+}
+
+// The model's grading of an open response: points per rubric criterion, and feedback citing the source as [n]
+export interface RubricGrade {
+  points: number;
+  criteria: RubricCriterionScore[];
+  feedback: string;
+  citations: Citation[];
+}
+
+export interface QuizAppeal {
+  reason: string;
+  requestedAt: string;
+  secondOpinion: RubricGrade;
+  // An appeal never lowers a grade: the second opinion stands only if it is higher
+  outcome: "raised" | "upheld";
+}
+
+// How one question in a submitted quiz attempt was graded
+export interface QuizQuestionResult {
+  answer: QuizAnswer | null;
+  // Open responses count as correct with at least half their rubric points
+  correct: boolean;
+  points: number;
+  maxPoints: number;
+  // Open responses only
+  grade?: RubricGrade;
+  // Grading failed; an appeal grades the answer again
+  ungraded?: boolean;
+  appeal?: QuizAppeal;
+}
+
+export const quizAppealSchema = z.object({
+  reason: z.string().trim().max(2000).default(""),
+});
+
+export interface QuizAttemptTrend {
+  attemptCount: number;
+  bestScore: number | null;
+  averageScore: number | null;
+  latestScore: number | null;
+  // Latest score less the one before it; null before a second attempt
+  change: number | null;
+  // Least-squares change in score per attempt over the recent attempts; null before a second attempt
+  slope: number | null;
+  direction: "improving" | "declining" | "steady" | null;
+  averageTimeSpent: number | null; // seconds
+  // Share of attempts (0 to 1) answering each question correctly, by question index
+  questionAccuracy: (number | null)[];
+}
+
+// A quiz's submitted attempts, oldest first
+export interface QuizAttemptHistory {
+  attempts: QuizAttempt[];
+  trend: QuizAttemptTrend;
+}
+
+// Reviews falling due on each of the coming days; overdue cards count towards today
+export interface ReviewForecastDay {
+  date: string; // YYYY-MM-DD in the user's time zone
+  count: number;
+}
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobType = 'generate-notes' | 'generate-flashcards' | 'generate-quiz' | 'transcribe-audio' | 'transcribe-youtube' | 'index-document' | 'index-note';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
@@ -0,0 +1,32 @@
+// Timestamped transcripts, shared by every time-based source (YouTube captions, audio).
+// Times are in seconds from the start of the media.
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${hours ? mins.toString().padStart(2, '0') : mins}:${secs.toString().padStart(2, '0')}`;
+  return hours ? `${hours}:${mmss}` : mmss;
+}
+
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.text).join("\n");
+}
+
+// One "[mm:ss] text" line per segment, so generated material can cite where a point was made
+export function segmentsToTimestampedText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => `[${formatTimestamp(segment.start)}] ${segment.text}`).join("\n");
+}
+
+// Reads the segments that time-based documents keep in `documents.metadata`
+export function getTranscriptSegments(metadata: unknown): TranscriptSegment[] | null {
+  const segments = (metadata as { segments?: unknown } | null)?.segments;
+  return Array.isArray(segments) && segments.length > 0 ? (segments as TranscriptSegment[]) : null;
+}